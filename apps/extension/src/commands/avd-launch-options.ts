@@ -0,0 +1,263 @@
+import * as vscode from "vscode";
+import {
+  MAX_CONSOLE_PORT,
+  MIN_CONSOLE_PORT,
+  isValidConsolePort,
+  type EmulatorCameraSource,
+  type EmulatorGpuMode,
+  type NetworkDelay,
+  type NetworkSpeed
+} from "@android-devkit/emulator";
+import {
+  formatLaunchOptions,
+  joinArguments,
+  splitArguments,
+  type AvdLaunchOptions,
+  type StoredLaunchOptions
+} from "../models/avd-launch-options";
+
+interface Choice<T> {
+  label: string;
+  value: T | undefined;
+  description?: string;
+}
+
+interface LaunchOptionEditor {
+  label: string;
+  detail: string;
+  /** The current value as shown next to the label; undefined for the AVD's default */
+  format(options: StoredLaunchOptions): string | undefined;
+  /** Ask for a new value; resolves undefined when the prompt was dismissed */
+  edit(options: StoredLaunchOptions, title: string): Promise<StoredLaunchOptions | undefined>;
+}
+
+const DEFAULT_CHOICE = "Default";
+
+const GPU_CHOICES: Choice<EmulatorGpuMode>[] = [
+  { label: DEFAULT_CHOICE, value: undefined, description: "From the AVD's config" },
+  { label: "auto", value: "auto", description: "Host GPU when it works, software otherwise" },
+  { label: "host", value: "host", description: "Host GPU" },
+  { label: "swiftshader_indirect", value: "swiftshader_indirect", description: "Software rendering" },
+  { label: "angle_indirect", value: "angle_indirect", description: "ANGLE on DirectX (Windows)" },
+  { label: "guest", value: "guest", description: "Rendering inside the guest" }
+];
+
+const SPEED_CHOICES: Choice<NetworkSpeed>[] = [
+  { label: DEFAULT_CHOICE, value: undefined },
+  { label: "full", value: "full", description: "No limit" },
+  { label: "lte", value: "lte", description: "58 / 173 Mbps" },
+  { label: "evdo", value: "evdo", description: "75 / 280 Mbps" },
+  { label: "hsdpa", value: "hsdpa", description: "5.76 / 13.98 Mbps" },
+  { label: "umts", value: "umts", description: "384 kbps" },
+  { label: "edge", value: "edge", description: "473.6 kbps" },
+  { label: "gprs", value: "gprs", description: "28.8 / 57.6 kbps" },
+  { label: "hscsd", value: "hscsd", description: "14.4 / 57.6 kbps" },
+  { label: "gsm", value: "gsm", description: "14.4 kbps" }
+];
+
+const DELAY_CHOICES: Choice<NetworkDelay>[] = [
+  { label: DEFAULT_CHOICE, value: undefined },
+  { label: "none", value: "none", description: "No latency" },
+  { label: "umts", value: "umts", description: "35–200 ms" },
+  { label: "edge", value: "edge", description: "80–400 ms" },
+  { label: "gprs", value: "gprs", description: "150–550 ms" }
+];
+
+function cameraChoices(side: "back" | "front"): Choice<EmulatorCameraSource>[] {
+  return [
+    { label: DEFAULT_CHOICE, value: undefined, description: "From the AVD's config" },
+    { label: "emulated", value: "emulated", description: "Animated test pattern" },
+    ...(side === "back"
+      ? [{ label: "virtualscene", value: "virtualscene" as const, description: "3D scene to walk around" }]
+      : []),
+    { label: "webcam0", value: "webcam0", description: "First host webcam" },
+    { label: "webcam1", value: "webcam1", description: "Second host webcam" },
+    { label: "none", value: "none", description: "No camera" }
+  ];
+}
+
+/** Resolves `{ value }`, with an undefined value for the default, or undefined when dismissed */
+async function pickChoice<T>(
+  title: string,
+  choices: Choice<T>[],
+  current: T | undefined
+): Promise<{ value: T | undefined } | undefined> {
+  const picked = await vscode.window.showQuickPick(
+    choices.map((choice) => ({
+      ...choice,
+      picked: choice.value === current,
+      detail: choice.value === current ? "Current" : undefined
+    })),
+    { title }
+  );
+  return picked ? { value: picked.value } : undefined;
+}
+
+/** Resolves the trimmed input, empty to reset, or undefined when dismissed */
+async function inputValue(
+  title: string,
+  prompt: string,
+  current: string | undefined,
+  validate?: (value: string) => string | undefined
+): Promise<string | undefined> {
+  const value = await vscode.window.showInputBox({
+    title,
+    prompt: `${prompt} Leave empty for the default.`,
+    value: current ?? "",
+    validateInput: (v) => (v.trim() && validate ? validate(v.trim()) : undefined)
+  });
+  return value?.trim();
+}
+
+function toggle(
+  label: string,
+  detail: string,
+  key: "noSnapshotLoad" | "noSnapshotSave" | "readOnly"
+): LaunchOptionEditor {
+  return {
+    label,
+    detail,
+    format: (options) => (options[key] ? "On" : undefined),
+    edit: async (options) => ({ [key]: !options[key] })
+  };
+}
+
+function choice<K extends "gpu" | "netSpeed" | "netDelay" | "cameraBack" | "cameraFront">(
+  label: string,
+  detail: string,
+  key: K,
+  choices: Choice<NonNullable<StoredLaunchOptions[K]>>[]
+): LaunchOptionEditor {
+  return {
+    label,
+    detail,
+    format: (options) => options[key],
+    edit: async (options, title) => {
+      const picked = await pickChoice(`${title} — ${label}`, choices, options[key]);
+      return picked ? { [key]: picked.value } : undefined;
+    }
+  };
+}
+
+function positiveInteger(label: string, detail: string, key: "memoryMb" | "cores", unit: string): LaunchOptionEditor {
+  return {
+    label,
+    detail,
+    format: (options) => (options[key] ? `${options[key]}${unit}` : undefined),
+    edit: async (options, title) => {
+      const value = await inputValue(`${title} — ${label}`, detail, options[key]?.toString(), (v) =>
+        /^[1-9]\d*$/.test(v) ? undefined : "Enter a whole number"
+      );
+      return value === undefined ? undefined : { [key]: value ? Number(value) : undefined };
+    }
+  };
+}
+
+const EDITORS: LaunchOptionEditor[] = [
+  choice("GPU Mode", "-gpu: how the emulator renders graphics", "gpu", GPU_CHOICES),
+  positiveInteger("Memory", "-memory: guest RAM in MB, e.g. 4096.", "memoryMb", " MB"),
+  positiveInteger("CPU Cores", "-cores: virtual CPU cores, e.g. 4.", "cores", ""),
+  toggle("Cold Boot", "-no-snapshot-load: boot from scratch instead of the Quick Boot snapshot", "noSnapshotLoad"),
+  toggle("Don't Save Quick Boot Snapshot", "-no-snapshot-save: discard the state on exit", "noSnapshotSave"),
+  toggle("Read-Only", "-read-only: run several instances of this AVD; changes are discarded", "readOnly"),
+  choice("Network Speed", "-netspeed: upload / download speed", "netSpeed", SPEED_CHOICES),
+  choice("Network Latency", "-netdelay: added latency", "netDelay", DELAY_CHOICES),
+  {
+    label: "DNS Servers",
+    detail: "-dns-server: comma-separated addresses",
+    format: (options) => options.dnsServers?.join(", "),
+    edit: async (options, title) => {
+      const value = await inputValue(
+        `${title} — DNS Servers`,
+        "-dns-server: comma-separated addresses, e.g. 8.8.8.8, 1.1.1.1.",
+        options.dnsServers?.join(", "),
+        (v) => (/^[\w.:-]+(\s*,\s*[\w.:-]+)*$/.test(v) ? undefined : "Separate addresses with commas")
+      );
+      if (value === undefined) return undefined;
+      return { dnsServers: value ? value.split(/\s*,\s*/) : undefined };
+    }
+  },
+  {
+    label: "HTTP Proxy",
+    detail: "-http-proxy: proxy for the guest's HTTP and HTTPS traffic",
+    format: (options) => options.httpProxy,
+    edit: async (options, title) => {
+      const value = await inputValue(
+        `${title} — HTTP Proxy`,
+        "-http-proxy, e.g. http://proxy.example.com:8080 or user:pass@host:port.",
+        options.httpProxy
+      );
+      return value === undefined ? undefined : { httpProxy: value || undefined };
+    }
+  },
+  choice("Back Camera", "-camera-back", "cameraBack", cameraChoices("back")),
+  choice("Front Camera", "-camera-front", "cameraFront", cameraChoices("front")),
+  {
+    label: "Console Port",
+    detail: "-port: the emulator's serial becomes emulator-<port>",
+    format: (options) => options.port?.toString(),
+    edit: async (options, title) => {
+      const value = await inputValue(
+        `${title} — Console Port`,
+        `-port: an even number from ${MIN_CONSOLE_PORT} to ${MAX_CONSOLE_PORT}; adb connects to the next port.`,
+        options.port?.toString(),
+        (v) =>
+          isValidConsolePort(Number(v))
+            ? undefined
+            : `Enter an even number from ${MIN_CONSOLE_PORT} to ${MAX_CONSOLE_PORT}`
+      );
+      return value === undefined ? undefined : { port: value ? Number(value) : undefined };
+    }
+  },
+  {
+    label: "Extra Arguments",
+    detail: "Passed to the emulator as typed",
+    format: (options) => (options.extraArgs?.length ? joinArguments(options.extraArgs) : undefined),
+    edit: async (options, title) => {
+      const value = await inputValue(
+        `${title} — Extra Arguments`,
+        "Emulator arguments, e.g. -no-audio -feature -Vulkan.",
+        options.extraArgs ? joinArguments(options.extraArgs) : undefined
+      );
+      return value === undefined ? undefined : { extraArgs: value ? splitArguments(value) : undefined };
+    }
+  }
+];
+
+/**
+ * Edit the launch options saved for an AVD: a list of every option with its
+ * current value, shown again after each change until dismissed.
+ */
+export async function editAvdLaunchOptions(avdName: string, store: AvdLaunchOptions): Promise<void> {
+  const title = `Launch Options: ${avdName.replace(/_/g, " ")}`;
+
+  for (;;) {
+    const options = store.get(avdName);
+    const summary = formatLaunchOptions(options);
+    const picked = await vscode.window.showQuickPick(
+      [
+        ...EDITORS.map((editor) => ({
+          label: editor.label,
+          description: editor.format(options) ?? DEFAULT_CHOICE,
+          detail: editor.detail,
+          editor
+        })),
+        { label: "", kind: vscode.QuickPickItemKind.Separator },
+        { label: "$(discard) Reset All to Defaults", editor: undefined }
+      ],
+      {
+        title,
+        placeHolder: summary ? `emulator -avd ${avdName} ${summary}` : "Every option uses the AVD's defaults"
+      }
+    );
+    if (!picked) return;
+
+    if (!picked.editor) {
+      await store.reset(avdName);
+      continue;
+    }
+
+    const changes = await picked.editor.edit(options, title);
+    if (changes) await store.update(avdName, changes);
+  }
+}
@@ -1,19 +1,84 @@
 import * as vscode from "vscode";
+import { isValidSnapshotName } from "@android-devkit/emulator";
 import type { SdkService } from "../services/sdk";
 import type { AdbService } from "../services/adb";
+import type { EmulatorConsoleService } from "../services/emulator-console";
 import type { ScrcpyService } from "../services/scrcpy";
+import { resolveLaunchOptions, type AvdLaunchOptions } from "../models/avd-launch-options";
 import type { AvdManagerProvider } from "../views/avd-manager";
-import { AvdItem } from "../views/avd-manager";
+import { AvdItem, SnapshotItem, SnapshotsItem } from "../views/avd-manager";
 import { ScrcpyPanel } from "../webviews/scrcpy";
 import { getEmulatorLaunchMode } from "../config/settings";
 import { ANDROID_DEVKIT_COMMANDS } from "./ids";
+import { editAvdLaunchOptions } from "./avd-launch-options";
+
+/**
+ * Launch an AVD with its saved launch options, in a separate window or
+ * embedded, as `emulator.launchMode` says
+ */
+async function launchAvdInMode(
+  context: vscode.ExtensionContext,
+  sdkService: SdkService,
+  adbService: AdbService,
+  scrcpyService: ScrcpyService,
+  launchOptions: AvdLaunchOptions,
+  name: string,
+  snapshot?: string
+): Promise<void> {
+  const launchMode = getEmulatorLaunchMode();
+  const options = resolveLaunchOptions(launchOptions.get(name), snapshot);
+
+  try {
+    if (launchMode === "external") {
+      sdkService.launchAvd(name, options);
+      vscode.window.showInformationMessage(
+        snapshot ? `Launching emulator: ${name} from snapshot ${snapshot}` : `Launching emulator: ${name}`
+      );
+    } else {
+      sdkService.launchAvd(name, { ...options, noWindow: true });
+      await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: "Waiting for emulator...", cancellable: true },
+        async (_progress, token) => {
+          const pollInterval = 1000;
+          const timeout = 60000;
+          const start = Date.now();
+
+          while (Date.now() - start < timeout) {
+            if (token.isCancellationRequested) return;
+
+            const devices = await adbService.getDevices();
+            for (const device of devices) {
+              if (device.state === "device" && device.serial.startsWith("emulator-")) {
+                const avdName = await adbService.getEmulatorAvdName(device.serial);
+                if (avdName === name) {
+                  const displayName = name.replace(/_/g, " ");
+                  ScrcpyPanel.show(context, scrcpyService, device.serial, displayName);
+                  return;
+                }
+              }
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, pollInterval));
+          }
+
+          vscode.window.showWarningMessage(`Timed out waiting for emulator "${name}" to start.`);
+        }
+      );
+    }
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : "Unknown error";
+    vscode.window.showErrorMessage(`Failed to launch AVD: ${msg}`);
+  }
+}
 
 export function registerAvdCommands(
   context: vscode.ExtensionContext,
   sdkService: SdkService,
   avdManagerProvider: AvdManagerProvider,
   adbService: AdbService,
-  scrcpyService: ScrcpyService
+  scrcpyService: ScrcpyService,
+  emulatorConsole: EmulatorConsoleService,
+  launchOptions: AvdLaunchOptions
 ): void {
   context.subscriptions.push(
     vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.refreshAvds, () => {
@@ -116,47 +181,7 @@ export function registerAvdCommands(
 
       if (!name) return;
 
-      const launchMode = getEmulatorLaunchMode();
-
-      try {
-        if (launchMode === "external") {
-          sdkService.launchAvd(name);
-          vscode.window.showInformationMessage(`Launching emulator: ${name}`);
-        } else {
-          sdkService.launchAvd(name, { noWindow: true });
-          await vscode.window.withProgress(
-            { location: vscode.ProgressLocation.Notification, title: "Waiting for emulator...", cancellable: true },
-            async (_progress, token) => {
-              const pollInterval = 1000;
-              const timeout = 60000;
-              const start = Date.now();
-
-              while (Date.now() - start < timeout) {
-                if (token.isCancellationRequested) return;
-
-                const devices = await adbService.getDevices();
-                for (const device of devices) {
-                  if (device.state === "device" && device.serial.startsWith("emulator-")) {
-                    const avdName = await adbService.getEmulatorAvdName(device.serial);
-                    if (avdName === name) {
-                      const displayName = name.replace(/_/g, " ");
-                      ScrcpyPanel.show(context, scrcpyService, device.serial, displayName);
-                      return;
-                    }
-                  }
-                }
-
-                await new Promise((resolve) => setTimeout(resolve, pollInterval));
-              }
-
-              vscode.window.showWarningMessage(`Timed out waiting for emulator "${name}" to start.`);
-            }
-          );
-        }
-      } catch (error) {
-        const msg = error instanceof Error ? error.message : "Unknown error";
-        vscode.window.showErrorMessage(`Failed to launch AVD: ${msg}`);
-      }
+      await launchAvdInMode(context, sdkService, adbService, scrcpyService, launchOptions, name);
     }),
 
     vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.deleteAvd, async (item?: AvdItem) => {
@@ -198,6 +223,128 @@ export function registerAvdCommands(
         const msg = error instanceof Error ? error.message : "Unknown error";
         vscode.window.showErrorMessage(`Failed to wipe AVD data: ${msg}`);
       }
+    }),
+
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.editAvdLaunchOptions, async (item?: AvdItem) => {
+      let name = item instanceof AvdItem ? item.avd.name : undefined;
+      if (!name) {
+        const avds = await sdkService.listAvds().catch(() => []);
+        const choice = await vscode.window.showQuickPick(
+          avds.map((a) => ({ label: a.name.replace(/_/g, " "), description: a.target, name: a.name })),
+          { title: "Edit Launch Options", placeHolder: "Select an AVD" }
+        );
+        name = choice?.name;
+      }
+      if (!name) return;
+
+      await editAvdLaunchOptions(name, launchOptions);
+      avdManagerProvider.refresh();
+    }),
+
+    // Snapshots of a running emulator go through its console
+    vscode.commands.registerCommand(
+      ANDROID_DEVKIT_COMMANDS.saveAvdSnapshot,
+      async (item?: AvdItem | SnapshotsItem) => {
+        if (!(item instanceof AvdItem || item instanceof SnapshotsItem)) return;
+        const { serial } = item;
+        if (!serial) {
+          vscode.window.showWarningMessage(`Start "${item.avd.name}" to save a snapshot.`);
+          return;
+        }
+
+        const name = await vscode.window.showInputBox({
+          title: `Save Snapshot of ${item.avd.name}`,
+          prompt: "Snapshot name; saving under an existing name replaces that snapshot",
+          placeHolder: "logged_in",
+          validateInput: (v) =>
+            isValidSnapshotName(v.trim()) ? undefined : "Use letters, digits, '.', '-' and '_' only"
+        });
+        if (!name) return;
+
+        try {
+          await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Saving snapshot "${name.trim()}"…` },
+            () => emulatorConsole.run(serial, (console) => console.saveSnapshot(name.trim()))
+          );
+          vscode.window.showInformationMessage(`✓ Snapshot "${name.trim()}" saved.`);
+          avdManagerProvider.refresh();
+        } catch (error) {
+          const msg = error instanceof Error ? error.message : "Unknown error";
+          vscode.window.showErrorMessage(`Failed to save snapshot: ${msg}`);
+        }
+      }
+    ),
+
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.loadAvdSnapshot, async (item?: SnapshotItem) => {
+      if (!(item instanceof SnapshotItem) || !item.serial) return;
+      const { serial, snapshotName } = item;
+
+      try {
+        await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `Loading snapshot "${snapshotName}"…` },
+          () => emulatorConsole.run(serial, (console) => console.loadSnapshot(snapshotName))
+        );
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : "Unknown error";
+        vscode.window.showErrorMessage(`Failed to load snapshot: ${msg}`);
+      }
+    }),
+
+    // Boot a stopped AVD from a snapshot instead of the Quick Boot one
+    vscode.commands.registerCommand(
+      ANDROID_DEVKIT_COMMANDS.launchAvdFromSnapshot,
+      async (item?: SnapshotItem | AvdItem) => {
+        if (!(item instanceof SnapshotItem || item instanceof AvdItem)) return;
+
+        let snapshotName = item instanceof SnapshotItem ? item.snapshotName : undefined;
+        if (!snapshotName) {
+          const snapshots = await sdkService.listAvdSnapshots(item.avd).catch(() => []);
+          if (snapshots.length === 0) {
+            vscode.window.showInformationMessage(`"${item.avd.name}" has no snapshots.`);
+            return;
+          }
+          const choice = await vscode.window.showQuickPick(
+            snapshots.map((s) => ({ label: s.name, description: s.modified.toLocaleString() })),
+            { title: `Launch ${item.avd.name} from Snapshot`, placeHolder: "Select a snapshot" }
+          );
+          snapshotName = choice?.label;
+        }
+        if (!snapshotName) return;
+
+        await launchAvdInMode(
+          context,
+          sdkService,
+          adbService,
+          scrcpyService,
+          launchOptions,
+          item.avd.name,
+          snapshotName
+        );
+      }
+    ),
+
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.deleteAvdSnapshot, async (item?: SnapshotItem) => {
+      if (!(item instanceof SnapshotItem)) return;
+      const { avd, serial, snapshotName } = item;
+
+      const confirm = await vscode.window.showWarningMessage(
+        `Delete snapshot "${snapshotName}" of "${avd.name}"?`,
+        { modal: true },
+        "Delete"
+      );
+      if (confirm !== "Delete") return;
+
+      try {
+        if (serial) {
+          await emulatorConsole.run(serial, (console) => console.deleteSnapshot(snapshotName));
+        } else {
+          await sdkService.deleteAvdSnapshot(avd, snapshotName);
+        }
+        avdManagerProvider.refresh();
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : "Unknown error";
+        vscode.window.showErrorMessage(`Failed to delete snapshot: ${msg}`);
+      }
     })
   );
 }
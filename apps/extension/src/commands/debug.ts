@@ -0,0 +1,89 @@
+import * as vscode from "vscode";
+import type { AdbService } from "../services/adb";
+import type { DeviceTreeItem } from "../views/devices";
+import {
+  ANDROID_DEBUG_TYPE,
+  pickDebuggableProcess,
+  type AndroidDebugConfiguration,
+  type AndroidDebugConfigurationProvider,
+} from "../debug/configuration";
+import { ANDROID_DEVKIT_COMMANDS } from "./ids";
+import { selectDevice } from "./devices";
+
+const JAVA_DEBUGGER_EXTENSION_ID = "vscjava.vscode-java-debug";
+
+export function registerDebugCommands(
+  context: vscode.ExtensionContext,
+  adbService: AdbService,
+  configurationProvider: AndroidDebugConfigurationProvider,
+): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.attachDebugger, async (item?: DeviceTreeItem) => {
+      const serial = item?.device?.serial ?? (await selectDevice(adbService, context));
+      if (!serial) return;
+
+      try {
+        const process = await pickDebuggableProcess(adbService, serial);
+        if (!process) return;
+
+        const port = await configurationProvider.forwardProcess(serial, process.pid);
+        const name = `Attach to ${process.name} (${process.pid})`;
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        const releaseForward = () =>
+          configurationProvider.releaseForward({ type: ANDROID_DEBUG_TYPE, request: "attach", name, serial, port });
+        // A session that started releases the forward when it ends; one that didn't must release it here
+        const debug = async (config: vscode.DebugConfiguration) => {
+          let started: boolean;
+          try {
+            started = await vscode.debug.startDebugging(folder, config);
+          } catch (err) {
+            await releaseForward().catch(() => undefined);
+            throw err;
+          }
+          if (!started) await releaseForward();
+        };
+
+        const actions = ["Debug", "Copy Port"];
+        // Any JDWP debugger can use the forward; the Java debugger gets a shortcut when installed
+        if (vscode.extensions.getExtension(JAVA_DEBUGGER_EXTENSION_ID)) {
+          actions.splice(1, 0, "Debug with Java Debugger");
+        }
+        const action = await vscode.window.showInformationMessage(
+          `${process.name} is forwarded to localhost:${port}.`,
+          ...actions,
+        );
+
+        if (action === "Debug") {
+          const config: AndroidDebugConfiguration = {
+            type: ANDROID_DEBUG_TYPE,
+            request: "attach",
+            name,
+            serial,
+            pid: process.pid,
+            port,
+          };
+          await debug(config);
+        } else if (action === "Debug with Java Debugger") {
+          await debug({
+            type: "java",
+            request: "attach",
+            name,
+            hostName: "localhost",
+            port,
+            serial,
+          });
+        } else if (action === "Copy Port") {
+          await vscode.env.clipboard.writeText(String(port));
+          vscode.window.showInformationMessage(
+            `Copied port ${port}. Remove the forward with: adb -s ${serial} forward --remove tcp:${port}`,
+          );
+        } else {
+          await releaseForward();
+        }
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        vscode.window.showErrorMessage(`Attach debugger failed: ${msg}`);
+      }
+    }),
+  );
+}
@@ -0,0 +1,278 @@
+import * as vscode from "vscode";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { writeApksArchive, type InstalledPackage } from "@android-devkit/adb";
+import type { AdbService } from "../../services/adb";
+import type { AppPackageItem } from "../../views/app-components";
+import type { DevicesTreeProvider } from "../../views/devices";
+import type { FileExplorerProvider } from "../../views/file-explorer";
+import { ANDROID_DEVKIT_COMMANDS, VS_CODE_COMMANDS } from "../ids";
+import { selectDevice } from "./select-device";
+
+function showFailure(label: string, error: unknown): void {
+  const message = error instanceof Error ? error.message : "Unknown error";
+  vscode.window.showErrorMessage(`${label} failed: ${message}`);
+}
+
+/** Device and package for the command palette, where no tree item is passed */
+async function pickInstalledPackage(
+  adbService: AdbService,
+  context: vscode.ExtensionContext
+): Promise<{ serial: string; packageName: string } | undefined> {
+  const serial = await selectDevice(adbService, context);
+  if (!serial) return undefined;
+
+  let packages: InstalledPackage[];
+  try {
+    packages = await adbService.listInstalledPackages(serial);
+  } catch (error) {
+    showFailure("Listing packages", error);
+    return undefined;
+  }
+  const picked = await vscode.window.showQuickPick(
+    packages
+      .sort((a, b) => Number(a.system) - Number(b.system) || a.packageName.localeCompare(b.packageName))
+      .map((pkg) => ({ label: pkg.packageName, description: pkg.system ? "system" : undefined })),
+    { placeHolder: "Select an installed app", matchOnDescription: true }
+  );
+  return picked ? { serial, packageName: picked.label } : undefined;
+}
+
+async function revealPulled(message: string, localPath: string): Promise<void> {
+  const action = await vscode.window.showInformationMessage(message, "Reveal in File Explorer");
+  if (action === "Reveal in File Explorer") {
+    await vscode.commands.executeCommand(VS_CODE_COMMANDS.revealFileInOs, vscode.Uri.file(localPath));
+  }
+}
+
+async function pullSingleApk(
+  adbService: AdbService,
+  serial: string,
+  packageName: string,
+  remotePath: string
+): Promise<void> {
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(`${packageName}.apk`),
+    filters: { "Android Packages": ["apk"] },
+    title: "Pull APK",
+  });
+  if (!uri) return;
+
+  try {
+    await adbService.pullFile(serial, remotePath, uri.fsPath);
+    await revealPulled(`Pulled ${packageName}.apk`, uri.fsPath);
+  } catch (error) {
+    showFailure("Pull APK", error);
+  }
+}
+
+async function pullApksToFolder(adbService: AdbService, serial: string, packageName: string): Promise<void> {
+  const folder = await vscode.window.showOpenDialog({
+    canSelectFolders: true,
+    canSelectFiles: false,
+    openLabel: "Pull Here",
+    title: `Pull APKs of ${packageName}`,
+  });
+  if (!folder || folder.length === 0) return;
+
+  const localDir = path.join(folder[0].fsPath, packageName);
+  try {
+    const pulled = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Pulling APKs of ${packageName}...` },
+      async () => {
+        await fs.mkdir(localDir, { recursive: true });
+        return adbService.pullApks(serial, packageName, localDir);
+      }
+    );
+    await revealPulled(`Pulled ${pulled.length} APKs to ${localDir}`, pulled[0]);
+  } catch (error) {
+    showFailure("Pull APKs", error);
+  }
+}
+
+async function pullApksArchive(adbService: AdbService, serial: string, packageName: string): Promise<void> {
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(`${packageName}.apks`),
+    filters: { "APK Sets": ["apks"] },
+    title: "Bundle APKs",
+  });
+  if (!uri) return;
+
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "android-devkit-apks-"));
+  try {
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Bundling APKs of ${packageName}...` },
+      async () => writeApksArchive(await adbService.pullApks(serial, packageName, tempDir), uri.fsPath)
+    );
+    await revealPulled(`Saved ${path.basename(uri.fsPath)}`, uri.fsPath);
+  } catch (error) {
+    showFailure("Bundle APKs", error);
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+export function registerAppCommands(
+  context: vscode.ExtensionContext,
+  adbService: AdbService,
+  devicesProvider: DevicesTreeProvider,
+  fileExplorerProvider: FileExplorerProvider
+): void {
+  // Launch an installed app through its launcher activity
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      ANDROID_DEVKIT_COMMANDS.launchInstalledApp,
+      async (item?: AppPackageItem) => {
+        if (!item) return;
+
+        try {
+          await adbService.launchApp(item.serial, item.packageName);
+        } catch (error) {
+          showFailure("Launch", error);
+        }
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      ANDROID_DEVKIT_COMMANDS.forceStopInstalledApp,
+      async (item?: AppPackageItem) => {
+        if (!item) return;
+
+        try {
+          await adbService.forceStopApp(item.serial, item.packageName);
+          vscode.window.showInformationMessage(`${item.packageName} stopped.`);
+        } catch (error) {
+          showFailure("Force stop", error);
+        }
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      ANDROID_DEVKIT_COMMANDS.clearInstalledAppData,
+      async (item?: AppPackageItem) => {
+        if (!item) return;
+
+        const confirm = await vscode.window.showWarningMessage(
+          `Clear all data for ${item.packageName}?`,
+          { modal: true },
+          "Clear Data"
+        );
+        if (confirm !== "Clear Data") return;
+
+        try {
+          await adbService.clearAppData(item.serial, item.packageName);
+          vscode.window.showInformationMessage(`Data cleared for ${item.packageName}.`);
+        } catch (error) {
+          showFailure("Clear data", error);
+        }
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      ANDROID_DEVKIT_COMMANDS.uninstallInstalledApp,
+      async (item?: AppPackageItem) => {
+        if (!item) return;
+
+        const confirm = await vscode.window.showWarningMessage(
+          `Uninstall ${item.packageName} from device?`,
+          { modal: true },
+          "Uninstall"
+        );
+        if (confirm !== "Uninstall") return;
+
+        try {
+          await adbService.uninstallPackage(item.serial, item.packageName);
+          vscode.window.showInformationMessage(`${item.packageName} uninstalled.`);
+          devicesProvider.refresh();
+        } catch (error) {
+          showFailure("Uninstall", error);
+        }
+      }
+    )
+  );
+
+  // Pull the base and split APKs of an installed app, e.g. to inspect what the Play Store delivered
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      ANDROID_DEVKIT_COMMANDS.pullInstalledApk,
+      async (item?: AppPackageItem) => {
+        const target = item ?? (await pickInstalledPackage(adbService, context));
+        if (!target) return;
+        const { serial, packageName } = target;
+
+        let apkPaths: string[];
+        try {
+          apkPaths = await adbService.getApkPaths(serial, packageName);
+        } catch (error) {
+          showFailure("Pull APK", error);
+          return;
+        }
+
+        if (apkPaths.length === 1) {
+          await pullSingleApk(adbService, serial, packageName, apkPaths[0]);
+          return;
+        }
+
+        const mode = await vscode.window.showQuickPick(
+          [
+            {
+              label: "Pull to Folder",
+              detail: `Save the ${apkPaths.length} APKs into a ${packageName} folder`,
+              archive: false,
+            },
+            {
+              label: "Bundle as .apks",
+              detail: "Save the base and split APKs as one archive",
+              archive: true,
+            },
+          ],
+          { placeHolder: apkPaths.map((apkPath) => path.posix.basename(apkPath)).join(", ") }
+        );
+        if (!mode) return;
+
+        if (mode.archive) {
+          await pullApksArchive(adbService, serial, packageName);
+        } else {
+          await pullApksToFolder(adbService, serial, packageName);
+        }
+      }
+    )
+  );
+
+  // Browse an app's private or external data directory in the File Explorer
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      ANDROID_DEVKIT_COMMANDS.openAppDataDirectory,
+      async (item?: AppPackageItem) => {
+        if (!item) return;
+
+        const details = await adbService.getPackageDetails(item.serial, item.packageName).catch(() => undefined);
+        const picked = await vscode.window.showQuickPick(
+          [
+            {
+              label: "Internal Data",
+              description: details?.dataDir ?? `/data/user/0/${item.packageName}`,
+              detail: "Needs a rooted device or emulator image",
+            },
+            {
+              label: "External Data",
+              description: `/sdcard/Android/data/${item.packageName}`,
+            },
+          ],
+          { placeHolder: item.packageName }
+        );
+        if (!picked) return;
+
+        fileExplorerProvider.setDevice(item.serial, picked.description);
+        vscode.commands.executeCommand(ANDROID_DEVKIT_COMMANDS.focusFileExplorer);
+      }
+    )
+  );
+}
@@ -0,0 +1,160 @@
+import * as vscode from "vscode";
+import { parseIntentExtras, type IntentExtra } from "@android-devkit/adb";
+import type { AdbService } from "../../services/adb";
+import type { AppComponentItem } from "../../views/app-components";
+import { ANDROID_DEVKIT_COMMANDS } from "../ids";
+
+/** The last line of `am` output, e.g. `Broadcast completed: result=0` */
+function lastLine(output: string): string {
+  return output.split("\n").pop()?.trim() ?? "";
+}
+
+function showFailure(label: string, error: unknown): void {
+  const message = error instanceof Error ? error.message : "Unknown error";
+  vscode.window.showErrorMessage(`${label} failed: ${message}`);
+}
+
+async function promptForExtras(): Promise<IntentExtra[] | undefined> {
+  const text = await vscode.window.showInputBox({
+    title: "Intent Extras",
+    prompt: "Optional extras, as am takes them",
+    placeHolder: '--es user "Jane Doe" --ei count 3 --ez debug true --el since 0 --eia ids 1,2',
+    validateInput: (value) => {
+      try {
+        parseIntentExtras(value);
+        return null;
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+    },
+  });
+  return text === undefined ? undefined : parseIntentExtras(text);
+}
+
+export function registerComponentCommands(
+  context: vscode.ExtensionContext,
+  adbService: AdbService
+): void {
+  // Start an activity by its explicit component name
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      ANDROID_DEVKIT_COMMANDS.startAppActivity,
+      async (item?: AppComponentItem) => {
+        if (!item) return;
+
+        try {
+          await adbService.startActivity(item.serial, { component: item.component.name });
+          vscode.window.showInformationMessage(`Started ${item.component.name}`);
+        } catch (error) {
+          showFailure("Start activity", error);
+        }
+      }
+    )
+  );
+
+  // Start a service, in the foreground when the app isn't running
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      ANDROID_DEVKIT_COMMANDS.startAppService,
+      async (item?: AppComponentItem) => {
+        if (!item) return;
+
+        const mode = await vscode.window.showQuickPick(
+          [
+            { label: "Start Service", detail: "am startservice", foreground: false },
+            {
+              label: "Start Foreground Service",
+              detail: "am start-foreground-service — needed on Android 8.0+ while the app is in the background",
+              foreground: true,
+            },
+          ],
+          { placeHolder: item.component.name }
+        );
+        if (!mode) return;
+
+        try {
+          await adbService.startService(
+            item.serial,
+            { component: item.component.name },
+            { foreground: mode.foreground }
+          );
+          vscode.window.showInformationMessage(`Started ${item.component.name}`);
+        } catch (error) {
+          showFailure("Start service", error);
+        }
+      }
+    )
+  );
+
+  // Send an explicit broadcast, with one of the receiver's actions and extras
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      ANDROID_DEVKIT_COMMANDS.sendAppBroadcast,
+      async (item?: AppComponentItem) => {
+        if (!item) return;
+
+        const actions = [...new Set(item.component.filters.flatMap((filter) => filter.actions))];
+        let action: string | undefined;
+        if (actions.length > 0) {
+          const picked = await vscode.window.showQuickPick(
+            [...actions.map((value) => ({ label: value, action: value })), { label: "No action", action: undefined }],
+            { placeHolder: "Broadcast action" }
+          );
+          if (!picked) return;
+          action = picked.action;
+        }
+
+        const extras = await promptForExtras();
+        if (!extras) return;
+
+        try {
+          const output = await adbService.sendBroadcast(item.serial, {
+            action,
+            component: item.component.name,
+            extras,
+          });
+          vscode.window.showInformationMessage(lastLine(output) || `Sent broadcast to ${item.component.name}`);
+        } catch (error) {
+          showFailure("Broadcast", error);
+        }
+      }
+    )
+  );
+
+  // Query a provider URI and open the rows as JSON
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      ANDROID_DEVKIT_COMMANDS.queryAppProvider,
+      async (item?: AppComponentItem) => {
+        if (!item) return;
+
+        const authority = item.component.authorities[0] ?? item.component.className;
+        const uri = await vscode.window.showInputBox({
+          title: `Query ${item.component.name}`,
+          prompt: "Content URI",
+          value: `content://${authority}/`,
+          validateInput: (value) => (value.startsWith("content://") ? null : "URI must start with content://"),
+        });
+        if (!uri) return;
+
+        try {
+          const rows = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Querying ${uri}...` },
+            () => adbService.queryContentProvider(item.serial, uri)
+          );
+          if (rows.length === 0) {
+            vscode.window.showInformationMessage(`No rows returned by ${uri}`);
+            return;
+          }
+          const document = await vscode.workspace.openTextDocument({
+            language: "json",
+            content: JSON.stringify(rows, null, 2),
+          });
+          await vscode.window.showTextDocument(document, { preview: false });
+        } catch (error) {
+          showFailure("Provider query", error);
+        }
+      }
+    )
+  );
+}
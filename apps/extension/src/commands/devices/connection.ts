@@ -1,12 +1,47 @@
 import * as vscode from "vscode";
 import type { AdbService } from "../../services/adb";
+import { findConnectedDevice, type WirelessDiscoveryService } from "../../services/wireless-discovery";
 import type { DevicesTreeProvider, DeviceTreeItem } from "../../views/devices";
+import type { DiscoveredServiceItem } from "../../views/wireless-devices";
+import { WirelessPairingPanel } from "../../webviews/wireless-pairing";
 import { ANDROID_DEVKIT_COMMANDS } from "../ids";
 import { selectDevice } from "./select-device";
 
+function promptForPairingCode(): Thenable<string | undefined> {
+  return vscode.window.showInputBox({
+    prompt: "Enter the 6-digit pairing code shown on the device",
+    placeHolder: "123456",
+    validateInput: (value) => {
+      if (!value || value.length < 6) return "Enter the pairing code from the device";
+      return null;
+    },
+  });
+}
+
+async function connectAndReport(
+  adbService: AdbService,
+  devicesProvider: DevicesTreeProvider,
+  host: string,
+  port: number
+): Promise<void> {
+  try {
+    const result = await adbService.connectWireless(host, port);
+    if (result.includes("connected") || result.includes("already")) {
+      vscode.window.showInformationMessage(`Connected to ${host}:${port}`);
+      devicesProvider.refresh();
+    } else {
+      vscode.window.showWarningMessage(`Connection result: ${result}`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    vscode.window.showErrorMessage(`Failed to connect: ${message}`);
+  }
+}
+
 export function registerConnectionCommands(
   context: vscode.ExtensionContext,
   adbService: AdbService,
+  wirelessDiscovery: WirelessDiscoveryService,
   devicesProvider: DevicesTreeProvider
 ): void {
   // Refresh devices
@@ -35,18 +70,7 @@ export function registerConnectionCommands(
       const [host, portStr] = input.split(":");
       const port = portStr ? parseInt(portStr, 10) : 5555;
 
-      try {
-        const result = await adbService.connectWireless(host, port);
-        if (result.includes("connected") || result.includes("already")) {
-          vscode.window.showInformationMessage(`Connected to ${host}:${port}`);
-          devicesProvider.refresh();
-        } else {
-          vscode.window.showWarningMessage(`Connection result: ${result}`);
-        }
-      } catch (error) {
-        const message = error instanceof Error ? error.message : "Unknown error";
-        vscode.window.showErrorMessage(`Failed to connect: ${message}`);
-      }
+      await connectAndReport(adbService, devicesProvider, host, port);
     })
   );
 
@@ -68,15 +92,7 @@ export function registerConnectionCommands(
       const [host, portStr] = hostInput.split(":");
       const port = parseInt(portStr, 10);
 
-      const pairingCode = await vscode.window.showInputBox({
-        prompt: "Enter the 6-digit pairing code shown on the device",
-        placeHolder: "123456",
-        validateInput: (value) => {
-          if (!value || value.length < 6) return "Enter the pairing code from the device";
-          return null;
-        },
-      });
-
+      const pairingCode = await promptForPairingCode();
       if (!pairingCode) return;
 
       try {
@@ -94,6 +110,64 @@ export function registerConnectionCommands(
     })
   );
 
+  // Pair a device found via mDNS, then connect to its connect port
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      ANDROID_DEVKIT_COMMANDS.pairDiscoveredDevice,
+      async (item?: DiscoveredServiceItem) => {
+        if (!item) return;
+        const { service } = item;
+
+        const pairingCode = await promptForPairingCode();
+        if (!pairingCode) return;
+
+        try {
+          const result = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Pairing with ${service.address}...` },
+            () => adbService.pairDevice(service.host, service.port, pairingCode)
+          );
+          if (!result.toLowerCase().includes("success")) {
+            vscode.window.showWarningMessage(`Pairing result: ${result}`);
+            return;
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Unknown error";
+          vscode.window.showErrorMessage(`Failed to pair: ${message}`);
+          return;
+        }
+
+        // The ADB server usually connects to a freshly paired device on its own
+        const services = await wirelessDiscovery.refresh();
+        const devices = await adbService.getDevices().catch(() => []);
+        const connect = services.find((candidate) => candidate.kind === "connect" && candidate.host === service.host);
+        if (connect && !findConnectedDevice(connect, devices)) {
+          await connectAndReport(adbService, devicesProvider, connect.host, connect.port);
+        } else {
+          vscode.window.showInformationMessage(`Paired with device at ${service.host}`);
+          devicesProvider.refresh();
+        }
+      }
+    )
+  );
+
+  // Connect to a paired device found via mDNS
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      ANDROID_DEVKIT_COMMANDS.connectDiscoveredDevice,
+      async (item?: DiscoveredServiceItem) => {
+        if (!item) return;
+        await connectAndReport(adbService, devicesProvider, item.service.host, item.service.port);
+      }
+    )
+  );
+
+  // Pair by scanning a QR code from the device's Wireless debugging screen
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.pairDeviceWithQrCode, () => {
+      WirelessPairingPanel.show(context, adbService, wirelessDiscovery);
+    })
+  );
+
   // Enable TCP/IP mode on USB device
   context.subscriptions.push(
     vscode.commands.registerCommand(
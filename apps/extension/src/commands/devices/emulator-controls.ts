@@ -0,0 +1,37 @@
+import * as vscode from "vscode";
+import type { AdbService } from "../../services/adb";
+import type { EmulatorConsoleService } from "../../services/emulator-console";
+import { AvdItem } from "../../views/avd-manager";
+import { DeviceTreeItem, type DevicesTreeProvider } from "../../views/devices";
+import { EmulatorControlsPanel } from "../../webviews/emulator-controls";
+import { ANDROID_DEVKIT_COMMANDS } from "../ids";
+
+export function registerEmulatorControlsCommands(
+  context: vscode.ExtensionContext,
+  adbService: AdbService,
+  emulatorConsole: EmulatorConsoleService,
+  devicesProvider: DevicesTreeProvider
+): void {
+  // Network, airplane mode and battery controls for a running emulator
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      ANDROID_DEVKIT_COMMANDS.openEmulatorControls,
+      (item?: DeviceTreeItem | AvdItem) => {
+        let serial: string | undefined;
+        if (item instanceof DeviceTreeItem) {
+          if (!item.device.isEmulator) {
+            vscode.window.showWarningMessage("Emulator controls are only available for emulators");
+            return;
+          }
+          serial = item.device.serial;
+        } else if (item instanceof AvdItem) {
+          serial = item.serial;
+        } else if (devicesProvider.selectedDevice?.isEmulator) {
+          serial = devicesProvider.selectedDevice.serial;
+        }
+
+        EmulatorControlsPanel.show(context, adbService, emulatorConsole, devicesProvider, serial);
+      }
+    )
+  );
+}
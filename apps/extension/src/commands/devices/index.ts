@@ -1,11 +1,17 @@
 import * as vscode from "vscode";
 import type { AdbService } from "../../services/adb";
+import type { EmulatorConsoleService } from "../../services/emulator-console";
 import type { ScrcpyService } from "../../services/scrcpy";
+import type { WirelessDiscoveryService } from "../../services/wireless-discovery";
 import type { DevicesTreeProvider } from "../../views/devices";
 import type { FileExplorerProvider } from "../../views/file-explorer";
 import { registerConnectionCommands } from "./connection";
 import { registerInteractionCommands } from "./interaction";
 import { registerCaptureCommands } from "./capture";
+import { registerPropertiesCommands } from "./properties";
+import { registerComponentCommands } from "./components";
+import { registerAppCommands } from "./apps";
+import { registerEmulatorControlsCommands } from "./emulator-controls";
 
 export { selectDevice } from "./select-device";
 
@@ -13,10 +19,16 @@ export function registerDeviceCommands(
   context: vscode.ExtensionContext,
   adbService: AdbService,
   scrcpyService: ScrcpyService,
+  wirelessDiscovery: WirelessDiscoveryService,
+  emulatorConsole: EmulatorConsoleService,
   devicesProvider: DevicesTreeProvider,
   fileExplorerProvider: FileExplorerProvider
 ): void {
-  registerConnectionCommands(context, adbService, devicesProvider);
+  registerConnectionCommands(context, adbService, wirelessDiscovery, devicesProvider);
   registerInteractionCommands(context, adbService, fileExplorerProvider);
   registerCaptureCommands(context, adbService, scrcpyService);
+  registerPropertiesCommands(context, adbService);
+  registerComponentCommands(context, adbService);
+  registerAppCommands(context, adbService, devicesProvider, fileExplorerProvider);
+  registerEmulatorControlsCommands(context, adbService, emulatorConsole, devicesProvider);
 }
@@ -0,0 +1,68 @@
+import * as vscode from "vscode";
+import type { AdbService, DeviceInfo } from "../../services/adb";
+import type { DeviceTreeItem } from "../../views/devices";
+import { DevicePropertiesPanel } from "../../webviews/device-properties";
+import { ANDROID_DEVKIT_COMMANDS } from "../ids";
+import { selectDevice } from "./select-device";
+
+async function resolveDevice(
+  adbService: AdbService,
+  context: vscode.ExtensionContext,
+  item?: DeviceTreeItem
+): Promise<DeviceInfo | undefined> {
+  if (item?.device) return item.device;
+
+  const serial = await selectDevice(adbService, context);
+  if (!serial) return undefined;
+  return (await adbService.getDevices()).find((d) => d.serial === serial);
+}
+
+export function registerPropertiesCommands(
+  context: vscode.ExtensionContext,
+  adbService: AdbService
+): void {
+  // Browse getprop output grouped by prefix
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      ANDROID_DEVKIT_COMMANDS.showDeviceProperties,
+      async (item?: DeviceTreeItem) => {
+        const device = await resolveDevice(adbService, context, item);
+        if (!device) return;
+
+        DevicePropertiesPanel.show(context, adbService, device.serial, device.name);
+      }
+    )
+  );
+
+  // Diff the properties of two connected devices
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      ANDROID_DEVKIT_COMMANDS.compareDeviceProperties,
+      async (item?: DeviceTreeItem) => {
+        const device = await resolveDevice(adbService, context, item);
+        if (!device) return;
+
+        const others = (await adbService.getDevices()).filter(
+          (d) => d.state === "device" && d.serial !== device.serial
+        );
+        if (others.length === 0) {
+          vscode.window.showWarningMessage("Connect a second device to compare properties");
+          return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+          others.map((d) => ({
+            label: d.name,
+            description: d.serial,
+            detail: `Android ${d.androidVersion} (API ${d.apiLevel})`,
+            serial: d.serial,
+          })),
+          { placeHolder: `Compare ${device.name} with` }
+        );
+        if (!selected) return;
+
+        DevicePropertiesPanel.show(context, adbService, device.serial, device.name, selected.serial);
+      }
+    )
+  );
+}
@@ -0,0 +1,281 @@
+import * as vscode from "vscode";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import {
+  distanceMeters,
+  hasRecordedTimes,
+  parseRoute,
+  timeRoute,
+  type RoutePace,
+  type RoutePoint
+} from "@android-devkit/emulator";
+import type { AdbService } from "../services/adb";
+import type { EmulatorConsoleService } from "../services/emulator-console";
+import type { RoutePlaybackService } from "../services/route-playback";
+import { formatCoordinates, parseCoordinates, type SavedPlaces } from "../models/saved-places";
+import { AvdItem } from "../views/avd-manager";
+import { ANDROID_DEVKIT_COMMANDS } from "./ids";
+
+const COORDINATES_HINT = "Latitude and longitude in degrees, e.g. 52.5200, 13.4050";
+
+interface LocationPickItem extends vscode.QuickPickItem {
+  place?: { name: string; latitude: number; longitude: number };
+}
+
+interface PacePickItem extends vscode.QuickPickItem {
+  pace?: RoutePace;
+}
+
+function showFailure(label: string, error: unknown): void {
+  const message = error instanceof Error ? error.message : "Unknown error";
+  vscode.window.showErrorMessage(`${label} failed: ${message}`);
+}
+
+/** `1:05:30` or `5:30` */
+export function formatRouteDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+/** The emulator of a running AVD item, or one picked from the running emulators */
+async function resolveEmulator(adbService: AdbService, item?: AvdItem): Promise<string | undefined> {
+  if (item instanceof AvdItem) {
+    if (!item.serial) {
+      vscode.window.showWarningMessage(`"${item.avd.name}" is not running.`);
+    }
+    return item.serial;
+  }
+
+  const emulators = (await adbService.getDevices().catch(() => [])).filter(
+    (device) => device.serial.startsWith("emulator-") && device.state === "device"
+  );
+  if (emulators.length === 0) {
+    vscode.window.showWarningMessage("No running emulators");
+    return undefined;
+  }
+  if (emulators.length === 1) return emulators[0].serial;
+
+  const picked = await vscode.window.showQuickPick(
+    emulators.map((device) => ({ label: device.name, description: device.serial, serial: device.serial })),
+    { placeHolder: "Select an emulator" }
+  );
+  return picked?.serial;
+}
+
+/** Saved places to pick from, each with a button to forget it, below an entry for typing coordinates */
+function pickLocation(savedPlaces: SavedPlaces, serial: string): Promise<LocationPickItem | undefined> {
+  const removeButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon("trash"),
+    tooltip: "Remove Saved Place"
+  };
+  const buildItems = (): LocationPickItem[] => {
+    const places = savedPlaces.list();
+    return [
+      { label: "$(edit) Enter Coordinates…", detail: COORDINATES_HINT },
+      ...(places.length > 0
+        ? [{ label: "Saved Places", kind: vscode.QuickPickItemKind.Separator } as LocationPickItem]
+        : []),
+      ...places.map((place) => ({
+        label: `$(location) ${place.name}`,
+        description: formatCoordinates(place),
+        buttons: [removeButton],
+        place
+      }))
+    ];
+  };
+
+  return new Promise((resolve) => {
+    const picker = vscode.window.createQuickPick<LocationPickItem>();
+    picker.title = `Set Location of ${serial}`;
+    picker.placeholder = "Enter coordinates or pick a saved place";
+    picker.matchOnDescription = true;
+    picker.items = buildItems();
+    picker.onDidTriggerItemButton(async ({ item }) => {
+      if (!item.place) return;
+      await savedPlaces.remove(item.place.name);
+      picker.items = buildItems();
+    });
+    picker.onDidAccept(() => {
+      resolve(picker.selectedItems[0]);
+      picker.dispose();
+    });
+    picker.onDidHide(() => {
+      resolve(undefined);
+      picker.dispose();
+    });
+    picker.show();
+  });
+}
+
+async function pickPace(points: RoutePoint[]): Promise<RoutePace | undefined> {
+  const items: PacePickItem[] = [];
+  if (hasRecordedTimes(points)) {
+    items.push(
+      { label: "Recorded Timing", description: "1×", pace: { timeScale: 1 } },
+      { label: "Recorded Timing", description: "2× faster", pace: { timeScale: 2 } },
+      { label: "Recorded Timing", description: "5× faster", pace: { timeScale: 5 } },
+      { label: "Recorded Timing", description: "10× faster", pace: { timeScale: 10 } },
+      { label: "", kind: vscode.QuickPickItemKind.Separator }
+    );
+  }
+  items.push(
+    { label: "Walking", description: "5 km/h", pace: { speedKmh: 5 } },
+    { label: "Cycling", description: "15 km/h", pace: { speedKmh: 15 } },
+    { label: "Driving", description: "50 km/h", pace: { speedKmh: 50 } },
+    { label: "Highway", description: "100 km/h", pace: { speedKmh: 100 } },
+    { label: "Custom Speed…", description: "km/h" }
+  );
+
+  const picked = await vscode.window.showQuickPick(items, {
+    title: "Route Playback Speed",
+    placeHolder: hasRecordedTimes(points)
+      ? "Replay the recorded times or move at a constant speed"
+      : "The route has no recorded times; choose a speed"
+  });
+  if (!picked) return undefined;
+  if (picked.pace) return picked.pace;
+
+  const speed = await vscode.window.showInputBox({
+    title: "Route Playback Speed",
+    prompt: "Speed in km/h",
+    value: "30",
+    validateInput: (value) => (Number(value) > 0 ? undefined : "Enter a speed above 0")
+  });
+  return speed ? { speedKmh: Number(speed) } : undefined;
+}
+
+export function registerEmulatorLocationCommands(
+  context: vscode.ExtensionContext,
+  adbService: AdbService,
+  emulatorConsole: EmulatorConsoleService,
+  routePlayback: RoutePlaybackService,
+  savedPlaces: SavedPlaces
+): void {
+  context.subscriptions.push(
+    // Send a `geo fix` to a running emulator, from typed coordinates or a saved place
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.setEmulatorLocation, async (item?: AvdItem) => {
+      const serial = await resolveEmulator(adbService, item);
+      if (!serial) return;
+
+      const picked = await pickLocation(savedPlaces, serial);
+      if (!picked) return;
+
+      let location = picked.place;
+      if (!location) {
+        const typed = await vscode.window.showInputBox({
+          title: `Set Location of ${serial}`,
+          prompt: COORDINATES_HINT,
+          placeHolder: "52.5200, 13.4050",
+          validateInput: (value) =>
+            parseCoordinates(value) ? undefined : "Enter a latitude (-90 to 90) and a longitude (-180 to 180)"
+        });
+        const coordinates = typed ? parseCoordinates(typed) : undefined;
+        if (!coordinates) return;
+        location = { name: "", ...coordinates };
+      }
+
+      // A playing route would move the emulator away again on its next step
+      routePlayback.stop(serial);
+      try {
+        await emulatorConsole.run(serial, (console) => console.geoFix(location));
+      } catch (error) {
+        showFailure("Set location", error);
+        return;
+      }
+
+      if (location.name) {
+        vscode.window.showInformationMessage(`${serial} moved to ${location.name}.`);
+        return;
+      }
+      const action = await vscode.window.showInformationMessage(
+        `${serial} moved to ${formatCoordinates(location)}.`,
+        "Save as Place"
+      );
+      if (action !== "Save as Place") return;
+
+      const name = await vscode.window.showInputBox({
+        title: "Save Place",
+        prompt: formatCoordinates(location),
+        placeHolder: "Office",
+        validateInput: (value) => (value.trim() ? undefined : "Name cannot be empty")
+      });
+      if (name) {
+        await savedPlaces.save({ name: name.trim(), latitude: location.latitude, longitude: location.longitude });
+      }
+    }),
+
+    // Move an emulator along the points of a GPX or KML file
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.playEmulatorRoute, async (item?: AvdItem) => {
+      const serial = await resolveEmulator(adbService, item);
+      if (!serial) return;
+
+      const files = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { "GPS Routes": ["gpx", "kml"] },
+        openLabel: "Play Route",
+        title: `Play Route on ${serial}`
+      });
+      if (!files || files.length === 0) return;
+
+      const fileName = path.basename(files[0].fsPath);
+      let points: RoutePoint[];
+      try {
+        points = parseRoute(fileName, await fs.readFile(files[0].fsPath, "utf8"));
+      } catch (error) {
+        showFailure("Reading route", error);
+        return;
+      }
+      if (points.length === 0) {
+        vscode.window.showErrorMessage(`No track, route or placemark coordinates found in ${fileName}.`);
+        return;
+      }
+
+      const pace = await pickPace(points);
+      if (!pace) return;
+
+      try {
+        const route = timeRoute(points, pace);
+        routePlayback.start(serial, fileName, route);
+        const kilometers = points
+          .slice(1)
+          .reduce((total, point, index) => total + distanceMeters(points[index], point), 0) / 1000;
+        vscode.window.showInformationMessage(
+          `Playing ${fileName} on ${serial}: ${points.length} points, ${kilometers.toFixed(1)} km, ${formatRouteDuration(route.durationMs)}.`
+        );
+      } catch (error) {
+        showFailure("Route playback", error);
+      }
+    }),
+
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.stopEmulatorRoute, async (item?: AvdItem) => {
+      const active = routePlayback.active;
+      let serial = item instanceof AvdItem ? item.serial : undefined;
+      if (!serial) {
+        if (active.length === 0) return;
+        if (active.length === 1) {
+          serial = active[0].serial;
+        } else {
+          const picked = await vscode.window.showQuickPick(
+            active.map((playback) => ({
+              label: playback.serial,
+              description: `${playback.label} · ${Math.round(playback.progress * 100)}%`,
+              serial: playback.serial
+            })),
+            { placeHolder: "Select a route to stop" }
+          );
+          serial = picked?.serial;
+        }
+      }
+      if (!serial) return;
+
+      if (!routePlayback.isPlaying(serial)) {
+        vscode.window.showInformationMessage(`No route is playing on ${serial}.`);
+        return;
+      }
+      routePlayback.stop(serial);
+    })
+  );
+}
@@ -5,9 +5,24 @@ export const ANDROID_DEVKIT_COMMANDS = {
   rebootDevice: "androidDevkit.rebootDevice",
   connectDevice: "androidDevkit.connectDevice",
   pairDevice: "androidDevkit.pairDevice",
+  pairDeviceWithQrCode: "androidDevkit.pairDeviceWithQrCode",
+  pairDiscoveredDevice: "androidDevkit.pairDiscoveredDevice",
+  connectDiscoveredDevice: "androidDevkit.connectDiscoveredDevice",
   enableTcpip: "androidDevkit.enableTcpip",
   openShell: "androidDevkit.openShell",
   browseFiles: "androidDevkit.browseFiles",
+  showDeviceProperties: "androidDevkit.showDeviceProperties",
+  compareDeviceProperties: "androidDevkit.compareDeviceProperties",
+  startAppActivity: "androidDevkit.startAppActivity",
+  startAppService: "androidDevkit.startAppService",
+  sendAppBroadcast: "androidDevkit.sendAppBroadcast",
+  queryAppProvider: "androidDevkit.queryAppProvider",
+  launchInstalledApp: "androidDevkit.launchInstalledApp",
+  forceStopInstalledApp: "androidDevkit.forceStopInstalledApp",
+  clearInstalledAppData: "androidDevkit.clearInstalledAppData",
+  uninstallInstalledApp: "androidDevkit.uninstallInstalledApp",
+  pullInstalledApk: "androidDevkit.pullInstalledApk",
+  openAppDataDirectory: "androidDevkit.openAppDataDirectory",
   startLogcat: "androidDevkit.startLogcat",
   pauseLogcat: "androidDevkit.pauseLogcat",
   stopLogcat: "androidDevkit.stopLogcat",
@@ -15,6 +30,8 @@ export const ANDROID_DEVKIT_COMMANDS = {
   showLogcatOutput: "androidDevkit.showLogcatOutput",
   logcatStatusMenu: "androidDevkit.logcatStatusMenu",
   setLogcatFilter: "androidDevkit.setLogcatFilter",
+  setLogcatBuffers: "androidDevkit.setLogcatBuffers",
+  muteLogcatTag: "androidDevkit.muteLogcatTag",
   setLogcatPackageFilter: "androidDevkit.setLogcatPackageFilter",
   refreshFileExplorer: "androidDevkit.refreshFileExplorer",
   pullFile: "androidDevkit.pullFile",
@@ -31,6 +48,15 @@ export const ANDROID_DEVKIT_COMMANDS = {
   launchAvd: "androidDevkit.launchAvd",
   deleteAvd: "androidDevkit.deleteAvd",
   wipeAvdData: "androidDevkit.wipeAvdData",
+  editAvdLaunchOptions: "androidDevkit.editAvdLaunchOptions",
+  saveAvdSnapshot: "androidDevkit.saveAvdSnapshot",
+  loadAvdSnapshot: "androidDevkit.loadAvdSnapshot",
+  launchAvdFromSnapshot: "androidDevkit.launchAvdFromSnapshot",
+  deleteAvdSnapshot: "androidDevkit.deleteAvdSnapshot",
+  setEmulatorLocation: "androidDevkit.setEmulatorLocation",
+  playEmulatorRoute: "androidDevkit.playEmulatorRoute",
+  stopEmulatorRoute: "androidDevkit.stopEmulatorRoute",
+  openEmulatorControls: "androidDevkit.openEmulatorControls",
   refreshGradleTasks: "androidDevkit.refreshGradleTasks",
   syncGradle: "androidDevkit.syncGradle",
   runGradleTask: "androidDevkit.runGradleTask",
@@ -54,6 +80,27 @@ export const ANDROID_DEVKIT_COMMANDS = {
   recordScreen: "androidDevkit.recordScreen",
   managePermissions: "androidDevkit.managePermissions",
   mirrorScreen: "androidDevkit.mirrorScreen",
+  startLogcatRecording: "androidDevkit.startLogcatRecording",
+  stopLogcatRecording: "androidDevkit.stopLogcatRecording",
+  openLogcatRecording: "androidDevkit.openLogcatRecording",
+  importLogcatText: "androidDevkit.importLogcatText",
+  addLogcatDevice: "androidDevkit.addLogcatDevice",
+  closeLogcatSession: "androidDevkit.closeLogcatSession",
+  showMergedLogcat: "androidDevkit.showMergedLogcat",
+  showLogcatAlerts: "androidDevkit.showLogcatAlerts",
+  attachDebugger: "androidDevkit.attachDebugger",
+  symbolicateNativeCrash: "androidDevkit.symbolicateNativeCrash",
+  pullTombstones: "androidDevkit.pullTombstones",
+  refreshPortForwarding: "androidDevkit.refreshPortForwarding",
+  addPortMapping: "androidDevkit.addPortMapping",
+  removePortMapping: "androidDevkit.removePortMapping",
+  persistPortMapping: "androidDevkit.persistPortMapping",
+  unpersistPortMapping: "androidDevkit.unpersistPortMapping",
+  composeIntent: "androidDevkit.composeIntent",
+  refreshSavedIntents: "androidDevkit.refreshSavedIntents",
+  runSavedIntent: "androidDevkit.runSavedIntent",
+  editSavedIntent: "androidDevkit.editSavedIntent",
+  deleteSavedIntent: "androidDevkit.deleteSavedIntent",
   focusDevices: "androidDevkit.devices.focus",
   focusLogcat: "androidDevkit.logcat.focus",
   focusFileExplorer: "androidDevkit.fileExplorer.focus",
@@ -83,6 +130,10 @@ export const CONTEXT_KEYS = {
   hasDevices: "androidDevkit.hasDevices",
   logcatRunning: "androidDevkit.logcatRunning",
   logcatPaused: "androidDevkit.logcatPaused",
+  logcatRecording: "androidDevkit.logcatRecording",
+  logcatReplay: "androidDevkit.logcatReplay",
+  logcatMultipleSessions: "androidDevkit.logcatMultipleSessions",
   sdkConfigured: "androidDevkit.sdkConfigured",
   gradleTasksHasSelection: "androidDevkit.gradleTasksHasSelection",
+  routePlaying: "androidDevkit.routePlaying",
 } as const;
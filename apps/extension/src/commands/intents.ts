@@ -0,0 +1,340 @@
+import * as vscode from "vscode";
+import { INTENT_FLAGS, formatIntentExtras, parseIntentExtras, type IntentSpec } from "@android-devkit/adb";
+import type { AdbService } from "../services/adb";
+import {
+  INTENT_RUN_MODES,
+  formatAmCommand,
+  suggestIntentName,
+  type IntentRunMode,
+  type SavedIntent,
+  type SavedIntents,
+} from "../models/saved-intents";
+import type { SavedIntentItem, SavedIntentsTreeProvider } from "../views/saved-intents";
+import type { AppComponentItem } from "../views/app-components";
+import { ANDROID_DEVKIT_COMMANDS } from "./ids";
+import { selectDevice } from "./devices";
+
+type ComposerField = "mode" | "action" | "categories" | "data" | "mimeType" | "component" | "extras" | "flags";
+type ComposerAction = "run" | "save" | "saveAndRun";
+
+interface ComposerPick extends vscode.QuickPickItem {
+  field?: ComposerField;
+  action?: ComposerAction;
+}
+
+function formatFlags(flags: number | undefined, mode: IntentRunMode): string {
+  if (!flags) return "";
+  const names = flagsFor(mode)
+    .filter((flag) => (flags & flag.value) === flag.value)
+    .map((flag) => flag.name.replace(/^FLAG_(ACTIVITY_|RECEIVER_)?/, ""));
+  return names.length > 0 ? names.join(", ") : `0x${flags.toString(16)}`;
+}
+
+function flagTarget(mode: IntentRunMode) {
+  return mode === "start" ? "activity" : mode === "broadcast" ? "broadcast" : "any";
+}
+
+function flagsFor(mode: IntentRunMode) {
+  const target = flagTarget(mode);
+  return INTENT_FLAGS.filter((flag) => flag.target === "any" || flag.target === target);
+}
+
+/** Bits of the flags every run mode understands */
+const COMMON_FLAG_BITS = INTENT_FLAGS.filter((flag) => flag.target === "any").reduce(
+  (bits, flag) => bits | flag.value,
+  0,
+);
+
+async function editField(draft: SavedIntent, field: ComposerField): Promise<void> {
+  const { intent } = draft;
+  const optional = (value: string) => value.trim() || undefined;
+
+  switch (field) {
+    case "mode": {
+      const picked = await vscode.window.showQuickPick(
+        (Object.keys(INTENT_RUN_MODES) as IntentRunMode[]).map((mode) => ({
+          label: `$(${INTENT_RUN_MODES[mode].icon}) ${INTENT_RUN_MODES[mode].label}`,
+          description: `am ${mode}`,
+          mode,
+        })),
+        { title: "Run As" },
+      );
+      if (!picked) return;
+      // Activity and receiver flags share bits (0x10000000 is both NEW_TASK and
+      // RECEIVER_FOREGROUND), so keep only the flags the new mode reads the same way
+      if (flagTarget(picked.mode) !== flagTarget(draft.mode) && intent.flags) {
+        intent.flags = intent.flags & COMMON_FLAG_BITS || undefined;
+      }
+      draft.mode = picked.mode;
+      return;
+    }
+    case "action": {
+      const value = await vscode.window.showInputBox({
+        title: "Action",
+        value: intent.action,
+        placeHolder: "android.intent.action.VIEW",
+      });
+      if (value !== undefined) intent.action = optional(value);
+      return;
+    }
+    case "categories": {
+      const value = await vscode.window.showInputBox({
+        title: "Categories",
+        prompt: "Comma-separated",
+        value: intent.categories?.join(", "),
+        placeHolder: "android.intent.category.BROWSABLE, android.intent.category.DEFAULT",
+      });
+      if (value === undefined) return;
+      const categories = value
+        .split(",")
+        .map((category) => category.trim())
+        .filter(Boolean);
+      intent.categories = categories.length > 0 ? categories : undefined;
+      return;
+    }
+    case "data": {
+      const value = await vscode.window.showInputBox({
+        title: "Data URI",
+        value: intent.data,
+        placeHolder: "https://example.com/path or content://authority/items/1",
+      });
+      if (value !== undefined) intent.data = optional(value);
+      return;
+    }
+    case "mimeType": {
+      const value = await vscode.window.showInputBox({
+        title: "MIME Type",
+        value: intent.mimeType,
+        placeHolder: "text/plain",
+        validateInput: (text) =>
+          !text.trim() || /^[\w.+*-]+\/[\w.+*-]+$/.test(text.trim()) ? null : "Use type/subtype",
+      });
+      if (value !== undefined) intent.mimeType = optional(value);
+      return;
+    }
+    case "component": {
+      const value = await vscode.window.showInputBox({
+        title: "Component",
+        value: intent.component,
+        placeHolder: "com.example.app/.MainActivity",
+        validateInput: (text) => (!text.trim() || /^[\w.]+\/[\w.$]+$/.test(text.trim()) ? null : "Use package/class"),
+      });
+      if (value !== undefined) intent.component = optional(value);
+      return;
+    }
+    case "extras": {
+      const value = await vscode.window.showInputBox({
+        title: "Extras",
+        prompt: "Typed extras, as am takes them",
+        value: intent.extras ? formatIntentExtras(intent.extras) : "",
+        placeHolder: '--es user "Jane Doe" --ei count 3 --ez debug true --el since 0 --eia ids 1,2',
+        validateInput: (text) => {
+          try {
+            parseIntentExtras(text);
+            return null;
+          } catch (error) {
+            return error instanceof Error ? error.message : String(error);
+          }
+        },
+      });
+      if (value === undefined) return;
+      const extras = parseIntentExtras(value);
+      intent.extras = extras.length > 0 ? extras : undefined;
+      return;
+    }
+    case "flags": {
+      const flags = intent.flags ?? 0;
+      const picked = await vscode.window.showQuickPick(
+        flagsFor(draft.mode).map((flag) => ({
+          label: flag.name,
+          description: `0x${flag.value.toString(16).padStart(8, "0")}`,
+          picked: (flags & flag.value) === flag.value,
+          value: flag.value,
+        })),
+        { title: "Flags", canPickMany: true },
+      );
+      if (!picked) return;
+      const value = picked.reduce((bits, flag) => bits | flag.value, 0);
+      intent.flags = value || undefined;
+      return;
+    }
+  }
+}
+
+/**
+ * Edit an intent field by field. The form is a quick pick listing every
+ * field with its current value; picking one edits it and reopens the form.
+ */
+async function showComposer(initial: SavedIntent): Promise<{ draft: SavedIntent; action: ComposerAction } | undefined> {
+  const draft: SavedIntent = { ...initial, intent: { ...initial.intent } };
+
+  for (;;) {
+    const { intent } = draft;
+    const fields: ComposerPick[] = [
+      { field: "mode", label: "$(run) Run As", description: INTENT_RUN_MODES[draft.mode].label },
+      { field: "action", label: "$(symbol-event) Action", description: intent.action },
+      { field: "categories", label: "$(tag) Categories", description: intent.categories?.join(", ") },
+      { field: "data", label: "$(link) Data URI", description: intent.data },
+      { field: "mimeType", label: "$(file) MIME Type", description: intent.mimeType },
+      { field: "component", label: "$(symbol-class) Component", description: intent.component },
+      {
+        field: "extras",
+        label: "$(symbol-property) Extras",
+        description: intent.extras ? formatIntentExtras(intent.extras) : undefined,
+      },
+      { field: "flags", label: "$(symbol-constant) Flags", description: formatFlags(intent.flags, draft.mode) },
+    ];
+    const command = formatAmCommand(draft.mode, intent);
+
+    const picked = await vscode.window.showQuickPick<ComposerPick>(
+      [
+        ...fields,
+        { label: "", kind: vscode.QuickPickItemKind.Separator },
+        { action: "run", label: "$(play) Run", detail: command },
+        { action: "saveAndRun", label: "$(save) Save and Run" },
+        { action: "save", label: "$(save-as) Save" },
+      ],
+      { title: draft.name ? `Compose Intent: ${draft.name}` : "Compose Intent", placeHolder: command },
+    );
+    if (!picked) return undefined;
+
+    if (picked.field) {
+      await editField(draft, picked.field);
+      continue;
+    }
+    if (picked.action) {
+      if (!intent.action && !intent.component && !intent.data) {
+        vscode.window.showWarningMessage("Set an action, data URI or component first");
+        continue;
+      }
+      return { draft, action: picked.action };
+    }
+  }
+}
+
+/** Run on `serial` when the intent came from a device's Apps tree, otherwise ask for a device */
+async function runIntent(
+  adbService: AdbService,
+  context: vscode.ExtensionContext,
+  saved: SavedIntent,
+  serial?: string,
+): Promise<void> {
+  serial ??= await selectDevice(adbService, context);
+  if (!serial) return;
+
+  const command = formatAmCommand(saved.mode, saved.intent);
+  adbService.outputChannel.appendLine(`[${serial}] ${command}`);
+  try {
+    const output =
+      saved.mode === "start"
+        ? await adbService.startActivity(serial, saved.intent)
+        : saved.mode === "broadcast"
+          ? await adbService.sendBroadcast(serial, saved.intent)
+          : await adbService.startService(serial, saved.intent, { foreground: true });
+    if (output.trim()) adbService.outputChannel.appendLine(output.trimEnd());
+    const summary = output.split("\n").pop()?.trim();
+    vscode.window.showInformationMessage(summary || `Ran ${saved.name || command}`);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    adbService.outputChannel.appendLine(msg);
+    vscode.window.showErrorMessage(`${INTENT_RUN_MODES[saved.mode].label} failed: ${msg}`);
+  }
+}
+
+async function promptForName(savedIntents: SavedIntents, draft: SavedIntent): Promise<string | undefined> {
+  return vscode.window.showInputBox({
+    title: "Save Intent",
+    prompt: "Name shown in the Saved Intents view",
+    value: draft.name || suggestIntentName(draft.intent),
+    validateInput: (value) => {
+      const name = value.trim();
+      if (!name) return "Enter a name";
+      return name !== draft.name && savedIntents.get(name) ? `Replaces the saved intent "${name}"` : null;
+    },
+  });
+}
+
+/** Prefill the composer from a component in the Apps tree */
+function intentForComponent(item: AppComponentItem): SavedIntent {
+  const { component } = item;
+  const intent: IntentSpec = {
+    action: component.filters.flatMap((filter) => filter.actions)[0],
+    component: component.name,
+  };
+  const mode: IntentRunMode =
+    component.kind === "receiver" ? "broadcast" : component.kind === "service" ? "start-foreground-service" : "start";
+  return { name: "", mode, intent };
+}
+
+export function registerIntentCommands(
+  context: vscode.ExtensionContext,
+  adbService: AdbService,
+  provider: SavedIntentsTreeProvider,
+  savedIntents: SavedIntents,
+): void {
+  const compose = async (initial: SavedIntent, serial?: string) => {
+    const result = await showComposer(initial);
+    if (!result) return;
+
+    const { draft, action } = result;
+    if (action !== "run") {
+      const name = (await promptForName(savedIntents, draft))?.trim();
+      if (!name) return;
+      const previousName = draft.name || undefined;
+      draft.name = name;
+      await savedIntents.save(draft, previousName);
+      provider.refresh();
+    }
+    if (action !== "save") {
+      await runIntent(adbService, context, draft, serial);
+    }
+  };
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.refreshSavedIntents, () => provider.refresh()),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.composeIntent, async (item?: AppComponentItem) => {
+      const initial: SavedIntent = item?.component
+        ? intentForComponent(item)
+        : { name: "", mode: "start", intent: { action: "android.intent.action.VIEW" } };
+      await compose(initial, item?.serial);
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.editSavedIntent, async (item?: SavedIntentItem) => {
+      if (!item) return;
+      await compose(item.saved);
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.runSavedIntent, async (item?: SavedIntentItem) => {
+      const saved =
+        item?.saved ??
+        (
+          await vscode.window.showQuickPick(
+            savedIntents.list().map((entry) => ({
+              label: entry.name,
+              description: INTENT_RUN_MODES[entry.mode].label,
+              detail: formatAmCommand(entry.mode, entry.intent),
+              entry,
+            })),
+            { placeHolder: "Select an intent to run" },
+          )
+        )?.entry;
+      if (!saved) return;
+      await runIntent(adbService, context, saved);
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.deleteSavedIntent, async (item?: SavedIntentItem) => {
+      if (!item) return;
+      await savedIntents.remove(item.saved.name);
+      provider.refresh();
+    }),
+  );
+}
@@ -1,8 +1,24 @@
+import * as path from "node:path";
 import * as vscode from "vscode";
 import type { AdbService } from "../services/adb";
 import type { LogcatTreeProvider } from "../views/logcat";
-import type { LogLevel } from "@android-devkit/logcat";
-import { ANDROID_DEVKIT_COMMANDS } from "./ids";
+import type { LogcatSession } from "../models/logcat-session";
+import { LogcatBuffer } from "../models/logcat-buffer";
+import {
+  DEFAULT_LOGCAT_BUFFERS,
+  LOGCAT_BUFFER_IDS,
+  LogcatQueryError,
+  parseLogcatQuery,
+  LOGCAT_RECORDING_FORMAT,
+  parseLogcatRecording,
+  parseLogcatText,
+  type LogLevel,
+  type LogcatBufferId,
+  type LogcatQuery,
+  type LogcatRecording,
+  type PackageProcess,
+} from "@android-devkit/logcat";
+import { ANDROID_DEVKIT_COMMANDS, VS_CODE_COMMANDS } from "./ids";
 import { resolveDetectedAndroidAppPackage } from "../utils/android-app";
 
 type LogcatDeviceSelection = {
@@ -10,6 +26,17 @@ type LogcatDeviceSelection = {
   serial?: string;
 };
 
+/** Tree items that belong to a device session carry it as `session` */
+type LogcatSessionTarget = { session?: LogcatSession };
+
+const BUFFER_DESCRIPTIONS: Record<LogcatBufferId, string> = {
+  main: "App and framework logs",
+  system: "System services",
+  crash: "Crash reports",
+  events: "Binary system events, decoded with the device's event tags",
+  radio: "Telephony and radio",
+};
+
 async function resolveLogcatDevice(
   adbService: AdbService,
   currentSerial?: string
@@ -40,7 +67,7 @@ async function resolveLogcatDevice(
 
   const selection = await vscode.window.showQuickPick(
     [
-      { label: "All Devices", description: "Use the current minimum log level across all connected devices", serial: undefined },
+      { label: "All Devices", description: "Open a Logcat session for every connected device", serial: undefined },
       ...readyDevices.map((device) => ({
         label: device.name,
         description: device.serial,
@@ -64,11 +91,27 @@ async function resolveLogcatDevice(
   };
 }
 
+/**
+ * Find the running processes of a package, main process first. Secondary
+ * `package:suffix` processes are included so the filter covers them too.
+ */
+async function resolvePackageProcesses(
+  adbService: AdbService,
+  serial: string,
+  packageName: string
+): Promise<{ pid?: number; processes: PackageProcess[] }> {
+  const processes = (await adbService.getPackageProcesses(serial, packageName).catch(() => [])).map(
+    ({ pid, name }) => ({ pid, processName: name })
+  );
+  const pid = processes.find((process) => process.processName === packageName)?.pid;
+  return { pid, processes };
+}
+
 async function resolveDefaultPackagePid(
   adbService: AdbService,
   serial?: string,
   packageName?: string
-): Promise<{ packageName?: string; pid?: number }> {
+): Promise<{ packageName?: string; pid?: number; processes?: PackageProcess[] }> {
   if (!serial) {
     return {};
   }
@@ -78,13 +121,71 @@ async function resolveDefaultPackagePid(
     return {};
   }
 
-  const pid = await adbService.getPidForPackage(serial, resolvedPackageName).catch(() => null);
   return {
     packageName: resolvedPackageName,
-    pid: pid ?? undefined,
+    ...(await resolvePackageProcesses(adbService, serial, resolvedPackageName)),
   };
 }
 
+/**
+ * Start (or restart) the session for one device, applying the detected
+ * app package filter when the package is running there.
+ */
+async function startDeviceSession(
+  adbService: AdbService,
+  logcatProvider: LogcatTreeProvider,
+  device: LogcatDeviceSelection
+): Promise<void> {
+  const session = logcatProvider.getSession();
+  const defaultPackage = await resolveDefaultPackagePid(adbService, device.serial, session.packageName);
+  logcatProvider.start({
+    deviceLabel: device.label,
+    minLevel: session.minLevel,
+    packageName: defaultPackage.packageName,
+    pid: defaultPackage.pid,
+    processes: defaultPackage.processes,
+    serial: device.serial,
+  });
+}
+
+/**
+ * Commands invoked from a session node act on that session
+ */
+function focusSession(logcatProvider: LogcatTreeProvider, target?: LogcatSessionTarget): void {
+  if (target?.session) {
+    logcatProvider.setActiveSession(target.session);
+  }
+}
+
+/**
+ * Read either a JSON-lines recording or plain `adb logcat` / bugreport text.
+ */
+function parseLogcatContent(content: string): LogcatRecording {
+  if (content.trimStart().startsWith("{") && content.includes(LOGCAT_RECORDING_FORMAT)) {
+    return parseLogcatRecording(content);
+  }
+
+  const entries = parseLogcatText(content);
+  if (entries.length === 0) {
+    throw new Error("No logcat entries found. Supported formats: threadtime, time, brief, long and bugreports.");
+  }
+  return { header: { startedAt: entries[0].timestamp }, entries };
+}
+
+/**
+ * Loading a recording stops the live sessions; ask first while any are streaming.
+ */
+async function confirmReplaceLiveSessions(logcatProvider: LogcatTreeProvider): Promise<boolean> {
+  const live = logcatProvider.getSessions().filter((session) => session.isLive);
+  if (live.length === 0) return true;
+
+  const message = live.length === 1
+    ? `Stop the live Logcat session for ${live[0].label} and replace it with the recording?`
+    : `Stop ${live.length} live Logcat sessions and replace them with the recording?`;
+  const choice = await vscode.window.showWarningMessage(message, { modal: true }, "Stop and Open");
+  return choice === "Stop and Open";
+}
+
 export function registerLogcatCommands(
   context: vscode.ExtensionContext,
   adbService: AdbService,
@@ -92,8 +193,9 @@ export function registerLogcatCommands(
 ): void {
   // Start logcat
   context.subscriptions.push(
-    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.startLogcat, async () => {
-      if (logcatProvider.getSessionState() === "paused") {
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.startLogcat, async (target?: LogcatSessionTarget) => {
+      focusSession(logcatProvider, target);
+      if (logcatProvider.getSessionState() === "paused" || (target?.session && logcatProvider.getSession().serial)) {
         logcatProvider.resume();
         return;
       }
@@ -102,37 +204,101 @@ export function registerLogcatCommands(
       const device = await resolveLogcatDevice(adbService, session.serial);
       if (!device) return;
 
-      const defaultPackage = await resolveDefaultPackagePid(adbService, device.serial, session.packageName);
-      logcatProvider.start({
-        deviceLabel: device.label,
-        minLevel: session.minLevel,
-        packageName: defaultPackage.packageName,
-        pid: defaultPackage.pid,
-        serial: device.serial,
-      });
+      if (device.serial) {
+        await startDeviceSession(adbService, logcatProvider, device);
+        return;
+      }
+
+      // "All Devices" opens one session per connected device
+      const readyDevices = (await adbService.getDevices()).filter((d) => d.state === "device");
+      for (const readyDevice of readyDevices) {
+        await startDeviceSession(adbService, logcatProvider, { label: readyDevice.name, serial: readyDevice.serial });
+      }
     })
   );
 
+  // Open a session for another device next to the running ones
   context.subscriptions.push(
-    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.pauseLogcat, () => {
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.addLogcatDevice, async () => {
+      const liveSerials = new Set(
+        logcatProvider
+          .getSessions()
+          .filter((session) => session.isLive)
+          .map((session) => session.options.serial)
+      );
+      const devices = (await adbService.getDevices()).filter(
+        (d) => d.state === "device" && !liveSerials.has(d.serial)
+      );
+
+      if (devices.length === 0) {
+        vscode.window.showInformationMessage("Every connected device already has a Logcat session.");
+        return;
+      }
+
+      const selection = await vscode.window.showQuickPick(
+        devices.map((device) => ({
+          label: device.name,
+          description: device.serial,
+          detail: `Android ${device.androidVersion} · API ${device.apiLevel}`,
+          serial: device.serial,
+        })),
+        {
+          canPickMany: true,
+          placeHolder: "Select devices to stream alongside the current Logcat sessions",
+          title: "Add Device to Logcat",
+        }
+      );
+
+      for (const device of selection ?? []) {
+        await startDeviceSession(adbService, logcatProvider, { label: device.label, serial: device.serial });
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.pauseLogcat, (target?: LogcatSessionTarget) => {
+      focusSession(logcatProvider, target);
       logcatProvider.pause();
     })
   );
 
   // Stop logcat
   context.subscriptions.push(
-    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.stopLogcat, () => {
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.stopLogcat, (target?: LogcatSessionTarget) => {
+      focusSession(logcatProvider, target);
       logcatProvider.stop();
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.closeLogcatSession, (target?: LogcatSessionTarget) => {
+      logcatProvider.closeSession(target?.session ?? logcatProvider.getActiveSession());
+    })
+  );
+
   // Clear logcat
   context.subscriptions.push(
-    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.clearLogcat, async () => {
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.clearLogcat, async (target?: LogcatSessionTarget) => {
+      focusSession(logcatProvider, target);
       await logcatProvider.clear();
     })
   );
 
+  // Interleave every session by timestamp in an editor
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.showMergedLogcat, async () => {
+      const entries = logcatProvider.getMergedEntries();
+      if (entries.length === 0) {
+        vscode.window.showWarningMessage("No logcat entries to merge.");
+        return;
+      }
+
+      const content = entries.map(({ label, entry }) => `[${label}] ${LogcatBuffer.formatEntry(entry)}`).join("\n") + "\n";
+      const document = await vscode.workspace.openTextDocument({ content, language: "log" });
+      await vscode.window.showTextDocument(document, { preview: false });
+    })
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.showLogcatOutput, () => {
       logcatProvider.show();
@@ -172,16 +338,50 @@ export function registerLogcatCommands(
           label: "$(package) Choose Package Filter",
           command: ANDROID_DEVKIT_COMMANDS.setLogcatPackageFilter,
         },
+        {
+          label: "$(layers) Choose Buffers",
+          command: ANDROID_DEVKIT_COMMANDS.setLogcatBuffers,
+        },
         {
           label: "$(output) Show Output",
           command: ANDROID_DEVKIT_COMMANDS.showLogcatOutput,
         },
+        {
+          label: "$(add) Add Device",
+          command: ANDROID_DEVKIT_COMMANDS.addLogcatDevice,
+        },
+        {
+          label: "$(git-merge) Show Merged Logcat",
+          command: ANDROID_DEVKIT_COMMANDS.showMergedLogcat,
+        },
+        logcatProvider.isRecording()
+          ? {
+              label: "$(stop-circle) Stop Recording",
+              command: ANDROID_DEVKIT_COMMANDS.stopLogcatRecording,
+            }
+          : {
+              label: "$(record) Record Session",
+              command: ANDROID_DEVKIT_COMMANDS.startLogcatRecording,
+            },
+        {
+          label: "$(history) Open Recording",
+          command: ANDROID_DEVKIT_COMMANDS.openLogcatRecording,
+        },
       ].filter((item) => {
         if (item.command === ANDROID_DEVKIT_COMMANDS.pauseLogcat) {
           return state === "running";
         }
         if (item.command === ANDROID_DEVKIT_COMMANDS.stopLogcat) {
-          return state !== "stopped";
+          return state === "running" || state === "paused";
+        }
+        if (item.command === ANDROID_DEVKIT_COMMANDS.startLogcatRecording) {
+          return state === "running";
+        }
+        if (item.command === ANDROID_DEVKIT_COMMANDS.addLogcatDevice) {
+          return state === "running" || state === "paused";
+        }
+        if (item.command === ANDROID_DEVKIT_COMMANDS.showMergedLogcat) {
+          return logcatProvider.getSessions().length > 1;
         }
         return true;
       });
@@ -199,7 +399,8 @@ export function registerLogcatCommands(
 
   // Set log level filter
   context.subscriptions.push(
-    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.setLogcatFilter, async () => {
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.setLogcatFilter, async (target?: LogcatSessionTarget) => {
+      focusSession(logcatProvider, target);
       const levels: LogLevel[] = ["V", "D", "I", "W", "E", "F"];
       const levelNames: Record<LogLevel, string> = {
         V: "Verbose",
@@ -242,20 +443,95 @@ export function registerLogcatCommands(
 
       logcatProvider.setMinLevel(levelChoice);
 
-      // Ask for text filter
-      const textFilter = await vscode.window.showInputBox({
-        prompt: "Enter text filter (tag or message content)",
-        placeHolder: "e.g., MyApp, ActivityManager, error",
-        value: "",
+      // Ask for query filter; the input box reports syntax errors inline
+      let query: LogcatQuery | undefined;
+      const source = await vscode.window.showInputBox({
+        title: "Configure Logcat Filters",
+        prompt: "Filter query: words match tag or message; fields tag, message, pid, tid, level, age; prefix - to exclude",
+        placeHolder: 'e.g. tag:OkHttp -tag:Choreographer message~"timeout \\d+" level>=W age:5m',
+        value: logcatProvider.getFilter()?.source ?? "",
+        validateInput: (value) => {
+          try {
+            query = parseLogcatQuery(value);
+            return undefined;
+          } catch (error) {
+            query = undefined;
+            if (error instanceof LogcatQueryError) {
+              return `${error.message} (at column ${error.offset + 1})`;
+            }
+            return error instanceof Error ? error.message : "Invalid filter query";
+          }
+        },
       });
 
-      logcatProvider.setFilter(textFilter || undefined);
+      if (source === undefined) {
+        return;
+      }
+
+      logcatProvider.setFilter(query ?? parseLogcatQuery(source));
+    })
+  );
+
+  // Hide a noisy tag
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.muteLogcatTag, async (target?: { tag?: string }) => {
+      let tag = target?.tag;
+      if (!tag) {
+        const stats = logcatProvider.getActiveSession().buffer.stats;
+        const selection = await vscode.window.showQuickPick(
+          stats
+            .getTopTags(20)
+            .filter((item) => item.tag)
+            .map((item) => ({ label: item.tag, description: `${item.count.toLocaleString()} entries` })),
+          {
+            title: "Mute Logcat Tag",
+            placeHolder: stats.total ? "Select a tag to hide from Logcat" : "No Logcat entries yet",
+          }
+        );
+        tag = selection?.label;
+      }
+      if (!tag) {
+        return;
+      }
+
+      logcatProvider.muteTag(tag);
+    })
+  );
+
+  // Choose device log buffers
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.setLogcatBuffers, async (target?: LogcatSessionTarget) => {
+      focusSession(logcatProvider, target);
+      const selected = logcatProvider.getSession().buffers ?? DEFAULT_LOGCAT_BUFFERS;
+
+      const selection = await vscode.window.showQuickPick(
+        LOGCAT_BUFFER_IDS.map((buffer) => ({
+          label: buffer,
+          description: DEFAULT_LOGCAT_BUFFERS.includes(buffer) ? "Default" : undefined,
+          detail: BUFFER_DESCRIPTIONS[buffer],
+          picked: selected.includes(buffer),
+          buffer,
+        })),
+        {
+          title: "Logcat Buffers",
+          placeHolder: "Select the device log buffers to read",
+          canPickMany: true,
+        }
+      );
+
+      if (!selection) {
+        return;
+      }
+
+      // Nothing selected falls back to the device default
+      logcatProvider.setBuffers(selection.length ? selection.map((item) => item.buffer) : undefined);
     })
   );
 
   // Filter by package name
   context.subscriptions.push(
-    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.setLogcatPackageFilter, async () => {
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.setLogcatPackageFilter, async (target?: LogcatSessionTarget) => {
+      focusSession(logcatProvider, target);
       const session = logcatProvider.getSession();
       const device = await resolveLogcatDevice(adbService, session.serial);
       if (!device?.serial) {
@@ -312,14 +588,12 @@ export function registerLogcatCommands(
 
       if (!packageName) return;
 
-      // Resolve PID for the package
-      const pid = await adbService.getPidForPackage(serial, packageName);
-      if (pid) {
-        logcatProvider.setPackageFilter(packageName, pid);
-      } else {
-        logcatProvider.setPackageFilter(packageName);
-        vscode.window.showWarningMessage(
-          `Package ${packageName} is not running. Filtering by package name in tags only.`
+      // Resolve the package's processes; the filter follows them across restarts
+      const { pid, processes } = await resolvePackageProcesses(adbService, serial, packageName);
+      logcatProvider.setPackageFilter(packageName, pid, processes);
+      if (processes.length === 0) {
+        vscode.window.showInformationMessage(
+          `Package ${packageName} is not running. Logcat will show its output once it starts.`
         );
       }
     })
@@ -327,8 +601,9 @@ export function registerLogcatCommands(
 
   // Export logcat to file
   context.subscriptions.push(
-    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.exportLogcat, async () => {
-      const entries = logcatProvider.getEntries();
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.exportLogcat, async (target?: LogcatSessionTarget) => {
+      focusSession(logcatProvider, target);
+      const entries = logcatProvider.getMatchingEntries();
       if (entries.length === 0) {
         vscode.window.showWarningMessage("No logcat entries to export.");
         return;
@@ -354,4 +629,130 @@ export function registerLogcatCommands(
       vscode.window.showInformationMessage(`Exported ${entries.length} entries to ${uri.fsPath}`);
     })
   );
+
+  // Record the live session to a JSON-lines file
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.startLogcatRecording, async () => {
+      if (logcatProvider.getSessionState() !== "running") {
+        vscode.window.showWarningMessage("Start Logcat before recording a session.");
+        return;
+      }
+
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+      const uri = await vscode.window.showSaveDialog({
+        defaultUri: workspaceFolder ? vscode.Uri.file(path.join(workspaceFolder, `logcat-${timestamp}.jsonl`)) : undefined,
+        filters: { "Logcat Recordings": ["jsonl"] },
+        title: "Record Logcat Session",
+      });
+
+      if (!uri) return;
+
+      try {
+        const session = logcatProvider.getSession();
+        const device = session.serial
+          ? (await adbService.getDevices().catch(() => [])).find((d) => d.serial === session.serial)
+          : undefined;
+
+        logcatProvider.startRecording(uri.fsPath, {
+          startedAt: new Date(),
+          device: session.serial
+            ? {
+                serial: session.serial,
+                name: device?.name ?? session.deviceLabel,
+                androidVersion: device?.androidVersion,
+                apiLevel: device?.apiLevel,
+              }
+            : undefined,
+          packageName: session.packageName,
+          pid: session.pid,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        vscode.window.showErrorMessage(`Failed to start Logcat recording: ${message}`);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.stopLogcatRecording, async () => {
+      try {
+        const result = await logcatProvider.stopRecording();
+        if (!result) return;
+
+        const action = await vscode.window.showInformationMessage(
+          `Recorded ${result.entryCount.toLocaleString()} Logcat entries to ${result.filePath}`,
+          "Reveal File"
+        );
+        if (action === "Reveal File") {
+          await vscode.commands.executeCommand(VS_CODE_COMMANDS.revealFileInOs, vscode.Uri.file(result.filePath));
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        vscode.window.showErrorMessage(`Failed to save Logcat recording: ${message}`);
+      }
+    })
+  );
+
+  // Load a recording as a read-only session
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.openLogcatRecording, async () => {
+      const uris = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { "Logcat Files": ["jsonl", "log", "txt"], "All Files": ["*"] },
+        title: "Open Logcat Recording",
+      });
+
+      const uri = uris?.[0];
+      if (!uri) return;
+
+      try {
+        const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+        const recording = parseLogcatContent(content);
+        if (!(await confirmReplaceLiveSessions(logcatProvider))) return;
+        logcatProvider.loadRecording(path.basename(uri.fsPath), recording);
+        await vscode.commands.executeCommand(ANDROID_DEVKIT_COMMANDS.focusLogcat);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        vscode.window.showErrorMessage(`Failed to open Logcat recording: ${message}`);
+      }
+    })
+  );
+
+  // Load pasted logcat text from the editor or clipboard
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.importLogcatText, async () => {
+      const editor = vscode.window.activeTextEditor;
+      const sources = [
+        editor
+          ? {
+              label: "$(file) Active Editor",
+              description: editor.selection.isEmpty ? path.basename(editor.document.fileName) : "Selection",
+              value: "editor" as const,
+            }
+          : undefined,
+        { label: "$(clippy) Clipboard", value: "clipboard" as const },
+      ].filter((item) => item !== undefined);
+
+      const source = sources.length === 1
+        ? sources[0]
+        : await vscode.window.showQuickPick(sources, { title: "Import Logcat Text", placeHolder: "Where is the logcat text?" });
+      if (!source) return;
+
+      const text = source.value === "editor" && editor
+        ? editor.document.getText(editor.selection.isEmpty ? undefined : editor.selection)
+        : await vscode.env.clipboard.readText();
+      const label = source.value === "editor" && editor ? path.basename(editor.document.fileName) : "Clipboard";
+
+      try {
+        const recording = parseLogcatContent(text);
+        if (!(await confirmReplaceLiveSessions(logcatProvider))) return;
+        logcatProvider.loadRecording(label, recording);
+        await vscode.commands.executeCommand(ANDROID_DEVKIT_COMMANDS.focusLogcat);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        vscode.window.showErrorMessage(`Failed to import Logcat text: ${message}`);
+      }
+    })
+  );
 }
@@ -0,0 +1,135 @@
+import * as vscode from "vscode";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { LogcatCrash } from "@android-devkit/logcat";
+import { findUnstrippedLibraries, symbolicateTombstone } from "@android-devkit/ndk";
+import type { AdbService } from "../services/adb";
+import type { SdkService } from "../services/sdk";
+import type { DeviceTreeItem } from "../views/devices";
+import { ANDROID_DEVKIT_COMMANDS } from "./ids";
+import { selectDevice } from "./devices";
+
+const TOMBSTONES_DIR = "/data/tombstones";
+/** Text tombstones; Android 12+ also writes a `.pb` protobuf copy of each */
+const TOMBSTONE_FILE_REGEX = /^tombstone_\d+$/;
+
+/** Logcat crash nodes carry their crash as `crash` */
+type NativeCrashTarget = { crash?: LogcatCrash };
+
+/**
+ * Symbolicate native backtrace frames against the unstripped libraries the
+ * Gradle build left in the workspace and open the result in an editor.
+ */
+async function showSymbolicated(sdkService: SdkService, text: string): Promise<void> {
+  const symbolizerPath = sdkService.getLlvmSymbolizerPath();
+  if (!symbolizerPath) {
+    const action = await vscode.window.showWarningMessage(
+      "llvm-symbolizer not found. Install an NDK with the SDK Manager to symbolicate native crashes.",
+      "Open SDK Manager",
+    );
+    if (action) {
+      vscode.commands.executeCommand(ANDROID_DEVKIT_COMMANDS.openSdkManager);
+    }
+    return;
+  }
+
+  const projectRoots = vscode.workspace.workspaceFolders?.map((folder) => folder.uri.fsPath) ?? [];
+  const result = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: "Symbolicating native crash…" },
+    async () => {
+      const libraries = await findUnstrippedLibraries(projectRoots);
+      return symbolicateTombstone(text, { symbolizerPath, libraries });
+    },
+  );
+
+  if (result.frameCount === 0) {
+    vscode.window.showWarningMessage("No native backtrace frames (#00 pc …) found.");
+    return;
+  }
+
+  const document = await vscode.workspace.openTextDocument({ content: result.text, language: "log" });
+  await vscode.window.showTextDocument(document, { preview: false });
+
+  if (result.unmatchedLibraries.length > 0) {
+    vscode.window.showWarningMessage(
+      `No unstripped build of ${result.unmatchedLibraries.join(", ")} with a matching build ID in the workspace. ` +
+        "Rebuild the variant that crashed to symbolicate its frames.",
+    );
+  }
+}
+
+function formatCrash(crash: LogcatCrash): string {
+  return [`pid: ${crash.pid}, name: ${crash.processName ?? "unknown"}`, crash.exception, ...crash.lines].join("\n");
+}
+
+export function registerNativeCrashCommands(
+  context: vscode.ExtensionContext,
+  adbService: AdbService,
+  sdkService: SdkService,
+): void {
+  // Symbolicate a Logcat native crash, or the tombstone in the active editor
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      ANDROID_DEVKIT_COMMANDS.symbolicateNativeCrash,
+      async (target?: NativeCrashTarget) => {
+        const editor = vscode.window.activeTextEditor;
+        const text = target?.crash
+          ? formatCrash(target.crash)
+          : editor && !editor.selection.isEmpty
+            ? editor.document.getText(editor.selection)
+            : editor?.document.getText();
+        if (!text) {
+          vscode.window.showWarningMessage("Open a tombstone or select a native crash to symbolicate.");
+          return;
+        }
+
+        try {
+          await showSymbolicated(sdkService, text);
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : "Unknown error";
+          vscode.window.showErrorMessage(`Symbolication failed: ${msg}`);
+        }
+      },
+    ),
+  );
+
+  // Pull a tombstone from the device and symbolicate it
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.pullTombstones, async (item?: DeviceTreeItem) => {
+      const serial = item?.device?.serial ?? (await selectDevice(adbService, context));
+      if (!serial) return;
+
+      try {
+        const tombstones = (await adbService.listFiles(serial, TOMBSTONES_DIR).catch(() => []))
+          .filter((entry) => entry.type === "file" && TOMBSTONE_FILE_REGEX.test(entry.name))
+          .sort((a, b) => b.modifiedDate.localeCompare(a.modifiedDate));
+        if (tombstones.length === 0) {
+          vscode.window.showWarningMessage(
+            `No readable tombstones in ${TOMBSTONES_DIR}. Reading them needs root, e.g. an emulator after 'adb root'.`,
+          );
+          return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+          tombstones.map((entry) => ({
+            label: entry.name,
+            description: entry.modifiedDate,
+            name: entry.name,
+          })),
+          { title: "Pull Tombstone", placeHolder: "Choose a tombstone, most recent first" },
+        );
+        if (!selected) return;
+
+        const localDir = path.join(context.globalStorageUri.fsPath, "tombstones", serial.replace(/[^\w.-]/g, "_"));
+        await fs.mkdir(localDir, { recursive: true });
+        const localPath = path.join(localDir, selected.name);
+        await adbService.pullFile(serial, `${TOMBSTONES_DIR}/${selected.name}`, localPath);
+
+        await showSymbolicated(sdkService, await fs.readFile(localPath, "utf8"));
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        vscode.window.showErrorMessage(`Failed to pull tombstone: ${msg}`);
+      }
+    }),
+  );
+}
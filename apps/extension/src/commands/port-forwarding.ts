@@ -0,0 +1,143 @@
+import * as vscode from "vscode";
+import type { PortMapping } from "@android-devkit/adb";
+import type { AdbService } from "../services/adb";
+import {
+  formatPortMapping,
+  normalizeAdbSocket,
+  validateAdbSocket,
+  type PersistentPortMappings,
+} from "../models/port-mappings";
+import type { PortForwardingTreeProvider, PortMappingItem } from "../views/port-forwarding";
+import { ANDROID_DEVKIT_COMMANDS } from "./ids";
+import { selectDevice } from "./devices";
+
+/** Device nodes of the Port Forwarding view carry their serial */
+type PortForwardTarget = { serial?: string };
+
+async function promptForPortMapping(
+  serial: string,
+): Promise<{ mapping: PortMapping; persistent: boolean } | undefined> {
+  const direction = await vscode.window.showQuickPick(
+    [
+      {
+        label: "$(arrow-left) Reverse",
+        description: "device → host",
+        detail: "The device reaches a server on this computer, e.g. a Metro bundler or local backend",
+        direction: "reverse" as const,
+      },
+      {
+        label: "$(arrow-right) Forward",
+        description: "host → device",
+        detail: "This computer reaches a socket on the device, e.g. a debug server or Chrome DevTools",
+        direction: "forward" as const,
+      },
+    ],
+    { title: "Add Port Mapping", placeHolder: "Choose a direction" },
+  );
+  if (!direction) return undefined;
+
+  const listenSide = direction.direction === "forward" ? "host" : "device";
+  const targetSide = direction.direction === "forward" ? "device" : "host";
+
+  const listenInput = await vscode.window.showInputBox({
+    title: "Add Port Mapping",
+    prompt: `Socket to listen on, on the ${listenSide}`,
+    placeHolder: "tcp:8081, 8081 or localabstract:<name>",
+    validateInput: (value) => validateAdbSocket(value, "listen", listenSide),
+  });
+  if (!listenInput) return undefined;
+  const listen = normalizeAdbSocket(listenInput);
+
+  const targetInput = await vscode.window.showInputBox({
+    title: "Add Port Mapping",
+    prompt: `Socket to connect to, on the ${targetSide}`,
+    value: listen,
+    validateInput: (value) => validateAdbSocket(value, "target", targetSide),
+  });
+  if (!targetInput) return undefined;
+  const target = normalizeAdbSocket(targetInput);
+
+  const persistence = await vscode.window.showQuickPick(
+    [
+      { label: "$(pin) Keep After Reconnect", detail: "Re-applied whenever the device reconnects", persistent: true },
+      { label: "This Connection Only", detail: "Gone once the device disconnects", persistent: false },
+    ],
+    { title: "Add Port Mapping" },
+  );
+  if (!persistence) return undefined;
+
+  const mapping: PortMapping =
+    direction.direction === "forward"
+      ? { direction: "forward", serial, host: listen, device: target }
+      : { direction: "reverse", serial, host: target, device: listen };
+  return { mapping, persistent: persistence.persistent };
+}
+
+export function registerPortForwardingCommands(
+  context: vscode.ExtensionContext,
+  adbService: AdbService,
+  provider: PortForwardingTreeProvider,
+  persistentMappings: PersistentPortMappings,
+): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.refreshPortForwarding, () => provider.refresh()),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.addPortMapping, async (target?: PortForwardTarget) => {
+      const serial = target?.serial ?? (await selectDevice(adbService, context));
+      if (!serial) return;
+
+      const result = await promptForPortMapping(serial);
+      if (!result) return;
+
+      try {
+        await adbService.addPortMapping(result.mapping);
+        if (result.persistent) {
+          await persistentMappings.add(result.mapping);
+        }
+        provider.refresh();
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        vscode.window.showErrorMessage(`Failed to add ${result.mapping.direction}: ${msg}`);
+      }
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.removePortMapping, async (item?: PortMappingItem) => {
+      if (!item) return;
+
+      try {
+        const connected = (await adbService.getDevices()).some(
+          (device) => device.serial === item.mapping.serial && device.state === "device",
+        );
+        // Keep the saved mapping when the device refuses the removal
+        if (connected) {
+          await adbService.removePortMapping(item.mapping);
+        }
+        await persistentMappings.remove(item.mapping);
+        provider.refresh();
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        vscode.window.showErrorMessage(`Failed to remove ${formatPortMapping(item.mapping)}: ${msg}`);
+      }
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.persistPortMapping, async (item?: PortMappingItem) => {
+      if (!item) return;
+      await persistentMappings.add(item.mapping);
+      provider.refresh();
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.unpersistPortMapping, async (item?: PortMappingItem) => {
+      if (!item) return;
+      await persistentMappings.remove(item.mapping);
+      provider.refresh();
+    }),
+  );
+}
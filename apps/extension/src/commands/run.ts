@@ -1,9 +1,13 @@
 import * as vscode from "vscode";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
 import * as path from "node:path";
-import type { GradleService } from "../services/gradle";
+import { buildApkSet } from "@android-devkit/adb";
+import type { BuildVariant, GradleService } from "../services/gradle";
 import type { AdbService } from "../services/adb";
 import type { BuildRunProvider } from "../views/build-run";
 import { ANDROID_DEVKIT_COMMANDS, VS_CODE_COMMANDS } from "./ids";
+import { ANDROID_DEVKIT_SETTINGS, getBundletoolPath, openAndroidDevkitSetting } from "../config/settings";
 import { promptForAndroidAppPackage } from "../utils/android-app";
 import { getOutputChannel } from "../utils/output";
 
@@ -28,6 +32,87 @@ async function showBuildResultActions(
   }
 }
 
+export interface RunVariantOptions {
+  variant: BuildVariant;
+  serial: string;
+  packageName: string;
+  /** Launch with `am start -D` so the app waits for a debugger */
+  waitForDebugger?: boolean;
+}
+
+/**
+ * Build the variant, install its APK and launch the app, logging each step.
+ * Shared by Run on Device and the debugger's launch configuration.
+ */
+export async function runVariantOnDevice(
+  gradleService: GradleService,
+  adbService: AdbService,
+  outputChannel: vscode.OutputChannel,
+  options: RunVariantOptions,
+  token?: vscode.CancellationToken
+): Promise<void> {
+  const { variant, serial, packageName, waitForDebugger } = options;
+
+  outputChannel.appendLine(`[1/3] Building ${variant.assembleTask}…`);
+  await gradleService.runTask(variant.assembleTask, outputChannel, token);
+
+  const apkPath = gradleService.findApk(variant);
+  if (!apkPath) {
+    throw new Error(`APK not found for variant "${variant.name}". Build may have failed or APK is in a non-standard location.`);
+  }
+
+  outputChannel.appendLine(`[2/3] Installing ${apkPath}…`);
+  await adbService.installApk(serial, apkPath);
+
+  if (waitForDebugger) {
+    outputChannel.appendLine(`[3/3] Launching ${packageName} and waiting for the debugger…`);
+    await adbService.launchApp(serial, packageName, undefined, { waitForDebugger: true });
+  } else {
+    outputChannel.appendLine(`[3/3] Launching ${packageName}…`);
+    await adbService.launchApp(serial, packageName);
+  }
+}
+
+/**
+ * Install APKs picked from disk: one APK, a base APK with its splits, an APK
+ * set (`.apks`) or an app bundle (`.aab`) built into an APK set for the
+ * device with bundletool. Logs which splits of a set were installed.
+ */
+async function installPackageFiles(
+  adbService: AdbService,
+  outputChannel: vscode.OutputChannel,
+  serial: string,
+  files: string[],
+  bundletoolPath: string
+): Promise<void> {
+  const [file] = files;
+
+  if (file.endsWith(".aab")) {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "android-devkit-aab-"));
+    try {
+      const apkSetPath = path.join(tempDir, `${path.basename(file, ".aab")}.apks`);
+      outputChannel.appendLine(`Building APK set from ${file} with bundletool…`);
+      await buildApkSet({
+        bundletoolPath,
+        bundlePath: file,
+        outputPath: apkSetPath,
+        deviceSpec: await adbService.getDeviceSpec(serial),
+      });
+      const installed = await adbService.installApkSet(serial, apkSetPath);
+      outputChannel.appendLine(`Installed ${installed.join(", ")}`);
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  } else if (file.endsWith(".apks")) {
+    const installed = await adbService.installApkSet(serial, file);
+    outputChannel.appendLine(`Installed ${installed.join(", ")} from ${file}`);
+  } else if (files.length > 1) {
+    await adbService.installApks(serial, files);
+  } else {
+    await adbService.installApk(serial, file);
+  }
+}
+
 export function registerRunCommands(
   context: vscode.ExtensionContext,
   gradleService: GradleService,
@@ -140,20 +225,7 @@ export function registerRunCommands(
         await vscode.window.withProgress(
           { location: vscode.ProgressLocation.Notification, title: `Running ${variant.name} on device…`, cancellable: true },
           async (_progress, token) => {
-            outputChannel.appendLine(`[1/3] Building ${variant.assembleTask}…`);
-            await gradleService.runTask(variant.assembleTask, outputChannel, token);
-
-            const apkPath = gradleService.findApk(variant);
-            if (!apkPath) {
-              throw new Error(`APK not found for variant "${variant.name}". Build may have failed or APK is in a non-standard location.`);
-            }
-
-            outputChannel.appendLine(`[2/3] Installing ${apkPath}…`);
-            await adbService.installApk(serial, apkPath);
-
-            outputChannel.appendLine(`[3/3] Launching ${packageName}…`);
-            await adbService.launchApp(serial, packageName);
-
+            await runVariantOnDevice(gradleService, adbService, outputChannel, { variant, serial, packageName }, token);
             outputChannel.appendLine(`\n✓ App launched successfully.`);
           }
         );
@@ -192,19 +264,37 @@ export function registerRunCommands(
       }
 
       const uris = await vscode.window.showOpenDialog({
-        title: "Select APK to install",
-        filters: { "Android Package": ["apk"] },
-        canSelectMany: false,
+        title: "Select APKs, an APK set or an app bundle to install",
+        filters: { "Android Packages": ["apk", "apks", "aab"] },
+        canSelectMany: true,
       });
       if (!uris || uris.length === 0) return;
 
-      const apkPath = uris[0].fsPath;
+      const files = uris.map((uri) => uri.fsPath);
+      if (files.length > 1 && files.some((file) => !file.endsWith(".apk"))) {
+        vscode.window.showWarningMessage("Select APK files of one app, or a single .apks or .aab file.");
+        return;
+      }
+
+      const bundletoolPath = getBundletoolPath();
+      if (files[0].endsWith(".aab") && !bundletoolPath) {
+        const action = await vscode.window.showErrorMessage(
+          "Installing an app bundle needs bundletool. Set the path to a bundletool jar first.",
+          "Open Settings"
+        );
+        if (action === "Open Settings") {
+          await openAndroidDevkitSetting(ANDROID_DEVKIT_SETTINGS.bundletoolPath);
+        }
+        return;
+      }
+
+      const label = files.length === 1 ? path.basename(files[0]) : `${files.length} APKs`;
       try {
         await vscode.window.withProgress(
-          { location: vscode.ProgressLocation.Notification, title: `Installing ${path.basename(apkPath)}…`, cancellable: false },
-          () => adbService.installApk(serial, apkPath)
+          { location: vscode.ProgressLocation.Notification, title: `Installing ${label}…`, cancellable: false },
+          () => installPackageFiles(adbService, outputChannel, serial, files, bundletoolPath)
         );
-        await showBuildResultActions(`${path.basename(apkPath)} installed on the selected device.`, outputChannel, apkPath);
+        await showBuildResultActions(`${label} installed on the selected device.`, outputChannel, files[0]);
       } catch (err) {
         const msg = err instanceof Error ? err.message : "Unknown error";
         vscode.window.showErrorMessage(`Install failed: ${msg}`);
@@ -1,12 +1,16 @@
 import * as vscode from "vscode";
 import type { LogLevel } from "@android-devkit/logcat";
 import { VS_CODE_COMMANDS } from "../commands/ids";
+import type { LogcatAlertRuleConfig } from "../models/logcat-alerts";
 
 export const ANDROID_DEVKIT_SETTINGS = {
   sdkPath: "sdkPath",
   logcatDefaultLogLevel: "logcat.defaultLogLevel",
   logcatMaxLines: "logcat.maxLines",
+  logcatAlertRules: "logcat.alertRules",
   emulatorLaunchMode: "emulator.launchMode",
+  wirelessDiscoveryEnabled: "wirelessDiscovery.enabled",
+  bundletoolPath: "bundletool.path",
 } as const;
 
 export type AndroidDevkitSettingKey =
@@ -39,10 +43,22 @@ export function getLogcatMaxLines(): number {
   return getAndroidDevkitConfiguration().get<number>(ANDROID_DEVKIT_SETTINGS.logcatMaxLines, 10000);
 }
 
+export function getLogcatAlertRules(): LogcatAlertRuleConfig[] {
+  return getAndroidDevkitConfiguration().get<LogcatAlertRuleConfig[]>(ANDROID_DEVKIT_SETTINGS.logcatAlertRules, []);
+}
+
 export function getEmulatorLaunchMode(): "internal" | "external" {
   return getAndroidDevkitConfiguration().get<"internal" | "external">(ANDROID_DEVKIT_SETTINGS.emulatorLaunchMode, "internal");
 }
 
+export function isWirelessDiscoveryEnabled(): boolean {
+  return getAndroidDevkitConfiguration().get<boolean>(ANDROID_DEVKIT_SETTINGS.wirelessDiscoveryEnabled, false);
+}
+
+export function getBundletoolPath(): string {
+  return getAndroidDevkitConfiguration().get<string>(ANDROID_DEVKIT_SETTINGS.bundletoolPath, "");
+}
+
 export function openAndroidDevkitSetting(settingKey: AndroidDevkitSettingKey): Thenable<unknown> {
   return vscode.commands.executeCommand(VS_CODE_COMMANDS.openSettings, getAndroidDevkitSettingId(settingKey));
 }
@@ -0,0 +1,782 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import {
+  EventKind,
+  JdwpClient,
+  StepDepth,
+  Tag,
+  type JdwpEvent,
+  type JdwpFrame,
+  type JdwpLineTable,
+  type JdwpMethod,
+  type JdwpValue,
+  type JdwpVariable,
+} from "@android-devkit/jdwp";
+import { StackFrameResolver } from "../models/stack-frame-resolver";
+import {
+  codeIndexForLine,
+  formatPrimitive,
+  isClassInPackage,
+  isPrimitiveTag,
+  lineForCodeIndex,
+  parseExpressionPath,
+  parseSourcePackage,
+  signatureToClassName,
+  signatureToTypeName,
+  simpleClassName,
+} from "./jdwp-values";
+
+/** Array elements listed under an expanded array */
+const MAX_ARRAY_ELEMENTS = 100;
+/** `static` in JDWP field modifier bits */
+const ACC_STATIC = 0x0008;
+
+interface DapRequest {
+  seq: number;
+  type: "request";
+  command: string;
+  arguments?: DapArguments;
+}
+
+/** Arguments of the handled requests; each request uses a subset */
+interface DapArguments {
+  port?: number;
+  host?: string;
+  source?: { path?: string };
+  breakpoints?: Array<{ line: number }>;
+  filters?: string[];
+  threadId?: number;
+  startFrame?: number;
+  levels?: number;
+  frameId?: number;
+  variablesReference?: number;
+  expression?: string;
+}
+
+interface DapVariable {
+  name: string;
+  value: string;
+  type?: string;
+  variablesReference: number;
+  indexedVariables?: number;
+}
+
+interface DapBreakpoint {
+  id: number;
+  verified: boolean;
+  line: number;
+  message?: string;
+}
+
+interface LoadedClass {
+  typeTag: number;
+  signature: string;
+  /** Undefined until queried; null when the class has no source information */
+  sourceFile?: string | null;
+}
+
+interface BreakpointState {
+  id: number;
+  line: number;
+  requestIds: number[];
+}
+
+interface SourceBreakpoints {
+  packageName: string;
+  fileName: string;
+  breakpoints: BreakpointState[];
+  /** Classes the breakpoints have been set in */
+  classes: Set<bigint>;
+}
+
+type VariableContainer =
+  | { kind: "frame"; thread: bigint; frame: JdwpFrame }
+  | { kind: "object"; objectId: bigint }
+  | { kind: "array"; arrayId: bigint; length: number };
+
+type StopReason = "breakpoint" | "step" | "exception" | "pause";
+
+/**
+ * Debug Adapter Protocol front end for a JDWP connection to an Android app.
+ *
+ * Runs inline in the extension host. The connection is set up by the
+ * configuration provider, which forwards the app's JDWP socket and passes
+ * the local port as `port`. Breakpoints are mapped to classes by the
+ * source file's package and file name; classes that aren't loaded yet are
+ * picked up from ClassPrepare events.
+ */
+export class AndroidDebugAdapter implements vscode.DebugAdapter {
+  private readonly _onDidSendMessage = new vscode.EventEmitter<vscode.DebugProtocolMessage>();
+  readonly onDidSendMessage = this._onDidSendMessage.event;
+
+  private client?: JdwpClient;
+  private seq = 1;
+  private terminated = false;
+  private suspendedForConfiguration = false;
+
+  private readonly classes = new Map<bigint, LoadedClass>();
+  private readonly methods = new Map<bigint, JdwpMethod[]>();
+  private readonly lineTables = new Map<string, JdwpLineTable | null>();
+  private readonly watchedPackages = new Map<string, number>();
+  private readonly sourceBreakpoints = new Map<string, SourceBreakpoints>();
+  private nextBreakpointId = 1;
+  private exceptionRequestIds: number[] = [];
+  private stepRequestId?: number;
+
+  private readonly threadNumbers = new Map<bigint, number>();
+  private readonly threadObjects = new Map<number, bigint>();
+  /** Frame and variable handles, valid until the app resumes */
+  private readonly frames = new Map<number, { thread: bigint; frame: JdwpFrame }>();
+  private readonly containers = new Map<number, VariableContainer>();
+  private nextHandle = 1;
+
+  private readonly sourceResolver = new StackFrameResolver();
+
+  handleMessage(message: vscode.DebugProtocolMessage): void {
+    const request = message as DapRequest;
+    if (request.type === "request") {
+      void this.dispatch(request);
+    }
+  }
+
+  dispose(): void {
+    this.client?.close();
+    this._onDidSendMessage.dispose();
+  }
+
+  private async dispatch(request: DapRequest): Promise<void> {
+    try {
+      const body = await this.handleRequest(request.command, request.arguments ?? {});
+      this.send({ type: "response", request_seq: request.seq, command: request.command, success: true, body });
+      if (request.command === "launch" || request.command === "attach") {
+        this.sendEvent("initialized");
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      this.send({ type: "response", request_seq: request.seq, command: request.command, success: false, message: msg });
+    }
+  }
+
+  private async handleRequest(command: string, args: DapArguments): Promise<unknown> {
+    switch (command) {
+      case "initialize":
+        return {
+          supportsConfigurationDoneRequest: true,
+          supportsEvaluateForHovers: true,
+          exceptionBreakpointFilters: [
+            { filter: "uncaught", label: "Uncaught Exceptions", default: true },
+            { filter: "caught", label: "Caught Exceptions", default: false },
+          ],
+        };
+      case "launch":
+      case "attach":
+        return this.connect(args.port, args.host, command === "launch");
+      case "setBreakpoints":
+        return this.setBreakpoints(args.source?.path, args.breakpoints ?? []);
+      case "setExceptionBreakpoints":
+        return this.setExceptionBreakpoints(args.filters ?? []);
+      case "configurationDone":
+        if (this.suspendedForConfiguration) {
+          this.suspendedForConfiguration = false;
+          await this.resumeAll();
+        }
+        return undefined;
+      case "threads":
+        return { threads: await this.getThreads() };
+      case "stackTrace":
+        return this.getStackTrace(args.threadId, args.startFrame ?? 0, args.levels);
+      case "scopes":
+        return this.getScopes(args.frameId);
+      case "variables":
+        return { variables: await this.getVariables(args.variablesReference ?? 0) };
+      case "evaluate":
+        return this.evaluate(args.expression ?? "", args.frameId);
+      case "continue":
+        await this.resumeAll();
+        return { allThreadsContinued: true };
+      case "next":
+        return this.step(args.threadId, StepDepth.Over);
+      case "stepIn":
+        return this.step(args.threadId, StepDepth.Into);
+      case "stepOut":
+        return this.step(args.threadId, StepDepth.Out);
+      case "pause":
+        await this.requireClient().suspend();
+        this.stopped("pause", this.threadObject(args.threadId));
+        return undefined;
+      case "disconnect":
+        await this.disconnect();
+        return undefined;
+      default:
+        throw new Error(`Unsupported request: ${command}`);
+    }
+  }
+
+  // Connection
+
+  private async connect(port: number | undefined, host: string | undefined, launched: boolean): Promise<void> {
+    if (!port) {
+      throw new Error("No JDWP port to connect to");
+    }
+
+    const client = await JdwpClient.connect(port, host);
+    this.client = client;
+    client.on("event", (event: JdwpEvent) => void this.handleEvent(event));
+    client.on("close", () => this.terminate());
+
+    // Hold a freshly launched app until breakpoints are in place
+    if (launched) {
+      await client.suspend();
+      this.suspendedForConfiguration = true;
+    }
+
+    const version = await client.version();
+    this.output(
+      `Connected to ${version.vmName} ${version.vmVersion} (JDWP ${version.jdwpMajor}.${version.jdwpMinor})\n`,
+    );
+  }
+
+  private async disconnect(): Promise<void> {
+    const client = this.client;
+    if (!client || client.isClosed) return;
+
+    try {
+      // Dispose clears event requests and resumes the app
+      await client.dispose();
+    } catch {
+      // The app may already be gone
+    }
+    this.terminated = true;
+    client.close();
+  }
+
+  private terminate(): void {
+    if (this.terminated) return;
+    this.terminated = true;
+    this.sendEvent("terminated");
+  }
+
+  private requireClient(): JdwpClient {
+    if (!this.client || this.client.isClosed) {
+      throw new Error("Not connected to the app");
+    }
+    return this.client;
+  }
+
+  // Events
+
+  private async handleEvent(event: JdwpEvent): Promise<void> {
+    try {
+      switch (event.kind) {
+        case EventKind.Breakpoint:
+          this.stopped("breakpoint", event.thread);
+          break;
+        case EventKind.SingleStep:
+          await this.clearStepRequest();
+          this.stopped("step", event.thread);
+          break;
+        case EventKind.Exception: {
+          const { typeId } = await this.requireClient().referenceType(event.exception);
+          const className = signatureToClassName(await this.requireClient().signature(typeId));
+          this.stopped("exception", event.thread, event.catchLocation ? className : `Uncaught ${className}`);
+          break;
+        }
+        case EventKind.ClassPrepare:
+          this.classes.set(event.typeId, { typeTag: event.typeTag, signature: event.signature });
+          await this.applyPendingBreakpoints(event.typeId);
+          await this.requireClient().resume();
+          break;
+        case EventKind.VmDeath:
+          this.terminate();
+          break;
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      this.output(`Failed to handle JDWP event: ${msg}\n`, "stderr");
+    }
+  }
+
+  private stopped(reason: StopReason, thread: bigint, text?: string): void {
+    this.sendEvent("stopped", {
+      reason,
+      threadId: this.threadNumber(thread),
+      allThreadsStopped: true,
+      text,
+    });
+  }
+
+  private async resumeAll(): Promise<void> {
+    this.frames.clear();
+    this.containers.clear();
+    await this.requireClient().resume();
+  }
+
+  private async step(threadNumber: number | undefined, depth: StepDepth): Promise<void> {
+    const client = this.requireClient();
+    await this.clearStepRequest();
+    this.stepRequestId = await client.setStep(this.threadObject(threadNumber), depth);
+    await this.resumeAll();
+  }
+
+  private async clearStepRequest(): Promise<void> {
+    if (this.stepRequestId === undefined) return;
+    const requestId = this.stepRequestId;
+    this.stepRequestId = undefined;
+    await this.requireClient().clearEventRequest(EventKind.SingleStep, requestId);
+  }
+
+  // Breakpoints
+
+  private async setBreakpoints(
+    sourcePath: string | undefined,
+    requested: ReadonlyArray<{ line: number }>,
+  ): Promise<{ breakpoints: DapBreakpoint[] }> {
+    if (!sourcePath) {
+      return { breakpoints: [] };
+    }
+
+    const previous = this.sourceBreakpoints.get(sourcePath);
+    if (previous) {
+      await this.clearBreakpointRequests(previous);
+    }
+
+    const text = await fs.readFile(sourcePath, "utf8").catch(() => "");
+    const source: SourceBreakpoints = {
+      packageName: parseSourcePackage(text),
+      fileName: path.basename(sourcePath),
+      breakpoints: requested.map(({ line }) => ({ id: this.nextBreakpointId++, line, requestIds: [] })),
+      classes: new Set(),
+    };
+    this.sourceBreakpoints.set(sourcePath, source);
+
+    if (this.client && source.breakpoints.length > 0) {
+      for (const typeId of await this.findSourceClasses(source)) {
+        await this.applyBreakpoints(source, typeId);
+      }
+    }
+
+    return { breakpoints: source.breakpoints.map(toDapBreakpoint) };
+  }
+
+  private async clearBreakpointRequests(source: SourceBreakpoints): Promise<void> {
+    if (!this.client || this.client.isClosed) return;
+    for (const breakpoint of source.breakpoints) {
+      for (const requestId of breakpoint.requestIds) {
+        await this.client.clearEventRequest(EventKind.Breakpoint, requestId).catch(() => undefined);
+      }
+    }
+  }
+
+  /** Loaded classes compiled from a source file */
+  private async findSourceClasses(source: SourceBreakpoints): Promise<bigint[]> {
+    const client = this.requireClient();
+
+    // Watch the package before listing, so no class can load in between
+    if (!this.watchedPackages.has(source.packageName)) {
+      // A pattern for the default package would match every class in the app
+      const requestId = source.packageName ? await client.setClassPrepare(`${source.packageName}.*`) : 0;
+      this.watchedPackages.set(source.packageName, requestId);
+      for (const info of await client.allClasses()) {
+        if (!this.classes.has(info.typeId)) {
+          this.classes.set(info.typeId, { typeTag: info.typeTag, signature: info.signature });
+        }
+      }
+    }
+
+    const matches: bigint[] = [];
+    for (const [typeId, loaded] of this.classes) {
+      if (!isClassInPackage(loaded.signature, source.packageName)) continue;
+      if ((await this.getSourceFile(typeId)) === source.fileName) {
+        matches.push(typeId);
+      }
+    }
+    return matches;
+  }
+
+  private async applyPendingBreakpoints(typeId: bigint): Promise<void> {
+    const loaded = this.classes.get(typeId);
+    if (!loaded) return;
+
+    for (const source of this.sourceBreakpoints.values()) {
+      if (!isClassInPackage(loaded.signature, source.packageName)) continue;
+      if ((await this.getSourceFile(typeId)) !== source.fileName) continue;
+
+      for (const breakpoint of await this.applyBreakpoints(source, typeId)) {
+        this.sendEvent("breakpoint", { reason: "changed", breakpoint: toDapBreakpoint(breakpoint) });
+      }
+    }
+  }
+
+  /** Set breakpoints of a source in one of its classes; returns those newly verified */
+  private async applyBreakpoints(source: SourceBreakpoints, typeId: bigint): Promise<BreakpointState[]> {
+    const client = this.requireClient();
+    const loaded = this.classes.get(typeId);
+    // A class can be both listed and reported by ClassPrepare
+    if (!loaded || source.classes.has(typeId)) return [];
+    source.classes.add(typeId);
+
+    const verified: BreakpointState[] = [];
+    for (const method of await this.getMethods(typeId)) {
+      const table = await this.getLineTable(typeId, method.methodId);
+      if (!table) continue;
+
+      for (const breakpoint of source.breakpoints) {
+        const index = codeIndexForLine(table, breakpoint.line);
+        if (index === undefined) continue;
+
+        const requestId = await client.setBreakpoint({
+          typeTag: loaded.typeTag,
+          classId: typeId,
+          methodId: method.methodId,
+          index,
+        });
+        if (breakpoint.requestIds.length === 0) verified.push(breakpoint);
+        breakpoint.requestIds.push(requestId);
+      }
+    }
+    return verified;
+  }
+
+  private async setExceptionBreakpoints(filters: readonly string[]): Promise<void> {
+    const client = this.requireClient();
+    for (const requestId of this.exceptionRequestIds) {
+      await client.clearEventRequest(EventKind.Exception, requestId);
+    }
+    this.exceptionRequestIds = [];
+
+    // A caught-exception request also reports uncaught ones
+    if (filters.includes("caught")) {
+      this.exceptionRequestIds.push(await client.setExceptionBreak(true));
+    } else if (filters.includes("uncaught")) {
+      this.exceptionRequestIds.push(await client.setExceptionBreak(false));
+    }
+  }
+
+  // Threads and frames
+
+  private async getThreads(): Promise<Array<{ id: number; name: string }>> {
+    const client = this.requireClient();
+    const threads: Array<{ id: number; name: string }> = [];
+    for (const thread of await client.allThreads()) {
+      // Threads can end between the list and the name lookup
+      const name = await client.threadName(thread).catch(() => undefined);
+      if (name !== undefined) {
+        threads.push({ id: this.threadNumber(thread), name });
+      }
+    }
+    return threads;
+  }
+
+  private async getStackTrace(
+    threadNumber: number | undefined,
+    startFrame: number,
+    levels: number | undefined,
+  ): Promise<{ stackFrames: unknown[]; totalFrames: number }> {
+    const thread = this.threadObject(threadNumber);
+    const frames = await this.requireClient().frames(thread);
+    const selected = frames.slice(startFrame, levels ? startFrame + levels : undefined);
+
+    const stackFrames = [];
+    for (const frame of selected) {
+      const { location } = frame;
+      const className = signatureToClassName(await this.getSignature(location.classId));
+      const method = (await this.getMethods(location.classId)).find((m) => m.methodId === location.methodId);
+      const table = await this.getLineTable(location.classId, location.methodId);
+      const line = table ? lineForCodeIndex(table, location.index) : undefined;
+      const fileName = (await this.getSourceFile(location.classId)) ?? undefined;
+      const sourcePath = fileName
+        ? await this.sourceResolver.resolveAsync({ className, methodName: method?.name ?? "", fileName })
+        : undefined;
+
+      const id = this.nextHandle++;
+      this.frames.set(id, { thread, frame });
+      stackFrames.push({
+        id,
+        name: `${simpleClassName(className)}.${method?.name ?? "<unknown>"}`,
+        line: line ?? 0,
+        column: 0,
+        source: sourcePath ? { name: fileName, path: sourcePath } : fileName ? { name: fileName } : undefined,
+        presentationHint: sourcePath ? undefined : "subtle",
+      });
+    }
+
+    return { stackFrames, totalFrames: frames.length };
+  }
+
+  private getScopes(frameId: number | undefined): { scopes: unknown[] } {
+    const frame = frameId === undefined ? undefined : this.frames.get(frameId);
+    if (!frame) {
+      throw new Error("The app has resumed; the frame is no longer available");
+    }
+    return {
+      scopes: [
+        {
+          name: "Locals",
+          presentationHint: "locals",
+          variablesReference: this.addContainer({ kind: "frame", ...frame }),
+          expensive: false,
+        },
+      ],
+    };
+  }
+
+  // Variables
+
+  private async getVariables(reference: number): Promise<DapVariable[]> {
+    const container = this.containers.get(reference);
+    if (!container) return [];
+
+    const client = this.requireClient();
+    switch (container.kind) {
+      case "frame": {
+        const variables: DapVariable[] = [];
+        const thisObject = await client.thisObject(container.thread, container.frame.frameId);
+        if (thisObject !== 0n) {
+          variables.push(await this.toVariable("this", { tag: Tag.Object, value: thisObject }));
+        }
+        for (const { variable, value } of await this.getFrameLocals(container.thread, container.frame)) {
+          variables.push(await this.toVariable(variable.name, value, variable.signature));
+        }
+        return variables;
+      }
+      case "object": {
+        const fields = await this.getInstanceFields(container.objectId);
+        const values = await client.objectValues(
+          container.objectId,
+          fields.map((field) => field.fieldId),
+        );
+        return Promise.all(fields.map((field, index) => this.toVariable(field.name, values[index], field.signature)));
+      }
+      case "array": {
+        const count = Math.min(container.length, MAX_ARRAY_ELEMENTS);
+        const values = count ? await client.arrayValues(container.arrayId, 0, count) : [];
+        return Promise.all(values.map((value, index) => this.toVariable(`[${index}]`, value)));
+      }
+    }
+  }
+
+  private async getFrameLocals(
+    thread: bigint,
+    frame: JdwpFrame,
+  ): Promise<Array<{ variable: JdwpVariable; value: JdwpValue }>> {
+    const client = this.requireClient();
+    const { classId, methodId, index } = frame.location;
+    // Classes built without debug info have no variable table
+    const table = await client.variableTable(classId, methodId).catch(() => []);
+    const live = table.filter(
+      (variable) => index >= variable.codeIndex && index < variable.codeIndex + BigInt(variable.length),
+    );
+    if (live.length === 0) return [];
+
+    const values = await client.frameValues(
+      thread,
+      frame.frameId,
+      live.map((variable) => ({ slot: variable.slot, tag: variable.signature.charCodeAt(0) })),
+    );
+    return live.map((variable, i) => ({ variable, value: values[i] }));
+  }
+
+  private async getInstanceFields(objectId: bigint) {
+    const client = this.requireClient();
+    const { typeId } = await client.referenceType(objectId);
+    const fields = [];
+    // Walk up to java.lang.Object, whose superclass is 0
+    for (let classId = typeId; classId !== 0n; classId = await client.superclass(classId)) {
+      for (const field of await client.fields(classId)) {
+        if ((field.modifiers & ACC_STATIC) === 0) fields.push(field);
+      }
+    }
+    return fields;
+  }
+
+  private async toVariable(name: string, value: JdwpValue, signature?: string): Promise<DapVariable> {
+    const type = signature ? signatureToTypeName(signature) : undefined;
+    if (isPrimitiveTag(value.tag)) {
+      return { name, value: formatPrimitive(value), type, variablesReference: 0 };
+    }
+
+    const objectId = value.value as bigint;
+    if (objectId === 0n) {
+      return { name, value: "null", type, variablesReference: 0 };
+    }
+
+    const client = this.requireClient();
+    if (value.tag === Tag.String) {
+      const text = await client.stringValue(objectId);
+      return { name, value: JSON.stringify(text), type: type ?? "java.lang.String", variablesReference: 0 };
+    }
+
+    const { typeId } = await client.referenceType(objectId);
+    const runtimeType = signatureToTypeName(await this.getSignature(typeId));
+    if (value.tag === Tag.Array) {
+      const length = await client.arrayLength(objectId);
+      return {
+        name,
+        value: runtimeType.replace(/\[\]$/, `[${length}]`),
+        type: runtimeType,
+        variablesReference: this.addContainer({ kind: "array", arrayId: objectId, length }),
+        indexedVariables: length,
+      };
+    }
+
+    return {
+      name,
+      value: `${simpleClassName(runtimeType)}@${objectId.toString(16)}`,
+      type: runtimeType,
+      variablesReference: this.addContainer({ kind: "object", objectId }),
+    };
+  }
+
+  // Evaluation
+
+  private async evaluate(
+    expression: string,
+    frameId: number | undefined,
+  ): Promise<{ result: string; type?: string; variablesReference: number }> {
+    const frame = frameId === undefined ? undefined : this.frames.get(frameId);
+    if (!frame) {
+      throw new Error("Evaluation needs a paused frame");
+    }
+    const segments = parseExpressionPath(expression);
+    if (!segments || typeof segments[0] !== "string") {
+      throw new Error("Only variables, fields and array elements can be evaluated");
+    }
+
+    const client = this.requireClient();
+    const [root, ...rest] = segments;
+    let value: JdwpValue | undefined;
+    let signature: string | undefined;
+
+    const thisObject = await client.thisObject(frame.thread, frame.frame.frameId);
+    if (root === "this") {
+      value = thisObject !== 0n ? { tag: Tag.Object, value: thisObject } : undefined;
+    } else {
+      const local = (await this.getFrameLocals(frame.thread, frame.frame)).find((l) => l.variable.name === root);
+      if (local) {
+        value = local.value;
+        signature = local.variable.signature;
+      } else if (thisObject !== 0n) {
+        // An unqualified name can also be a field of `this`
+        rest.unshift(root);
+        value = { tag: Tag.Object, value: thisObject };
+      }
+    }
+
+    for (const segment of rest) {
+      if (!value) break;
+      if (isPrimitiveTag(value.tag) || value.value === 0n) {
+        throw new Error(`Cannot read ${segment} of ${isPrimitiveTag(value.tag) ? "a primitive" : "null"}`);
+      }
+      const objectId = value.value as bigint;
+      if (typeof segment === "number") {
+        if (value.tag !== Tag.Array) throw new Error(`${expression} indexes something that is not an array`);
+        [value] = await client.arrayValues(objectId, segment, 1);
+        signature = undefined;
+      } else {
+        const field = (await this.getInstanceFields(objectId)).find((f) => f.name === segment);
+        if (!field) {
+          value = undefined;
+          break;
+        }
+        [value] = await client.objectValues(objectId, [field.fieldId]);
+        signature = field.signature;
+      }
+    }
+
+    if (!value) {
+      throw new Error(`Cannot find ${expression}`);
+    }
+    const variable = await this.toVariable(expression, value, signature);
+    return { result: variable.value, type: variable.type, variablesReference: variable.variablesReference };
+  }
+
+  // Caches and handles
+
+  private async getSignature(typeId: bigint): Promise<string> {
+    const loaded = this.classes.get(typeId);
+    if (loaded) return loaded.signature;
+    return this.requireClient().signature(typeId);
+  }
+
+  private async getSourceFile(typeId: bigint): Promise<string | null> {
+    const loaded = this.classes.get(typeId);
+    if (loaded?.sourceFile !== undefined) return loaded.sourceFile;
+
+    const sourceFile = await this.requireClient()
+      .sourceFile(typeId)
+      .catch(() => null);
+    if (loaded) loaded.sourceFile = sourceFile;
+    return sourceFile;
+  }
+
+  private async getMethods(typeId: bigint): Promise<JdwpMethod[]> {
+    let methods = this.methods.get(typeId);
+    if (!methods) {
+      methods = await this.requireClient().methods(typeId);
+      this.methods.set(typeId, methods);
+    }
+    return methods;
+  }
+
+  /** Null for abstract and native methods, which have no code */
+  private async getLineTable(typeId: bigint, methodId: bigint): Promise<JdwpLineTable | null> {
+    const key = `${typeId}:${methodId}`;
+    let table = this.lineTables.get(key);
+    if (table === undefined) {
+      table = await this.requireClient()
+        .lineTable(typeId, methodId)
+        .catch(() => null);
+      this.lineTables.set(key, table);
+    }
+    return table;
+  }
+
+  private threadNumber(thread: bigint): number {
+    let number = this.threadNumbers.get(thread);
+    if (number === undefined) {
+      number = this.threadNumbers.size + 1;
+      this.threadNumbers.set(thread, number);
+      this.threadObjects.set(number, thread);
+    }
+    return number;
+  }
+
+  private threadObject(threadNumber: number | undefined): bigint {
+    const thread = threadNumber === undefined ? undefined : this.threadObjects.get(threadNumber);
+    if (thread === undefined) {
+      throw new Error(`Unknown thread ${threadNumber}`);
+    }
+    return thread;
+  }
+
+  private addContainer(container: VariableContainer): number {
+    const handle = this.nextHandle++;
+    this.containers.set(handle, container);
+    return handle;
+  }
+
+  // Messages
+
+  private output(text: string, category: "console" | "stderr" = "console"): void {
+    this.sendEvent("output", { category, output: text });
+  }
+
+  private sendEvent(event: string, body?: unknown): void {
+    this.send({ type: "event", event, body });
+  }
+
+  private send(message: Record<string, unknown>): void {
+    this._onDidSendMessage.fire({ seq: this.seq++, ...message } as vscode.DebugProtocolMessage);
+  }
+}
+
+function toDapBreakpoint(breakpoint: BreakpointState): DapBreakpoint {
+  const verified = breakpoint.requestIds.length > 0;
+  return {
+    id: breakpoint.id,
+    line: breakpoint.line,
+    verified,
+    message: verified ? undefined : "The class for this line has not been loaded yet",
+  };
+}
@@ -0,0 +1,226 @@
+import * as vscode from "vscode";
+import type { DebuggableProcess } from "@android-devkit/adb";
+import type { AdbService } from "../services/adb";
+import type { GradleService } from "../services/gradle";
+import type { BuildRunProvider } from "../views/build-run";
+import { runVariantOnDevice } from "../commands/run";
+import { promptForAndroidAppPackage } from "../utils/android-app";
+import { getOutputChannel } from "../utils/output";
+
+export const ANDROID_DEBUG_TYPE = "android";
+
+/** How long a debug launch waits for the app's process to register for JDWP */
+const PROCESS_START_TIMEOUT_MS = 15000;
+const PROCESS_POLL_INTERVAL_MS = 250;
+
+export interface AndroidDebugConfiguration extends vscode.DebugConfiguration {
+  request: "launch" | "attach";
+  /** Device serial; defaults to the Build & Run target device */
+  serial?: string;
+  /** Build variant name; defaults to the Build & Run variant (launch) */
+  variant?: string;
+  /** Application ID; detected from the module when omitted */
+  packageName?: string;
+  /** Launch the installed app without building and installing it (launch) */
+  skipBuild?: boolean;
+  /** Process to attach to; picked from the device's debuggable processes when omitted (attach) */
+  pid?: number;
+  /** Local port forwarded to the app's JDWP socket, filled in while resolving */
+  port?: number;
+}
+
+/**
+ * Turns `android` launch configurations into a JDWP port: launch builds,
+ * installs and starts the app waiting for the debugger, attach picks a
+ * running process. Either way the app's JDWP socket is forwarded to a free
+ * local port for the debug adapter.
+ */
+export class AndroidDebugConfigurationProvider implements vscode.DebugConfigurationProvider {
+  /** `serial:port` of forwards set up here, removed when their session ends */
+  private readonly forwards = new Set<string>();
+
+  constructor(
+    private readonly gradleService: GradleService,
+    private readonly adbService: AdbService,
+    private readonly buildRunProvider: BuildRunProvider,
+  ) {}
+
+  provideDebugConfigurations(): vscode.DebugConfiguration[] {
+    return [
+      { type: ANDROID_DEBUG_TYPE, request: "launch", name: "Android: Launch App" },
+      { type: ANDROID_DEBUG_TYPE, request: "attach", name: "Android: Attach to Process" },
+    ];
+  }
+
+  resolveDebugConfiguration(
+    _folder: vscode.WorkspaceFolder | undefined,
+    config: vscode.DebugConfiguration,
+  ): vscode.DebugConfiguration {
+    // F5 without a launch.json
+    if (!config.type && !config.request && !config.name) {
+      return { type: ANDROID_DEBUG_TYPE, request: "launch", name: "Android: Launch App" };
+    }
+    return config;
+  }
+
+  async resolveDebugConfigurationWithSubstitutedVariables(
+    _folder: vscode.WorkspaceFolder | undefined,
+    debugConfig: vscode.DebugConfiguration,
+    token?: vscode.CancellationToken,
+  ): Promise<vscode.DebugConfiguration | undefined> {
+    const config = debugConfig as AndroidDebugConfiguration;
+    // An explicit port is connected to as is, e.g. a forward set up by hand
+    if (config.port) {
+      return config;
+    }
+
+    const serial = config.serial ?? this.buildRunProvider.getSelectedDeviceSerial();
+    if (!serial) {
+      vscode.window.showWarningMessage("No target device selected. Click 'Target Device' to choose one.");
+      return undefined;
+    }
+
+    try {
+      const pid =
+        config.request === "attach" ? await this.pickProcess(serial, config) : await this.launch(serial, config, token);
+      if (pid === undefined) return undefined;
+
+      const port = await this.forwardProcess(serial, pid);
+      return { ...config, serial, pid, port };
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      vscode.window.showErrorMessage(`Debug ${config.request} failed: ${msg}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Forward a free local port to a process's JDWP socket. The forward is
+   * removed when a debug session using it ends.
+   */
+  async forwardProcess(serial: string, pid: number): Promise<number> {
+    const port = await this.adbService.forwardJdwp(serial, pid);
+    this.forwards.add(`${serial}:${port}`);
+    return port;
+  }
+
+  /**
+   * Remove the forward of a finished session, if it was set up here.
+   */
+  async releaseForward(config: AndroidDebugConfiguration): Promise<void> {
+    const key = `${config.serial}:${config.port}`;
+    if (!config.serial || !config.port || !this.forwards.delete(key)) return;
+    await this.adbService.removeForward(config.serial, config.port);
+  }
+
+  private async launch(
+    serial: string,
+    config: AndroidDebugConfiguration,
+    token?: vscode.CancellationToken,
+  ): Promise<number | undefined> {
+    const variant = config.variant
+      ? this.buildRunProvider.getVariants().find((v) => v.name === config.variant)
+      : this.buildRunProvider.getSelectedVariant();
+    if (!variant) {
+      vscode.window.showWarningMessage(
+        config.variant ? `Build variant "${config.variant}" not found.` : "No build variant selected.",
+      );
+      return undefined;
+    }
+
+    const packageName = config.packageName ?? (await promptForAndroidAppPackage(variant.module));
+    if (!packageName) return undefined;
+
+    const outputChannel = getOutputChannel("Build & Run", "ansi");
+    if (!config.skipBuild) {
+      outputChannel.clear();
+      outputChannel.show(true);
+    }
+
+    return vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Debugging ${packageName}…`, cancellable: true },
+      async (_progress, progressToken) => {
+        if (config.skipBuild) {
+          await this.adbService.launchApp(serial, packageName, undefined, { waitForDebugger: true });
+        } else {
+          await runVariantOnDevice(
+            this.gradleService,
+            this.adbService,
+            outputChannel,
+            { variant, serial, packageName, waitForDebugger: true },
+            progressToken,
+          );
+        }
+        return this.waitForDebuggableProcess(serial, packageName, token ?? progressToken);
+      },
+    );
+  }
+
+  private async waitForDebuggableProcess(
+    serial: string,
+    packageName: string,
+    token: vscode.CancellationToken,
+  ): Promise<number | undefined> {
+    const start = Date.now();
+    while (Date.now() - start < PROCESS_START_TIMEOUT_MS) {
+      if (token.isCancellationRequested) return undefined;
+
+      const pid = await this.adbService.getPidForPackage(serial, packageName);
+      if (pid && (await this.adbService.listJdwpPids(serial)).includes(pid)) {
+        return pid;
+      }
+      await new Promise((resolve) => setTimeout(resolve, PROCESS_POLL_INTERVAL_MS));
+    }
+
+    throw new Error(`${packageName} did not start a debuggable process. Is the variant debuggable?`);
+  }
+
+  private async pickProcess(serial: string, config: AndroidDebugConfiguration): Promise<number | undefined> {
+    if (config.pid) {
+      return config.pid;
+    }
+
+    if (config.packageName) {
+      const pid = await this.adbService.getPidForPackage(serial, config.packageName);
+      if (!pid) {
+        throw new Error(`${config.packageName} is not running`);
+      }
+      return pid;
+    }
+
+    return (await pickDebuggableProcess(this.adbService, serial))?.pid;
+  }
+}
+
+/**
+ * Pick one of the device's debuggable processes, listed by package or
+ * process name.
+ */
+export async function pickDebuggableProcess(
+  adbService: AdbService,
+  serial: string,
+): Promise<DebuggableProcess | undefined> {
+  const processes = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Window, title: "Listing debuggable processes…" },
+    () => adbService.listDebuggableProcesses(serial),
+  );
+  if (processes.length === 0) {
+    vscode.window.showWarningMessage("No debuggable processes are running on the device.");
+    return undefined;
+  }
+
+  // Apps first, then other debuggable processes such as system_server on userdebug builds
+  const sorted = [...processes].sort(
+    (a, b) => Number(!a.packageName) - Number(!b.packageName) || a.name.localeCompare(b.name),
+  );
+  const selected = await vscode.window.showQuickPick(
+    sorted.map((process) => ({
+      label: process.name,
+      description: `PID ${process.pid}`,
+      detail: process.packageName && process.packageName !== process.name ? process.packageName : undefined,
+      process,
+    })),
+    { title: "Attach Debugger", placeHolder: "Choose a debuggable process", matchOnDescription: true },
+  );
+  return selected?.process;
+}
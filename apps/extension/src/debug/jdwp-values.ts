@@ -0,0 +1,135 @@
+import { Tag, type JdwpLineTable, type JdwpValue } from "@android-devkit/jdwp";
+
+const PACKAGE_REGEX = /^\s*package\s+([\w.`]+)/m;
+
+const PRIMITIVE_NAMES: Record<string, string> = {
+  B: "byte",
+  C: "char",
+  D: "double",
+  F: "float",
+  I: "int",
+  J: "long",
+  S: "short",
+  V: "void",
+  Z: "boolean",
+};
+
+/**
+ * The package a Java or Kotlin source file declares, or "" for the default
+ * package.
+ */
+export function parseSourcePackage(text: string): string {
+  return text.match(PACKAGE_REGEX)?.[1].replace(/`/g, "") ?? "";
+}
+
+/** `Lcom/example/Main$Inner;` → `com.example.Main$Inner` */
+export function signatureToClassName(signature: string): string {
+  return signature.startsWith("L") && signature.endsWith(";")
+    ? signature.slice(1, -1).replace(/\//g, ".")
+    : signatureToTypeName(signature);
+}
+
+/** Readable type of a field or variable signature: `I` → `int`, `[Ljava/lang/String;` → `java.lang.String[]` */
+export function signatureToTypeName(signature: string): string {
+  if (signature.startsWith("[")) return `${signatureToTypeName(signature.slice(1))}[]`;
+  if (signature.startsWith("L")) return signatureToClassName(signature);
+  return PRIMITIVE_NAMES[signature] ?? signature;
+}
+
+/** `com.example.Main$Inner` → `Main$Inner` */
+export function simpleClassName(className: string): string {
+  return className.slice(className.lastIndexOf(".") + 1);
+}
+
+/** Whether a class signature belongs directly to a package (not a subpackage) */
+export function isClassInPackage(signature: string, packageName: string): boolean {
+  const className = signatureToClassName(signature);
+  const lastDot = className.lastIndexOf(".");
+  return (lastDot === -1 ? "" : className.slice(0, lastDot)) === packageName;
+}
+
+/** The first code index of a source line in a method, if the method covers it */
+export function codeIndexForLine(table: JdwpLineTable, line: number): bigint | undefined {
+  let best: bigint | undefined;
+  for (const entry of table.lines) {
+    if (entry.line === line && (best === undefined || entry.codeIndex < best)) {
+      best = entry.codeIndex;
+    }
+  }
+  return best;
+}
+
+/** The source line executing at a code index */
+export function lineForCodeIndex(table: JdwpLineTable, index: bigint): number | undefined {
+  let best: { codeIndex: bigint; line: number } | undefined;
+  for (const entry of table.lines) {
+    if (entry.codeIndex <= index && (!best || entry.codeIndex >= best.codeIndex)) {
+      best = entry;
+    }
+  }
+  return best?.line;
+}
+
+/** Display text of a primitive value */
+export function formatPrimitive({ tag, value }: JdwpValue): string {
+  switch (tag) {
+    case Tag.Char:
+      return `'${String.fromCharCode(Number(value))}'`;
+    case Tag.Boolean:
+      return value ? "true" : "false";
+    case Tag.Long:
+      return `${value}L`;
+    case Tag.Float:
+      return `${Number(Number(value).toPrecision(7))}f`;
+    case Tag.Void:
+      return "void";
+    default:
+      return String(value);
+  }
+}
+
+export function isPrimitiveTag(tag: number): boolean {
+  return (
+    tag === Tag.Byte ||
+    tag === Tag.Char ||
+    tag === Tag.Double ||
+    tag === Tag.Float ||
+    tag === Tag.Int ||
+    tag === Tag.Long ||
+    tag === Tag.Short ||
+    tag === Tag.Boolean ||
+    tag === Tag.Void
+  );
+}
+
+export type ExpressionSegment = string | number;
+
+/**
+ * Parse a debugger expression made of a name followed by field accesses and
+ * array indexes, e.g. `user.friends[2].name`. Returns undefined for anything
+ * else, since evaluation doesn't run code in the app.
+ */
+export function parseExpressionPath(expression: string): ExpressionSegment[] | undefined {
+  const trimmed = expression.trim();
+  const match = trimmed.match(/^[A-Za-z_$][\w$]*/);
+  if (!match) return undefined;
+
+  const segments: ExpressionSegment[] = [match[0]];
+  let rest = trimmed.slice(match[0].length);
+  while (rest) {
+    const field = rest.match(/^\s*\.\s*([A-Za-z_$][\w$]*)/);
+    if (field) {
+      segments.push(field[1]);
+      rest = rest.slice(field[0].length);
+      continue;
+    }
+    const index = rest.match(/^\s*\[\s*(\d+)\s*\]/);
+    if (index) {
+      segments.push(Number(index[1]));
+      rest = rest.slice(index[0].length);
+      continue;
+    }
+    return undefined;
+  }
+  return segments;
+}
@@ -8,6 +8,9 @@ import { registerGradleFeature } from "./features/gradle";
 import { registerSdkFeature } from "./features/sdk";
 import { registerProjectFeature } from "./features/project";
 import { registerAdbStatusFeature } from "./features/adb-status";
+import { registerDebugFeature } from "./features/debug";
+import { registerPortForwardingFeature } from "./features/port-forwarding";
+import { registerIntentFeature } from "./features/intents";
 import { registerCommandMenu } from "./commands/command-menu";
 import { ANDROID_DEVKIT_COMMANDS, VS_CODE_COMMANDS } from "./commands/ids";
 
@@ -20,8 +23,11 @@ export function activate(context: vscode.ExtensionContext) {
   // Register features
   registerAdbStatusFeature(context, services);
   const fileExplorerProvider = registerDeviceFeature(context, services);
+  registerPortForwardingFeature(context, services);
+  registerIntentFeature(context, services);
   registerLogcatFeature(context, services);
-  registerBuildRunFeature(context, services);
+  const buildRunProvider = registerBuildRunFeature(context, services);
+  registerDebugFeature(context, services, buildRunProvider);
   registerAvdFeature(context, services);
   registerGradleFeature(context, services);
   registerSdkFeature(context, services);
@@ -2,14 +2,24 @@ import * as vscode from "vscode";
 import type { ServiceContainer } from "../services/container";
 import { AvdManagerProvider } from "../views/avd-manager";
 import { registerAvdCommands } from "../commands/avd";
-import { CONTEXT_KEYS } from "../commands/ids";
+import { formatRouteDuration, registerEmulatorLocationCommands } from "../commands/emulator-location";
+import { ANDROID_DEVKIT_COMMANDS, CONTEXT_KEYS } from "../commands/ids";
+import { AvdLaunchOptions } from "../models/avd-launch-options";
+import { SavedPlaces } from "../models/saved-places";
+import { RoutePlaybackService } from "../services/route-playback";
 import { setAndroidDevkitContext } from "../config/context";
 
 export function registerAvdFeature(
   context: vscode.ExtensionContext,
   services: ServiceContainer
 ): void {
-  const avdManagerProvider = new AvdManagerProvider(services.sdk, services.adb);
+  const launchOptions = new AvdLaunchOptions(context.workspaceState);
+  const avdManagerProvider = new AvdManagerProvider(
+    services.sdk,
+    services.adb,
+    services.emulatorConsole,
+    launchOptions
+  );
 
   context.subscriptions.push(
     avdManagerProvider,
@@ -19,11 +29,70 @@ export function registerAvdFeature(
     })
   );
 
-  registerAvdCommands(context, services.sdk, avdManagerProvider, services.adb, services.scrcpy);
+  registerAvdCommands(
+    context,
+    services.sdk,
+    avdManagerProvider,
+    services.adb,
+    services.scrcpy,
+    services.emulatorConsole,
+    launchOptions
+  );
+
+  const routePlayback = new RoutePlaybackService(services.emulatorConsole);
+  context.subscriptions.push(routePlayback, ...createRoutePlaybackStatus(routePlayback));
+  registerEmulatorLocationCommands(
+    context,
+    services.adb,
+    services.emulatorConsole,
+    routePlayback,
+    new SavedPlaces(context.globalState)
+  );
 
   void refreshAvdWelcomeState(services);
 }
 
+/** A status bar entry while routes play, which stops them when clicked */
+function createRoutePlaybackStatus(routePlayback: RoutePlaybackService): vscode.Disposable[] {
+  const statusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 45);
+  statusBar.command = ANDROID_DEVKIT_COMMANDS.stopEmulatorRoute;
+  statusBar.name = "Android DevKit Route Playback";
+
+  const update = () => {
+    const active = routePlayback.active;
+    void setAndroidDevkitContext(CONTEXT_KEYS.routePlaying, active.length > 0);
+    if (active.length === 0) {
+      statusBar.hide();
+      return;
+    }
+    const [first] = active;
+    statusBar.text =
+      active.length === 1
+        ? `$(location) ${first.label} ${Math.round(first.progress * 100)}%`
+        : `$(location) ${active.length} routes`;
+    statusBar.tooltip = active
+      .map(
+        (playback) =>
+          `${playback.serial}: ${playback.label}, ${formatRouteDuration(playback.progress * playback.route.durationMs)} / ${formatRouteDuration(playback.route.durationMs)}`
+      )
+      .concat("Click to stop")
+      .join("\n");
+    statusBar.show();
+  };
+
+  return [
+    statusBar,
+    routePlayback.onDidChange(update),
+    routePlayback.onDidEnd(({ playback, finished, error }) => {
+      if (error) {
+        vscode.window.showErrorMessage(`Route playback on ${playback.serial} stopped: ${error.message}`);
+      } else if (finished) {
+        vscode.window.showInformationMessage(`${playback.label} finished on ${playback.serial}.`);
+      }
+    })
+  ];
+}
+
 async function refreshAvdWelcomeState(services: ServiceContainer): Promise<void> {
   const sdkConfigured = Boolean(services.sdk.getSdkPath());
   await setAndroidDevkitContext(CONTEXT_KEYS.sdkConfigured, sdkConfigured);
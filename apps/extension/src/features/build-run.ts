@@ -7,7 +7,7 @@ import { ANDROID_DEVKIT_COMMANDS } from "../commands/ids";
 export function registerBuildRunFeature(
   context: vscode.ExtensionContext,
   services: ServiceContainer
-): void {
+): BuildRunProvider {
   const buildRunProvider = new BuildRunProvider(services.gradle, services.adb, context);
 
   const targetDeviceStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 49);
@@ -65,4 +65,6 @@ export function registerBuildRunFeature(
     updateBuildVariantStatusBar();
     updateTargetDeviceStatusBar();
   });
+
+  return buildRunProvider;
 }
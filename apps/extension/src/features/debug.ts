@@ -0,0 +1,33 @@
+import * as vscode from "vscode";
+import type { ServiceContainer } from "../services/container";
+import type { BuildRunProvider } from "../views/build-run";
+import { AndroidDebugAdapter } from "../debug/adapter";
+import { registerDebugCommands } from "../commands/debug";
+import {
+  ANDROID_DEBUG_TYPE,
+  AndroidDebugConfigurationProvider,
+  type AndroidDebugConfiguration,
+} from "../debug/configuration";
+
+export function registerDebugFeature(
+  context: vscode.ExtensionContext,
+  services: ServiceContainer,
+  buildRunProvider: BuildRunProvider,
+): void {
+  const configurationProvider = new AndroidDebugConfigurationProvider(services.gradle, services.adb, buildRunProvider);
+
+  context.subscriptions.push(
+    vscode.debug.registerDebugConfigurationProvider(ANDROID_DEBUG_TYPE, configurationProvider),
+    vscode.debug.registerDebugAdapterDescriptorFactory(ANDROID_DEBUG_TYPE, {
+      createDebugAdapterDescriptor: () => new vscode.DebugAdapterInlineImplementation(new AndroidDebugAdapter()),
+    }),
+    // Attach Debugger can hand a forward to other JDWP debuggers too, so check every session type
+    vscode.debug.onDidTerminateDebugSession((session) => {
+      void configurationProvider
+        .releaseForward(session.configuration as AndroidDebugConfiguration)
+        .catch(() => undefined);
+    }),
+  );
+
+  registerDebugCommands(context, services.adb, configurationProvider);
+}
@@ -5,31 +5,70 @@ import { FileExplorerProvider } from "../views/file-explorer";
 import { registerDeviceCommands } from "../commands/devices";
 import { CONTEXT_KEYS } from "../commands/ids";
 import { setAndroidDevkitContext } from "../config/context";
+import {
+  ANDROID_DEVKIT_SETTINGS,
+  getAndroidDevkitSettingId,
+  isWirelessDiscoveryEnabled
+} from "../config/settings";
 
 export function registerDeviceFeature(
   context: vscode.ExtensionContext,
   services: ServiceContainer
 ): FileExplorerProvider {
-  const devicesProvider = new DevicesTreeProvider(services.adb);
+  const devicesProvider = new DevicesTreeProvider(services.adb, services.wireless);
   const fileExplorerProvider = new FileExplorerProvider(services.adb);
+  const devicesView = vscode.window.createTreeView("androidDevkit.devices", { treeDataProvider: devicesProvider });
 
   context.subscriptions.push(
     devicesProvider,
     fileExplorerProvider,
-    vscode.window.registerTreeDataProvider("androidDevkit.devices", devicesProvider),
+    devicesView,
+    devicesView.onDidChangeSelection((event) => devicesProvider.setSelection(event.selection)),
     vscode.window.registerTreeDataProvider("androidDevkit.fileExplorer", fileExplorerProvider),
     services.adb.onDevicesChanged(() => {
       void refreshDeviceState(services, fileExplorerProvider);
     })
   );
 
-  registerDeviceCommands(context, services.adb, services.scrcpy, devicesProvider, fileExplorerProvider);
+  registerDeviceCommands(
+    context,
+    services.adb,
+    services.scrcpy,
+    services.wireless,
+    services.emulatorConsole,
+    devicesProvider,
+    fileExplorerProvider
+  );
+  registerWirelessDiscovery(context, services);
 
   devicesProvider.refresh();
 
   return fileExplorerProvider;
 }
 
+/** Keep the mDNS discovery loop running in the background while the setting asks for it */
+function registerWirelessDiscovery(context: vscode.ExtensionContext, services: ServiceContainer): void {
+  let background: vscode.Disposable | undefined;
+  const apply = () => {
+    if (isWirelessDiscoveryEnabled()) {
+      background ??= services.wireless.hold();
+    } else {
+      background?.dispose();
+      background = undefined;
+    }
+  };
+
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration(getAndroidDevkitSettingId(ANDROID_DEVKIT_SETTINGS.wirelessDiscoveryEnabled))) {
+        apply();
+      }
+    }),
+    new vscode.Disposable(() => background?.dispose())
+  );
+  apply();
+}
+
 async function refreshDeviceState(
   services: ServiceContainer,
   fileExplorerProvider: FileExplorerProvider
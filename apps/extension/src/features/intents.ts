@@ -0,0 +1,14 @@
+import * as vscode from "vscode";
+import type { ServiceContainer } from "../services/container";
+import { SavedIntentsTreeProvider } from "../views/saved-intents";
+import { registerIntentCommands } from "../commands/intents";
+import { SavedIntents } from "../models/saved-intents";
+
+export function registerIntentFeature(context: vscode.ExtensionContext, services: ServiceContainer): void {
+  const savedIntents = new SavedIntents(context.workspaceState);
+  const provider = new SavedIntentsTreeProvider(savedIntents);
+
+  context.subscriptions.push(provider, vscode.window.registerTreeDataProvider("androidDevkit.savedIntents", provider));
+
+  registerIntentCommands(context, services.adb, provider, savedIntents);
+}
@@ -1,20 +1,40 @@
 import * as vscode from "vscode";
 import type { ServiceContainer } from "../services/container";
 import { LogcatTreeProvider } from "../views/logcat";
+import { LogcatInsightsProvider } from "../views/logcat-insights";
 import { registerLogcatCommands } from "../commands/logcat";
+import { registerNativeCrashCommands } from "../commands/native-crash";
 import { ANDROID_DEVKIT_COMMANDS } from "../commands/ids";
+import {
+  ANDROID_DEVKIT_SETTINGS,
+  getAndroidDevkitSettingId,
+  getLogcatAlertRules,
+  openAndroidDevkitSetting,
+} from "../config/settings";
+import { LogcatAlertMonitor, compileLogcatAlertRules, type LogcatAlertMatch } from "../models/logcat-alerts";
 
 export function registerLogcatFeature(
   context: vscode.ExtensionContext,
   services: ServiceContainer
 ): void {
   const logcatProvider = new LogcatTreeProvider(services.logcat, context);
+  const insightsProvider = new LogcatInsightsProvider(logcatProvider);
 
   const logcatStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 47);
   logcatStatusBar.command = ANDROID_DEVKIT_COMMANDS.logcatStatusMenu;
   logcatStatusBar.name = "Android DevKit Logcat";
 
   const updateStatusBar = () => {
+    const sessions = logcatProvider.getSessions();
+    if (sessions.length > 1) {
+      const running = sessions.filter((session) => session.state === "running").length;
+      logcatStatusBar.text = `$(output) Logcat: ${running}/${sessions.length} Running`;
+      logcatStatusBar.tooltip = sessions
+        .map((session) => `${session.label} — ${session.state.charAt(0).toUpperCase()}${session.state.slice(1)}`)
+        .join("\n");
+      return;
+    }
+
     const session = logcatProvider.getSession();
     const state = logcatProvider.getSessionState();
     const stateLabel = state.charAt(0).toUpperCase() + state.slice(1);
@@ -29,6 +49,8 @@ export function registerLogcatFeature(
     logcatProvider,
     logcatStatusBar,
     vscode.window.registerTreeDataProvider("androidDevkit.logcat", logcatProvider),
+    insightsProvider,
+    vscode.window.registerTreeDataProvider("androidDevkit.logcatInsights", insightsProvider),
     logcatProvider.onDidSessionChange(() => {
       updateStatusBar();
     }),
@@ -36,7 +58,7 @@ export function registerLogcatFeature(
       try {
         const devices = await services.adb.getDevices();
         const ready = devices.filter((d) => d.state === "device");
-        logcatProvider.setHasAvailableDevices(ready.length > 0);
+        logcatProvider.setHasAvailableDevices(ready.length > 0, ready.map((d) => d.serial));
         updateStatusBar();
         if (ready.length > 0) {
           logcatStatusBar.show();
@@ -51,7 +73,121 @@ export function registerLogcatFeature(
   );
 
   registerLogcatCommands(context, services.adb, logcatProvider);
+  registerNativeCrashCommands(context, services.adb, services.sdk);
+  registerLogcatAlerts(context, services, logcatProvider);
 
   // Initial state
   updateStatusBar();
 }
+
+/**
+ * Check every streamed entry against the `logcat.alertRules` setting and
+ * notify, count or pause on a match.
+ */
+function registerLogcatAlerts(
+  context: vscode.ExtensionContext,
+  services: ServiceContainer,
+  logcatProvider: LogcatTreeProvider
+): void {
+  const monitor = new LogcatAlertMonitor();
+
+  const alertStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 46);
+  alertStatusBar.command = ANDROID_DEVKIT_COMMANDS.showLogcatAlerts;
+  alertStatusBar.name = "Android DevKit Logcat Alerts";
+
+  const updateAlertStatusBar = () => {
+    const count = monitor.count;
+    if (count === 0) {
+      alertStatusBar.hide();
+      return;
+    }
+    alertStatusBar.text = `$(bell-dot) ${count.toLocaleString()}`;
+    alertStatusBar.tooltip = [...monitor.getCounts()].map(([name, value]) => `${name}: ${value}`).join("\n");
+    alertStatusBar.show();
+  };
+
+  const loadRules = () => {
+    const { rules, errors } = compileLogcatAlertRules(getLogcatAlertRules());
+    monitor.setRules(rules);
+    if (errors.length > 0) {
+      vscode.window.showWarningMessage(`Ignoring invalid Logcat alert rules: ${errors.join("; ")}`);
+    }
+  };
+
+  const describe = ({ entry }: LogcatAlertMatch) => `${entry.tag}: ${entry.message.split("\n")[0]}`;
+
+  const handleMatch = async (match: LogcatAlertMatch) => {
+    const { rule, serial } = match;
+    if (rule.action === "pause") {
+      const session = logcatProvider.pauseDevice(serial);
+      if (!session) return;
+
+      const action = await vscode.window.showWarningMessage(
+        `Logcat paused by alert "${rule.name}": ${describe(match)}`,
+        "Resume"
+      );
+      if (action === "Resume") {
+        logcatProvider.setActiveSession(session);
+        logcatProvider.resume();
+      }
+      return;
+    }
+
+    if (rule.action === "notify" && monitor.shouldNotify(rule)) {
+      const action = await vscode.window.showWarningMessage(
+        `Logcat alert "${rule.name}": ${describe(match)}`,
+        "Show Logcat"
+      );
+      if (action === "Show Logcat") {
+        logcatProvider.show();
+      }
+    }
+  };
+
+  context.subscriptions.push(
+    alertStatusBar,
+    services.logcat.onLogcatEntry(({ serial, entry }) => {
+      if (!monitor.hasRules) return;
+
+      const matches = monitor.check(serial, entry);
+      if (matches.length === 0) return;
+
+      updateAlertStatusBar();
+      for (const match of matches) {
+        void handleMatch(match);
+      }
+    }),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration(getAndroidDevkitSettingId(ANDROID_DEVKIT_SETTINGS.logcatAlertRules))) {
+        loadRules();
+      }
+    }),
+    vscode.commands.registerCommand(ANDROID_DEVKIT_COMMANDS.showLogcatAlerts, async () => {
+      const matches = monitor.getRecentMatches();
+      const items: (vscode.QuickPickItem & { action?: "reset" | "settings" })[] = [
+        { label: "$(clear-all) Reset Alert Counter", action: "reset" },
+        { label: "$(gear) Edit Alert Rules", action: "settings" },
+        { label: "", kind: vscode.QuickPickItemKind.Separator },
+        ...matches.map((match) => ({
+          label: match.rule.name,
+          description: `${match.entry.timestamp.toLocaleTimeString("en-US", { hour12: false })} · ${match.serial}`,
+          detail: describe(match),
+        })),
+      ];
+
+      const selection = await vscode.window.showQuickPick(items, {
+        title: "Logcat Alerts",
+        placeHolder: matches.length ? "Recent alert matches" : "No alerts have matched yet",
+      });
+
+      if (selection?.action === "reset") {
+        monitor.reset();
+        updateAlertStatusBar();
+      } else if (selection?.action === "settings") {
+        await openAndroidDevkitSetting(ANDROID_DEVKIT_SETTINGS.logcatAlertRules);
+      }
+    })
+  );
+
+  loadRules();
+}
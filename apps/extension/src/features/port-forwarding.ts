@@ -0,0 +1,87 @@
+import * as vscode from "vscode";
+import type { ServiceContainer } from "../services/container";
+import type { AdbService } from "../services/adb";
+import { PortForwardingTreeProvider } from "../views/port-forwarding";
+import { registerPortForwardingCommands } from "../commands/port-forwarding";
+import { PersistentPortMappings, formatPortMapping } from "../models/port-mappings";
+
+export function registerPortForwardingFeature(context: vscode.ExtensionContext, services: ServiceContainer): void {
+  const persistentMappings = new PersistentPortMappings(context.workspaceState);
+  const provider = new PortForwardingTreeProvider(services.adb, persistentMappings);
+
+  context.subscriptions.push(
+    provider,
+    vscode.window.registerTreeDataProvider("androidDevkit.portForwarding", provider),
+  );
+
+  registerPortForwardingCommands(context, services.adb, provider, persistentMappings);
+  reapplyOnReconnect(context, services.adb, persistentMappings, provider);
+}
+
+/**
+ * Track the ADB server's device list and re-apply persistent forwards and
+ * reverses to every device that (re)appears. Tracking starts once the ADB
+ * server is reachable and restarts after the server goes away.
+ */
+function reapplyOnReconnect(
+  context: vscode.ExtensionContext,
+  adbService: AdbService,
+  persistentMappings: PersistentPortMappings,
+  provider: PortForwardingTreeProvider,
+): void {
+  let connected = new Set<string>();
+  let tracker: vscode.Disposable | undefined;
+  let starting = false;
+
+  const reapply = async (serial: string) => {
+    const rules = persistentMappings.list(serial);
+    for (const rule of rules) {
+      try {
+        await adbService.addPortMapping(rule);
+        adbService.outputChannel.appendLine(`Re-applied ${rule.direction} ${formatPortMapping(rule)} on ${serial}`);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        adbService.outputChannel.appendLine(
+          `Failed to re-apply ${rule.direction} ${formatPortMapping(rule)} on ${serial}: ${msg}`,
+        );
+      }
+    }
+    if (rules.length > 0) provider.refresh();
+  };
+
+  const onDevices = (serials: string[]) => {
+    const appeared = serials.filter((serial) => !connected.has(serial));
+    connected = new Set(serials);
+    provider.refresh();
+    for (const serial of appeared) {
+      void reapply(serial);
+    }
+  };
+
+  const stop = () => {
+    tracker?.dispose();
+    tracker = undefined;
+    connected = new Set();
+  };
+
+  const start = async () => {
+    if (tracker || starting) return;
+    starting = true;
+    try {
+      tracker = await adbService.trackDevices(onDevices, stop);
+    } catch {
+      // The ADB server isn't running yet; retried on the next device change
+    } finally {
+      starting = false;
+    }
+  };
+
+  context.subscriptions.push(
+    adbService.onDevicesChanged(() => {
+      provider.refresh();
+      void start();
+    }),
+    { dispose: stop },
+  );
+  void start();
+}
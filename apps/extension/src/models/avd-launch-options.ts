@@ -0,0 +1,90 @@
+import type * as vscode from "vscode";
+import { buildEmulatorLaunchArgs, type EmulatorLaunchOptions } from "@android-devkit/emulator";
+
+const LAUNCH_OPTIONS_STATE_KEY = "avdLaunchOptions";
+
+/** The options kept per AVD; window and snapshot choices are made at each launch */
+export type StoredLaunchOptions = Omit<EmulatorLaunchOptions, "noWindow" | "snapshot">;
+
+/**
+ * Split extra emulator arguments as a shell would: on whitespace, keeping
+ * single- or double-quoted parts together.
+ */
+export function splitArguments(text: string): string[] {
+  const args: string[] = [];
+  for (const match of text.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)) {
+    args.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return args;
+}
+
+/** Quote arguments with spaces so `splitArguments` reads them back */
+export function joinArguments(args: readonly string[]): string {
+  return args.map((arg) => (/\s/.test(arg) ? `"${arg}"` : arg)).join(" ");
+}
+
+/** `-gpu host -memory 4096`, or an empty string when every option is the default */
+export function formatLaunchOptions(options: StoredLaunchOptions): string {
+  try {
+    return joinArguments(buildEmulatorLaunchArgs(options));
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid launch options";
+  }
+}
+
+/**
+ * The options for one launch: the saved ones, plus the snapshot to boot from.
+ * A saved cold boot would skip loading the chosen snapshot, so it is dropped,
+ * and the emulator saves its state back into the snapshot it booted from on
+ * exit, so a chosen snapshot is always launched with `-no-snapshot-save` to
+ * keep it as it was.
+ */
+export function resolveLaunchOptions(stored: StoredLaunchOptions, snapshot?: string): EmulatorLaunchOptions {
+  if (!snapshot) return stored;
+  const { noSnapshotLoad: _coldBoot, ...options } = stored;
+  return { ...options, snapshot, noSnapshotSave: true };
+}
+
+/** Drop unset values so stored options only list what was changed */
+function compact(options: StoredLaunchOptions): StoredLaunchOptions {
+  return Object.fromEntries(
+    Object.entries(options).filter(
+      ([, value]) => value !== undefined && value !== false && !(Array.isArray(value) && value.length === 0),
+    ),
+  ) as StoredLaunchOptions;
+}
+
+/**
+ * Emulator launch options saved per AVD name, kept per workspace so a
+ * project can pin e.g. a GPU mode or a read-only test fixture AVD.
+ */
+export class AvdLaunchOptions {
+  constructor(private readonly state: vscode.Memento) {}
+
+  private all(): Record<string, StoredLaunchOptions> {
+    return this.state.get<Record<string, StoredLaunchOptions>>(LAUNCH_OPTIONS_STATE_KEY, {});
+  }
+
+  get(avdName: string): StoredLaunchOptions {
+    return this.all()[avdName] ?? {};
+  }
+
+  /** Merge changes into an AVD's options; `undefined` resets an option */
+  async update(avdName: string, changes: StoredLaunchOptions): Promise<StoredLaunchOptions> {
+    const options = compact({ ...this.get(avdName), ...changes });
+    const all = { ...this.all() };
+    if (Object.keys(options).length === 0) {
+      delete all[avdName];
+    } else {
+      all[avdName] = options;
+    }
+    await this.state.update(LAUNCH_OPTIONS_STATE_KEY, all);
+    return options;
+  }
+
+  async reset(avdName: string): Promise<void> {
+    const all = { ...this.all() };
+    delete all[avdName];
+    await this.state.update(LAUNCH_OPTIONS_STATE_KEY, all);
+  }
+}
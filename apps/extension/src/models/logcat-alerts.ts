@@ -0,0 +1,158 @@
+import type { LogcatEntry, LogLevel } from "@android-devkit/logcat";
+
+export type LogcatAlertAction = "notify" | "count" | "pause";
+
+/** A rule as written in the `androidDevkit.logcat.alertRules` setting */
+export interface LogcatAlertRuleConfig {
+  name?: string;
+  /** Exact tag */
+  tag?: string;
+  /** Minimum level */
+  level?: LogLevel;
+  /** Regular expression tested against the message */
+  message?: string;
+  action?: LogcatAlertAction;
+}
+
+export interface LogcatAlertRule {
+  name: string;
+  action: LogcatAlertAction;
+  matches(entry: LogcatEntry): boolean;
+}
+
+export interface LogcatAlertMatch {
+  rule: LogcatAlertRule;
+  serial: string;
+  entry: LogcatEntry;
+}
+
+const LOG_LEVELS: LogLevel[] = ["V", "D", "I", "W", "E", "F", "S"];
+const ACTIONS: LogcatAlertAction[] = ["notify", "count", "pause"];
+const MAX_RECENT_MATCHES = 50;
+/** Repeated matches of one rule raise at most one notification per interval */
+const NOTIFY_INTERVAL_MS = 10_000;
+
+/**
+ * Compile rules from settings. Invalid rules are skipped and reported in
+ * `errors` so one typo doesn't disable the others.
+ */
+export function compileLogcatAlertRules(configs: readonly LogcatAlertRuleConfig[]): {
+  rules: LogcatAlertRule[];
+  errors: string[];
+} {
+  const rules: LogcatAlertRule[] = [];
+  const errors: string[] = [];
+
+  configs.forEach((config, index) => {
+    const name = config.name || config.tag || config.message || `Rule ${index + 1}`;
+    if (!config.tag && !config.level && !config.message) {
+      errors.push(`${name}: set at least one of tag, level or message`);
+      return;
+    }
+
+    const minLevel = config.level ? LOG_LEVELS.indexOf(config.level) : -1;
+    if (config.level && minLevel < 0) {
+      errors.push(`${name}: unknown level '${config.level}'`);
+      return;
+    }
+
+    const action = config.action ?? "notify";
+    if (!ACTIONS.includes(action)) {
+      errors.push(`${name}: unknown action '${action}'`);
+      return;
+    }
+
+    let messageRegex: RegExp | undefined;
+    if (config.message) {
+      try {
+        messageRegex = new RegExp(config.message);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        errors.push(`${name}: invalid message pattern: ${reason}`);
+        return;
+      }
+    }
+
+    rules.push({
+      name,
+      action,
+      matches: (entry) =>
+        (config.tag === undefined || entry.tag === config.tag) &&
+        LOG_LEVELS.indexOf(entry.level) >= minLevel &&
+        (messageRegex === undefined || messageRegex.test(entry.message)),
+    });
+  });
+
+  return { rules, errors };
+}
+
+/**
+ * Runs every streamed entry through the alert rules and keeps the counters
+ * and recent matches behind the status bar item.
+ */
+export class LogcatAlertMonitor {
+  private rules: LogcatAlertRule[] = [];
+  private counts = new Map<string, number>();
+  private recent: LogcatAlertMatch[] = [];
+  private lastNotified = new Map<string, number>();
+
+  setRules(rules: LogcatAlertRule[]): void {
+    this.rules = rules;
+    this.lastNotified.clear();
+  }
+
+  get hasRules(): boolean {
+    return this.rules.length > 0;
+  }
+
+  /**
+   * Returns the rules the entry matched, newest match recorded first.
+   */
+  check(serial: string, entry: LogcatEntry): LogcatAlertMatch[] {
+    const matches: LogcatAlertMatch[] = [];
+    for (const rule of this.rules) {
+      if (!rule.matches(entry)) continue;
+
+      const match = { rule, serial, entry };
+      matches.push(match);
+      this.recent.unshift(match);
+      if (rule.action === "count") {
+        this.counts.set(rule.name, (this.counts.get(rule.name) ?? 0) + 1);
+      }
+    }
+    this.recent.length = Math.min(this.recent.length, MAX_RECENT_MATCHES);
+    return matches;
+  }
+
+  /**
+   * True if a notification for the rule is due; records the notification.
+   */
+  shouldNotify(rule: LogcatAlertRule, now = Date.now()): boolean {
+    const last = this.lastNotified.get(rule.name);
+    if (last !== undefined && now - last < NOTIFY_INTERVAL_MS) {
+      return false;
+    }
+    this.lastNotified.set(rule.name, now);
+    return true;
+  }
+
+  /** Total of the `count` rules */
+  get count(): number {
+    let total = 0;
+    for (const count of this.counts.values()) total += count;
+    return total;
+  }
+
+  getCounts(): ReadonlyMap<string, number> {
+    return this.counts;
+  }
+
+  getRecentMatches(): readonly LogcatAlertMatch[] {
+    return this.recent;
+  }
+
+  reset(): void {
+    this.counts.clear();
+    this.recent = [];
+  }
+}
@@ -1,31 +1,66 @@
-import * as vscode from "vscode";
-import type { LogcatEntry, LogLevel } from "@android-devkit/logcat";
+import {
+  isProcessMarker,
+  matchesLogcatQuery,
+  parseStackFrame,
+  type LogcatBufferId,
+  type LogcatEntry,
+  type LogcatQuery,
+  type LogLevel,
+} from "@android-devkit/logcat";
+import { LogcatStats } from "./logcat-stats";
+import { StackFrameResolver } from "./stack-frame-resolver";
 
 const LOG_LEVELS: LogLevel[] = ["V", "D", "I", "W", "E", "F", "S"];
 
 export class LogcatBuffer {
   private entries: LogcatEntry[] = [];
-  private resolvedFileCache = new Map<string, string | null>();
+  private bufferCounts = new Map<LogcatBufferId, number>();
+  /** Counts over everything accepted since the last clear, rotated entries included */
+  readonly stats = new LogcatStats();
 
-  constructor(private maxEntries: number) {}
+  constructor(
+    private maxEntries: number,
+    readonly frameResolver = new StackFrameResolver()
+  ) {}
 
   /**
    * Add an entry if it passes the given filters. Returns true if added.
    */
-  add(entry: LogcatEntry, minLevel: LogLevel, filter?: string, pid?: number): boolean {
-    if (!this.matchesFilters(entry, minLevel, filter, pid)) {
+  add(entry: LogcatEntry, minLevel: LogLevel, query?: LogcatQuery, pid?: number | ReadonlySet<number>): boolean {
+    if (!this.matchesFilters(entry, minLevel, query, pid)) {
       return false;
     }
 
     this.entries.push(entry);
+    this.countBuffer(entry, 1);
+    if (!isProcessMarker(entry)) {
+      this.stats.add(entry);
+    }
     if (this.entries.length > this.maxEntries) {
-      this.entries.shift();
+      this.countBuffer(this.entries.shift()!, -1);
     }
     return true;
   }
 
   clear(): void {
     this.entries = [];
+    this.bufferCounts.clear();
+    this.stats.clear();
+  }
+
+  /** Buffered entries per device log buffer, for entries that carry one */
+  getBufferCounts(): ReadonlyMap<LogcatBufferId, number> {
+    return this.bufferCounts;
+  }
+
+  private countBuffer(entry: LogcatEntry, delta: number): void {
+    if (!entry.buffer) return;
+    const count = (this.bufferCounts.get(entry.buffer) ?? 0) + delta;
+    if (count > 0) {
+      this.bufferCounts.set(entry.buffer, count);
+    } else {
+      this.bufferCounts.delete(entry.buffer);
+    }
   }
 
   getEntries(): readonly LogcatEntry[] {
@@ -36,25 +71,29 @@ export class LogcatBuffer {
     return this.entries.length;
   }
 
-  private matchesFilters(entry: LogcatEntry, minLevel: LogLevel, filter?: string, pid?: number): boolean {
+  matchesFilters(
+    entry: LogcatEntry,
+    minLevel: LogLevel,
+    query?: LogcatQuery,
+    pid?: number | ReadonlySet<number>
+  ): boolean {
+    // Process restart markers are always shown
+    if (isProcessMarker(entry)) {
+      return true;
+    }
+
     // Check level filter
     if (LOG_LEVELS.indexOf(entry.level) < LOG_LEVELS.indexOf(minLevel)) {
       return false;
     }
 
-    // Check text filter
-    if (filter) {
-      const filterLower = filter.toLowerCase();
-      if (
-        !entry.tag.toLowerCase().includes(filterLower) &&
-        !entry.message.toLowerCase().includes(filterLower)
-      ) {
-        return false;
-      }
+    // Check query filter
+    if (query && !matchesLogcatQuery(query, entry)) {
+      return false;
     }
 
     // Check PID filter
-    if (pid && entry.pid !== pid) {
+    if (typeof pid === "number" ? pid && entry.pid !== pid : pid && !pid.has(entry.pid)) {
       return false;
     }
 
@@ -66,30 +105,17 @@ export class LogcatBuffer {
    * so VS Code can auto-linkify them in the output channel.
    */
   linkifyStackTrace(message: string): string {
-    const stackTraceRegex = /^(\s*at\s+\S+)\((\w+\.\w+):(\d+)\)$/;
-    const match = message.match(stackTraceRegex);
-    if (!match) return message;
-
-    const [, prefix, filename, lineNum] = match;
-    const resolved = this.resolvedFileCache.get(filename);
-    if (resolved !== undefined) {
-      return resolved
-        ? `${prefix}(${resolved}:${lineNum})`
-        : message;
-    }
-
-    // Async resolve, won't linkify this occurrence but will cache for next
-    void this.resolveSourceFile(filename);
-    return message;
-  }
-
-  private async resolveSourceFile(filename: string): Promise<void> {
-    try {
-      const files = await vscode.workspace.findFiles(`**/${filename}`, "**/build/**", 1);
-      this.resolvedFileCache.set(filename, files[0]?.fsPath ?? null);
-    } catch {
-      this.resolvedFileCache.set(filename, null);
-    }
+    return message
+      .split("\n")
+      .map((line) => {
+        const frame = parseStackFrame(line);
+        const resolved = frame && this.frameResolver.resolve(frame);
+        if (!frame?.fileName || !resolved) return line;
+
+        const location = frame.lineNumber ? `${resolved}:${frame.lineNumber}` : resolved;
+        return line.replace(/\([^)]*\)\s*$/, `(${location})`);
+      })
+      .join("\n");
   }
 
   static formatEntry(entry: LogcatEntry): string {
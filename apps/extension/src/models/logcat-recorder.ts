@@ -0,0 +1,55 @@
+import * as fs from "node:fs";
+import {
+  formatRecordingEntry,
+  formatRecordingHeader,
+  type LogcatEntry,
+  type LogcatRecordingHeader,
+} from "@android-devkit/logcat";
+
+/**
+ * Appends a logcat session to a JSON-lines file as entries arrive.
+ *
+ * The file is opened and written asynchronously, so failures such as an
+ * unwritable path or a full disk are reported through `onError`; entries
+ * written after a failure are dropped.
+ */
+export class LogcatRecorder {
+  private stream: fs.WriteStream;
+  private count = 0;
+  private error: Error | undefined;
+
+  constructor(
+    readonly filePath: string,
+    header: LogcatRecordingHeader,
+    onError: (error: Error) => void
+  ) {
+    this.stream = fs.createWriteStream(filePath, { encoding: "utf8" });
+    this.stream.on("error", (error) => {
+      if (this.error) return;
+      this.error = error;
+      onError(error);
+    });
+    this.stream.write(`${formatRecordingHeader(header)}\n`);
+  }
+
+  write(entry: LogcatEntry): void {
+    if (this.error) return;
+    this.stream.write(`${formatRecordingEntry(entry)}\n`);
+    this.count++;
+  }
+
+  get entryCount(): number {
+    return this.count;
+  }
+
+  /**
+   * Flush and close the file. Resolves with the number of recorded entries.
+   */
+  close(): Promise<number> {
+    if (this.error) return Promise.reject(this.error);
+    return new Promise((resolve, reject) => {
+      this.stream.once("error", reject);
+      this.stream.end(() => resolve(this.count));
+    });
+  }
+}
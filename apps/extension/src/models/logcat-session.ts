@@ -0,0 +1,216 @@
+import {
+  CrashCollector,
+  PackageProcessTracker,
+  createProcessMarker,
+  type LogcatBufferId,
+  type LogcatCrash,
+  type LogcatEntry,
+  type LogcatOptions,
+  type LogcatQuery,
+  type LogcatRecording,
+  type LogLevel,
+  type PackageProcess,
+} from "@android-devkit/logcat";
+import { LogcatBuffer } from "./logcat-buffer";
+import type { LogcatRecorder } from "./logcat-recorder";
+import type { StackFrameResolver } from "./stack-frame-resolver";
+
+export type LogcatSessionState = "stopped" | "running" | "paused" | "replay";
+
+export interface LogcatSessionOptions {
+  /** Device log buffers to read; the device default when unset */
+  buffers?: LogcatBufferId[];
+  deviceLabel?: string;
+  minLevel: LogLevel;
+  packageName?: string;
+  pid?: number;
+  serial?: string;
+}
+
+export interface LabeledLogcatEntry {
+  label: string;
+  entry: LogcatEntry;
+}
+
+const MAX_CRASHES = 20;
+const LOG_LEVELS: LogLevel[] = ["V", "D", "I", "W", "E", "F", "S"];
+/** `ActivityManager: Start proc` lines are logged at info */
+const PROCESS_EVENT_LEVEL: LogLevel = "I";
+
+/**
+ * One device's Logcat stream: its own buffer, filters, crashes, recording
+ * and pause state.
+ */
+export class LogcatSession {
+  readonly buffer: LogcatBuffer;
+  state: LogcatSessionState = "stopped";
+  filter?: LogcatQuery;
+  recorder?: LogcatRecorder;
+  replay?: { label: string; recording: LogcatRecording };
+  processTracker?: PackageProcessTracker;
+  private processSeed: PackageProcess[] = [];
+  private crashCollector = new CrashCollector();
+  private crashes: LogcatCrash[] = [];
+
+  constructor(
+    public options: LogcatSessionOptions,
+    maxEntries: number,
+    frameResolver: StackFrameResolver
+  ) {
+    this.buffer = new LogcatBuffer(maxEntries, frameResolver);
+  }
+
+  get label(): string {
+    return this.replay?.label ?? this.options.deviceLabel ?? this.options.serial ?? "All devices";
+  }
+
+  get isLive(): boolean {
+    return this.state === "running" || this.state === "paused";
+  }
+
+  /**
+   * Buffer an entry if it passes this session's level, query and PID filters.
+   * Returns true if added.
+   */
+  accept(entry: LogcatEntry): boolean {
+    return this.buffer.add(entry, this.options.minLevel, this.filter, this.pidFilter);
+  }
+
+  /**
+   * Options for the device stream. Following a package needs the
+   * `ActivityManager` lines of every process, so PID filtering moves from
+   * the device into accept() and the stream level is capped at info.
+   */
+  getStreamOptions(): LogcatOptions {
+    if (!this.processTracker) {
+      return { minLevel: this.options.minLevel, pid: this.options.pid, buffers: this.options.buffers };
+    }
+
+    const minLevel =
+      LOG_LEVELS.indexOf(this.options.minLevel) > LOG_LEVELS.indexOf(PROCESS_EVENT_LEVEL)
+        ? PROCESS_EVENT_LEVEL
+        : this.options.minLevel;
+    return { minLevel, buffers: this.options.buffers };
+  }
+
+  /**
+   * True for entries the device stream would have delivered without
+   * package tracking: at or above the minimum level and from a tracked PID.
+   */
+  isStreamEntry(entry: LogcatEntry): boolean {
+    if (LOG_LEVELS.indexOf(entry.level) < LOG_LEVELS.indexOf(this.options.minLevel)) {
+      return false;
+    }
+    const pids = this.pidFilter;
+    return typeof pids === "number" ? entry.pid === pids : !pids || pids.has(entry.pid);
+  }
+
+  /**
+   * Start following the package filter's processes, seeded with the ones
+   * already running. Clears tracking when there is no package filter.
+   */
+  trackPackage(processes: readonly PackageProcess[] = []): void {
+    const { packageName, pid } = this.options;
+    if (!packageName) {
+      this.processTracker = undefined;
+      this.processSeed = [];
+      return;
+    }
+
+    this.processSeed = [...processes];
+    if (pid && !processes.some((process) => process.pid === pid)) {
+      this.processSeed.push({ pid, processName: packageName });
+    }
+    this.processTracker = new PackageProcessTracker(packageName, this.processSeed);
+  }
+
+  /**
+   * Forget processes seen since trackPackage(), e.g. before re-running a
+   * recording through the filters.
+   */
+  resetProcessTracking(): void {
+    if (this.processTracker) {
+      this.processTracker = new PackageProcessTracker(this.processTracker.packageName, this.processSeed);
+    }
+  }
+
+  /**
+   * Feed an entry to the package tracker. Returns a marker entry when one
+   * of the package's processes started or restarted.
+   */
+  trackProcess(entry: LogcatEntry): LogcatEntry | undefined {
+    const start = this.processTracker?.update(entry);
+    if (!start) return undefined;
+
+    if (start.processName === this.options.packageName) {
+      this.options = { ...this.options, pid: start.pid };
+    }
+    return createProcessMarker(start, entry.timestamp);
+  }
+
+  private get pidFilter(): number | ReadonlySet<number> | undefined {
+    return this.processTracker?.pids ?? this.options.pid;
+  }
+
+  /**
+   * Group fatal exception entries into crashes. Returns true when a crash
+   * was started or extended by this entry.
+   */
+  trackCrash(entry: LogcatEntry): boolean {
+    const crash = this.crashCollector.add(entry);
+    if (!crash) return false;
+
+    if (!this.crashes.includes(crash)) {
+      this.crashes.unshift(crash);
+      this.crashes.length = Math.min(this.crashes.length, MAX_CRASHES);
+    }
+    return true;
+  }
+
+  /**
+   * Entries that match the current level, query and PID filters right now.
+   * Time-relative terms such as `age:5m` are re-evaluated on every call.
+   */
+  getMatchingEntries(): LogcatEntry[] {
+    return this.buffer
+      .getEntries()
+      .filter((entry) => this.buffer.matchesFilters(entry, this.options.minLevel, this.filter, this.pidFilter));
+  }
+
+  /** Crashes, most recent first */
+  getCrashes(): readonly LogcatCrash[] {
+    return this.crashes;
+  }
+
+  clearEntries(): void {
+    this.buffer.clear();
+    this.crashCollector.clear();
+    this.crashes = [];
+  }
+}
+
+/**
+ * Interleave the matching entries of several sessions by timestamp. Each
+ * session's own order is kept, so entries with equal timestamps never swap
+ * within a device.
+ */
+export function mergeLogcatSessions(sessions: readonly LogcatSession[]): LabeledLogcatEntry[] {
+  const sources = sessions.map((session) => ({ label: session.label, entries: session.getMatchingEntries(), index: 0 }));
+  const merged: LabeledLogcatEntry[] = [];
+
+  for (;;) {
+    let next: (typeof sources)[number] | undefined;
+    for (const source of sources) {
+      if (source.index >= source.entries.length) continue;
+      if (
+        !next ||
+        source.entries[source.index].timestamp.getTime() < next.entries[next.index].timestamp.getTime()
+      ) {
+        next = source;
+      }
+    }
+    if (!next) return merged;
+
+    merged.push({ label: next.label, entry: next.entries[next.index++] });
+  }
+}
@@ -0,0 +1,94 @@
+import type { LogcatEntry, LogLevel } from "@android-devkit/logcat";
+
+export interface LogcatRatePoint {
+  /** Start of the second, in epoch milliseconds */
+  time: number;
+  count: number;
+}
+
+/** Seconds of per-second rate history kept */
+const RATE_WINDOW_SECONDS = 60;
+
+/**
+ * Running counts over every entry a buffer accepted since it was last
+ * cleared, including entries already rotated out by `maxLines`.
+ */
+export class LogcatStats {
+  private totalCount = 0;
+  private levels = new Map<LogLevel, number>();
+  private tags = new Map<string, number>();
+  private pids = new Map<number, number>();
+  /** Entries per second, keyed by epoch second of the entry timestamp */
+  private seconds = new Map<number, number>();
+  private latestSecond = -Infinity;
+
+  add(entry: LogcatEntry): void {
+    this.totalCount++;
+    increment(this.levels, entry.level);
+    increment(this.tags, entry.tag);
+    increment(this.pids, entry.pid);
+
+    // Rates follow device time, so a backlog dumped on start lands in the
+    // seconds it was logged rather than in one spike
+    const second = Math.floor(entry.timestamp.getTime() / 1000);
+    if (second <= this.latestSecond - RATE_WINDOW_SECONDS) return;
+
+    increment(this.seconds, second);
+    if (second > this.latestSecond) {
+      this.latestSecond = second;
+      for (const key of this.seconds.keys()) {
+        if (key <= second - RATE_WINDOW_SECONDS) this.seconds.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.totalCount = 0;
+    this.levels.clear();
+    this.tags.clear();
+    this.pids.clear();
+    this.seconds.clear();
+    this.latestSecond = -Infinity;
+  }
+
+  get total(): number {
+    return this.totalCount;
+  }
+
+  getLevelCounts(): ReadonlyMap<LogLevel, number> {
+    return this.levels;
+  }
+
+  /** Tags with the most entries, noisiest first */
+  getTopTags(limit: number): Array<{ tag: string; count: number }> {
+    return top(this.tags, limit).map(([tag, count]) => ({ tag, count }));
+  }
+
+  /** PIDs with the most entries, noisiest first */
+  getTopPids(limit: number): Array<{ pid: number; count: number }> {
+    return top(this.pids, limit).map(([pid, count]) => ({ pid, count }));
+  }
+
+  /**
+   * Entries per second for the last `seconds` seconds up to the newest entry,
+   * oldest first. Quiet seconds are included with a count of zero.
+   */
+  getRate(seconds = RATE_WINDOW_SECONDS): LogcatRatePoint[] {
+    if (this.latestSecond === -Infinity) return [];
+
+    const points: LogcatRatePoint[] = [];
+    const length = Math.min(seconds, RATE_WINDOW_SECONDS);
+    for (let second = this.latestSecond - length + 1; second <= this.latestSecond; second++) {
+      points.push({ time: second * 1000, count: this.seconds.get(second) ?? 0 });
+    }
+    return points;
+  }
+}
+
+function increment<K>(counts: Map<K, number>, key: K): void {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+function top<K>(counts: ReadonlyMap<K, number>, limit: number): Array<[K, number]> {
+  return [...counts].sort((a, b) => b[1] - a[1]).slice(0, limit);
+}
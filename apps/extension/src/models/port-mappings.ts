@@ -0,0 +1,82 @@
+import type * as vscode from "vscode";
+import type { PortMapping } from "@android-devkit/adb";
+
+const RULES_STATE_KEY = "portForwarding.rules";
+
+/** Sockets adb can listen on, on either side */
+const LISTEN_SOCKET_REGEX = /^(tcp:\d{1,5}|localabstract:\S+|localreserved:\S+|localfilesystem:\S+)$/;
+/** Forwards can also connect to device-only sockets */
+const DEVICE_TARGET_SOCKET_REGEX = /^(jdwp:\d+|dev:\S+|vsock:\d+:\d+)$/;
+
+/** `8081` → `tcp:8081`; anything else is kept as typed */
+export function normalizeAdbSocket(value: string): string {
+  const trimmed = value.trim();
+  return /^\d+$/.test(trimmed) ? `tcp:${trimmed}` : trimmed;
+}
+
+/**
+ * Validate a socket for one side of a mapping. Returns an error message for
+ * an input box, or undefined when valid.
+ */
+export function validateAdbSocket(
+  value: string,
+  role: "listen" | "target",
+  side: "host" | "device",
+): string | undefined {
+  const socket = normalizeAdbSocket(value);
+  if (LISTEN_SOCKET_REGEX.test(socket)) {
+    const port = socket.startsWith("tcp:") ? Number(socket.slice(4)) : 1;
+    return port > 0 && port < 65536 ? undefined : "Port must be between 1 and 65535";
+  }
+  if (role === "target" && side === "device" && DEVICE_TARGET_SOCKET_REGEX.test(socket)) {
+    return undefined;
+  }
+  return "Use tcp:<port>, localabstract:<name>, localreserved:<name> or localfilesystem:<path>";
+}
+
+/** The socket a mapping listens on, which adb uses to identify it */
+export function listeningSocket(mapping: PortMapping): string {
+  return mapping.direction === "forward" ? mapping.host : mapping.device;
+}
+
+export function isSamePortMapping(a: PortMapping, b: PortMapping): boolean {
+  return a.direction === b.direction && a.serial === b.serial && listeningSocket(a) === listeningSocket(b);
+}
+
+/** `tcp:8081 → tcp:8081`, listening side first */
+export function formatPortMapping(mapping: PortMapping): string {
+  return mapping.direction === "forward"
+    ? `${mapping.host} → ${mapping.device}`
+    : `${mapping.device} → ${mapping.host}`;
+}
+
+/**
+ * Forwards and reverses to re-apply whenever their device reconnects,
+ * kept per workspace.
+ */
+export class PersistentPortMappings {
+  constructor(private readonly state: vscode.Memento) {}
+
+  list(serial?: string): PortMapping[] {
+    const rules = this.state.get<PortMapping[]>(RULES_STATE_KEY, []);
+    return serial ? rules.filter((rule) => rule.serial === serial) : rules;
+  }
+
+  has(mapping: PortMapping): boolean {
+    return this.list().some((rule) => isSamePortMapping(rule, mapping));
+  }
+
+  /** Add a rule, replacing one that listens on the same socket */
+  async add(mapping: PortMapping): Promise<void> {
+    const { direction, serial, host, device } = mapping;
+    const rules = this.list().filter((rule) => !isSamePortMapping(rule, mapping));
+    await this.state.update(RULES_STATE_KEY, [...rules, { direction, serial, host, device }]);
+  }
+
+  async remove(mapping: PortMapping): Promise<void> {
+    await this.state.update(
+      RULES_STATE_KEY,
+      this.list().filter((rule) => !isSamePortMapping(rule, mapping)),
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import type * as vscode from "vscode";
+import { buildIntentArguments, type IntentSpec } from "@android-devkit/adb";
+
+const INTENTS_STATE_KEY = "intentComposer.intents";
+
+/** The `am` command an intent runs with */
+export type IntentRunMode = "start" | "start-foreground-service" | "broadcast";
+
+export const INTENT_RUN_MODES: Record<IntentRunMode, { label: string; icon: string }> = {
+  start: { label: "Start Activity", icon: "window" },
+  "start-foreground-service": { label: "Start Foreground Service", icon: "server-process" },
+  broadcast: { label: "Send Broadcast", icon: "broadcast" },
+};
+
+export interface SavedIntent {
+  name: string;
+  mode: IntentRunMode;
+  intent: IntentSpec;
+}
+
+function quoteForDisplay(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+/** `am broadcast -a com.example.SYNC --ez full true`, as typed in `adb shell` */
+export function formatAmCommand(mode: IntentRunMode, intent: IntentSpec): string {
+  return ["am", mode, ...buildIntentArguments(intent).map(quoteForDisplay)].join(" ");
+}
+
+/** A short name for a new intent: the component's class or the action's last segment */
+export function suggestIntentName(intent: IntentSpec): string {
+  const component = intent.component?.split("/")[1]?.replace(/^\./, "");
+  const action = intent.action?.split(".").pop();
+  return component?.split(".").pop() ?? action ?? intent.data ?? "Intent";
+}
+
+/**
+ * Intents composed and saved for re-running, kept per workspace and ordered
+ * by name.
+ */
+export class SavedIntents {
+  constructor(private readonly state: vscode.Memento) {}
+
+  list(): SavedIntent[] {
+    return this.state.get<SavedIntent[]>(INTENTS_STATE_KEY, []);
+  }
+
+  get(name: string): SavedIntent | undefined {
+    return this.list().find((saved) => saved.name === name);
+  }
+
+  /** Save an intent, replacing the one with the same name or `previousName` */
+  async save(saved: SavedIntent, previousName?: string): Promise<void> {
+    const intents = this.list().filter((item) => item.name !== saved.name && item.name !== previousName);
+    intents.push(saved);
+    intents.sort((a, b) => a.name.localeCompare(b.name));
+    await this.state.update(INTENTS_STATE_KEY, intents);
+  }
+
+  async remove(name: string): Promise<void> {
+    await this.state.update(
+      INTENTS_STATE_KEY,
+      this.list().filter((saved) => saved.name !== name),
+    );
+  }
+}
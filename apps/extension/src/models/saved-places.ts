@@ -0,0 +1,55 @@
+import type * as vscode from "vscode";
+import type { GeoLocation } from "@android-devkit/emulator";
+
+const PLACES_STATE_KEY = "emulatorLocation.places";
+
+export interface SavedPlace {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Parse `lat, long` as typed into an input box, e.g. `52.52, 13.405` or
+ * `52.52 13.405`. Returns undefined unless both are in range.
+ */
+export function parseCoordinates(value: string): GeoLocation | undefined {
+  const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*[,\s]\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return undefined;
+  const latitude = Number(match[1]);
+  const longitude = Number(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return undefined;
+  return { latitude, longitude };
+}
+
+/** `52.52000, 13.40500` */
+export function formatCoordinates(location: GeoLocation): string {
+  return `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}`;
+}
+
+/**
+ * Places to send an emulator to with one pick, kept across workspaces and
+ * ordered by name.
+ */
+export class SavedPlaces {
+  constructor(private readonly state: vscode.Memento) {}
+
+  list(): SavedPlace[] {
+    return this.state.get<SavedPlace[]>(PLACES_STATE_KEY, []);
+  }
+
+  /** Save a place, replacing the one with the same name */
+  async save(place: SavedPlace): Promise<void> {
+    const places = this.list().filter((item) => item.name !== place.name);
+    places.push(place);
+    places.sort((a, b) => a.name.localeCompare(b.name));
+    await this.state.update(PLACES_STATE_KEY, places);
+  }
+
+  async remove(name: string): Promise<void> {
+    await this.state.update(
+      PLACES_STATE_KEY,
+      this.list().filter((place) => place.name !== name),
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { detectAndroidModules, inspectAndroidModule, type AndroidSourceRoot } from "@android-devkit/android-project";
+import type { StackFrame } from "@android-devkit/logcat";
+
+/**
+ * Resolves stack frames to files in the workspace's Android modules.
+ *
+ * Frames are first matched against the module source roots by package path,
+ * which is exact and synchronous. Files that don't follow the package
+ * directory layout (common for Kotlin) fall back to a workspace search whose
+ * result is cached for the next occurrence.
+ */
+export class StackFrameResolver {
+  private sourceRoots?: AndroidSourceRoot[];
+  private searchCache = new Map<string, string | null>();
+
+  resolve(frame: StackFrame): string | undefined {
+    if (!frame.fileName) return undefined;
+
+    const fromSourceRoots = this.resolveFromSourceRoots(frame.className, frame.fileName);
+    if (fromSourceRoots) return fromSourceRoots;
+
+    const cached = this.searchCache.get(frame.fileName);
+    if (cached !== undefined) return cached ?? undefined;
+
+    // Async resolve, won't resolve this occurrence but will cache for next
+    void this.searchWorkspace(frame.fileName);
+    return undefined;
+  }
+
+  /**
+   * Like resolve(), but waits for the workspace search instead of only
+   * starting it.
+   */
+  async resolveAsync(frame: StackFrame): Promise<string | undefined> {
+    if (!frame.fileName) return undefined;
+
+    const fromSourceRoots = this.resolveFromSourceRoots(frame.className, frame.fileName);
+    if (fromSourceRoots) return fromSourceRoots;
+
+    if (!this.searchCache.has(frame.fileName)) {
+      await this.searchWorkspace(frame.fileName);
+    }
+    return this.searchCache.get(frame.fileName) ?? undefined;
+  }
+
+  /**
+   * Forget discovered source roots and search results, e.g. after modules change.
+   */
+  reset(): void {
+    this.sourceRoots = undefined;
+    this.searchCache.clear();
+  }
+
+  private resolveFromSourceRoots(className: string, fileName: string): string | undefined {
+    const outerClass = className.split("$")[0];
+    const packageName = outerClass.includes(".") ? outerClass.slice(0, outerClass.lastIndexOf(".")) : "";
+
+    for (const root of this.getSourceRoots()) {
+      if (packageName !== root.packageName && !packageName.startsWith(`${root.packageName}.`)) {
+        continue;
+      }
+
+      const relativePackage = packageName.slice(root.packageName.length).split(".").filter(Boolean);
+      const candidate = path.join(root.fsPath, ...relativePackage, fileName);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+
+    return undefined;
+  }
+
+  private getSourceRoots(): AndroidSourceRoot[] {
+    if (this.sourceRoots) return this.sourceRoots;
+
+    const projectRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    this.sourceRoots = projectRoot
+      ? detectAndroidModules(projectRoot).flatMap((module) => inspectAndroidModule(module.fsPath).sourceRoots)
+      : [];
+    return this.sourceRoots;
+  }
+
+  private async searchWorkspace(fileName: string): Promise<void> {
+    try {
+      const files = await vscode.workspace.findFiles(`**/${fileName}`, "**/build/**", 1);
+      this.searchCache.set(fileName, files[0]?.fsPath ?? null);
+    } catch {
+      this.searchCache.set(fileName, null);
+    }
+  }
+}
@@ -6,7 +6,15 @@ import {
 import {
   AdbClient,
   resolveAdbPath,
+  type AppComponent,
+  type DebuggableProcess,
   type Device,
+  type DeviceSpec,
+  type InstalledPackage,
+  type IntentSpec,
+  type MdnsService,
+  type PackageDetails,
+  type PortMapping,
   type ScrcpyServerBinaryStream,
 } from "@android-devkit/adb";
 import { getOutputChannel } from "../utils/output";
@@ -321,7 +329,7 @@ export class AdbService {
   /**
    * Discover devices via mDNS
    */
-  async listMdnsServices(): Promise<{ name: string; type: string; address: string }[]> {
+  async listMdnsServices(): Promise<MdnsService[]> {
     return this.runWithServerRecovery("mDNS service list", () => this.client.listMdnsServices());
   }
 
@@ -339,11 +347,46 @@ export class AdbService {
     return this.runWithServerRecovery("tcpip enable", () => this.client.enableTcpip(serial, port));
   }
 
+  /**
+   * Get every system property of a device, as reported by getprop
+   */
+  async getDeviceProps(serial: string): Promise<Record<string, string>> {
+    return this.runWithServerRecovery("getprop", () => this.client.getDeviceProps(serial));
+  }
+
   /**
    * List installed packages on a device
    */
-  async listPackages(serial: string): Promise<string[]> {
-    return this.runWithServerRecovery("package list", () => this.client.listPackages(serial));
+  async listPackages(serial: string, options: { thirdParty?: boolean } = {}): Promise<string[]> {
+    return this.runWithServerRecovery("package list", () => this.client.listPackages(serial, options));
+  }
+
+  /**
+   * List installed packages with their base APK paths and a user/system split
+   */
+  async listInstalledPackages(serial: string): Promise<InstalledPackage[]> {
+    return this.runWithServerRecovery("installed package list", () => this.client.listInstalledPackages(serial));
+  }
+
+  /**
+   * Get version, install and APK metadata of an installed package
+   */
+  async getPackageDetails(serial: string, packageName: string): Promise<PackageDetails> {
+    return this.runWithServerRecovery("package details", () => this.client.getPackageDetails(serial, packageName));
+  }
+
+  /**
+   * Get the base and split APK paths of an installed package
+   */
+  async getApkPaths(serial: string, packageName: string): Promise<string[]> {
+    return this.runWithServerRecovery("apk paths", () => this.client.getApkPaths(serial, packageName));
+  }
+
+  /**
+   * Pull the base and split APKs of a package into a local directory
+   */
+  async pullApks(serial: string, packageName: string, localDir: string): Promise<string[]> {
+    return this.runWithServerRecovery("apk pull", () => this.client.pullApks(serial, packageName, localDir));
   }
 
   /**
@@ -353,6 +396,15 @@ export class AdbService {
     return this.runWithServerRecovery("package pid lookup", () => this.client.getPidForPackage(serial, packageName));
   }
 
+  /**
+   * List the running processes of a package, including `:remote` style ones
+   */
+  async getPackageProcesses(serial: string, packageName: string): Promise<{ pid: number; name: string }[]> {
+    return this.runWithServerRecovery("package process lookup", () =>
+      this.client.getPackageProcesses(serial, packageName)
+    );
+  }
+
   /**
    * List files on device
    */
@@ -395,11 +447,101 @@ export class AdbService {
     return this.runWithServerRecovery("APK install", () => this.client.installApk(serial, apkPath, { replace: true }));
   }
 
+  /**
+   * Install a base APK and its splits in one install session
+   */
+  async installApks(serial: string, apkPaths: string[]): Promise<void> {
+    return this.runWithServerRecovery("split APK install", () => this.client.installApks(serial, apkPaths));
+  }
+
+  /**
+   * Install the splits of an APK set (`.apks`) that match the device
+   */
+  async installApkSet(serial: string, archivePath: string): Promise<string[]> {
+    return this.runWithServerRecovery("APK set install", () => this.client.installApkSet(serial, archivePath));
+  }
+
+  /**
+   * Get the ABIs, locales, density and API level of a device, as bundletool takes them
+   */
+  async getDeviceSpec(serial: string): Promise<DeviceSpec> {
+    return this.runWithServerRecovery("device spec", () => this.client.getDeviceSpec(serial));
+  }
+
   /**
    * Launch an app on a device
    */
-  async launchApp(serial: string, packageName: string, activity?: string): Promise<void> {
-    return this.runWithServerRecovery("app launch", () => this.client.launchApp(serial, packageName, activity));
+  async launchApp(
+    serial: string,
+    packageName: string,
+    activity?: string,
+    options: { waitForDebugger?: boolean } = {}
+  ): Promise<void> {
+    return this.runWithServerRecovery("app launch", () =>
+      this.client.launchApp(serial, packageName, activity, options)
+    );
+  }
+
+  /**
+   * List the PIDs of debuggable processes on a device
+   */
+  async listJdwpPids(serial: string): Promise<number[]> {
+    return this.runWithServerRecovery("JDWP process list", () => this.client.listJdwpPids(serial));
+  }
+
+  /**
+   * List debuggable processes on a device with their process and package names
+   */
+  async listDebuggableProcesses(serial: string): Promise<DebuggableProcess[]> {
+    return this.runWithServerRecovery("debuggable process list", () => this.client.listDebuggableProcesses(serial));
+  }
+
+  /**
+   * Forward a free local port to a process's JDWP socket and return the port
+   */
+  async forwardJdwp(serial: string, pid: number): Promise<number> {
+    return this.runWithServerRecovery("JDWP forward", () => this.client.forward(serial, `jdwp:${pid}`));
+  }
+
+  async removeForward(serial: string, local: number | string): Promise<void> {
+    return this.runWithServerRecovery("forward removal", () => this.client.removeForward(serial, local));
+  }
+
+  /**
+   * List a device's forwards and reverses
+   */
+  async listPortMappings(serial: string): Promise<PortMapping[]> {
+    return this.runWithServerRecovery("port mapping list", async () => [
+      ...(await this.client.listForwards(serial)),
+      ...(await this.client.listReverses(serial)),
+    ]);
+  }
+
+  async addPortMapping(mapping: PortMapping): Promise<void> {
+    return this.runWithServerRecovery(`${mapping.direction} setup`, () =>
+      mapping.direction === "forward"
+        ? this.client.addForward(mapping.serial, mapping.host, mapping.device)
+        : this.client.addReverse(mapping.serial, mapping.device, mapping.host)
+    );
+  }
+
+  async removePortMapping(mapping: PortMapping): Promise<void> {
+    return this.runWithServerRecovery(`${mapping.direction} removal`, () =>
+      mapping.direction === "forward"
+        ? this.client.removeForward(mapping.serial, mapping.host)
+        : this.client.removeReverse(mapping.serial, mapping.device)
+    );
+  }
+
+  /**
+   * Watch the serials of ready devices as they connect and disconnect
+   */
+  async trackDevices(
+    listener: (serials: string[]) => void,
+    onError?: (error: Error) => void
+  ): Promise<vscode.Disposable> {
+    const tracker = await this.client.trackDevices(listener, onError);
+    return new vscode.Disposable(() => void tracker.stop().catch(() => undefined));
   }
 
   /**
@@ -421,6 +563,14 @@ export class AdbService {
     return this.runWithServerRecovery("deep link", () => this.client.launchDeepLink(serial, uri));
   }
 
+  async getAirplaneMode(serial: string): Promise<boolean> {
+    return this.runWithServerRecovery("airplane mode query", () => this.client.getAirplaneMode(serial));
+  }
+
+  async setAirplaneMode(serial: string, enabled: boolean): Promise<void> {
+    return this.runWithServerRecovery("airplane mode change", () => this.client.setAirplaneMode(serial, enabled));
+  }
+
   async recordScreen(serial: string, duration: number = 10): Promise<string> {
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
     const filename = `screenrecord-${timestamp}.mp4`;
@@ -445,6 +595,26 @@ export class AdbService {
     return this.runWithServerRecovery("permission revoke", () => this.client.revokePermission(serial, packageName, permission));
   }
 
+  async getAppComponents(serial: string, packageName: string): Promise<AppComponent[]> {
+    return this.runWithServerRecovery("component list", () => this.client.getAppComponents(serial, packageName));
+  }
+
+  async startActivity(serial: string, intent: IntentSpec): Promise<string> {
+    return this.runWithServerRecovery("activity start", () => this.client.startActivity(serial, intent));
+  }
+
+  async startService(serial: string, intent: IntentSpec, options: { foreground?: boolean } = {}): Promise<string> {
+    return this.runWithServerRecovery("service start", () => this.client.startService(serial, intent, options));
+  }
+
+  async sendBroadcast(serial: string, intent: IntentSpec): Promise<string> {
+    return this.runWithServerRecovery("broadcast", () => this.client.sendBroadcast(serial, intent));
+  }
+
+  async queryContentProvider(serial: string, uri: string): Promise<Record<string, string>[]> {
+    return this.runWithServerRecovery("content query", () => this.client.queryContentProvider(serial, uri));
+  }
+
   /**
    * Get the AVD name for a running emulator instance
    */
@@ -1,9 +1,11 @@
 import * as vscode from "vscode";
 import { AdbService } from "./adb";
 import { SdkService } from "./sdk";
+import { EmulatorConsoleService } from "./emulator-console";
 import { GradleService } from "./gradle";
 import { LogcatService } from "./logcat";
 import { ScrcpyService } from "./scrcpy";
+import { WirelessDiscoveryService } from "./wireless-discovery";
 
 export class ServiceContainer implements vscode.Disposable {
   readonly sdk: SdkService;
@@ -11,6 +13,8 @@ export class ServiceContainer implements vscode.Disposable {
   readonly logcat: LogcatService;
   readonly scrcpy: ScrcpyService;
   readonly gradle: GradleService;
+  readonly wireless: WirelessDiscoveryService;
+  readonly emulatorConsole: EmulatorConsoleService;
 
   constructor(extensionUri: vscode.Uri) {
     this.sdk = new SdkService();
@@ -18,9 +22,13 @@ export class ServiceContainer implements vscode.Disposable {
     this.logcat = new LogcatService(this.adb);
     this.scrcpy = new ScrcpyService(this.adb, extensionUri);
     this.gradle = new GradleService();
+    this.wireless = new WirelessDiscoveryService(this.adb);
+    this.emulatorConsole = new EmulatorConsoleService();
   }
 
   dispose(): void {
+    this.emulatorConsole.dispose();
+    this.wireless.dispose();
     this.scrcpy.dispose();
     this.logcat.dispose();
     this.adb.dispose();
@@ -0,0 +1,61 @@
+import type * as vscode from "vscode";
+import { EmulatorConsole, EmulatorConsoleError, getConsolePort } from "@android-devkit/emulator";
+
+/** Saving or loading a snapshot of a large image takes a while before the console answers */
+const CONSOLE_TIMEOUT_MS = 60_000;
+
+/**
+ * Console connections to running emulators, opened on first use and kept per
+ * serial so that commands sent in quick succession (route playback, the
+ * emulator controls) reuse one authenticated session.
+ */
+export class EmulatorConsoleService implements vscode.Disposable {
+  private readonly connections = new Map<string, Promise<EmulatorConsole>>();
+
+  /** Run console commands against an emulator, reconnecting once if its connection dropped */
+  async run<T>(serial: string, action: (console: EmulatorConsole) => Promise<T>): Promise<T> {
+    const console = await this.connect(serial);
+    try {
+      return await action(console);
+    } catch (error) {
+      if (error instanceof EmulatorConsoleError || !console.isClosed) throw error;
+      this.connections.delete(serial);
+      return action(await this.connect(serial));
+    }
+  }
+
+  /** Close the connection to an emulator, e.g. once it has shut down */
+  close(serial: string): void {
+    const connection = this.connections.get(serial);
+    this.connections.delete(serial);
+    void connection?.then((console) => console.close()).catch(() => undefined);
+  }
+
+  private async connect(serial: string): Promise<EmulatorConsole> {
+    const cached = this.connections.get(serial);
+    if (cached) {
+      const console = await cached.catch(() => undefined);
+      if (console && !console.isClosed) return console;
+      if (this.connections.get(serial) === cached) this.connections.delete(serial);
+    }
+
+    const port = getConsolePort(serial);
+    if (port === undefined) {
+      throw new Error(`${serial} is not an emulator`);
+    }
+    const connection = EmulatorConsole.connect({ port, timeoutMs: CONSOLE_TIMEOUT_MS });
+    this.connections.set(serial, connection);
+    try {
+      return await connection;
+    } catch (error) {
+      if (this.connections.get(serial) === connection) this.connections.delete(serial);
+      throw error;
+    }
+  }
+
+  dispose(): void {
+    for (const serial of this.connections.keys()) {
+      this.close(serial);
+    }
+  }
+}
@@ -7,11 +7,30 @@ import {
 } from "@android-devkit/logcat";
 import type { AdbService } from "./adb";
 
+export interface DeviceLogcatEntry {
+  serial: string;
+  entry: LogcatEntry;
+}
+
+export interface DeviceLogcatError {
+  serial: string;
+  error: Error;
+}
+
+export interface DeviceLogcatState {
+  serial: string;
+  running: boolean;
+}
+
+/**
+ * Runs one logcat stream per device. Starting a device that already has a
+ * stream restarts that stream only; other devices keep streaming.
+ */
 export class LogcatService implements vscode.Disposable {
-  private stream: LogcatStream | null = null;
-  private readonly onEntryEmitter = new vscode.EventEmitter<LogcatEntry>();
-  private readonly onErrorEmitter = new vscode.EventEmitter<Error>();
-  private readonly onStateChangedEmitter = new vscode.EventEmitter<boolean>();
+  private readonly streams = new Map<string, LogcatStream>();
+  private readonly onEntryEmitter = new vscode.EventEmitter<DeviceLogcatEntry>();
+  private readonly onErrorEmitter = new vscode.EventEmitter<DeviceLogcatError>();
+  private readonly onStateChangedEmitter = new vscode.EventEmitter<DeviceLogcatState>();
 
   readonly onLogcatEntry = this.onEntryEmitter.event;
   readonly onError = this.onErrorEmitter.event;
@@ -19,58 +38,71 @@ export class LogcatService implements vscode.Disposable {
 
   constructor(private readonly adbService: AdbService) {}
 
+  /** True while any device is streaming */
   get isRunning(): boolean {
-    return this.stream?.isRunning ?? false;
+    return [...this.streams.values()].some((stream) => stream.isRunning);
   }
 
-  async start(options: LogcatOptions & { serial?: string } = {}): Promise<void> {
-    this.stop();
+  isStreaming(serial: string): boolean {
+    return this.streams.get(serial)?.isRunning ?? false;
+  }
 
-    if (!options.serial) {
+  async start(options: LogcatOptions & { serial?: string } = {}): Promise<void> {
+    const serial = options.serial;
+    if (!serial) {
       throw new Error("Serial is required to start logcat");
     }
 
-    const { logcat, dispose } = await this.adbService.createLogcat(options.serial);
+    this.stop(serial);
+
+    const { logcat, dispose } = await this.adbService.createLogcat(serial);
 
     const stream = new LogcatStream(logcat, {
       minLevel: options.minLevel,
       pid: options.pid,
+      buffers: options.buffers,
     });
 
     stream.on("entry", (entry: LogcatEntry) => {
-      this.onEntryEmitter.fire(entry);
+      this.onEntryEmitter.fire({ serial, entry });
     });
 
     // Guard against stale events from a previous stream that outlived its stop():
     // if start() was called again before the old readLoop finished, these handlers
     // must not overwrite the new stream reference or emit a spurious "stopped" event.
     stream.on("error", (error: Error) => {
-      if (this.stream === stream) {
-        this.onErrorEmitter.fire(error);
+      if (this.streams.get(serial) === stream) {
+        this.onErrorEmitter.fire({ serial, error });
       }
     });
 
     stream.on("close", () => {
       // Close the dedicated Adb transport now that logcat has finished.
       dispose();
-      if (this.stream === stream) {
-        this.stream = null;
-        this.onStateChangedEmitter.fire(false);
+      if (this.streams.get(serial) === stream) {
+        this.streams.delete(serial);
+        this.onStateChangedEmitter.fire({ serial, running: false });
       }
     });
 
-    this.stream = stream;
+    this.streams.set(serial, stream);
     stream.start();
-    this.onStateChangedEmitter.fire(true);
+    this.onStateChangedEmitter.fire({ serial, running: true });
   }
 
-  stop(): void {
-    if (!this.stream) return;
-
-    const activeStream = this.stream;
-    this.stream = null;
-    activeStream.stop();
-    this.onStateChangedEmitter.fire(false);
+  /**
+   * Stop one device's stream, or every stream when no serial is given.
+   */
+  stop(serial?: string): void {
+    const serials = serial === undefined ? [...this.streams.keys()] : [serial];
+    for (const key of serials) {
+      const activeStream = this.streams.get(key);
+      if (!activeStream) continue;
+
+      this.streams.delete(key);
+      activeStream.stop();
+      this.onStateChangedEmitter.fire({ serial: key, running: false });
+    }
   }
 
   async clear(serial?: string): Promise<void> {
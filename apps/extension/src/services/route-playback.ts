@@ -0,0 +1,124 @@
+import * as vscode from "vscode";
+import { routePositionAt, type TimedRoute } from "@android-devkit/emulator";
+import type { EmulatorConsoleService } from "./emulator-console";
+
+/** How often a playing route moves the emulator, interpolating between its points */
+const TICK_MS = 1000;
+
+export interface RoutePlayback {
+  serial: string;
+  /** The route's file name */
+  label: string;
+  route: TimedRoute;
+  /** 0–1 */
+  progress: number;
+}
+
+export interface RoutePlaybackEnd {
+  playback: RoutePlayback;
+  /** Set when a `geo fix` failed, e.g. because the emulator shut down */
+  error?: Error;
+  /** True when the route reached its last point */
+  finished: boolean;
+}
+
+interface ActivePlayback extends RoutePlayback {
+  startedAt: number;
+  timer: ReturnType<typeof setInterval>;
+  sending: boolean;
+}
+
+/**
+ * Plays GPX/KML routes on running emulators by sending `geo fix` with the
+ * route's position every second. One route plays per emulator; starting
+ * another replaces it.
+ */
+export class RoutePlaybackService implements vscode.Disposable {
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.onDidChangeEmitter.event;
+  private readonly onDidEndEmitter = new vscode.EventEmitter<RoutePlaybackEnd>();
+  readonly onDidEnd = this.onDidEndEmitter.event;
+
+  private readonly playbacks = new Map<string, ActivePlayback>();
+
+  constructor(private readonly emulatorConsole: EmulatorConsoleService) {}
+
+  get active(): RoutePlayback[] {
+    return [...this.playbacks.values()].map(({ serial, label, route, progress }) => ({
+      serial,
+      label,
+      route,
+      progress,
+    }));
+  }
+
+  isPlaying(serial: string): boolean {
+    return this.playbacks.has(serial);
+  }
+
+  start(serial: string, label: string, route: TimedRoute): void {
+    this.end(serial, false);
+    const playback: ActivePlayback = {
+      serial,
+      label,
+      route,
+      progress: 0,
+      startedAt: Date.now(),
+      timer: setInterval(() => void this.tick(playback), TICK_MS),
+      sending: false,
+    };
+    this.playbacks.set(serial, playback);
+    this.onDidChangeEmitter.fire();
+    void this.tick(playback);
+  }
+
+  stop(serial: string): void {
+    this.end(serial, false);
+  }
+
+  private async tick(playback: ActivePlayback): Promise<void> {
+    // A slow console would otherwise queue up stale positions
+    if (playback.sending) return;
+
+    const elapsed = Date.now() - playback.startedAt;
+    const { route } = playback;
+    playback.sending = true;
+    try {
+      await this.emulatorConsole.run(playback.serial, (console) => console.geoFix(routePositionAt(route, elapsed)));
+    } catch (error) {
+      if (this.playbacks.get(playback.serial) === playback) {
+        this.end(playback.serial, false, error instanceof Error ? error : new Error(String(error)));
+      }
+      return;
+    } finally {
+      playback.sending = false;
+    }
+
+    if (this.playbacks.get(playback.serial) !== playback) return;
+    playback.progress = route.durationMs > 0 ? Math.min(1, elapsed / route.durationMs) : 1;
+    if (elapsed >= route.durationMs) {
+      this.end(playback.serial, true);
+    } else {
+      this.onDidChangeEmitter.fire();
+    }
+  }
+
+  private end(serial: string, finished: boolean, error?: Error): void {
+    const playback = this.playbacks.get(serial);
+    if (!playback) return;
+    clearInterval(playback.timer);
+    this.playbacks.delete(serial);
+    const { label, route, progress } = playback;
+    this.onDidEndEmitter.fire({ playback: { serial, label, route, progress }, finished, error });
+    this.onDidChangeEmitter.fire();
+  }
+
+  dispose(): void {
+    for (const playback of this.playbacks.values()) {
+      clearInterval(playback.timer);
+    }
+    this.playbacks.clear();
+    this.onDidChangeEmitter.dispose();
+    this.onDidEndEmitter.dispose();
+  }
+}
@@ -21,12 +21,17 @@ import {
   type CreateAvdOptions,
 } from "@android-devkit/avdmanager";
 import {
+  deleteAvdSnapshot,
   getEmulatorPath,
   launchAvd,
+  listAvdSnapshots,
   wipeAvdData,
+  type AvdSnapshot,
+  type EmulatorLaunchOptions,
 } from "@android-devkit/emulator";
+import { getLlvmSymbolizerPath } from "@android-devkit/ndk";
 
-export type { SdkPackage, Avd, AvdServices, DeviceProfile, CreateAvdOptions };
+export type { SdkPackage, Avd, AvdServices, AvdSnapshot, DeviceProfile, CreateAvdOptions };
 
 export class SdkService {
   private _onSdkPackagesChanged = new vscode.EventEmitter<void>();
@@ -54,6 +59,13 @@ export class SdkService {
     return sdkPath ? getEmulatorPath(sdkPath) : undefined;
   }
 
+  /**
+   * `llvm-symbolizer` from the newest installed NDK
+   */
+  getLlvmSymbolizerPath(): string | undefined {
+    return getLlvmSymbolizerPath(this.getSdkPath());
+  }
+
   async listSdkPackages(): Promise<SdkPackage[]> {
     const sdkPath = this.getSdkPath();
     if (!sdkPath) throw new Error("Android SDK not found. Configure androidDevkit.sdkPath.");
@@ -137,7 +149,7 @@ export class SdkService {
     this._onAvdsChanged.fire();
   }
 
-  launchAvd(name: string, options?: { noWindow?: boolean }): void {
+  launchAvd(name: string, options?: EmulatorLaunchOptions): void {
     const sdkPath = this.getSdkPath();
     if (!sdkPath) throw new Error("Android SDK not found.");
     launchAvd(sdkPath, name, options);
@@ -149,6 +161,15 @@ export class SdkService {
     wipeAvdData(sdkPath, name);
   }
 
+  /** Snapshots saved on disk; use the emulator console while the AVD is running */
+  listAvdSnapshots(avd: Avd): Promise<AvdSnapshot[]> {
+    return listAvdSnapshots(avd.path);
+  }
+
+  deleteAvdSnapshot(avd: Avd, name: string): Promise<void> {
+    return deleteAvdSnapshot(avd.path, name);
+  }
+
   isEmulatorRunning(runningSerials: string[]): boolean {
     return runningSerials.some((s) => s.startsWith("emulator-"));
   }
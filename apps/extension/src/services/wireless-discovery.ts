@@ -0,0 +1,111 @@
+import * as vscode from "vscode";
+import type { MdnsService } from "@android-devkit/adb";
+import type { AdbService, DeviceInfo } from "./adb";
+
+const POLL_INTERVAL_MS = 3000;
+/** How long to wait before asking the ADB server again once mDNS was unavailable */
+const UNSUPPORTED_RETRY_MS = 30000;
+
+/**
+ * The device a connect service belongs to, once adb is connected to it:
+ * either by address after `adb connect`, or as
+ * `<name>._adb-tls-connect._tcp` when the ADB server connected on its own.
+ */
+export function findConnectedDevice(service: MdnsService, devices: readonly DeviceInfo[]): DeviceInfo | undefined {
+  return devices.find((device) => device.serial === service.address || device.serial.startsWith(`${service.name}.`));
+}
+
+/**
+ * Loop over `adb mdns services` that runs while something holds it: the QR
+ * pairing panel, or the Devices view when background discovery is turned on.
+ * Keeps the last list of wireless debugging services — pairing ports of
+ * devices showing a pairing dialog and connect ports of paired devices — and
+ * fires when it changes.
+ */
+export class WirelessDiscoveryService implements vscode.Disposable {
+  private readonly onDidChangeServicesEmitter = new vscode.EventEmitter<MdnsService[]>();
+  readonly onDidChangeServices = this.onDidChangeServicesEmitter.event;
+
+  private services: MdnsService[] = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private holders = 0;
+  /** Bumped on every start and stop so a poll still in flight from an earlier run ends there */
+  private generation = 0;
+  private mdnsSupported = false;
+
+  constructor(private readonly adbService: AdbService) {}
+
+  get discovered(): readonly MdnsService[] {
+    return this.services;
+  }
+
+  /** Keep the loop running until the returned disposable is disposed */
+  hold(): vscode.Disposable {
+    if (this.holders++ === 0) this.start();
+    let released = false;
+    return new vscode.Disposable(() => {
+      if (released) return;
+      released = true;
+      if (--this.holders === 0) this.stop();
+    });
+  }
+
+  private start(): void {
+    void this.poll(++this.generation);
+  }
+
+  private stop(): void {
+    this.generation++;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    this.update([]);
+  }
+
+  /** Poll right away, e.g. while a pairing is waiting on a device */
+  async refresh(): Promise<MdnsService[]> {
+    try {
+      this.update(await this.adbService.listMdnsServices());
+    } catch {
+      this.update([]);
+    }
+    return this.services;
+  }
+
+  private async poll(generation: number): Promise<void> {
+    let delay = POLL_INTERVAL_MS;
+    try {
+      this.mdnsSupported ||= await this.adbService.isMdnsSupported();
+      if (this.mdnsSupported) {
+        const services = await this.adbService.listMdnsServices();
+        if (generation !== this.generation) return;
+        this.update(services);
+      } else {
+        if (generation !== this.generation) return;
+        this.update([]);
+        delay = UNSUPPORTED_RETRY_MS;
+      }
+    } catch {
+      // The ADB server may be restarting; keep the last list until it answers
+    }
+    if (generation === this.generation) {
+      this.timer = setTimeout(() => void this.poll(generation), delay);
+    }
+  }
+
+  private update(services: MdnsService[]): void {
+    const key = (list: readonly MdnsService[]) =>
+      list
+        .map((service) => `${service.name}|${service.type}|${service.address}`)
+        .sort()
+        .join("\n");
+    if (key(services) === key(this.services)) return;
+    this.services = services;
+    this.onDidChangeServicesEmitter.fire(services);
+  }
+
+  dispose(): void {
+    this.holders = 0;
+    this.stop();
+    this.onDidChangeServicesEmitter.dispose();
+  }
+}
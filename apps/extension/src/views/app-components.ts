@@ -0,0 +1,243 @@
+import * as vscode from "vscode";
+import type {
+  AppComponent,
+  AppComponentKind,
+  InstalledPackage,
+  IntentFilterInfo,
+  PackageDetails,
+} from "@android-devkit/adb";
+import type { AdbService } from "../services/adb";
+
+export type AppTreeItem =
+  | AppsItem
+  | AppCategoryItem
+  | AppPackageItem
+  | ComponentGroupItem
+  | AppComponentItem
+  | IntentFilterItem
+  | AppDetailItem;
+
+const COMPONENT_GROUPS: { kind: AppComponentKind; label: string; icon: string }[] = [
+  { kind: "activity", label: "Activities", icon: "window" },
+  { kind: "service", label: "Services", icon: "server-process" },
+  { kind: "receiver", label: "Broadcast Receivers", icon: "broadcast" },
+  { kind: "provider", label: "Content Providers", icon: "database" },
+];
+
+/**
+ * Children of the Apps node of a device: installed packages split into user
+ * and system apps, their metadata and components from `dumpsys package`,
+ * and each component's intent filters.
+ */
+export async function getAppTreeChildren(adbService: AdbService, element: AppTreeItem): Promise<AppTreeItem[]> {
+  try {
+    if (element instanceof AppsItem) {
+      const packages = await adbService.listInstalledPackages(element.serial);
+      const byName = (a: InstalledPackage, b: InstalledPackage) => a.packageName.localeCompare(b.packageName);
+      return [
+        new AppCategoryItem(element.serial, "user", packages.filter((pkg) => !pkg.system).sort(byName)),
+        new AppCategoryItem(element.serial, "system", packages.filter((pkg) => pkg.system).sort(byName)),
+      ];
+    }
+
+    if (element instanceof AppPackageItem) {
+      // Metadata rows are best effort; the components still show when dumpsys can't be parsed
+      const [rows, components] = await Promise.all([
+        adbService
+          .getPackageDetails(element.serial, element.packageName)
+          .then(getPackageDetailRows, (error) => [
+            new AppDetailItem("Details unavailable", error instanceof Error ? error.message : "Unknown error", "error"),
+          ]),
+        adbService.getAppComponents(element.serial, element.packageName),
+      ]);
+      const groups = COMPONENT_GROUPS.map(
+        (group) =>
+          new ComponentGroupItem(
+            element.serial,
+            group.label,
+            group.icon,
+            components.filter((component) => component.kind === group.kind),
+          ),
+      ).filter((group) => group.components.length > 0);
+      return [...rows, ...groups];
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return [new AppDetailItem("Error", message, "error")];
+  }
+
+  if (element instanceof AppCategoryItem) {
+    if (element.packages.length === 0) return [new AppDetailItem("No apps", "", "info")];
+    return element.packages.map((pkg) => new AppPackageItem(element.serial, pkg));
+  }
+
+  if (element instanceof ComponentGroupItem) {
+    return element.components.map((component) => new AppComponentItem(element.serial, component));
+  }
+
+  if (element instanceof AppComponentItem) {
+    const { component } = element;
+    const details: AppTreeItem[] = [];
+    details.push(new AppDetailItem("Exported", formatExported(component.exported), "unlock"));
+    if (component.permission) {
+      details.push(new AppDetailItem("Permission", component.permission, "shield"));
+    }
+    for (const authority of component.authorities) {
+      details.push(new AppDetailItem("Authority", authority, "link"));
+    }
+    return [...details, ...component.filters.map((filter) => new IntentFilterItem(filter))];
+  }
+
+  if (element instanceof IntentFilterItem) {
+    const { filter } = element;
+    const rows: [string, string[]][] = [
+      ["Action", filter.actions],
+      ["Category", filter.categories],
+      ["Scheme", filter.schemes],
+      ["Authority", filter.authorities],
+      ["Path", filter.paths],
+      ["Type", filter.mimeTypes],
+    ];
+    return rows.flatMap(([label, values]) => values.map((value) => new AppDetailItem(label, value, "symbol-property")));
+  }
+
+  return [];
+}
+
+export class AppsItem extends vscode.TreeItem {
+  constructor(public readonly serial: string) {
+    super("Apps", vscode.TreeItemCollapsibleState.Collapsed);
+    this.id = `${serial}:apps`;
+    this.iconPath = new vscode.ThemeIcon("package");
+    this.contextValue = "deviceApps";
+  }
+}
+
+export class AppCategoryItem extends vscode.TreeItem {
+  constructor(
+    public readonly serial: string,
+    public readonly category: "user" | "system",
+    public readonly packages: InstalledPackage[],
+  ) {
+    super(category === "user" ? "User Apps" : "System Apps", vscode.TreeItemCollapsibleState.Collapsed);
+    this.id = `${serial}:apps:${category}`;
+    this.description = String(packages.length);
+    this.iconPath = new vscode.ThemeIcon(category === "user" ? "account" : "gear");
+    this.contextValue = `appCategory.${category}`;
+  }
+}
+
+export class AppPackageItem extends vscode.TreeItem {
+  readonly packageName: string;
+  readonly system: boolean;
+
+  constructor(
+    public readonly serial: string,
+    pkg: InstalledPackage,
+  ) {
+    super(pkg.packageName, vscode.TreeItemCollapsibleState.Collapsed);
+    this.packageName = pkg.packageName;
+    this.system = pkg.system;
+    this.id = `${serial}:app:${pkg.packageName}`;
+    this.tooltip = pkg.apkPath;
+    this.iconPath = new vscode.ThemeIcon("symbol-package");
+    this.contextValue = pkg.system ? "appPackage.system" : "appPackage.user";
+  }
+}
+
+export class ComponentGroupItem extends vscode.TreeItem {
+  constructor(
+    public readonly serial: string,
+    label: string,
+    icon: string,
+    public readonly components: AppComponent[],
+  ) {
+    super(label, vscode.TreeItemCollapsibleState.Collapsed);
+    this.description = String(components.length);
+    this.iconPath = new vscode.ThemeIcon(icon);
+  }
+}
+
+export class AppComponentItem extends vscode.TreeItem {
+  constructor(
+    public readonly serial: string,
+    public readonly component: AppComponent,
+  ) {
+    super(component.name.split("/")[1], vscode.TreeItemCollapsibleState.Collapsed);
+    this.description = [
+      component.exported === true ? "exported" : component.exported === false ? "not exported" : "exported unknown",
+      component.permission ? "permission" : undefined,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    this.tooltip = component.className;
+    this.iconPath = new vscode.ThemeIcon("symbol-class");
+    this.contextValue = `appComponent.${component.kind}`;
+  }
+}
+
+class IntentFilterItem extends vscode.TreeItem {
+  constructor(public readonly filter: IntentFilterInfo) {
+    super(formatFilterLabel(filter), vscode.TreeItemCollapsibleState.Collapsed);
+    this.iconPath = new vscode.ThemeIcon("filter");
+    this.contextValue = "intentFilter";
+  }
+}
+
+class AppDetailItem extends vscode.TreeItem {
+  constructor(label: string, value: string, icon: string, tooltip?: string) {
+    super(label, vscode.TreeItemCollapsibleState.None);
+    this.description = value;
+    this.tooltip = tooltip ?? (value || undefined);
+    this.iconPath = new vscode.ThemeIcon(icon);
+  }
+}
+
+/** Version, install and APK rows shown above a package's components */
+function getPackageDetailRows(details: PackageDetails): AppDetailItem[] {
+  const rows: AppDetailItem[] = [];
+  if (details.versionName !== undefined || details.versionCode !== undefined) {
+    const code = details.versionCode !== undefined ? `(${details.versionCode})` : undefined;
+    rows.push(new AppDetailItem("Version", [details.versionName, code].filter(Boolean).join(" "), "tag"));
+  }
+  if (details.targetSdk !== undefined) {
+    const sdk =
+      details.minSdk !== undefined ? `${details.targetSdk} (min ${details.minSdk})` : String(details.targetSdk);
+    rows.push(new AppDetailItem("Target SDK", sdk, "versions"));
+  }
+  if (details.firstInstallTime) rows.push(new AppDetailItem("Installed", details.firstInstallTime, "calendar"));
+  if (details.lastUpdateTime) rows.push(new AppDetailItem("Updated", details.lastUpdateTime, "history"));
+  if (details.installer) rows.push(new AppDetailItem("Installer", details.installer, "cloud-download"));
+  if (details.uid !== undefined) rows.push(new AppDetailItem("UID", String(details.uid), "person"));
+  for (const apk of details.apks) {
+    const size = apk.size !== undefined ? formatSize(apk.size) : "";
+    rows.push(new AppDetailItem(apk.path.split("/").pop() ?? apk.path, size, "file-binary", apk.path));
+  }
+  const sizes = details.apks.map((apk) => apk.size).filter((size): size is number => size !== undefined);
+  if (details.apks.length > 1 && sizes.length > 0) {
+    rows.push(new AppDetailItem("Total size", formatSize(sizes.reduce((sum, size) => sum + size, 0)), "database"));
+  }
+  if (details.dataDir) rows.push(new AppDetailItem("Data dir", details.dataDir, "folder"));
+  return rows;
+}
+
+/** Unknown when the APK couldn't be read and the dump doesn't print the flag */
+function formatExported(exported: boolean | undefined): string {
+  return exported === undefined ? "unknown" : String(exported);
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+/** `VIEW https://example.com` for deep links, the short action name otherwise */
+function formatFilterLabel(filter: IntentFilterInfo): string {
+  const action = filter.actions.map((value) => value.replace(/^android\.intent\.action\./, "")).join(", ");
+  const data = filter.schemes.length
+    ? `${filter.schemes[0]}://${filter.authorities[0] ?? "*"}${filter.paths[0] ?? ""}`
+    : filter.mimeTypes[0];
+  return [action || "intent filter", data].filter(Boolean).join(" ");
+}
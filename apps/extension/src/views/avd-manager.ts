@@ -1,10 +1,13 @@
 import * as vscode from "vscode";
+import { QUICK_BOOT_SNAPSHOT } from "@android-devkit/emulator";
 import type { SdkService, Avd, AvdServices } from "../services/sdk";
 import type { AdbService } from "../services/adb";
+import type { EmulatorConsoleService } from "../services/emulator-console";
+import { formatLaunchOptions, type AvdLaunchOptions } from "../models/avd-launch-options";
 import { CONTEXT_KEYS } from "../commands/ids";
 import { setAndroidDevkitContext } from "../config/context";
 
-type AvdManagerTreeItem = AvdItem | PropertyItem | ErrorItem;
+type AvdManagerTreeItem = AvdItem | PropertyItem | SnapshotsItem | SnapshotItem | ErrorItem;
 
 function getAvdServicesLabel(services: AvdServices | undefined): string {
   switch (services) {
@@ -23,12 +26,15 @@ export class AvdManagerProvider implements vscode.TreeDataProvider<AvdManagerTre
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
   private avds: Avd[] = [];
-  private runningAvdNames = new Set<string>();
+  /** Serials of running emulators, by AVD name */
+  private runningAvds = new Map<string, string>();
   private pollTimer: ReturnType<typeof setInterval> | undefined;
 
   constructor(
     private sdkService: SdkService,
-    private adbService: AdbService
+    private adbService: AdbService,
+    private emulatorConsole?: EmulatorConsoleService,
+    private launchOptions?: AvdLaunchOptions
   ) {
     sdkService.onAvdsChanged(() => this.refresh());
     adbService.onDevicesChanged(() => void this.refreshRunningState());
@@ -48,12 +54,12 @@ export class AvdManagerProvider implements vscode.TreeDataProvider<AvdManagerTre
         .filter((d) => d.serial.startsWith("emulator-") && d.state === "device")
         .map((d) => d.serial);
 
-      const names = new Set<string>();
+      const running = new Map<string, string>();
       for (const serial of emulatorSerials) {
         const avdName = await this.adbService.getEmulatorAvdName(serial);
-        if (avdName) names.add(avdName);
+        if (avdName) running.set(avdName, serial);
       }
-      this.runningAvdNames = names;
+      this.runningAvds = running;
       this._onDidChangeTreeData.fire();
     } catch {
       // ignore poll errors
@@ -70,7 +76,11 @@ export class AvdManagerProvider implements vscode.TreeDataProvider<AvdManagerTre
 
   async getChildren(element?: AvdManagerTreeItem): Promise<AvdManagerTreeItem[]> {
     if (element instanceof AvdItem) {
-      return this.getAvdProperties(element.avd, element.running);
+      return [...this.getAvdProperties(element.avd, element.running), new SnapshotsItem(element.avd, element.serial)];
+    }
+
+    if (element instanceof SnapshotsItem) {
+      return this.getSnapshots(element);
     }
 
     if (element) return [];
@@ -92,8 +102,8 @@ export class AvdManagerProvider implements vscode.TreeDataProvider<AvdManagerTre
       }
 
       return this.avds.map((avd) => {
-        const running = this.runningAvdNames.has(avd.name);
-        return new AvdItem(avd, running);
+        const serial = this.runningAvds.get(avd.name);
+        return new AvdItem(avd, serial !== undefined, serial);
       });
     } catch (error) {
       const msg = error instanceof Error ? error.message : "Unknown error";
@@ -103,7 +113,10 @@ export class AvdManagerProvider implements vscode.TreeDataProvider<AvdManagerTre
   }
 
   private getAvdProperties(avd: Avd, running: boolean): PropertyItem[] {
-    const props: PropertyItem[] = [new PropertyItem("Status", running ? "Running" : "Stopped")];
+    const serial = this.runningAvds.get(avd.name);
+    const props: PropertyItem[] = [
+      new PropertyItem("Status", running && serial ? `Running (${serial})` : running ? "Running" : "Stopped")
+    ];
     const config = avd.config;
     const services = getAvdServicesLabel(config?.services);
 
@@ -167,13 +180,51 @@ export class AvdManagerProvider implements vscode.TreeDataProvider<AvdManagerTre
 
     props.push(new PropertyItem("Path", avd.path));
 
+    const launchOptions = this.launchOptions && formatLaunchOptions(this.launchOptions.get(avd.name));
+    if (launchOptions) {
+      props.push(new PropertyItem("Launch Options", launchOptions));
+    }
+
     return props;
   }
 
+  /** Ask a running emulator for its snapshots, or read them from the AVD's directory */
+  private async getSnapshots(parent: SnapshotsItem): Promise<(SnapshotItem | ErrorItem)[]> {
+    const { avd, serial } = parent;
+    try {
+      if (serial && this.emulatorConsole) {
+        const snapshots = await this.emulatorConsole.run(serial, (console) => console.listSnapshots());
+        return snapshots.map(
+          (snapshot) =>
+            new SnapshotItem(avd, snapshot.name, serial, [snapshot.size, snapshot.date].filter(Boolean).join(" · "))
+        );
+      }
+
+      const snapshots = await this.sdkService.listAvdSnapshots(avd);
+      return snapshots.map(
+        (snapshot) =>
+          new SnapshotItem(
+            avd,
+            snapshot.name,
+            undefined,
+            `${formatBytes(snapshot.sizeBytes)} · ${snapshot.modified.toLocaleString()}`
+          )
+      );
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "Unknown error";
+      return [new ErrorItem(msg, "Error loading snapshots")];
+    }
+  }
+
   getAvd(name: string): Avd | undefined {
     return this.avds.find((a) => a.name === name);
   }
 
+  /** The serial of the emulator running an AVD, as of the last poll */
+  getRunningSerial(name: string): string | undefined {
+    return this.runningAvds.get(name);
+  }
+
   dispose(): void {
     if (this.pollTimer) clearInterval(this.pollTimer);
     this._onDidChangeTreeData.dispose();
@@ -183,7 +234,9 @@ export class AvdManagerProvider implements vscode.TreeDataProvider<AvdManagerTre
 export class AvdItem extends vscode.TreeItem {
   constructor(
     public readonly avd: Avd,
-    public readonly running: boolean
+    public readonly running: boolean,
+    /** The emulator's serial, e.g. `emulator-5554`, while running */
+    public readonly serial?: string
   ) {
     const displayName = avd.config?.displayName ?? avd.name.replace(/_/g, " ");
     super(displayName, vscode.TreeItemCollapsibleState.Collapsed);
@@ -204,6 +257,43 @@ export class AvdItem extends vscode.TreeItem {
   }
 }
 
+/** Groups an AVD's snapshots; read over the console while `serial` is set */
+export class SnapshotsItem extends vscode.TreeItem {
+  constructor(
+    public readonly avd: Avd,
+    public readonly serial?: string
+  ) {
+    super("Snapshots", vscode.TreeItemCollapsibleState.Collapsed);
+    this.id = `${avd.name}/snapshots`;
+    this.contextValue = serial ? "avdSnapshots.running" : "avdSnapshots.stopped";
+    this.iconPath = new vscode.ThemeIcon("history");
+  }
+}
+
+export class SnapshotItem extends vscode.TreeItem {
+  constructor(
+    public readonly avd: Avd,
+    public readonly snapshotName: string,
+    /** The running emulator's serial; snapshots of stopped AVDs are handled on disk */
+    public readonly serial: string | undefined,
+    details: string
+  ) {
+    super(snapshotName, vscode.TreeItemCollapsibleState.None);
+    this.id = `${avd.name}/snapshots/${snapshotName}`;
+    const quickBoot = snapshotName === QUICK_BOOT_SNAPSHOT;
+    this.description = quickBoot ? `Quick Boot · ${details}` : details;
+    this.tooltip = quickBoot ? `${snapshotName} — saved by Quick Boot when the emulator exits` : snapshotName;
+    this.contextValue = serial ? "avdSnapshot.running" : "avdSnapshot.stopped";
+    this.iconPath = new vscode.ThemeIcon(quickBoot ? "debug-restart" : "device-camera");
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${Math.round(bytes / (1024 * 1024))} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
 class PropertyItem extends vscode.TreeItem {
   constructor(label: string, value: string) {
     super(label, vscode.TreeItemCollapsibleState.None);
@@ -213,8 +303,8 @@ class PropertyItem extends vscode.TreeItem {
 }
 
 class ErrorItem extends vscode.TreeItem {
-  constructor(message: string) {
-    super("Error loading AVDs", vscode.TreeItemCollapsibleState.None);
+  constructor(message: string, label = "Error loading AVDs") {
+    super(label, vscode.TreeItemCollapsibleState.None);
     this.description = message;
     this.iconPath = new vscode.ThemeIcon("error");
   }
@@ -2,18 +2,36 @@ import * as vscode from "vscode";
 import type { AdbService, DeviceInfo } from "../services/adb";
 import { CONTEXT_KEYS } from "../commands/ids";
 import { setAndroidDevkitContext } from "../config/context";
-
-type DevicesTreeItem = DeviceTreeItem | PropertyItem | ErrorItem;
+import type { WirelessDiscoveryService } from "../services/wireless-discovery";
+import { AppsItem, getAppTreeChildren, type AppTreeItem } from "./app-components";
+import { DiscoveredServiceItem, WirelessDiscoveryItem, getActionableServices } from "./wireless-devices";
+
+type DevicesTreeItem =
+  | DeviceTreeItem
+  | PropertyItem
+  | ErrorItem
+  | AppTreeItem
+  | WirelessDiscoveryItem
+  | DiscoveredServiceItem;
 
 export class DevicesTreeProvider implements vscode.TreeDataProvider<DevicesTreeItem> {
   private _onDidChangeTreeData = new vscode.EventEmitter<DevicesTreeItem | undefined | null | void>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
+  private readonly onDidChangeSelectedDeviceEmitter = new vscode.EventEmitter<DeviceInfo | undefined>();
+  /** Fires when a different device is selected in the Devices view */
+  readonly onDidChangeSelectedDevice = this.onDidChangeSelectedDeviceEmitter.event;
+
   private devices: DeviceInfo[] = [];
+  private selectedSerial: string | undefined;
 
-  constructor(private adbService: AdbService) {
+  constructor(
+    private adbService: AdbService,
+    private wirelessDiscovery?: WirelessDiscoveryService
+  ) {
     // Listen for device changes
     adbService.onDevicesChanged(() => this.refresh());
+    wirelessDiscovery?.onDidChangeServices(() => this.refresh());
     void setAndroidDevkitContext(CONTEXT_KEYS.hasDevices, false);
   }
 
@@ -27,22 +45,32 @@ export class DevicesTreeProvider implements vscode.TreeDataProvider<DevicesTreeI
 
   async getChildren(element?: DevicesTreeItem): Promise<DevicesTreeItem[]> {
     if (element instanceof DeviceTreeItem) {
-      // Device properties as children
-      return this.getDeviceProperties(element.device);
+      // Device properties as children, then the installed apps
+      const props: DevicesTreeItem[] = this.getDeviceProperties(element.device);
+      return element.device.state === "device" ? [...props, new AppsItem(element.device.serial)] : props;
     }
 
-    if (element) return [];
+    if (element instanceof WirelessDiscoveryItem) {
+      return element.services.map((service) => new DiscoveredServiceItem(service));
+    }
+
+    if (element instanceof PropertyItem || element instanceof ErrorItem || element instanceof DiscoveredServiceItem) {
+      return [];
+    }
+    if (element) return getAppTreeChildren(this.adbService, element);
 
     // Root level - list devices
     try {
       this.devices = await this.adbService.getDevices();
       void setAndroidDevkitContext(CONTEXT_KEYS.hasDevices, this.devices.length > 0);
 
-      if (this.devices.length === 0) {
-        return [];
+      // Devices advertising wireless debugging over mDNS, below the connected ones
+      const discovered = getActionableServices(this.wirelessDiscovery?.discovered ?? [], this.devices);
+      const items: DevicesTreeItem[] = this.devices.map((device) => new DeviceTreeItem(device));
+      if (discovered.length > 0) {
+        items.push(new WirelessDiscoveryItem(discovered));
       }
-
-      return this.devices.map((device) => new DeviceTreeItem(device));
+      return items;
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
       void setAndroidDevkitContext(CONTEXT_KEYS.hasDevices, false);
@@ -84,8 +112,22 @@ export class DevicesTreeProvider implements vscode.TreeDataProvider<DevicesTreeI
     return this.devices.find((d) => d.serial === serial);
   }
 
+  /** The device selected in the view, while it is still listed */
+  get selectedDevice(): DeviceInfo | undefined {
+    return this.selectedSerial ? this.getDevice(this.selectedSerial) : undefined;
+  }
+
+  /** Follow the view's selection; selecting a device's children keeps that device selected */
+  setSelection(items: readonly vscode.TreeItem[]): void {
+    const device = items.find((item): item is DeviceTreeItem => item instanceof DeviceTreeItem)?.device;
+    if (!device || device.serial === this.selectedSerial) return;
+    this.selectedSerial = device.serial;
+    this.onDidChangeSelectedDeviceEmitter.fire(device);
+  }
+
   dispose(): void {
     this._onDidChangeTreeData.dispose();
+    this.onDidChangeSelectedDeviceEmitter.dispose();
   }
 }
 
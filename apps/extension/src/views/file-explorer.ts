@@ -20,6 +20,7 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileExplore
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
   private currentDevice?: string;
+  private rootPath = "/";
 
   constructor(private adbService: AdbService) {
     void setAndroidDevkitContext(CONTEXT_KEYS.fileExplorerHasDevice, false);
@@ -29,8 +30,10 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileExplore
     this._onDidChangeTreeData.fire();
   }
 
-  setDevice(serial: string): void {
+  /** Browse a device, from `/` or from a directory such as an app's data dir */
+  setDevice(serial: string, rootPath = "/"): void {
     this.currentDevice = serial;
+    this.rootPath = rootPath;
     void setAndroidDevkitContext(CONTEXT_KEYS.fileExplorerHasDevice, true);
     this.refresh();
   }
@@ -57,7 +60,7 @@ export class FileExplorerProvider implements vscode.TreeDataProvider<FileExplore
     // MessageItem has no children
     if (element instanceof MessageItem) return [];
 
-    const remotePath = (element as FileTreeItem)?.remotePath ?? "/";
+    const remotePath = (element as FileTreeItem)?.remotePath ?? this.rootPath;
 
     try {
       const files = await this.adbService.listFiles(this.currentDevice, remotePath);
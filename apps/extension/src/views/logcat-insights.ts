@@ -0,0 +1,183 @@
+import * as vscode from "vscode";
+import type { LogLevel } from "@android-devkit/logcat";
+import type { LogcatRatePoint, LogcatStats } from "../models/logcat-stats";
+import type { LogcatTreeProvider } from "./logcat";
+
+const TOP_LIMIT = 10;
+/** Seconds drawn in the rate sparkline */
+const SPARKLINE_SECONDS = 30;
+/** Seconds listed under the rate node */
+const RATE_ROWS = 10;
+const SPARK_CHARS = "▁▂▃▄▅▆▇█";
+const LEVEL_NAMES: Record<LogLevel, string> = {
+  V: "Verbose",
+  D: "Debug",
+  I: "Info",
+  W: "Warning",
+  E: "Error",
+  F: "Fatal",
+  S: "Silent",
+};
+const LEVEL_ICONS: Record<LogLevel, string> = {
+  V: "debug-stackframe-dot",
+  D: "debug",
+  I: "info",
+  W: "warning",
+  E: "error",
+  F: "flame",
+  S: "mute",
+};
+
+function sparkline(points: readonly LogcatRatePoint[]): string {
+  const peak = Math.max(...points.map((point) => point.count));
+  if (peak === 0) return SPARK_CHARS[0].repeat(points.length);
+  return points
+    .map((point) => SPARK_CHARS[Math.round((point.count / peak) * (SPARK_CHARS.length - 1))])
+    .join("");
+}
+
+function share(count: number, total: number): string {
+  return `${count.toLocaleString()} · ${total ? Math.round((count / total) * 100) : 0}%`;
+}
+
+/**
+ * Aggregates of the active Logcat session: rate over time, level histogram
+ * and the noisiest tags and PIDs, with a mute action per tag.
+ */
+export class LogcatInsightsProvider implements vscode.TreeDataProvider<InsightItem>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<InsightItem | undefined | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+  private readonly disposables: vscode.Disposable[];
+
+  constructor(private readonly logcatProvider: LogcatTreeProvider) {
+    // The Logcat tree already throttles its refreshes while streaming
+    this.disposables = [
+      logcatProvider.onDidChangeTreeData(() => this.refresh()),
+      logcatProvider.onDidSessionChange(() => this.refresh()),
+    ];
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: InsightItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: InsightItem): InsightItem[] {
+    const session = this.logcatProvider.getActiveSession();
+    const stats = session.buffer.stats;
+    if (element) {
+      return element.getChildren?.(stats) ?? [];
+    }
+    if (stats.total === 0) {
+      return [];
+    }
+
+    const mutedTags = new Set(
+      session.filter?.terms
+        .filter((term) => term.negated && term.field === "tag" && term.operator === "=")
+        .map((term) => term.value)
+    );
+
+    return [
+      new TotalItem(stats.total, session.buffer.length),
+      new RateItem(stats.getRate()),
+      new InsightItem("Levels", "symbol-enum", vscode.TreeItemCollapsibleState.Expanded, (current) =>
+        (["F", "E", "W", "I", "D", "V"] as LogLevel[])
+          .filter((level) => current.getLevelCounts().has(level))
+          .map((level) => new LevelCountItem(level, current.getLevelCounts().get(level)!, current.total))
+      ),
+      new InsightItem("Top Tags", "tag", vscode.TreeItemCollapsibleState.Expanded, (current) =>
+        current
+          .getTopTags(TOP_LIMIT)
+          .map(({ tag, count }) => new TagCountItem(tag, share(count, current.total), mutedTags.has(tag)))
+      ),
+      new InsightItem("Top PIDs", "server-process", vscode.TreeItemCollapsibleState.Collapsed, (current) =>
+        current.getTopPids(TOP_LIMIT).map(({ pid, count }) => new PidCountItem(pid, share(count, current.total)))
+      ),
+    ];
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) disposable.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+}
+
+class InsightItem extends vscode.TreeItem {
+  constructor(
+    label: string,
+    icon: string,
+    collapsibleState = vscode.TreeItemCollapsibleState.None,
+    readonly getChildren?: (stats: LogcatStats) => InsightItem[]
+  ) {
+    super(label, collapsibleState);
+    this.iconPath = new vscode.ThemeIcon(icon);
+  }
+}
+
+class TotalItem extends InsightItem {
+  constructor(total: number, buffered: number) {
+    super("Entries", "list-ordered");
+    this.description = `${total.toLocaleString()} seen · ${buffered.toLocaleString()} buffered`;
+    this.tooltip = "Seen counts every entry since the last clear, including those rotated out by maxLines";
+  }
+}
+
+class RateItem extends InsightItem {
+  constructor(points: readonly LogcatRatePoint[]) {
+    const peak = Math.max(0, ...points.map((point) => point.count));
+    super("Rate", "pulse", vscode.TreeItemCollapsibleState.Collapsed, () =>
+      points
+        .slice(-RATE_ROWS)
+        .reverse()
+        .map((point) => new RatePointItem(point, peak))
+    );
+    const latest = points.at(-1)?.count ?? 0;
+    const average = points.length ? points.reduce((sum, point) => sum + point.count, 0) / points.length : 0;
+    this.description = `${sparkline(points.slice(-SPARKLINE_SECONDS))} ${latest.toLocaleString()}/s`;
+    this.tooltip = [
+      `Entries per second by device time over the last ${points.length} s`,
+      `Peak ${peak.toLocaleString()}/s · average ${Math.round(average).toLocaleString()}/s`,
+    ].join("\n");
+  }
+}
+
+class RatePointItem extends InsightItem {
+  constructor(point: LogcatRatePoint, peak: number) {
+    super(new Date(point.time).toLocaleTimeString("en-US", { hour12: false }), "clock");
+    const width = peak ? Math.round((point.count / peak) * 20) : 0;
+    this.description = `${"█".repeat(width)} ${point.count.toLocaleString()}`;
+  }
+}
+
+class LevelCountItem extends InsightItem {
+  constructor(level: LogLevel, count: number, total: number) {
+    super(`${level} - ${LEVEL_NAMES[level]}`, LEVEL_ICONS[level]);
+    this.description = share(count, total);
+  }
+}
+
+class TagCountItem extends InsightItem {
+  constructor(
+    readonly tag: string,
+    detail: string,
+    muted: boolean
+  ) {
+    super(tag || "(no tag)", muted ? "mute" : "tag");
+    this.description = muted ? `${detail} · muted` : detail;
+    this.tooltip = muted ? `${tag} is hidden by the Logcat filter` : `Mute ${tag} to hide it from Logcat`;
+    if (!muted && tag) {
+      this.contextValue = "logcatInsightTag";
+    }
+  }
+}
+
+class PidCountItem extends InsightItem {
+  constructor(pid: number, detail: string) {
+    super(`PID ${pid}`, "server-process");
+    this.description = detail;
+  }
+}
@@ -1,26 +1,58 @@
 import * as vscode from "vscode";
-import type { LogcatEntry, LogLevel } from "@android-devkit/logcat";
+import {
+  DEFAULT_LOGCAT_BUFFERS,
+  parseLogcatQuery,
+  parseStackFrame,
+  type LogcatBufferId,
+  type LogcatCrash,
+  type LogcatEntry,
+  type LogcatQuery,
+  type LogcatRecording,
+  type LogcatRecordingHeader,
+  type LogLevel,
+  type PackageProcess,
+} from "@android-devkit/logcat";
 import type { LogcatService } from "../services/logcat";
-import { CONTEXT_KEYS } from "../commands/ids";
+import { ANDROID_DEVKIT_COMMANDS, CONTEXT_KEYS, VS_CODE_COMMANDS } from "../commands/ids";
 import { setAndroidDevkitContext } from "../config/context";
 import { getLogcatDefaultLogLevel, getLogcatMaxLines } from "../config/settings";
 import { LogcatBuffer } from "../models/logcat-buffer";
+import { LogcatRecorder } from "../models/logcat-recorder";
+import {
+  LogcatSession,
+  mergeLogcatSessions,
+  type LabeledLogcatEntry,
+  type LogcatSessionOptions,
+  type LogcatSessionState,
+} from "../models/logcat-session";
+import { StackFrameResolver } from "../models/stack-frame-resolver";
 import { getOutputChannel } from "../utils/output";
 
-type LogcatSessionState = "stopped" | "running" | "paused";
+function getDefaultLogLevel(): LogLevel {
+  return getLogcatDefaultLogLevel();
+}
 
-interface LogcatSessionOptions {
-  deviceLabel?: string;
-  minLevel: LogLevel;
-  packageName?: string;
-  pid?: number;
-  serial?: string;
+/**
+ * Filters saved before the query syntax existed were plain substrings; keep
+ * matching them literally when they don't parse as a query.
+ */
+function restoreQuery(source: string): LogcatQuery {
+  try {
+    return parseLogcatQuery(source);
+  } catch {
+    return { source, terms: [{ field: "text", operator: ":", value: source, negated: false }] };
+  }
 }
 
-function getDefaultLogLevel(): LogLevel {
-  return getLogcatDefaultLogLevel();
+function formatState(state: LogcatSessionState): string {
+  return state.charAt(0).toUpperCase() + state.slice(1);
 }
 
+/**
+ * Shows one Logcat session per device. Commands act on the active session,
+ * which is the one most recently started or picked in the tree; with more
+ * than one session the tree groups items per device and offers a merged view.
+ */
 export class LogcatTreeProvider implements vscode.TreeDataProvider<LogcatTreeItem> {
   private _onDidChangeTreeData = new vscode.EventEmitter<LogcatTreeItem | undefined | null | void>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
@@ -28,38 +60,40 @@ export class LogcatTreeProvider implements vscode.TreeDataProvider<LogcatTreeIte
   readonly onDidSessionChange = this._onDidSessionChange.event;
 
   private outputChannel: vscode.LogOutputChannel;
-  private buffer: LogcatBuffer;
-  private filter?: string;
+  private frameResolver = new StackFrameResolver();
   private hasAvailableDevices = false;
   private refreshTimer: ReturnType<typeof setTimeout> | undefined;
-  private session: LogcatSessionOptions;
-  private sessionState: LogcatSessionState = "stopped";
+  private sessions: LogcatSession[];
+  private activeSession: LogcatSession;
 
   constructor(private logcatService: LogcatService, private context?: vscode.ExtensionContext) {
     this.outputChannel = getOutputChannel("Logcat", { log: true });
-    this.buffer = new LogcatBuffer(getLogcatMaxLines());
 
-    // Restore persisted filter state
-    const persistedLevel = context?.workspaceState.get<LogLevel>("logcat.minLevel");
-    const persistedFilter = context?.workspaceState.get<string>("logcat.filter");
-    const persistedPackage = context?.workspaceState.get<string>("logcat.packageName");
-    this.session = { minLevel: persistedLevel ?? getDefaultLogLevel(), packageName: persistedPackage };
-    this.filter = persistedFilter;
+    this.activeSession = this.createSession();
+    this.sessions = [this.activeSession];
 
     // Listen for logcat entries
-    logcatService.onLogcatEntry((entry) => {
-      this.addEntry(entry);
+    logcatService.onLogcatEntry(({ serial, entry }) => {
+      const session = this.findDeviceSession(serial);
+      if (session) {
+        this.addEntry(session, entry);
+      }
     });
 
-    logcatService.onError((error) => {
-      vscode.window.showErrorMessage(`Logcat error: ${error.message}`);
+    logcatService.onError(({ serial, error }) => {
+      const session = this.findDeviceSession(serial);
+      const label = session && this.sessions.length > 1 ? ` (${session.label})` : "";
+      vscode.window.showErrorMessage(`Logcat error${label}: ${error.message}`);
     });
 
-    logcatService.onStateChanged((running) => {
+    logcatService.onStateChanged(({ serial, running }) => {
+      const session = this.findDeviceSession(serial);
+      if (!session) return;
+
       if (running) {
-        this.sessionState = "running";
-      } else if (this.sessionState !== "paused") {
-        this.sessionState = "stopped";
+        session.state = "running";
+      } else if (session.state !== "paused") {
+        session.state = "stopped";
       }
       this.emitSessionChange();
       this.refresh();
@@ -68,6 +102,33 @@ export class LogcatTreeProvider implements vscode.TreeDataProvider<LogcatTreeIte
     this.emitSessionChange();
   }
 
+  /**
+   * New sessions start from the persisted level, query and package filters.
+   */
+  private createSession(options: Partial<LogcatSessionOptions> = {}): LogcatSession {
+    const persistedLevel = this.context?.workspaceState.get<LogLevel>("logcat.minLevel");
+    const persistedFilter = this.context?.workspaceState.get<string>("logcat.filter");
+    const persistedPackage = this.context?.workspaceState.get<string>("logcat.packageName");
+    const persistedBuffers = this.context?.workspaceState.get<LogcatBufferId[]>("logcat.buffers");
+
+    const session = new LogcatSession(
+      {
+        minLevel: persistedLevel ?? getDefaultLogLevel(),
+        packageName: persistedPackage,
+        buffers: persistedBuffers,
+        ...options,
+      },
+      getLogcatMaxLines(),
+      this.frameResolver
+    );
+    session.filter = persistedFilter ? restoreQuery(persistedFilter) : undefined;
+    return session;
+  }
+
+  private findDeviceSession(serial: string): LogcatSession | undefined {
+    return this.sessions.find((session) => session.options.serial === serial && session.state !== "replay");
+  }
+
   refresh(): void {
     this._onDidChangeTreeData.fire();
   }
@@ -85,63 +146,118 @@ export class LogcatTreeProvider implements vscode.TreeDataProvider<LogcatTreeIte
   }
 
   async getChildren(element?: LogcatTreeItem): Promise<LogcatTreeItem[]> {
+    if (element instanceof CrashItem) {
+      return element.crash.lines.map((line) => this.createCrashLineItem(line));
+    }
+    if (element instanceof SessionItem) {
+      return this.getSessionChildren(element.session);
+    }
     if (element) return [];
 
-    if (!this.hasAvailableDevices) {
+    if (!this.hasAvailableDevices && this.activeSession.state !== "replay") {
       return [];
     }
 
-    if (this.sessionState === "stopped" && this.buffer.length === 0 && !this.filter && !this.session.packageName) {
+    if (this.sessions.length > 1) {
+      return [
+        new MergedItem(this.sessions.length),
+        ...this.sessions.map((session) => new SessionItem(session, session === this.activeSession)),
+      ];
+    }
+
+    const session = this.activeSession;
+    if (session.state === "stopped" && session.buffer.length === 0 && !session.filter && !session.options.packageName) {
       return [];
     }
 
+    return this.getSessionChildren(session);
+  }
+
+  private getSessionChildren(session: LogcatSession): LogcatTreeItem[] {
     const items: LogcatTreeItem[] = [];
+    const { options } = session;
 
     // Status item
-    if (this.sessionState === "running") {
-      items.push(new StatusItem("Running", this.session.deviceLabel ?? this.session.serial ?? "All devices", "play"));
-    } else if (this.sessionState === "paused") {
-      items.push(new StatusItem("Paused", this.session.deviceLabel ?? this.session.serial ?? "All devices", "debug-pause"));
+    if (session.state === "running") {
+      items.push(new StatusItem("Running", options.deviceLabel ?? options.serial ?? "All devices", "play"));
+    } else if (session.state === "paused") {
+      items.push(new StatusItem("Paused", options.deviceLabel ?? options.serial ?? "All devices", "debug-pause"));
+    } else if (session.replay) {
+      items.push(new ReplayItem(session.replay.label, session.replay.recording.header));
     } else {
       items.push(new StatusItem("Stopped", "Click play to start", "debug-stop"));
     }
 
-    items.push(new LevelItem(this.session.minLevel));
+    if (session.recorder) {
+      items.push(new RecordingItem(session.recorder.filePath, session.recorder.entryCount));
+    }
+
+    items.push(new LevelItem(options.minLevel));
+    items.push(new BuffersItem(options.buffers, session.buffer.getBufferCounts()));
 
     // Filter item
-    if (this.filter) {
-      items.push(new FilterItem(this.filter));
+    if (session.filter) {
+      items.push(new FilterItem(session.filter));
     }
 
     // Package filter item
-    if (this.session.packageName) {
-      const desc = this.session.pid
-        ? `${this.session.packageName} (PID: ${this.session.pid})`
-        : `${this.session.packageName} (PID unavailable)`;
+    if (options.packageName) {
+      const pids = session.processTracker ? [...session.processTracker.processes.values()] : [];
+      if (options.pid && !pids.includes(options.pid)) pids.unshift(options.pid);
+      const desc = pids.length
+        ? `${options.packageName} (PID: ${pids.join(", ")})`
+        : `${options.packageName} (waiting for process)`;
       items.push(new PackageFilterItem(desc));
     }
 
     // Stats
-    items.push(new StatsItem(this.buffer.length, getLogcatMaxLines()));
+    items.push(new StatsItem(session.buffer.length, getLogcatMaxLines()));
+
+    // Crashes, most recent first
+    items.push(...session.getCrashes().map((crash) => new CrashItem(crash)));
 
     return items;
   }
 
+  private createCrashLineItem(line: string): LogcatTreeItem {
+    const frame = parseStackFrame(line);
+    if (!frame) {
+      return new CrashLineItem(line.trim());
+    }
+
+    const fsPath = this.frameResolver.resolve(frame);
+    return new StackFrameItem(line.trim(), fsPath, frame.lineNumber);
+  }
+
   /**
    * Add a log entry and write to output channel
    */
-  private addEntry(entry: LogcatEntry): void {
-    const added = this.buffer.add(entry, this.session.minLevel, this.filter, this.session.pid);
+  private addEntry(session: LogcatSession, entry: LogcatEntry): void {
+    const marker = session.trackProcess(entry);
+    if (marker) {
+      session.accept(marker);
+      this.writeToOutput(session, marker);
+      this.scheduleRefresh();
+    }
+    if (!session.isStreamEntry(entry)) return;
+
+    session.recorder?.write(entry);
+    if (session.trackCrash(entry)) {
+      this.scheduleRefresh();
+    }
+
+    const added = session.accept(entry);
     if (!added) return;
 
-    this.writeToOutput(entry);
+    this.writeToOutput(session, entry);
     this.scheduleRefresh();
   }
 
   /**
-   * Write entry to output channel with formatting
+   * Write entry to output channel with formatting. Entries are prefixed
+   * with their device while more than one session is open.
    */
-  private writeToOutput(entry: LogcatEntry): void {
+  private writeToOutput(session: LogcatSession, entry: LogcatEntry): void {
     const time = entry.timestamp.toLocaleTimeString("en-US", {
       hour12: false,
       hour: "2-digit",
@@ -150,8 +266,9 @@ export class LogcatTreeProvider implements vscode.TreeDataProvider<LogcatTreeIte
       fractionalSecondDigits: 3,
     });
 
-    const message = this.buffer.linkifyStackTrace(entry.message);
-    const line = `${time} ${entry.pid.toString().padStart(5)} ${entry.tid.toString().padStart(5)} ${entry.level} ${entry.tag}: ${message}`;
+    const message = session.buffer.linkifyStackTrace(entry.message);
+    const device = this.sessions.length > 1 ? `[${session.label}] ` : "";
+    const line = `${device}${time} ${entry.pid.toString().padStart(5)} ${entry.tid.toString().padStart(5)} ${entry.level} ${entry.tag}: ${message}`;
 
     // Use appropriate log level method
     switch (entry.level) {
@@ -177,19 +294,48 @@ export class LogcatTreeProvider implements vscode.TreeDataProvider<LogcatTreeIte
   }
 
   getSession(): Readonly<LogcatSessionOptions> {
-    return this.session;
+    return this.activeSession.options;
   }
 
   getSessionState(): LogcatSessionState {
-    return this.sessionState;
+    return this.activeSession.state;
+  }
+
+  getSessions(): readonly LogcatSession[] {
+    return this.sessions;
+  }
+
+  getActiveSession(): LogcatSession {
+    return this.activeSession;
   }
 
-  setHasAvailableDevices(hasAvailableDevices: boolean): void {
+  /**
+   * Make a session the target of the Logcat commands
+   */
+  setActiveSession(session: LogcatSession): void {
+    if (!this.sessions.includes(session) || session === this.activeSession) return;
+
+    this.activeSession = session;
+    this.emitSessionChange();
+    this.refresh();
+  }
+
+  /**
+   * Track device availability. Sessions whose device is no longer in
+   * `readySerials` are stopped; without devices every live session stops.
+   */
+  setHasAvailableDevices(hasAvailableDevices: boolean, readySerials?: readonly string[]): void {
     this.hasAvailableDevices = hasAvailableDevices;
-    if (!hasAvailableDevices && this.sessionState !== "stopped") {
-      this.stop();
-      vscode.window.showWarningMessage("Logcat stopped: device disconnected.");
-      return;
+
+    const disconnected = this.sessions.filter(
+      (session) =>
+        session.isLive &&
+        (!hasAvailableDevices || (readySerials && session.options.serial && !readySerials.includes(session.options.serial)))
+    );
+    for (const session of disconnected) {
+      this.stopSession(session);
+      const device = this.sessions.length > 1 ? `${session.label} ` : "device ";
+      vscode.window.showWarningMessage(`Logcat stopped: ${device}disconnected.`);
     }
 
     this.emitSessionChange();
@@ -197,29 +343,53 @@ export class LogcatTreeProvider implements vscode.TreeDataProvider<LogcatTreeIte
   }
 
   private emitSessionChange(): void {
-    void setAndroidDevkitContext(CONTEXT_KEYS.logcatPaused, this.sessionState === "paused");
-    void setAndroidDevkitContext(CONTEXT_KEYS.logcatRunning, this.sessionState === "running");
+    const state = this.activeSession.state;
+    void setAndroidDevkitContext(CONTEXT_KEYS.logcatPaused, state === "paused");
+    void setAndroidDevkitContext(CONTEXT_KEYS.logcatRunning, state === "running");
+    void setAndroidDevkitContext(CONTEXT_KEYS.logcatRecording, this.activeSession.recorder !== undefined);
+    void setAndroidDevkitContext(CONTEXT_KEYS.logcatReplay, state === "replay");
+    void setAndroidDevkitContext(CONTEXT_KEYS.logcatMultipleSessions, this.sessions.length > 1);
     this._onDidSessionChange.fire();
   }
 
   /**
-   * Start logcat streaming
+   * Start logcat streaming. A serial that has no session yet opens a new
+   * one next to the running sessions; otherwise that device's session (or
+   * the active one) is restarted with the given options.
+   *
+   * A package filter follows the package across restarts; `processes` seeds
+   * it with the package processes already running.
    */
-  start(options: Partial<LogcatSessionOptions> = {}): void {
-    this.session = {
-      ...this.session,
+  start({ processes, ...options }: Partial<LogcatSessionOptions> & { processes?: readonly PackageProcess[] } = {}): void {
+    let session = options.serial !== undefined ? this.findDeviceSession(options.serial) : this.activeSession;
+    if (!session) {
+      if (this.activeSession.isLive) {
+        session = this.createSession({ minLevel: this.activeSession.options.minLevel });
+        this.sessions.push(session);
+      } else {
+        session = this.activeSession;
+      }
+    }
+
+    session.options = {
+      ...session.options,
       ...options,
-      minLevel: options.minLevel ?? this.session.minLevel,
+      minLevel: options.minLevel ?? session.options.minLevel,
     };
-    this.sessionState = "running";
+    if (processes || "packageName" in options || session.processTracker?.packageName !== session.options.packageName) {
+      session.trackPackage(processes);
+    }
+    if (session.replay) {
+      this.closeReplay(session);
+    }
+    session.state = "running";
+    this.activeSession = session;
     this.outputChannel.show(true);
-    this.logcatService.start({
-      minLevel: this.session.minLevel,
-      pid: this.session.pid,
-      serial: this.session.serial,
-    }).catch((err) => {
+
+    const target = session;
+    this.logcatService.start({ ...target.getStreamOptions(), serial: target.options.serial }).catch((err) => {
       vscode.window.showErrorMessage(`Failed to start logcat: ${err instanceof Error ? err.message : String(err)}`);
-      this.sessionState = "stopped";
+      target.state = "stopped";
       this.emitSessionChange();
       this.refresh();
     });
@@ -228,12 +398,13 @@ export class LogcatTreeProvider implements vscode.TreeDataProvider<LogcatTreeIte
   }
 
   pause(): void {
-    if (this.sessionState !== "running") {
+    const session = this.activeSession;
+    if (session.state !== "running") {
       return;
     }
 
-    this.sessionState = "paused";
-    this.logcatService.stop();
+    session.state = "paused";
+    this.stopStream(session);
     this.emitSessionChange();
     this.refresh();
   }
@@ -242,12 +413,80 @@ export class LogcatTreeProvider implements vscode.TreeDataProvider<LogcatTreeIte
     this.start();
   }
 
+  /**
+   * Pause the session streaming from a device and make it the active one
+   */
+  pauseDevice(serial: string): LogcatSession | undefined {
+    const session = this.findDeviceSession(serial);
+    if (session?.state !== "running") return undefined;
+
+    this.activeSession = session;
+    this.pause();
+    return session;
+  }
+
   /**
    * Stop logcat streaming
    */
   stop(): void {
-    this.sessionState = "stopped";
-    this.logcatService.stop();
+    this.stopSession(this.activeSession);
+    this.emitSessionChange();
+    this.refresh();
+  }
+
+  /**
+   * Stop every live session
+   */
+  stopAll(): void {
+    for (const session of this.sessions) {
+      if (session.isLive) {
+        this.stopSession(session);
+      }
+    }
+    this.emitSessionChange();
+    this.refresh();
+  }
+
+  /**
+   * Stop the device stream behind a session. `LogcatService.stop()` without a
+   * serial stops every device, so a session that never had one stops nothing.
+   */
+  private stopStream(session: LogcatSession): void {
+    if (session.options.serial) {
+      this.logcatService.stop(session.options.serial);
+    }
+  }
+
+  private stopSession(session: LogcatSession): void {
+    if (session.recorder) {
+      void this.stopRecording(session);
+    }
+    if (session.state !== "replay") {
+      session.state = "stopped";
+    }
+    this.stopStream(session);
+  }
+
+  /**
+   * Stop a session and remove it from the view. The last session is
+   * replaced by an empty one so the view always has a session to act on.
+   */
+  closeSession(session: LogcatSession): void {
+    if (!this.sessions.includes(session)) return;
+
+    if (session.isLive) {
+      this.stopSession(session);
+    } else if (session.recorder) {
+      void this.stopRecording(session);
+    }
+
+    this.sessions = this.sessions.filter((candidate) => candidate !== session);
+    if (this.sessions.length === 0) {
+      this.sessions.push(this.createSession({ minLevel: session.options.minLevel }));
+    }
+    if (session === this.activeSession) {
+      this.activeSession = this.sessions[this.sessions.length - 1];
+    }
     this.emitSessionChange();
     this.refresh();
   }
@@ -256,52 +495,188 @@ export class LogcatTreeProvider implements vscode.TreeDataProvider<LogcatTreeIte
    * Clear logs
    */
   async clear(device?: string): Promise<void> {
-    this.buffer.clear();
+    const session = this.activeSession;
+    session.clearEntries();
+    this.frameResolver.reset();
     this.outputChannel.clear();
-    await this.logcatService.clear(device ?? this.session.serial);
+    if (session.replay) {
+      this.closeReplay(session);
+      session.state = "stopped";
+      this.emitSessionChange();
+    } else {
+      await this.logcatService.clear(device ?? session.options.serial);
+    }
     this.refresh();
   }
 
   /**
-   * Set text filter
+   * Set query filter
    */
-  setFilter(filter?: string): void {
-    this.filter = filter;
-    void this.context?.workspaceState.update("logcat.filter", filter);
+  setFilter(query?: LogcatQuery): void {
+    this.activeSession.filter = query?.terms.length ? query : undefined;
+    void this.context?.workspaceState.update("logcat.filter", this.activeSession.filter?.source);
+    this.reapplyReplayFilters(this.activeSession);
     this.emitSessionChange();
     this.refresh();
   }
 
+  /**
+   * Hide a tag by adding a `-tag=<tag>` term to the active session's query.
+   * The term is appended to the parsed query rather than re-parsing its
+   * source, which may predate the current query grammar.
+   */
+  muteTag(tag: string): void {
+    const value = /[\s"]/.test(tag) ? `"${tag.replaceAll('"', '\\"')}"` : tag;
+    const muted = parseLogcatQuery(`-tag=${value}`);
+    const current = this.activeSession.filter;
+    this.setFilter(
+      current ? { source: `${current.source} ${muted.source}`, terms: [...current.terms, ...muted.terms] } : muted
+    );
+  }
+
   /**
    * Set minimum log level
    */
   setMinLevel(level: LogLevel): void {
-    this.session = { ...this.session, minLevel: level };
+    const session = this.activeSession;
+    session.options = { ...session.options, minLevel: level };
     void this.context?.workspaceState.update("logcat.minLevel", level);
-    if (this.sessionState === "running") {
+    if (session.state === "running") {
       this.start({ minLevel: level });
       return;
     }
 
+    this.reapplyReplayFilters(session);
+    this.emitSessionChange();
+    this.refresh();
+  }
+
+  /**
+   * Choose the device log buffers to read; undefined reads the device default
+   */
+  setBuffers(buffers?: LogcatBufferId[]): void {
+    const session = this.activeSession;
+    session.options = { ...session.options, buffers };
+    void this.context?.workspaceState.update("logcat.buffers", buffers);
+    if (session.state === "running") {
+      this.start({ buffers });
+      return;
+    }
+
     this.emitSessionChange();
     this.refresh();
   }
 
   /**
-   * Set package name filter (optionally with resolved PID)
+   * Set package name filter (optionally with its running processes). The
+   * filter follows the package when its processes restart.
    */
-  setPackageFilter(packageName?: string, pid?: number): void {
-    this.session = { ...this.session, packageName, pid };
+  setPackageFilter(packageName?: string, pid?: number, processes?: readonly PackageProcess[]): void {
+    const session = this.activeSession;
+    session.options = { ...session.options, packageName, pid };
+    session.trackPackage(processes);
     void this.context?.workspaceState.update("logcat.packageName", packageName);
-    if (this.sessionState === "running") {
-      this.start({ packageName, pid });
+    if (session.state === "running") {
+      this.start({ packageName, pid, processes });
       return;
     }
 
+    this.reapplyReplayFilters(session);
     this.emitSessionChange();
     this.refresh();
   }
 
+  /**
+   * Record every entry of the active live session to a JSON-lines file
+   * until stopRecording() or stop() is called.
+   */
+  startRecording(filePath: string, header: LogcatRecordingHeader): void {
+    if (this.activeSession.recorder) {
+      throw new Error("A Logcat recording is already in progress");
+    }
+
+    const session = this.activeSession;
+    const recorder = new LogcatRecorder(filePath, header, (error) => {
+      if (session.recorder === recorder) {
+        session.recorder = undefined;
+        this.emitSessionChange();
+        this.refresh();
+      }
+      vscode.window.showErrorMessage(`Logcat recording to ${filePath} failed: ${error.message}`);
+    });
+    session.recorder = recorder;
+    this.emitSessionChange();
+    this.refresh();
+  }
+
+  async stopRecording(
+    session: LogcatSession = this.activeSession
+  ): Promise<{ filePath: string; entryCount: number } | undefined> {
+    const recorder = session.recorder;
+    if (!recorder) return undefined;
+
+    session.recorder = undefined;
+    this.emitSessionChange();
+    this.refresh();
+    const entryCount = await recorder.close();
+    return { filePath: recorder.filePath, entryCount };
+  }
+
+  isRecording(): boolean {
+    return this.activeSession.recorder !== undefined;
+  }
+
+  /**
+   * Replace the live sessions with a read-only recording. Level, query and
+   * PID filters apply to the recording exactly as they do to a live stream.
+   * Live sessions are stopped, so commands confirm with the user first.
+   */
+  loadRecording(label: string, recording: LogcatRecording): void {
+    if (this.sessions.some((session) => session.isLive)) {
+      this.stopAll();
+    }
+
+    const session = this.createSession({ minLevel: this.activeSession.options.minLevel });
+    session.filter = this.activeSession.filter;
+    session.replay = { label, recording };
+    session.state = "replay";
+    this.sessions = [session];
+    this.activeSession = session;
+    this.outputChannel.clear();
+    this.reapplyReplayFilters(session);
+    this.outputChannel.show(true);
+    this.emitSessionChange();
+  }
+
+  private closeReplay(session: LogcatSession): void {
+    session.replay = undefined;
+    session.clearEntries();
+    this.outputChannel.clear();
+  }
+
+  /**
+   * Re-run a loaded recording through the session's current filters
+   */
+  private reapplyReplayFilters(session: LogcatSession): void {
+    if (!session.replay) return;
+
+    session.clearEntries();
+    session.resetProcessTracking();
+    this.outputChannel.clear();
+    for (const entry of session.replay.recording.entries) {
+      const marker = session.trackProcess(entry);
+      if (marker) {
+        session.accept(marker);
+      }
+      session.trackCrash(entry);
+      session.accept(entry);
+    }
+    for (const entry of session.buffer.getEntries()) {
+      this.writeToOutput(session, entry);
+    }
+    this.refresh();
+  }
+
   /**
    * Show the output channel
    */
@@ -310,7 +685,31 @@ export class LogcatTreeProvider implements vscode.TreeDataProvider<LogcatTreeIte
   }
 
   getEntries(): readonly LogcatEntry[] {
-    return this.buffer.getEntries();
+    return this.activeSession.buffer.getEntries();
+  }
+
+  /**
+   * Entries of the active session that match its level, query and PID
+   * filters right now.
+   */
+  getMatchingEntries(): LogcatEntry[] {
+    return this.activeSession.getMatchingEntries();
+  }
+
+  /**
+   * Matching entries of every session, interleaved by timestamp and
+   * labelled with their device.
+   */
+  getMergedEntries(): LabeledLogcatEntry[] {
+    return mergeLogcatSessions(this.sessions);
+  }
+
+  getFilter(): LogcatQuery | undefined {
+    return this.activeSession.filter;
+  }
+
+  getCrashes(): readonly LogcatCrash[] {
+    return this.activeSession.getCrashes();
   }
 
   static formatEntry(entry: LogcatEntry): string {
@@ -321,6 +720,9 @@ export class LogcatTreeProvider implements vscode.TreeDataProvider<LogcatTreeIte
     if (this.refreshTimer) {
       clearTimeout(this.refreshTimer);
     }
+    for (const session of this.sessions) {
+      void session.recorder?.close();
+    }
     this.outputChannel.dispose();
     this._onDidSessionChange.dispose();
     this._onDidChangeTreeData.dispose();
@@ -329,6 +731,39 @@ export class LogcatTreeProvider implements vscode.TreeDataProvider<LogcatTreeIte
 
 class LogcatTreeItem extends vscode.TreeItem {}
 
+const SESSION_ICONS: Record<LogcatSessionState, string> = {
+  running: "play",
+  paused: "debug-pause",
+  stopped: "debug-stop",
+  replay: "history",
+};
+
+class SessionItem extends LogcatTreeItem {
+  constructor(public readonly session: LogcatSession, active: boolean) {
+    super(
+      session.label,
+      active ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+    );
+    this.description = `${formatState(session.state)} · ${session.buffer.length.toLocaleString()} entries`;
+    this.tooltip = [session.options.serial, session.options.packageName].filter(Boolean).join("\n") || undefined;
+    this.iconPath = new vscode.ThemeIcon(SESSION_ICONS[session.state]);
+    this.contextValue = `logcatSession.${session.state}`;
+  }
+}
+
+class MergedItem extends LogcatTreeItem {
+  constructor(sessionCount: number) {
+    super("Merged", vscode.TreeItemCollapsibleState.None);
+    this.description = `${sessionCount} devices`;
+    this.tooltip = "Open all sessions interleaved by timestamp";
+    this.iconPath = new vscode.ThemeIcon("git-merge");
+    this.command = {
+      command: ANDROID_DEVKIT_COMMANDS.showMergedLogcat,
+      title: "Show Merged Logcat",
+    };
+  }
+}
+
 class StatusItem extends LogcatTreeItem {
   constructor(status: string, detail: string, icon: string) {
     super(status, vscode.TreeItemCollapsibleState.None);
@@ -337,10 +772,37 @@ class StatusItem extends LogcatTreeItem {
   }
 }
 
+class ReplayItem extends LogcatTreeItem {
+  constructor(label: string, header: LogcatRecordingHeader) {
+    super("Replay", vscode.TreeItemCollapsibleState.None);
+    this.description = label;
+    this.tooltip = [
+      `Recorded ${header.startedAt.toLocaleString()}`,
+      header.device ? `Device: ${header.device.name ?? header.device.serial}` : undefined,
+      header.packageName ? `Package: ${header.packageName}` : undefined,
+    ]
+      .filter(Boolean)
+      .join("\n");
+    this.iconPath = new vscode.ThemeIcon("history");
+  }
+}
+
+class RecordingItem extends LogcatTreeItem {
+  constructor(filePath: string, entryCount: number) {
+    super("Recording", vscode.TreeItemCollapsibleState.None);
+    this.description = `${entryCount.toLocaleString()} entries`;
+    this.tooltip = filePath;
+    this.iconPath = new vscode.ThemeIcon("record", new vscode.ThemeColor("errorForeground"));
+  }
+}
+
 class FilterItem extends LogcatTreeItem {
-  constructor(filter: string) {
+  constructor(query: LogcatQuery) {
     super("Filter", vscode.TreeItemCollapsibleState.None);
-    this.description = filter;
+    this.description = query.source;
+    this.tooltip = query.terms
+      .map((term) => `${term.negated ? "not " : ""}${term.field} ${term.operator} ${term.value}`)
+      .join("\n");
     this.iconPath = new vscode.ThemeIcon("filter");
   }
 }
@@ -353,6 +815,22 @@ class LevelItem extends LogcatTreeItem {
   }
 }
 
+class BuffersItem extends LogcatTreeItem {
+  constructor(selected: readonly LogcatBufferId[] | undefined, counts: ReadonlyMap<LogcatBufferId, number>) {
+    super("Buffers", vscode.TreeItemCollapsibleState.None);
+    const buffers = new Set([...(selected ?? DEFAULT_LOGCAT_BUFFERS), ...counts.keys()]);
+    this.description = [...buffers]
+      .map((buffer) => `${buffer} ${(counts.get(buffer) ?? 0).toLocaleString()}`)
+      .join(" · ");
+    this.tooltip = selected ? "Click to choose log buffers" : "Device default buffers. Click to choose log buffers";
+    this.iconPath = new vscode.ThemeIcon("layers");
+    this.command = {
+      command: ANDROID_DEVKIT_COMMANDS.setLogcatBuffers,
+      title: "Choose Logcat Buffers",
+    };
+  }
+}
+
 class PackageFilterItem extends LogcatTreeItem {
   constructor(detail: string) {
     super("Package", vscode.TreeItemCollapsibleState.None);
@@ -368,3 +846,43 @@ class StatsItem extends LogcatTreeItem {
     this.iconPath = new vscode.ThemeIcon("list-ordered");
   }
 }
+
+class CrashItem extends LogcatTreeItem {
+  constructor(public readonly crash: LogcatCrash) {
+    const exception = crash.exception || "Unknown exception";
+    // Native crashes are labeled by signal: "signal 11 (SIGSEGV), code 1 …" → "SIGSEGV"
+    const label = crash.native
+      ? (exception.match(/\((SIG\w+)\)/)?.[1] ?? "Native crash")
+      : (exception.split(":")[0].split(".").pop() ?? exception);
+    super(label, vscode.TreeItemCollapsibleState.Collapsed);
+    const time = crash.timestamp.toLocaleTimeString("en-US", { hour12: false });
+    this.description = `${crash.processName ?? `PID ${crash.pid}`} · ${time}`;
+    this.tooltip = [crash.thread ? `Thread: ${crash.thread}` : undefined, exception].filter(Boolean).join("\n");
+    this.iconPath = new vscode.ThemeIcon("bug", new vscode.ThemeColor("errorForeground"));
+    this.contextValue = crash.native ? "logcatNativeCrash" : "logcatCrash";
+  }
+}
+
+class CrashLineItem extends LogcatTreeItem {
+  constructor(line: string) {
+    super(line, vscode.TreeItemCollapsibleState.None);
+    this.tooltip = line;
+    this.iconPath = new vscode.ThemeIcon(line.startsWith("...") ? "ellipsis" : "error");
+  }
+}
+
+class StackFrameItem extends LogcatTreeItem {
+  constructor(line: string, fsPath: string | undefined, lineNumber: number | undefined) {
+    super(line.replace(/^at\s+/, ""), vscode.TreeItemCollapsibleState.None);
+    this.tooltip = fsPath ?? line;
+    this.iconPath = new vscode.ThemeIcon(fsPath ? "go-to-file" : "debug-stackframe-dot");
+    if (fsPath) {
+      const position = new vscode.Position(Math.max((lineNumber ?? 1) - 1, 0), 0);
+      this.command = {
+        command: VS_CODE_COMMANDS.open,
+        title: "Open Source",
+        arguments: [vscode.Uri.file(fsPath), { selection: new vscode.Range(position, position) }],
+      };
+    }
+  }
+}
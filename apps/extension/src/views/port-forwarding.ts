@@ -0,0 +1,129 @@
+import * as vscode from "vscode";
+import type { PortMapping } from "@android-devkit/adb";
+import type { AdbService, DeviceInfo } from "../services/adb";
+import { formatPortMapping, isSamePortMapping, type PersistentPortMappings } from "../models/port-mappings";
+
+type PortForwardingTreeItem = PortForwardDeviceItem | PortMappingItem | PortForwardMessageItem;
+
+/**
+ * Forwards and reverses per device: the ones adb reports as active plus
+ * persistent rules waiting for their device to reconnect.
+ */
+export class PortForwardingTreeProvider implements vscode.TreeDataProvider<PortForwardingTreeItem>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<PortForwardingTreeItem | undefined | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  constructor(
+    private readonly adbService: AdbService,
+    private readonly persistentMappings: PersistentPortMappings,
+  ) {}
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: PortForwardingTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: PortForwardingTreeItem): Promise<PortForwardingTreeItem[]> {
+    if (element instanceof PortForwardDeviceItem) {
+      return this.getMappingItems(element);
+    }
+    if (element) return [];
+
+    const devices = await this.adbService.getDevices().catch(() => []);
+    const ready = devices.filter((device) => device.state === "device");
+    const readySerials = new Set(ready.map((device) => device.serial));
+    // Devices with persistent rules stay listed while disconnected
+    const offlineSerials = [...new Set(this.persistentMappings.list().map((rule) => rule.serial))].filter(
+      (serial) => !readySerials.has(serial),
+    );
+
+    return [
+      ...ready.map((device) => new PortForwardDeviceItem(device.serial, device)),
+      ...offlineSerials.map((serial) => new PortForwardDeviceItem(serial)),
+    ];
+  }
+
+  private async getMappingItems(item: PortForwardDeviceItem): Promise<PortForwardingTreeItem[]> {
+    const rules = this.persistentMappings.list(item.serial);
+    let active: PortMapping[] = [];
+    if (item.device) {
+      try {
+        active = await this.adbService.listPortMappings(item.serial);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return [new PortForwardMessageItem(`Failed to list forwards: ${message}`, "error")];
+      }
+    }
+
+    const items = [
+      ...active.map(
+        (mapping) =>
+          new PortMappingItem(
+            mapping,
+            rules.some((rule) => isSamePortMapping(rule, mapping)),
+            true,
+          ),
+      ),
+      ...rules
+        .filter((rule) => !active.some((mapping) => isSamePortMapping(rule, mapping)))
+        .map((rule) => new PortMappingItem(rule, true, false)),
+    ];
+    return items.length > 0 ? items : [new PortForwardMessageItem("No forwards or reverses", "info")];
+  }
+
+  dispose(): void {
+    this._onDidChangeTreeData.dispose();
+  }
+}
+
+export class PortForwardDeviceItem extends vscode.TreeItem {
+  constructor(
+    public readonly serial: string,
+    /** Undefined while the device is disconnected */
+    public readonly device?: DeviceInfo,
+  ) {
+    super(device?.name ?? serial, vscode.TreeItemCollapsibleState.Expanded);
+    this.id = `portForward:${serial}`;
+    this.description = device ? serial : "disconnected";
+    this.iconPath = new vscode.ThemeIcon(device ? (device.isEmulator ? "vm" : "device-mobile") : "debug-disconnect");
+    this.contextValue = device ? "portForwardDevice" : "portForwardDevice.offline";
+  }
+}
+
+export class PortMappingItem extends vscode.TreeItem {
+  constructor(
+    public readonly mapping: PortMapping,
+    public readonly persistent: boolean,
+    active: boolean,
+  ) {
+    super(formatPortMapping(mapping), vscode.TreeItemCollapsibleState.None);
+    const route = mapping.direction === "forward" ? "host → device" : "device → host";
+    this.description = [
+      mapping.direction,
+      route,
+      persistent ? "persistent" : undefined,
+      active ? undefined : "not applied",
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    this.tooltip =
+      mapping.direction === "forward"
+        ? `Connections to ${mapping.host} on this computer reach ${mapping.device} on the device`
+        : `Connections to ${mapping.device} on the device reach ${mapping.host} on this computer`;
+    this.iconPath = new vscode.ThemeIcon(
+      mapping.direction === "forward" ? "arrow-right" : "arrow-left",
+      active ? undefined : new vscode.ThemeColor("disabledForeground"),
+    );
+    this.contextValue = persistent ? "portMapping.persistent" : "portMapping";
+  }
+}
+
+class PortForwardMessageItem extends vscode.TreeItem {
+  constructor(message: string, icon: string) {
+    super(message, vscode.TreeItemCollapsibleState.None);
+    this.iconPath = new vscode.ThemeIcon(icon);
+  }
+}
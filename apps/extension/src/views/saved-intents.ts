@@ -0,0 +1,44 @@
+import * as vscode from "vscode";
+import { ANDROID_DEVKIT_COMMANDS } from "../commands/ids";
+import { INTENT_RUN_MODES, formatAmCommand, type SavedIntent, type SavedIntents } from "../models/saved-intents";
+
+/** Intents saved from the composer, run on the selected device with one click */
+export class SavedIntentsTreeProvider implements vscode.TreeDataProvider<SavedIntentItem>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<SavedIntentItem | undefined | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  constructor(private readonly savedIntents: SavedIntents) {}
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: SavedIntentItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: SavedIntentItem): SavedIntentItem[] {
+    if (element) return [];
+    return this.savedIntents.list().map((saved) => new SavedIntentItem(saved));
+  }
+
+  dispose(): void {
+    this._onDidChangeTreeData.dispose();
+  }
+}
+
+export class SavedIntentItem extends vscode.TreeItem {
+  constructor(public readonly saved: SavedIntent) {
+    super(saved.name, vscode.TreeItemCollapsibleState.None);
+    this.id = `savedIntent:${saved.name}`;
+    this.description = INTENT_RUN_MODES[saved.mode].label;
+    this.tooltip = formatAmCommand(saved.mode, saved.intent);
+    this.iconPath = new vscode.ThemeIcon(INTENT_RUN_MODES[saved.mode].icon);
+    this.contextValue = "savedIntent";
+    this.command = {
+      command: ANDROID_DEVKIT_COMMANDS.editSavedIntent,
+      title: "Edit Intent",
+      arguments: [this],
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import * as vscode from "vscode";
+import type { MdnsService } from "@android-devkit/adb";
+import type { DeviceInfo } from "../services/adb";
+import { findConnectedDevice } from "../services/wireless-discovery";
+import { ANDROID_DEVKIT_COMMANDS } from "../commands/ids";
+
+/**
+ * Services worth a click: pairing ports, and connect ports of devices adb
+ * isn't connected to yet.
+ */
+export function getActionableServices(services: readonly MdnsService[], devices: readonly DeviceInfo[]): MdnsService[] {
+  return services.filter(
+    (service) =>
+      service.kind === "pairing" ||
+      ((service.kind === "connect" || service.kind === "legacy") && !findConnectedDevice(service, devices)),
+  );
+}
+
+export class WirelessDiscoveryItem extends vscode.TreeItem {
+  constructor(public readonly services: MdnsService[]) {
+    super("Wi-Fi Devices", vscode.TreeItemCollapsibleState.Expanded);
+    this.id = "wirelessDiscovery";
+    this.description = `${services.length} found via mDNS`;
+    this.tooltip = "Devices with Wireless debugging turned on, on the same network as this computer";
+    this.iconPath = new vscode.ThemeIcon("radio-tower");
+    this.contextValue = "wirelessDiscovery";
+  }
+}
+
+export class DiscoveredServiceItem extends vscode.TreeItem {
+  constructor(public readonly service: MdnsService) {
+    super(service.name, vscode.TreeItemCollapsibleState.None);
+    const pairing = service.kind === "pairing";
+    this.id = `mdns:${service.type}:${service.name}`;
+    this.description = `${pairing ? "ready to pair" : "ready to connect"} · ${service.address}`;
+    this.tooltip = `${service.type} at ${service.address}`;
+    this.iconPath = new vscode.ThemeIcon(pairing ? "key" : "plug");
+    this.contextValue = pairing ? "mdnsService.pairing" : "mdnsService.connect";
+    this.command = {
+      command: pairing ? ANDROID_DEVKIT_COMMANDS.pairDiscoveredDevice : ANDROID_DEVKIT_COMMANDS.connectDiscoveredDevice,
+      title: pairing ? "Pair" : "Connect",
+      arguments: [this],
+    };
+  }
+}
@@ -0,0 +1,178 @@
+import * as vscode from "vscode";
+import type { AdbService } from "../services/adb";
+import { buildWebviewHtml } from "../utils/webview-html";
+
+interface DeviceSummary {
+  serial: string;
+  name: string;
+}
+
+interface DeviceProperties extends DeviceSummary {
+  props: Record<string, string>;
+}
+
+type MessageToHost =
+  | { type: "ready" }
+  | { type: "refresh" }
+  | { type: "compare"; serial: string | null }
+  | { type: "copy"; text: string };
+
+type MessageToWebview =
+  | { type: "loading" }
+  | { type: "devices"; devices: DeviceSummary[] }
+  | { type: "properties"; device: DeviceProperties; comparison: DeviceProperties | null }
+  | { type: "error"; message: string };
+
+/**
+ * Read-only `getprop` browser for one device, optionally diffed against a
+ * second connected device.
+ */
+export class DevicePropertiesPanel {
+  static readonly viewType = "androidDevkit.devicePropertiesPage";
+  private static instances = new Map<string, DevicePropertiesPanel>();
+
+  private readonly panel: vscode.WebviewPanel;
+  private disposables: vscode.Disposable[] = [];
+  private compareSerial: string | null = null;
+  private devices: DeviceSummary[] = [];
+
+  static show(
+    context: vscode.ExtensionContext,
+    adbService: AdbService,
+    serial: string,
+    deviceName: string,
+    compareSerial?: string,
+  ): DevicePropertiesPanel {
+    const existing = DevicePropertiesPanel.instances.get(serial);
+    if (existing) {
+      existing.panel.reveal(vscode.ViewColumn.One);
+      if (compareSerial) void existing.setComparison(compareSerial);
+      return existing;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      DevicePropertiesPanel.viewType,
+      `Properties: ${deviceName}`,
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        localResourceRoots: [vscode.Uri.joinPath(context.extensionUri, "dist", "webview-device-properties")],
+        retainContextWhenHidden: true,
+      },
+    );
+
+    const instance = new DevicePropertiesPanel(panel, context, adbService, serial, deviceName, compareSerial);
+    DevicePropertiesPanel.instances.set(serial, instance);
+    return instance;
+  }
+
+  private constructor(
+    panel: vscode.WebviewPanel,
+    private readonly context: vscode.ExtensionContext,
+    private readonly adbService: AdbService,
+    private readonly serial: string,
+    private readonly deviceName: string,
+    compareSerial?: string,
+  ) {
+    this.panel = panel;
+    this.compareSerial = compareSerial ?? null;
+    this.panel.iconPath = new vscode.ThemeIcon("list-flat");
+    this.panel.webview.html = this.getHtml();
+
+    this.panel.webview.onDidReceiveMessage(
+      (msg: MessageToHost) => this.handleMessage(msg),
+      undefined,
+      this.disposables,
+    );
+    this.adbService.onDevicesChanged(() => void this.loadDevices(), undefined, this.disposables);
+    this.panel.onDidDispose(() => this.dispose(), undefined, this.disposables);
+  }
+
+  private async handleMessage(msg: MessageToHost): Promise<void> {
+    switch (msg.type) {
+      case "ready":
+      case "refresh":
+        await this.loadDevices();
+        await this.loadProperties();
+        break;
+
+      case "compare":
+        await this.setComparison(msg.serial);
+        break;
+
+      case "copy":
+        await vscode.env.clipboard.writeText(msg.text);
+        vscode.window.setStatusBarMessage("Copied to clipboard", 2000);
+        break;
+    }
+  }
+
+  private async setComparison(serial: string | null): Promise<void> {
+    this.compareSerial = serial === this.serial ? null : serial;
+    await this.loadProperties();
+  }
+
+  private async loadDevices(): Promise<void> {
+    try {
+      const devices = await this.adbService.getDevices();
+      this.devices = devices
+        .filter((device) => device.state === "device")
+        .map((device) => ({ serial: device.serial, name: device.name }));
+      this.post({ type: "devices", devices: this.devices });
+    } catch {
+      // Keep the last known list; the properties request reports ADB errors
+    }
+  }
+
+  private async loadProperties(): Promise<void> {
+    this.post({ type: "loading" });
+    try {
+      const compareSerial = this.compareSerial;
+      const [props, comparisonProps] = await Promise.all([
+        this.adbService.getDeviceProps(this.serial),
+        compareSerial ? this.adbService.getDeviceProps(compareSerial) : Promise.resolve(null),
+      ]);
+
+      const comparison =
+        compareSerial && comparisonProps
+          ? { serial: compareSerial, name: this.getDeviceName(compareSerial), props: comparisonProps }
+          : null;
+      this.panel.title = comparison
+        ? `Properties: ${this.deviceName} ↔ ${comparison.name}`
+        : `Properties: ${this.deviceName}`;
+      this.post({
+        type: "properties",
+        device: { serial: this.serial, name: this.deviceName, props },
+        comparison,
+      });
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e);
+      this.post({ type: "error", message });
+      vscode.window.showErrorMessage(`Failed to read device properties: ${message}`);
+    }
+  }
+
+  private getDeviceName(serial: string): string {
+    return this.devices.find((device) => device.serial === serial)?.name ?? serial;
+  }
+
+  private post(msg: MessageToWebview): void {
+    this.panel.webview.postMessage(msg);
+  }
+
+  private getHtml(): string {
+    return buildWebviewHtml({
+      webview: this.panel.webview,
+      extensionUri: this.context.extensionUri,
+      distSubdir: "webview-device-properties",
+      title: "Device Properties",
+    });
+  }
+
+  dispose(): void {
+    DevicePropertiesPanel.instances.delete(this.serial);
+    this.panel.dispose();
+    for (const d of this.disposables) d.dispose();
+    this.disposables = [];
+  }
+}
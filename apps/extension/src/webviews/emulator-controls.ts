@@ -0,0 +1,327 @@
+import * as vscode from "vscode";
+import type {
+  BatteryHealth,
+  BatteryState,
+  BatteryStatus,
+  EmulatorConsole,
+  NetworkDelay,
+  NetworkSpeed,
+} from "@android-devkit/emulator";
+import type { AdbService, DeviceInfo } from "../services/adb";
+import type { EmulatorConsoleService } from "../services/emulator-console";
+import type { DevicesTreeProvider } from "../views/devices";
+import { buildWebviewHtml } from "../utils/webview-html";
+
+interface EmulatorTarget {
+  serial: string;
+  name: string;
+}
+
+interface NetworkProfile {
+  speed: NetworkSpeed;
+  delay: NetworkDelay;
+}
+
+interface EmulatorControlsState extends NetworkProfile {
+  /** null when airplane mode cannot be read: before Android 11, or while adb does not answer */
+  airplaneMode: boolean | null;
+  battery: BatteryState;
+}
+
+type MessageToHost =
+  | { type: "ready" }
+  | { type: "refresh" }
+  | { type: "attach"; serial: string }
+  | { type: "networkSpeed"; speed: NetworkSpeed }
+  | { type: "networkDelay"; delay: NetworkDelay }
+  | { type: "airplaneMode"; enabled: boolean }
+  | { type: "batteryLevel"; percent: number }
+  | { type: "charger"; connected: boolean }
+  | { type: "batteryStatus"; status: BatteryStatus }
+  | { type: "batteryHealth"; health: BatteryHealth };
+
+type MessageToWebview =
+  | { type: "emulators"; emulators: EmulatorTarget[]; serial: string | null }
+  | { type: "loading" }
+  | { type: "state"; state: EmulatorControlsState }
+  | { type: "error"; message: string };
+
+/** `cmd connectivity airplane-mode` arrived in Android 11 */
+const AIRPLANE_MODE_MIN_API_LEVEL = 30;
+
+/**
+ * The console cannot report the speed and latency profiles in effect, so the
+ * last ones set from the panel are remembered per emulator.
+ */
+const networkProfiles = new Map<string, NetworkProfile>();
+
+function isRunningEmulator(device: DeviceInfo): boolean {
+  return device.isEmulator && device.state === "device";
+}
+
+/**
+ * Extended controls for a running emulator: network speed and latency and
+ * the battery over its console. Airplane mode is the one control that goes
+ * over adb instead: the console can only unregister the modem, which leaves
+ * the emulator's virtual Wi-Fi up. It is read best effort, so an adb
+ * connection that is not ready only disables that toggle. Follows the
+ * emulator selected in the Devices view.
+ */
+export class EmulatorControlsPanel {
+  static readonly viewType = "androidDevkit.emulatorControlsPage";
+  private static current: EmulatorControlsPanel | undefined;
+
+  private readonly panel: vscode.WebviewPanel;
+  private disposables: vscode.Disposable[] = [];
+  private emulators: EmulatorTarget[] = [];
+  private serial: string | null = null;
+  private state: EmulatorControlsState | undefined;
+
+  static show(
+    context: vscode.ExtensionContext,
+    adbService: AdbService,
+    emulatorConsole: EmulatorConsoleService,
+    devicesProvider: DevicesTreeProvider,
+    serial?: string,
+  ): EmulatorControlsPanel {
+    if (EmulatorControlsPanel.current) {
+      EmulatorControlsPanel.current.panel.reveal(vscode.ViewColumn.One);
+      if (serial) void EmulatorControlsPanel.current.attach(serial);
+      return EmulatorControlsPanel.current;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      EmulatorControlsPanel.viewType,
+      "Emulator Controls",
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        localResourceRoots: [vscode.Uri.joinPath(context.extensionUri, "dist", "webview-emulator-controls")],
+        retainContextWhenHidden: true,
+      },
+    );
+
+    EmulatorControlsPanel.current = new EmulatorControlsPanel(
+      panel,
+      context,
+      adbService,
+      emulatorConsole,
+      devicesProvider,
+      serial,
+    );
+    return EmulatorControlsPanel.current;
+  }
+
+  private constructor(
+    panel: vscode.WebviewPanel,
+    private readonly context: vscode.ExtensionContext,
+    private readonly adbService: AdbService,
+    private readonly emulatorConsole: EmulatorConsoleService,
+    devicesProvider: DevicesTreeProvider,
+    serial?: string,
+  ) {
+    this.panel = panel;
+    this.serial = serial ?? null;
+    this.panel.iconPath = new vscode.ThemeIcon("settings");
+    this.panel.webview.html = this.getHtml();
+
+    this.panel.webview.onDidReceiveMessage(
+      (msg: MessageToHost) => void this.handleMessage(msg),
+      undefined,
+      this.disposables,
+    );
+    devicesProvider.onDidChangeSelectedDevice(
+      (device) => {
+        if (device && isRunningEmulator(device)) void this.attach(device.serial);
+      },
+      undefined,
+      this.disposables,
+    );
+    this.adbService.onDevicesChanged(() => void this.loadEmulators(), undefined, this.disposables);
+    this.panel.onDidDispose(() => this.dispose(), undefined, this.disposables);
+  }
+
+  private async handleMessage(msg: MessageToHost): Promise<void> {
+    switch (msg.type) {
+      case "ready":
+        await this.loadEmulators();
+        await this.loadState();
+        break;
+
+      case "refresh":
+        await this.loadState();
+        break;
+
+      case "attach":
+        await this.attach(msg.serial);
+        break;
+
+      case "networkSpeed":
+        await this.apply((console) => console.setNetworkSpeed(msg.speed), { speed: msg.speed });
+        break;
+
+      case "networkDelay":
+        await this.apply((console) => console.setNetworkDelay(msg.delay), { delay: msg.delay });
+        break;
+
+      case "airplaneMode":
+        await this.applyAirplaneMode(msg.enabled);
+        break;
+
+      case "batteryLevel":
+        await this.applyBattery((console) => console.setBatteryCapacity(msg.percent), { capacity: msg.percent });
+        break;
+
+      case "charger":
+        await this.applyBattery((console) => console.setAcCharging(msg.connected), { acOnline: msg.connected });
+        break;
+
+      case "batteryStatus":
+        await this.applyBattery((console) => console.setBatteryStatus(msg.status), { status: msg.status });
+        break;
+
+      case "batteryHealth":
+        await this.applyBattery((console) => console.setBatteryHealth(msg.health), { health: msg.health });
+        break;
+    }
+  }
+
+  private async attach(serial: string): Promise<void> {
+    if (serial === this.serial && this.state) return;
+    this.serial = serial;
+    this.state = undefined;
+    this.postEmulators();
+    await this.loadState();
+  }
+
+  private async loadEmulators(): Promise<void> {
+    try {
+      const devices = await this.adbService.getDevices();
+      this.emulators = devices
+        .filter(isRunningEmulator)
+        .map((device) => ({ serial: device.serial, name: device.name }));
+    } catch {
+      // Keep the last known list; console commands report their own errors
+      return;
+    }
+
+    const attached = this.serial;
+    if (attached && !this.emulators.some((emulator) => emulator.serial === attached)) {
+      this.emulatorConsole.close(attached);
+      this.serial = null;
+      this.state = undefined;
+    }
+    if (!this.serial && this.emulators.length > 0) {
+      this.serial = this.emulators[0].serial;
+      this.postEmulators();
+      await this.loadState();
+      return;
+    }
+    this.postEmulators();
+  }
+
+  private async loadState(): Promise<void> {
+    const serial = this.serial;
+    if (!serial) return;
+
+    this.post({ type: "loading" });
+    try {
+      const battery = await this.emulatorConsole.run(serial, (console) => console.getBatteryState());
+      const airplaneMode = await this.loadAirplaneMode(serial);
+      if (serial !== this.serial) return;
+      this.state = {
+        ...(networkProfiles.get(serial) ?? { speed: "full", delay: "none" }),
+        airplaneMode,
+        battery,
+      };
+      this.panel.title = `Emulator Controls: ${this.getEmulatorName(serial)}`;
+      this.post({ type: "state", state: this.state });
+    } catch (e: unknown) {
+      if (serial !== this.serial) return;
+      this.post({ type: "error", message: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  private async loadAirplaneMode(serial: string): Promise<boolean | null> {
+    try {
+      const device = (await this.adbService.getDevices()).find((candidate) => candidate.serial === serial);
+      if (!device || device.apiLevel < AIRPLANE_MODE_MIN_API_LEVEL) return null;
+      return await this.adbService.getAirplaneMode(serial);
+    } catch {
+      return null;
+    }
+  }
+
+  private async apply(
+    command: (console: EmulatorConsole) => Promise<void>,
+    change: Partial<EmulatorControlsState>,
+  ): Promise<void> {
+    await this.applyWith((serial) => this.emulatorConsole.run(serial, command), change, "Emulator console command");
+  }
+
+  private async applyAirplaneMode(enabled: boolean): Promise<void> {
+    if (this.state?.airplaneMode === null) return;
+    await this.applyWith(
+      (serial) => this.adbService.setAirplaneMode(serial, enabled),
+      { airplaneMode: enabled },
+      "Airplane mode change",
+    );
+  }
+
+  private async applyWith(
+    command: (serial: string) => Promise<void>,
+    change: Partial<EmulatorControlsState>,
+    description: string,
+  ): Promise<void> {
+    const serial = this.serial;
+    if (!serial || !this.state) return;
+
+    try {
+      await command(serial);
+      if (serial !== this.serial || !this.state) return;
+      this.state = { ...this.state, ...change };
+      networkProfiles.set(serial, { speed: this.state.speed, delay: this.state.delay });
+      this.post({ type: "state", state: this.state });
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e);
+      this.post({ type: "error", message });
+      vscode.window.showErrorMessage(`${description} failed: ${message}`);
+    }
+  }
+
+  private async applyBattery(
+    command: (console: EmulatorConsole) => Promise<void>,
+    change: Partial<BatteryState>,
+  ): Promise<void> {
+    if (!this.state) return;
+    await this.apply(command, { battery: { ...this.state.battery, ...change } });
+  }
+
+  private getEmulatorName(serial: string): string {
+    return this.emulators.find((emulator) => emulator.serial === serial)?.name ?? serial;
+  }
+
+  private postEmulators(): void {
+    this.post({ type: "emulators", emulators: this.emulators, serial: this.serial });
+  }
+
+  private post(msg: MessageToWebview): void {
+    this.panel.webview.postMessage(msg);
+  }
+
+  private getHtml(): string {
+    return buildWebviewHtml({
+      webview: this.panel.webview,
+      extensionUri: this.context.extensionUri,
+      distSubdir: "webview-emulator-controls",
+      title: "Emulator Controls",
+    });
+  }
+
+  dispose(): void {
+    EmulatorControlsPanel.current = undefined;
+    this.panel.dispose();
+    for (const d of this.disposables) d.dispose();
+    this.disposables = [];
+  }
+}
@@ -0,0 +1,235 @@
+import * as vscode from "vscode";
+import { randomBytes } from "node:crypto";
+import { buildQrPairingPayload, type MdnsService } from "@android-devkit/adb";
+import type { AdbService } from "../services/adb";
+import { findConnectedDevice, type WirelessDiscoveryService } from "../services/wireless-discovery";
+import { buildWebviewHtml } from "../utils/webview-html";
+
+type PairingState = "waiting" | "pairing" | "connecting" | "connected" | "failed";
+
+type MessageToHost = { type: "ready" } | { type: "regenerate" };
+
+type MessageToWebview =
+  { type: "session"; payload: string; serviceName: string } | { type: "status"; state: PairingState; message: string };
+
+/** mDNS is polled faster than the background loop while a device is expected */
+const PAIRING_POLL_INTERVAL_MS = 1500;
+/** How long a paired device gets to advertise its connect port */
+const CONNECT_TIMEOUT_MS = 30000;
+
+function randomToken(length: number): string {
+  const alphabet = "abcdefghijkmnpqrstuvwxyz23456789";
+  return [...randomBytes(length)].map((byte) => alphabet[byte % alphabet.length]).join("");
+}
+
+/**
+ * "Pair device with QR code": shows a QR code naming a pairing service and
+ * its password, waits for the device that scanned it to advertise that
+ * service over mDNS, pairs with it and connects to its connect port.
+ */
+export class WirelessPairingPanel {
+  static readonly viewType = "androidDevkit.wirelessPairingPage";
+  private static current: WirelessPairingPanel | undefined;
+
+  private readonly panel: vscode.WebviewPanel;
+  private disposables: vscode.Disposable[] = [];
+  private serviceName = "";
+  private password = "";
+  private state: PairingState = "waiting";
+  private statusMessage = "";
+  private pairedHost: string | undefined;
+  private connectAttempts = new Set<string>();
+  private pollTimer: ReturnType<typeof setInterval> | undefined;
+  private connectTimer: ReturnType<typeof setTimeout> | undefined;
+
+  static show(
+    context: vscode.ExtensionContext,
+    adbService: AdbService,
+    discovery: WirelessDiscoveryService,
+  ): WirelessPairingPanel {
+    if (WirelessPairingPanel.current) {
+      WirelessPairingPanel.current.panel.reveal(vscode.ViewColumn.One);
+      return WirelessPairingPanel.current;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      WirelessPairingPanel.viewType,
+      "Pair Device with QR Code",
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        localResourceRoots: [vscode.Uri.joinPath(context.extensionUri, "dist", "webview-wireless-pairing")],
+        retainContextWhenHidden: true,
+      },
+    );
+
+    WirelessPairingPanel.current = new WirelessPairingPanel(panel, context, adbService, discovery);
+    return WirelessPairingPanel.current;
+  }
+
+  private constructor(
+    panel: vscode.WebviewPanel,
+    private readonly context: vscode.ExtensionContext,
+    private readonly adbService: AdbService,
+    private readonly discovery: WirelessDiscoveryService,
+  ) {
+    this.panel = panel;
+    this.panel.iconPath = new vscode.ThemeIcon("radio-tower");
+    this.newSession();
+    this.panel.webview.html = this.getHtml();
+
+    this.panel.webview.onDidReceiveMessage(
+      (msg: MessageToHost) => this.handleMessage(msg),
+      undefined,
+      this.disposables,
+    );
+    this.discovery.onDidChangeServices((services) => void this.onServices(services), undefined, this.disposables);
+    this.disposables.push(this.discovery.hold());
+    this.adbService.onDevicesChanged(() => void this.checkConnected(), undefined, this.disposables);
+    this.panel.onDidDispose(() => this.dispose(), undefined, this.disposables);
+  }
+
+  private handleMessage(msg: MessageToHost): void {
+    switch (msg.type) {
+      case "ready":
+        this.postSession();
+        break;
+
+      case "regenerate":
+        this.newSession();
+        this.postSession();
+        break;
+    }
+  }
+
+  private newSession(): void {
+    this.serviceName = `android-devkit-${randomToken(6)}`;
+    this.password = randomToken(10);
+    this.pairedHost = undefined;
+    this.connectAttempts.clear();
+    if (this.connectTimer) clearTimeout(this.connectTimer);
+    this.setState("waiting", "Waiting for the device to scan the QR code...");
+  }
+
+  private postSession(): void {
+    this.post({
+      type: "session",
+      payload: buildQrPairingPayload(this.serviceName, this.password),
+      serviceName: this.serviceName,
+    });
+    this.post({ type: "status", state: this.state, message: this.statusMessage });
+  }
+
+  private startPolling(): void {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => void this.discovery.refresh(), PAIRING_POLL_INTERVAL_MS);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = undefined;
+  }
+
+  private async onServices(services: MdnsService[]): Promise<void> {
+    if (this.state === "connecting") {
+      await this.checkConnected();
+      return;
+    }
+    if (this.state !== "waiting") return;
+
+    const pairing = services.find((service) => service.kind === "pairing" && service.name === this.serviceName);
+    if (pairing) await this.pair(pairing);
+  }
+
+  private async pair(service: MdnsService): Promise<void> {
+    this.setState("pairing", `Pairing with ${service.host}...`);
+    try {
+      const result = await this.adbService.pairDevice(service.host, service.port, this.password);
+      if (!result.toLowerCase().includes("success")) {
+        this.fail(result || "Pairing failed");
+        return;
+      }
+    } catch (error) {
+      this.fail(error instanceof Error ? error.message : "Unknown error");
+      return;
+    }
+
+    this.pairedHost = service.host;
+    this.setState("connecting", "Paired. Connecting...");
+    this.connectTimer = setTimeout(() => {
+      if (this.state === "connecting") {
+        this.fail("Paired, but the device didn't advertise a connect port. Connect to it from the Devices view.");
+      }
+    }, CONNECT_TIMEOUT_MS);
+    await this.checkConnected();
+  }
+
+  /** Finish once adb lists the paired device; connect to its connect port if the ADB server doesn't */
+  private async checkConnected(): Promise<void> {
+    if (this.state !== "connecting" || !this.pairedHost) return;
+
+    const connectServices = this.discovery.discovered.filter(
+      (service) => service.kind === "connect" && service.host === this.pairedHost,
+    );
+    try {
+      const devices = await this.adbService.getDevices();
+      for (const service of connectServices) {
+        const device = findConnectedDevice(service, devices);
+        if (device) {
+          this.setState("connected", `Connected to ${device.name}`);
+          vscode.window.showInformationMessage(`Connected to ${device.name} over Wi-Fi`);
+          return;
+        }
+      }
+
+      for (const service of connectServices) {
+        if (this.connectAttempts.has(service.address)) continue;
+        this.connectAttempts.add(service.address);
+        await this.adbService.connectWireless(service.host, service.port);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      this.adbService.outputChannel.appendLine(`Wireless connect after QR pairing failed: ${message}`);
+    }
+  }
+
+  private fail(message: string): void {
+    this.setState("failed", message);
+  }
+
+  private setState(state: PairingState, message: string): void {
+    this.state = state;
+    this.statusMessage = message;
+    if (state === "waiting" || state === "connecting") {
+      this.startPolling();
+    } else {
+      this.stopPolling();
+    }
+    if ((state === "connected" || state === "failed") && this.connectTimer) {
+      clearTimeout(this.connectTimer);
+    }
+    this.post({ type: "status", state, message });
+  }
+
+  private post(msg: MessageToWebview): void {
+    this.panel.webview.postMessage(msg);
+  }
+
+  private getHtml(): string {
+    return buildWebviewHtml({
+      webview: this.panel.webview,
+      extensionUri: this.context.extensionUri,
+      distSubdir: "webview-wireless-pairing",
+      title: "Pair Device with QR Code",
+    });
+  }
+
+  dispose(): void {
+    WirelessPairingPanel.current = undefined;
+    this.stopPolling();
+    if (this.connectTimer) clearTimeout(this.connectTimer);
+    this.panel.dispose();
+    for (const d of this.disposables) d.dispose();
+    this.disposables = [];
+  }
+}
@@ -81,9 +81,30 @@ export class ThemeIcon {
   static readonly File = new ThemeIcon("file");
   static readonly Folder = new ThemeIcon("folder");
 
+  constructor(
+    public readonly id: string,
+    public readonly color?: ThemeColor
+  ) {}
+}
+
+export class ThemeColor {
   constructor(public readonly id: string) {}
 }
 
+export class Position {
+  constructor(
+    public readonly line: number,
+    public readonly character: number
+  ) {}
+}
+
+export class Range {
+  constructor(
+    public readonly start: Position,
+    public readonly end: Position
+  ) {}
+}
+
 export class Uri {
   readonly scheme: string;
   readonly fsPath: string;
@@ -210,6 +231,7 @@ export const workspace = {
     onDidDelete: vi.fn(),
     dispose: vi.fn(),
   }),
+  findFiles: vi.fn().mockResolvedValue([]),
   fs: {
     writeFile: vi.fn().mockResolvedValue(undefined),
     readFile: vi.fn().mockResolvedValue(new Uint8Array()),
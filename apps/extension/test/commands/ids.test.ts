@@ -5,18 +5,30 @@ describe("commands/ids", () => {
   it("ANDROID_DEVKIT_COMMANDS snapshot — catches accidental renames", () => {
     expect(ANDROID_DEVKIT_COMMANDS).toMatchInlineSnapshot(`
       {
+        "addLogcatDevice": "androidDevkit.addLogcatDevice",
+        "addPortMapping": "androidDevkit.addPortMapping",
         "addToTerminalPath": "androidDevkit.addToTerminalPath",
         "assembleBuild": "androidDevkit.assembleBuild",
+        "attachDebugger": "androidDevkit.attachDebugger",
         "browseFiles": "androidDevkit.browseFiles",
         "buildVariant": "androidDevkit.buildVariant",
         "cleanBuild": "androidDevkit.cleanBuild",
         "clearAppData": "androidDevkit.clearAppData",
+        "clearInstalledAppData": "androidDevkit.clearInstalledAppData",
         "clearLogcat": "androidDevkit.clearLogcat",
+        "closeLogcatSession": "androidDevkit.closeLogcatSession",
         "commandMenu": "androidDevkit.commandMenu",
+        "compareDeviceProperties": "androidDevkit.compareDeviceProperties",
+        "composeIntent": "androidDevkit.composeIntent",
         "connectDevice": "androidDevkit.connectDevice",
+        "connectDiscoveredDevice": "androidDevkit.connectDiscoveredDevice",
         "createAvd": "androidDevkit.createAvd",
         "deleteAvd": "androidDevkit.deleteAvd",
+        "deleteAvdSnapshot": "androidDevkit.deleteAvdSnapshot",
         "deleteRemoteFile": "androidDevkit.deleteRemoteFile",
+        "deleteSavedIntent": "androidDevkit.deleteSavedIntent",
+        "editAvdLaunchOptions": "androidDevkit.editAvdLaunchOptions",
+        "editSavedIntent": "androidDevkit.editSavedIntent",
         "enableTcpip": "androidDevkit.enableTcpip",
         "exportLogcat": "androidDevkit.exportLogcat",
         "focusAvdManager": "androidDevkit.avdManager.focus",
@@ -25,45 +37,80 @@ describe("commands/ids", () => {
         "focusFileExplorer": "androidDevkit.fileExplorer.focus",
         "focusGradleTasks": "androidDevkit.gradleTasks.focus",
         "focusLogcat": "androidDevkit.logcat.focus",
+        "forceStopInstalledApp": "androidDevkit.forceStopInstalledApp",
+        "importLogcatText": "androidDevkit.importLogcatText",
         "installApk": "androidDevkit.installApk",
         "installSdkPackage": "androidDevkit.installSdkPackage",
         "launchAvd": "androidDevkit.launchAvd",
+        "launchAvdFromSnapshot": "androidDevkit.launchAvdFromSnapshot",
+        "launchInstalledApp": "androidDevkit.launchInstalledApp",
+        "loadAvdSnapshot": "androidDevkit.loadAvdSnapshot",
         "logcatStatusMenu": "androidDevkit.logcatStatusMenu",
         "managePermissions": "androidDevkit.managePermissions",
         "mirrorScreen": "androidDevkit.mirrorScreen",
+        "muteLogcatTag": "androidDevkit.muteLogcatTag",
+        "openAppDataDirectory": "androidDevkit.openAppDataDirectory",
         "openDeviceFile": "androidDevkit.openDeviceFile",
+        "openEmulatorControls": "androidDevkit.openEmulatorControls",
+        "openLogcatRecording": "androidDevkit.openLogcatRecording",
         "openSdkManager": "androidDevkit.openSdkManager",
         "openShell": "androidDevkit.openShell",
         "pairDevice": "androidDevkit.pairDevice",
+        "pairDeviceWithQrCode": "androidDevkit.pairDeviceWithQrCode",
+        "pairDiscoveredDevice": "androidDevkit.pairDiscoveredDevice",
         "pauseLogcat": "androidDevkit.pauseLogcat",
+        "persistPortMapping": "androidDevkit.persistPortMapping",
+        "playEmulatorRoute": "androidDevkit.playEmulatorRoute",
         "pullFile": "androidDevkit.pullFile",
+        "pullInstalledApk": "androidDevkit.pullInstalledApk",
+        "pullTombstones": "androidDevkit.pullTombstones",
         "pushFile": "androidDevkit.pushFile",
+        "queryAppProvider": "androidDevkit.queryAppProvider",
         "rebootDevice": "androidDevkit.rebootDevice",
         "recordScreen": "androidDevkit.recordScreen",
         "refreshAvds": "androidDevkit.refreshAvds",
         "refreshDevices": "androidDevkit.refreshDevices",
         "refreshFileExplorer": "androidDevkit.refreshFileExplorer",
         "refreshGradleTasks": "androidDevkit.refreshGradleTasks",
+        "refreshPortForwarding": "androidDevkit.refreshPortForwarding",
         "refreshProjectLayout": "androidDevkit.refreshProjectLayout",
+        "refreshSavedIntents": "androidDevkit.refreshSavedIntents",
         "refreshSdkPackages": "androidDevkit.refreshSdkPackages",
+        "removePortMapping": "androidDevkit.removePortMapping",
         "runGradleTask": "androidDevkit.runGradleTask",
         "runOnDevice": "androidDevkit.runOnDevice",
+        "runSavedIntent": "androidDevkit.runSavedIntent",
         "runSelectedGradleTasks": "androidDevkit.runSelectedGradleTasks",
+        "saveAvdSnapshot": "androidDevkit.saveAvdSnapshot",
         "selectBuildVariant": "androidDevkit.selectBuildVariant",
         "selectRunTarget": "androidDevkit.selectRunTarget",
+        "sendAppBroadcast": "androidDevkit.sendAppBroadcast",
+        "setEmulatorLocation": "androidDevkit.setEmulatorLocation",
+        "setLogcatBuffers": "androidDevkit.setLogcatBuffers",
         "setLogcatFilter": "androidDevkit.setLogcatFilter",
         "setLogcatPackageFilter": "androidDevkit.setLogcatPackageFilter",
         "showAdbStatus": "androidDevkit.showAdbStatus",
+        "showDeviceProperties": "androidDevkit.showDeviceProperties",
+        "showLogcatAlerts": "androidDevkit.showLogcatAlerts",
         "showLogcatOutput": "androidDevkit.showLogcatOutput",
+        "showMergedLogcat": "androidDevkit.showMergedLogcat",
         "showSdkInfo": "androidDevkit.showSdkInfo",
+        "startAppActivity": "androidDevkit.startAppActivity",
+        "startAppService": "androidDevkit.startAppService",
         "startLogcat": "androidDevkit.startLogcat",
+        "startLogcatRecording": "androidDevkit.startLogcatRecording",
         "stopApp": "androidDevkit.stopApp",
+        "stopEmulatorRoute": "androidDevkit.stopEmulatorRoute",
         "stopLogcat": "androidDevkit.stopLogcat",
+        "stopLogcatRecording": "androidDevkit.stopLogcatRecording",
+        "symbolicateNativeCrash": "androidDevkit.symbolicateNativeCrash",
         "syncGradle": "androidDevkit.syncGradle",
         "takeScreenshot": "androidDevkit.takeScreenshot",
         "testDeepLink": "androidDevkit.testDeepLink",
         "uninstallApp": "androidDevkit.uninstallApp",
+        "uninstallInstalledApp": "androidDevkit.uninstallInstalledApp",
         "uninstallSdkPackage": "androidDevkit.uninstallSdkPackage",
+        "unpersistPortMapping": "androidDevkit.unpersistPortMapping",
         "updateAllSdkPackages": "androidDevkit.updateAllSdkPackages",
         "wipeAvdData": "androidDevkit.wipeAvdData",
       }
@@ -89,8 +136,12 @@ describe("commands/ids", () => {
         "gradleTasksHasSelection": "androidDevkit.gradleTasksHasSelection",
         "hasAvds": "androidDevkit.hasAvds",
         "hasDevices": "androidDevkit.hasDevices",
+        "logcatMultipleSessions": "androidDevkit.logcatMultipleSessions",
         "logcatPaused": "androidDevkit.logcatPaused",
+        "logcatRecording": "androidDevkit.logcatRecording",
+        "logcatReplay": "androidDevkit.logcatReplay",
         "logcatRunning": "androidDevkit.logcatRunning",
+        "routePlaying": "androidDevkit.routePlaying",
         "sdkConfigured": "androidDevkit.sdkConfigured",
       }
     `);
@@ -4,6 +4,7 @@ import {
   getConfiguredSdkPath,
   getLogcatDefaultLogLevel,
   getLogcatMaxLines,
+  getLogcatAlertRules,
   ANDROID_DEVKIT_SETTINGS,
 } from "../../src/config/settings";
 
@@ -93,4 +94,17 @@ describe("config/settings", () => {
 
     expect(getLogcatMaxLines()).toBe(10000);
   });
+
+  it("getLogcatAlertRules returns an empty list as default", () => {
+    const mockGet = vi.fn().mockImplementation((_key: string, defaultValue?: unknown) => defaultValue);
+    vi.mocked(workspace.getConfiguration).mockReturnValue({
+      get: mockGet,
+      update: vi.fn(),
+      has: vi.fn(),
+      inspect: vi.fn(),
+    } as any);
+
+    expect(getLogcatAlertRules()).toEqual([]);
+    expect(mockGet).toHaveBeenCalledWith(ANDROID_DEVKIT_SETTINGS.logcatAlertRules, []);
+  });
 });
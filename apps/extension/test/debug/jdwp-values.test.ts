@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { Tag } from "@android-devkit/jdwp";
+import {
+  codeIndexForLine,
+  formatPrimitive,
+  isClassInPackage,
+  lineForCodeIndex,
+  parseExpressionPath,
+  parseSourcePackage,
+  signatureToClassName,
+  signatureToTypeName,
+} from "../../src/debug/jdwp-values";
+
+const TABLE = {
+  start: 0n,
+  end: 40n,
+  lines: [
+    { codeIndex: 0n, line: 10 },
+    { codeIndex: 4n, line: 11 },
+    { codeIndex: 12n, line: 10 },
+    { codeIndex: 20n, line: 14 },
+  ],
+};
+
+describe("debug/jdwp-values", () => {
+  it("reads the package of Java and Kotlin sources", () => {
+    expect(parseSourcePackage("// header\npackage com.example.app;\n\nclass Main {}")).toBe("com.example.app");
+    expect(parseSourcePackage('@file:JvmName("Utils")\npackage com.example.`in`.util\n')).toBe("com.example.in.util");
+    expect(parseSourcePackage("class Main {}")).toBe("");
+  });
+
+  it("converts JNI signatures to type names", () => {
+    expect(signatureToClassName("Lcom/example/Main$Inner;")).toBe("com.example.Main$Inner");
+    expect(signatureToTypeName("I")).toBe("int");
+    expect(signatureToTypeName("[[Ljava/lang/String;")).toBe("java.lang.String[][]");
+  });
+
+  it("matches classes to their exact package", () => {
+    expect(isClassInPackage("Lcom/example/Main$1;", "com.example")).toBe(true);
+    expect(isClassInPackage("Lcom/example/ui/Screen;", "com.example")).toBe(false);
+    expect(isClassInPackage("LMain;", "")).toBe(true);
+  });
+
+  it("maps lines to code indexes and back", () => {
+    expect(codeIndexForLine(TABLE, 10)).toBe(0n);
+    expect(codeIndexForLine(TABLE, 14)).toBe(20n);
+    expect(codeIndexForLine(TABLE, 12)).toBeUndefined();
+    expect(lineForCodeIndex(TABLE, 7n)).toBe(11);
+    expect(lineForCodeIndex(TABLE, 15n)).toBe(10);
+    expect(lineForCodeIndex(TABLE, 39n)).toBe(14);
+  });
+
+  it("formats primitives like Java literals", () => {
+    expect(formatPrimitive({ tag: Tag.Char, value: 65 })).toBe("'A'");
+    expect(formatPrimitive({ tag: Tag.Long, value: 5n })).toBe("5L");
+    expect(formatPrimitive({ tag: Tag.Float, value: 0.1 })).toBe("0.1f");
+    expect(formatPrimitive({ tag: Tag.Boolean, value: true })).toBe("true");
+  });
+
+  it("parses variable, field and index paths only", () => {
+    expect(parseExpressionPath("user.friends[2].name")).toEqual(["user", "friends", 2, "name"]);
+    expect(parseExpressionPath(" this . count ")).toEqual(["this", "count"]);
+    expect(parseExpressionPath("user.getName()")).toBeUndefined();
+    expect(parseExpressionPath("a + b")).toBeUndefined();
+  });
+});
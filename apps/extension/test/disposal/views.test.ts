@@ -16,7 +16,8 @@ const { FakeStream } = vi.hoisted(() => {
   return { FakeStream };
 });
 
-vi.mock("@android-devkit/logcat", () => ({
+vi.mock("@android-devkit/logcat", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@android-devkit/logcat")>()),
   LogcatStream: FakeStream,
   clearLogcat: vi.fn(),
 }));
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type * as vscode from "vscode";
+import { buildEmulatorLaunchArgs } from "@android-devkit/emulator";
+import {
+  AvdLaunchOptions,
+  formatLaunchOptions,
+  joinArguments,
+  resolveLaunchOptions,
+  splitArguments,
+} from "../../src/models/avd-launch-options";
+import { createMockExtensionContext } from "../helpers/mock-context";
+
+describe("splitArguments", () => {
+  it("splits on whitespace and keeps quoted parts together", () => {
+    expect(splitArguments("  -no-audio   -feature -Vulkan ")).toEqual(["-no-audio", "-feature", "-Vulkan"]);
+    expect(splitArguments(`-skin "Pixel 8" -qemu '-m 2048'`)).toEqual(["-skin", "Pixel 8", "-qemu", "-m 2048"]);
+    expect(splitArguments("")).toEqual([]);
+  });
+
+  it("reads back what joinArguments writes", () => {
+    const args = ["-skin", "Pixel 8", "-no-audio"];
+    expect(joinArguments(args)).toBe(`-skin "Pixel 8" -no-audio`);
+    expect(splitArguments(joinArguments(args))).toEqual(args);
+  });
+});
+
+describe("formatLaunchOptions", () => {
+  it("lists the emulator flags, or nothing for the defaults", () => {
+    expect(formatLaunchOptions({})).toBe("");
+    expect(formatLaunchOptions({ gpu: "host", memoryMb: 4096, readOnly: true })).toBe(
+      "-read-only -gpu host -memory 4096",
+    );
+  });
+
+  it("shows why options cannot be used", () => {
+    expect(formatLaunchOptions({ port: 5555 })).toMatch(/port/i);
+  });
+});
+
+describe("resolveLaunchOptions", () => {
+  it("keeps a chosen snapshot from being overwritten on exit", () => {
+    const options = resolveLaunchOptions({ gpu: "host" }, "logged_in");
+    expect(buildEmulatorLaunchArgs({ ...options, noWindow: true })).toEqual([
+      "-no-window",
+      "-snapshot",
+      "logged_in",
+      "-no-snapshot-save",
+      "-gpu",
+      "host",
+    ]);
+  });
+
+  it("loads the chosen snapshot even when Cold Boot is saved", () => {
+    const options = resolveLaunchOptions({ noSnapshotLoad: true, readOnly: true }, "logged_in");
+    expect(options).toEqual({ readOnly: true, snapshot: "logged_in", noSnapshotSave: true });
+    expect(buildEmulatorLaunchArgs(options)).not.toContain("-no-snapshot-load");
+  });
+
+  it("uses the saved options as they are without a snapshot", () => {
+    expect(resolveLaunchOptions({ noSnapshotLoad: true })).toEqual({ noSnapshotLoad: true });
+    expect(buildEmulatorLaunchArgs(resolveLaunchOptions({ gpu: "host" }))).toEqual(["-gpu", "host"]);
+  });
+});
+
+describe("AvdLaunchOptions", () => {
+  it("merges changes per AVD and drops reset values", async () => {
+    const context = createMockExtensionContext();
+    const store = new AvdLaunchOptions(context.workspaceState as unknown as vscode.Memento);
+
+    await store.update("Pixel_8", { gpu: "host", cores: 4 });
+    await store.update("Pixel_8", { cores: undefined, readOnly: true, extraArgs: [] });
+    await store.update("Tablet", { netSpeed: "edge" });
+
+    expect(store.get("Pixel_8")).toEqual({ gpu: "host", readOnly: true });
+    expect(store.get("Tablet")).toEqual({ netSpeed: "edge" });
+    expect(store.get("Unknown")).toEqual({});
+  });
+
+  it("forgets an AVD once every option is back to its default", async () => {
+    const context = createMockExtensionContext();
+    const store = new AvdLaunchOptions(context.workspaceState as unknown as vscode.Memento);
+
+    await store.update("Pixel_8", { readOnly: true });
+    await store.update("Pixel_8", { readOnly: false });
+    expect(context.workspaceState.get("avdLaunchOptions")).toEqual({});
+
+    await store.update("Pixel_8", { gpu: "guest" });
+    await store.reset("Pixel_8");
+    expect(store.get("Pixel_8")).toEqual({});
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import type { LogcatEntry } from "@android-devkit/logcat";
+import { LogcatAlertMonitor, compileLogcatAlertRules } from "../../src/models/logcat-alerts";
+
+function makeEntry(overrides: Partial<LogcatEntry> = {}): LogcatEntry {
+  return {
+    timestamp: new Date("2024-01-15T12:00:00Z"),
+    pid: 1234,
+    tid: 5678,
+    level: "I",
+    tag: "TestTag",
+    message: "Test message",
+    ...overrides,
+  };
+}
+
+describe("compileLogcatAlertRules", () => {
+  it("matches tag, level and message together", () => {
+    const { rules, errors } = compileLogcatAlertRules([
+      { name: "ANR", tag: "ActivityManager", level: "E", message: "^ANR in " },
+    ]);
+
+    expect(errors).toEqual([]);
+    const [rule] = rules;
+    expect(rule.action).toBe("notify");
+    expect(rule.matches(makeEntry({ tag: "ActivityManager", level: "E", message: "ANR in com.example" }))).toBe(true);
+    expect(rule.matches(makeEntry({ tag: "ActivityManager", level: "I", message: "ANR in com.example" }))).toBe(false);
+    expect(rule.matches(makeEntry({ tag: "ActivityManager", level: "E", message: "Start proc" }))).toBe(false);
+    expect(rule.matches(makeEntry({ tag: "Other", level: "E", message: "ANR in com.example" }))).toBe(false);
+  });
+
+  it("reports invalid rules and keeps the valid ones", () => {
+    const { rules, errors } = compileLogcatAlertRules([
+      { name: "Empty" },
+      { name: "Broken", message: "(" },
+      { tag: "StrictMode", action: "count" },
+    ]);
+
+    expect(rules.map((rule) => rule.name)).toEqual(["StrictMode"]);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain("Empty");
+    expect(errors[1]).toContain("invalid message pattern");
+  });
+});
+
+describe("LogcatAlertMonitor", () => {
+  it("counts matches of count rules and keeps recent matches", () => {
+    const monitor = new LogcatAlertMonitor();
+    monitor.setRules(
+      compileLogcatAlertRules([
+        { tag: "StrictMode", action: "count" },
+        { name: "Purchase", message: "event=purchase" },
+      ]).rules
+    );
+
+    monitor.check("s1", makeEntry({ tag: "StrictMode" }));
+    monitor.check("s2", makeEntry({ tag: "StrictMode" }));
+    const matches = monitor.check("s1", makeEntry({ message: "event=purchase" }));
+
+    expect(matches.map((match) => match.rule.name)).toEqual(["Purchase"]);
+    expect(monitor.count).toBe(2);
+    expect(monitor.getRecentMatches().map((match) => match.serial)).toEqual(["s1", "s2", "s1"]);
+
+    monitor.reset();
+    expect(monitor.count).toBe(0);
+  });
+
+  it("throttles notifications per rule", () => {
+    const monitor = new LogcatAlertMonitor();
+    const [rule] = compileLogcatAlertRules([{ tag: "StrictMode" }]).rules;
+
+    expect(monitor.shouldNotify(rule, 0)).toBe(true);
+    expect(monitor.shouldNotify(rule, 5_000)).toBe(false);
+    expect(monitor.shouldNotify(rule, 10_000)).toBe(true);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { LogcatEntry } from "@android-devkit/logcat";
+import { LogcatBuffer } from "../../src/models/logcat-buffer";
+import { LogcatStats } from "../../src/models/logcat-stats";
+
+const START = Date.parse("2024-01-15T12:00:00Z");
+
+function makeEntry(overrides: Partial<LogcatEntry> = {}): LogcatEntry {
+  return {
+    timestamp: new Date(START),
+    pid: 1234,
+    tid: 5678,
+    level: "I",
+    tag: "TestTag",
+    message: "Test message",
+    ...overrides,
+  };
+}
+
+describe("LogcatStats", () => {
+  it("ranks the noisiest tags and PIDs and counts levels", () => {
+    const stats = new LogcatStats();
+    for (let i = 0; i < 5; i++) stats.add(makeEntry({ tag: "Choreographer", pid: 1 }));
+    for (let i = 0; i < 3; i++) stats.add(makeEntry({ tag: "OkHttp", pid: 2, level: "D" }));
+    stats.add(makeEntry({ tag: "App", pid: 2, level: "E" }));
+
+    expect(stats.total).toBe(9);
+    expect(stats.getTopTags(2)).toEqual([
+      { tag: "Choreographer", count: 5 },
+      { tag: "OkHttp", count: 3 },
+    ]);
+    expect(stats.getTopPids(5)).toEqual([
+      { pid: 1, count: 5 },
+      { pid: 2, count: 4 },
+    ]);
+    expect(Object.fromEntries(stats.getLevelCounts())).toEqual({ I: 5, D: 3, E: 1 });
+  });
+
+  it("buckets entries per second of device time, filling quiet seconds", () => {
+    const stats = new LogcatStats();
+    stats.add(makeEntry({ timestamp: new Date(START + 100) }));
+    stats.add(makeEntry({ timestamp: new Date(START + 900) }));
+    stats.add(makeEntry({ timestamp: new Date(START + 2_500) }));
+
+    expect(stats.getRate(4)).toEqual([
+      { time: START - 1_000, count: 0 },
+      { time: START, count: 2 },
+      { time: START + 1_000, count: 0 },
+      { time: START + 2_000, count: 1 },
+    ]);
+  });
+
+  it("drops rate history older than the window but keeps the totals", () => {
+    const stats = new LogcatStats();
+    stats.add(makeEntry({ timestamp: new Date(START) }));
+    stats.add(makeEntry({ timestamp: new Date(START + 120_000) }));
+    stats.add(makeEntry({ timestamp: new Date(START + 1_000) }));
+
+    const rate = stats.getRate();
+    expect(rate).toHaveLength(60);
+    expect(rate.reduce((sum, point) => sum + point.count, 0)).toBe(1);
+    expect(stats.total).toBe(3);
+  });
+
+  it("keeps counting entries the buffer has rotated out", () => {
+    const buffer = new LogcatBuffer(2);
+    for (let i = 0; i < 5; i++) buffer.add(makeEntry(), "V");
+    buffer.add(makeEntry({ level: "V" }), "I");
+
+    expect(buffer.length).toBe(2);
+    expect(buffer.stats.total).toBe(5);
+
+    buffer.clear();
+    expect(buffer.stats.total).toBe(0);
+    expect(buffer.stats.getRate()).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import type * as vscode from "vscode";
+import type { PortMapping } from "@android-devkit/adb";
+import {
+  PersistentPortMappings,
+  formatPortMapping,
+  isSamePortMapping,
+  normalizeAdbSocket,
+  validateAdbSocket,
+} from "../../src/models/port-mappings";
+import { createMockExtensionContext } from "../helpers/mock-context";
+
+const metro: PortMapping = { direction: "reverse", serial: "emulator-5554", host: "tcp:8081", device: "tcp:8081" };
+
+describe("normalizeAdbSocket", () => {
+  it("treats a bare port as tcp", () => {
+    expect(normalizeAdbSocket(" 8081 ")).toBe("tcp:8081");
+    expect(normalizeAdbSocket("localabstract:chrome_devtools_remote")).toBe("localabstract:chrome_devtools_remote");
+  });
+});
+
+describe("validateAdbSocket", () => {
+  it("accepts tcp ports and local sockets on either side", () => {
+    expect(validateAdbSocket("8081", "listen", "host")).toBeUndefined();
+    expect(validateAdbSocket("localabstract:webview_devtools_remote_1234", "listen", "device")).toBeUndefined();
+    expect(validateAdbSocket("tcp:70000", "listen", "host")).toBe("Port must be between 1 and 65535");
+    expect(validateAdbSocket("tcp:0", "target", "host")).toBe("Port must be between 1 and 65535");
+  });
+
+  it("allows device-only sockets only as a forward target", () => {
+    expect(validateAdbSocket("jdwp:1234", "target", "device")).toBeUndefined();
+    expect(validateAdbSocket("jdwp:1234", "listen", "host")).toBeDefined();
+    expect(validateAdbSocket("jdwp:1234", "target", "host")).toBeDefined();
+    expect(validateAdbSocket("http://localhost", "listen", "host")).toBeDefined();
+  });
+});
+
+describe("port mapping identity", () => {
+  it("identifies mappings by direction, serial and listening socket", () => {
+    expect(isSamePortMapping(metro, { ...metro, host: "tcp:9090" })).toBe(true);
+    expect(isSamePortMapping(metro, { ...metro, device: "tcp:9090" })).toBe(false);
+    expect(isSamePortMapping(metro, { ...metro, serial: "emulator-5556" })).toBe(false);
+    expect(isSamePortMapping(metro, { ...metro, direction: "forward" })).toBe(false);
+  });
+
+  it("formats the listening side first", () => {
+    expect(formatPortMapping({ ...metro, host: "tcp:9000" })).toBe("tcp:8081 → tcp:9000");
+    expect(formatPortMapping({ direction: "forward", serial: "s", host: "tcp:9222", device: "localabstract:x" })).toBe(
+      "tcp:9222 → localabstract:x",
+    );
+  });
+});
+
+describe("PersistentPortMappings", () => {
+  function createStore() {
+    const context = createMockExtensionContext();
+    return new PersistentPortMappings(context.workspaceState as unknown as vscode.Memento);
+  }
+
+  it("stores rules per device and replaces rules on the same socket", async () => {
+    const store = createStore();
+    await store.add(metro);
+    await store.add({ ...metro, serial: "R58M123" });
+    await store.add({ ...metro, host: "tcp:9090" });
+
+    expect(store.list("emulator-5554")).toEqual([{ ...metro, host: "tcp:9090" }]);
+    expect(store.list()).toHaveLength(2);
+    expect(store.has({ ...metro, serial: "R58M123" })).toBe(true);
+  });
+
+  it("removes rules", async () => {
+    const store = createStore();
+    await store.add(metro);
+    await store.remove({ ...metro, host: "tcp:1234" });
+
+    expect(store.list()).toEqual([]);
+    expect(store.has(metro)).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import type * as vscode from "vscode";
+import { SavedIntents, formatAmCommand, suggestIntentName, type SavedIntent } from "../../src/models/saved-intents";
+import { createMockExtensionContext } from "../helpers/mock-context";
+
+const deepLink: SavedIntent = {
+  name: "Open profile",
+  mode: "start",
+  intent: { action: "android.intent.action.VIEW", data: "myapp://profile/42" },
+};
+
+describe("formatAmCommand", () => {
+  it("formats the command as typed in adb shell, quoting where needed", () => {
+    expect(
+      formatAmCommand("broadcast", {
+        action: "com.example.SYNC",
+        component: "com.example/.SyncReceiver",
+        flags: 0x10000000,
+        extras: [
+          { type: "string", key: "user", value: "Jane Doe" },
+          { type: "bool", key: "full", value: true },
+        ],
+      }),
+    ).toBe(
+      "am broadcast -a com.example.SYNC -n com.example/.SyncReceiver -f 0x10000000 --es user 'Jane Doe' --ez full true",
+    );
+    expect(formatAmCommand("start", { data: "https://example.com/?a=1&b=2" })).toBe(
+      "am start -d 'https://example.com/?a=1&b=2'",
+    );
+  });
+});
+
+describe("suggestIntentName", () => {
+  it("prefers the component class, then the action", () => {
+    expect(suggestIntentName({ component: "com.example/.ui.MainActivity" })).toBe("MainActivity");
+    expect(suggestIntentName({ action: "android.intent.action.VIEW" })).toBe("VIEW");
+    expect(suggestIntentName({ data: "myapp://home" })).toBe("myapp://home");
+  });
+});
+
+describe("SavedIntents", () => {
+  function createStore() {
+    const context = createMockExtensionContext();
+    return new SavedIntents(context.workspaceState as unknown as vscode.Memento);
+  }
+
+  it("keeps intents sorted by name and replaces the same name", async () => {
+    const store = createStore();
+    await store.save(deepLink);
+    await store.save({ ...deepLink, name: "Home" });
+    await store.save({ ...deepLink, mode: "broadcast" });
+
+    expect(store.list().map((saved) => saved.name)).toEqual(["Home", "Open profile"]);
+    expect(store.get("Open profile")?.mode).toBe("broadcast");
+  });
+
+  it("renames and removes intents", async () => {
+    const store = createStore();
+    await store.save(deepLink);
+    await store.save({ ...deepLink, name: "Profile" }, "Open profile");
+
+    expect(store.list().map((saved) => saved.name)).toEqual(["Profile"]);
+
+    await store.remove("Profile");
+    expect(store.list()).toEqual([]);
+  });
+});
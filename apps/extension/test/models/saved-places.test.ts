@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import type * as vscode from "vscode";
+import { SavedPlaces, formatCoordinates, parseCoordinates } from "../../src/models/saved-places";
+import { createMockExtensionContext } from "../helpers/mock-context";
+
+describe("parseCoordinates", () => {
+  it("reads latitude then longitude, comma or space separated", () => {
+    expect(parseCoordinates("52.5200, 13.4050")).toEqual({ latitude: 52.52, longitude: 13.405 });
+    expect(parseCoordinates(" -33.8688 151.2093 ")).toEqual({ latitude: -33.8688, longitude: 151.2093 });
+    expect(parseCoordinates("37,-122")).toEqual({ latitude: 37, longitude: -122 });
+  });
+
+  it("rejects out-of-range and malformed input", () => {
+    expect(parseCoordinates("91, 0")).toBeUndefined();
+    expect(parseCoordinates("0, 181")).toBeUndefined();
+    expect(parseCoordinates("Berlin")).toBeUndefined();
+    expect(parseCoordinates("52.52")).toBeUndefined();
+  });
+});
+
+describe("formatCoordinates", () => {
+  it("uses five decimals", () => {
+    expect(formatCoordinates({ latitude: 52.52, longitude: -0.1 })).toBe("52.52000, -0.10000");
+  });
+});
+
+describe("SavedPlaces", () => {
+  it("keeps places sorted by name, replaces the same name and removes them", async () => {
+    const context = createMockExtensionContext();
+    const places = new SavedPlaces(context.globalState as unknown as vscode.Memento);
+    await places.save({ name: "Office", latitude: 1, longitude: 2 });
+    await places.save({ name: "Home", latitude: 3, longitude: 4 });
+    await places.save({ name: "Office", latitude: 5, longitude: 6 });
+
+    expect(places.list()).toEqual([
+      { name: "Home", latitude: 3, longitude: 4 },
+      { name: "Office", latitude: 5, longitude: 6 },
+    ]);
+
+    await places.remove("Home");
+    expect(places.list().map((place) => place.name)).toEqual(["Office"]);
+  });
+});
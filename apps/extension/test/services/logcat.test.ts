@@ -3,6 +3,7 @@ import { describe, expect, it, vi, beforeEach } from "vitest";
 const { FakeStream, clearLogcatMock } = vi.hoisted(() => {
   const clearLogcatMock = vi.fn();
   let currentStream: any;
+  const streams: any[] = [];
 
   class FakeStream {
     private listeners = new Map<string, Function[]>();
@@ -10,6 +11,7 @@ const { FakeStream, clearLogcatMock } = vi.hoisted(() => {
 
     constructor(_opts?: any) {
       currentStream = this;
+      streams.push(this);
     }
 
     on(event: string, cb: Function) {
@@ -26,6 +28,7 @@ const { FakeStream, clearLogcatMock } = vi.hoisted(() => {
     stop() { this.isRunning = false; }
 
     static getCurrent() { return currentStream; }
+    static getAll() { return streams; }
   }
 
   return { FakeStream, clearLogcatMock };
@@ -52,6 +55,7 @@ describe("LogcatService", () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    FakeStream.getAll().length = 0;
     service = new LogcatService(createMockAdbService());
   });
 
@@ -78,12 +82,12 @@ describe("LogcatService", () => {
     await service.start({ serial: "emulator-5554" });
     FakeStream.getCurrent().emit("entry", { tag: "Test", message: "hello" });
 
-    expect(entries).toHaveLength(1);
+    expect(entries).toEqual([{ serial: "emulator-5554", entry: { tag: "Test", message: "hello" } }]);
   });
 
   it("propagates errors", async () => {
     const errors: Error[] = [];
-    service.onError((e) => errors.push(e));
+    service.onError(({ error }) => errors.push(error));
 
     await service.start({ serial: "emulator-5554" });
     FakeStream.getCurrent().emit("error", new Error("stream failed"));
@@ -93,13 +97,55 @@ describe("LogcatService", () => {
   });
 
   it("fires state changes", async () => {
-    const states: boolean[] = [];
+    const states: { serial: string; running: boolean }[] = [];
     service.onStateChanged((s) => states.push(s));
 
     await service.start({ serial: "emulator-5554" });
     FakeStream.getCurrent().emit("close");
 
-    expect(states).toContain(false);
+    expect(states).toContainEqual({ serial: "emulator-5554", running: false });
+  });
+
+  it("runs one stream per device", async () => {
+    const entries: unknown[] = [];
+    service.onLogcatEntry((e) => entries.push(e));
+
+    await service.start({ serial: "emulator-5554" });
+    await service.start({ serial: "R58M123" });
+    const [first, second] = FakeStream.getAll();
+    first.emit("entry", { tag: "A" });
+    second.emit("entry", { tag: "B" });
+
+    expect(first.isRunning).toBe(true);
+    expect(second.isRunning).toBe(true);
+    expect(entries).toEqual([
+      { serial: "emulator-5554", entry: { tag: "A" } },
+      { serial: "R58M123", entry: { tag: "B" } },
+    ]);
+  });
+
+  it("restarting a device only replaces that device's stream", async () => {
+    await service.start({ serial: "emulator-5554" });
+    await service.start({ serial: "R58M123" });
+    await service.start({ serial: "emulator-5554", minLevel: "W" });
+
+    const [stale, other, restarted] = FakeStream.getAll();
+    expect(stale.isRunning).toBe(false);
+    expect(other.isRunning).toBe(true);
+    expect(restarted.isRunning).toBe(true);
+  });
+
+  it("stop with a serial leaves other devices streaming", async () => {
+    await service.start({ serial: "emulator-5554" });
+    await service.start({ serial: "R58M123" });
+    service.stop("emulator-5554");
+
+    expect(service.isStreaming("emulator-5554")).toBe(false);
+    expect(service.isStreaming("R58M123")).toBe(true);
+    expect(service.isRunning).toBe(true);
+
+    service.stop();
+    expect(service.isRunning).toBe(false);
   });
 
   it("clear delegates to clearLogcat", async () => {
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { timeRoute, type EmulatorConsole, type GeoLocation } from "@android-devkit/emulator";
+import type { EmulatorConsoleService } from "../../src/services/emulator-console";
+import { RoutePlaybackService, type RoutePlaybackEnd } from "../../src/services/route-playback";
+
+const route = timeRoute(
+  [
+    { latitude: 0, longitude: 0, time: 0 },
+    { latitude: 0, longitude: 2, time: 2_000 },
+  ],
+  { timeScale: 1 },
+);
+
+function createConsoleService(geoFix: (location: GeoLocation) => Promise<void>) {
+  const console = { geoFix } as unknown as EmulatorConsole;
+  return {
+    run: vi.fn((_serial: string, action: (console: EmulatorConsole) => Promise<unknown>) => action(console)),
+  } as unknown as EmulatorConsoleService;
+}
+
+describe("RoutePlaybackService", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sends the interpolated position every second until the route ends", async () => {
+    const fixes: GeoLocation[] = [];
+    const service = new RoutePlaybackService(createConsoleService(async (location) => void fixes.push(location)));
+    const ends: RoutePlaybackEnd[] = [];
+    service.onDidEnd((end) => ends.push(end));
+
+    service.start("emulator-5554", "walk.gpx", route);
+    expect(service.isPlaying("emulator-5554")).toBe(true);
+    await vi.advanceTimersByTimeAsync(2_000);
+
+    expect(fixes.map((fix) => fix.longitude)).toEqual([0, 1, 2]);
+    expect(service.isPlaying("emulator-5554")).toBe(false);
+    expect(ends).toMatchObject([{ finished: true, playback: { serial: "emulator-5554", progress: 1 } }]);
+    service.dispose();
+  });
+
+  it("stops on request and when the console fails", async () => {
+    const service = new RoutePlaybackService(
+      createConsoleService(async (location) => {
+        if (location.longitude > 0) throw new Error("Emulator console closed");
+      }),
+    );
+    const ends: RoutePlaybackEnd[] = [];
+    service.onDidEnd((end) => ends.push(end));
+
+    service.start("emulator-5554", "walk.gpx", route);
+    service.stop("emulator-5554");
+    service.start("emulator-5556", "walk.gpx", route);
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(service.active).toEqual([]);
+    expect(ends.map((end) => [end.playback.serial, end.finished, end.error?.message])).toEqual([
+      ["emulator-5554", false, undefined],
+      ["emulator-5556", false, "Emulator console closed"],
+    ]);
+    service.dispose();
+  });
+});
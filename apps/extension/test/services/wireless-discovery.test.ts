@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { MdnsService } from "@android-devkit/adb";
+import type { AdbService } from "../../src/services/adb";
+import { WirelessDiscoveryService } from "../../src/services/wireless-discovery";
+
+function createAdbService(listMdnsServices: () => Promise<MdnsService[]>) {
+  return {
+    isMdnsSupported: vi.fn().mockResolvedValue(true),
+    listMdnsServices: vi.fn(listMdnsServices),
+  } as unknown as AdbService & { listMdnsServices: ReturnType<typeof vi.fn> };
+}
+
+describe("WirelessDiscoveryService", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("polls only while held", async () => {
+    const adb = createAdbService(async () => []);
+    const discovery = new WirelessDiscoveryService(adb);
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(adb.listMdnsServices).not.toHaveBeenCalled();
+
+    const first = discovery.hold();
+    const second = discovery.hold();
+    await vi.advanceTimersByTimeAsync(3_000);
+    expect(adb.listMdnsServices).toHaveBeenCalledTimes(2);
+
+    first.dispose();
+    first.dispose();
+    await vi.advanceTimersByTimeAsync(3_000);
+    expect(adb.listMdnsServices).toHaveBeenCalledTimes(3);
+
+    second.dispose();
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(adb.listMdnsServices).toHaveBeenCalledTimes(3);
+    discovery.dispose();
+  });
+
+  it("runs one loop when held again while an earlier poll is in flight", async () => {
+    const answers: ((services: MdnsService[]) => void)[] = [];
+    const adb = createAdbService(() => new Promise((resolve) => answers.push(resolve)));
+    const discovery = new WirelessDiscoveryService(adb);
+
+    discovery.hold().dispose();
+    const held = discovery.hold();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(adb.listMdnsServices).toHaveBeenCalledTimes(2);
+
+    // The poll from the released hold answers last and must not reschedule itself
+    answers[1]([]);
+    answers[0]([]);
+    await vi.advanceTimersByTimeAsync(3_000);
+    expect(adb.listMdnsServices).toHaveBeenCalledTimes(3);
+
+    held.dispose();
+    discovery.dispose();
+  });
+});
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AvdItem, AvdManagerProvider, SnapshotItem, SnapshotsItem } from "../../src/views/avd-manager";
+
+const avd = { name: "Pixel_7_API_34", path: "/home/user/.android/avd/Pixel_7_API_34.avd", api: 34 };
+
+function createProvider(running: boolean) {
+  let devicesChanged: () => void = () => {};
+  const sdk = {
+    onAvdsChanged: vi.fn(),
+    getSdkPath: vi.fn().mockReturnValue("/sdk"),
+    listAvds: vi.fn().mockResolvedValue([avd]),
+    listAvdSnapshots: vi
+      .fn()
+      .mockResolvedValue([
+        { name: "default_boot", path: "", sizeBytes: 3 * 1024 * 1024, modified: new Date("2024-01-10T09:00:00Z") },
+      ]),
+  };
+  const adb = {
+    onDevicesChanged: vi.fn((listener: () => void) => (devicesChanged = listener)),
+    getDevices: vi.fn().mockResolvedValue(running ? [{ serial: "emulator-5554", state: "device" }] : []),
+    getEmulatorAvdName: vi.fn().mockResolvedValue(avd.name),
+  };
+  const console = { listSnapshots: vi.fn().mockResolvedValue([{ name: "logged_in", size: "129 MiB" }]) };
+  const emulatorConsole = { run: vi.fn((_serial: string, action: (c: typeof console) => unknown) => action(console)) };
+  const provider = new AvdManagerProvider(sdk as any, adb as any, emulatorConsole as any);
+  return { provider, sdk, emulatorConsole, refreshRunningState: () => devicesChanged() };
+}
+
+let provider: AvdManagerProvider | undefined;
+
+afterEach(() => {
+  provider?.dispose();
+  provider = undefined;
+});
+
+describe("AvdManagerProvider snapshots", () => {
+  async function getSnapshotsNode(avdProvider: AvdManagerProvider): Promise<SnapshotsItem> {
+    const [avdItem] = await avdProvider.getChildren();
+    const children = await avdProvider.getChildren(avdItem as AvdItem);
+    return children[children.length - 1] as SnapshotsItem;
+  }
+
+  it("reads the snapshots of a stopped AVD from disk", async () => {
+    const setup = createProvider(false);
+    provider = setup.provider;
+
+    const snapshots = (await provider.getChildren(await getSnapshotsNode(provider))) as SnapshotItem[];
+    expect(setup.sdk.listAvdSnapshots).toHaveBeenCalledWith(avd);
+    expect(setup.emulatorConsole.run).not.toHaveBeenCalled();
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0].snapshotName).toBe("default_boot");
+    expect(snapshots[0].contextValue).toBe("avdSnapshot.stopped");
+    expect(snapshots[0].description).toMatch(/^Quick Boot · 3 MB · /);
+  });
+
+  it("asks the console of a running emulator", async () => {
+    const setup = createProvider(true);
+    provider = setup.provider;
+    setup.refreshRunningState();
+    await vi.waitFor(async () => expect(((await provider!.getChildren())[0] as AvdItem).serial).toBe("emulator-5554"));
+
+    const node = await getSnapshotsNode(provider);
+    expect(node.contextValue).toBe("avdSnapshots.running");
+    const snapshots = (await provider.getChildren(node)) as SnapshotItem[];
+    expect(setup.emulatorConsole.run).toHaveBeenCalledWith("emulator-5554", expect.any(Function));
+    expect(setup.sdk.listAvdSnapshots).not.toHaveBeenCalled();
+    expect(snapshots.map((snapshot) => [snapshot.snapshotName, snapshot.serial, snapshot.description])).toEqual([
+      ["logged_in", "emulator-5554", "129 MiB"],
+    ]);
+  });
+});
@@ -148,6 +148,208 @@ describe("DevicesTreeProvider", () => {
     });
   });
 
+  describe("apps node", () => {
+    it("lists user and system apps with their metadata and components grouped by kind", async () => {
+      const adb = {
+        ...createMockAdbService([deviceReady]),
+        listInstalledPackages: vi.fn().mockResolvedValue([
+          { packageName: "com.example.b", apkPath: "/data/app/b/base.apk", system: false },
+          { packageName: "com.android.settings", apkPath: "/system/priv-app/Settings/Settings.apk", system: true },
+          { packageName: "com.example.a", apkPath: "/data/app/a/base.apk", uid: 10123, system: false },
+        ]),
+        getPackageDetails: vi.fn().mockResolvedValue({
+          packageName: "com.example.a",
+          versionName: "1.2.0",
+          versionCode: 12,
+          firstInstallTime: "2024-05-01 10:00:00",
+          installer: "com.android.vending",
+          dataDir: "/data/user/0/com.example.a",
+          system: false,
+          splits: ["base", "config.arm64_v8a"],
+          apks: [
+            { path: "/data/app/a/base.apk", size: 2048 },
+            { path: "/data/app/a/split_config.arm64_v8a.apk", size: 1024 },
+          ],
+        }),
+        getAppComponents: vi.fn().mockResolvedValue([
+          {
+            kind: "activity",
+            name: "com.example.a/.MainActivity",
+            className: "com.example.a.MainActivity",
+            authorities: [],
+            filters: [
+              {
+                actions: ["android.intent.action.MAIN"],
+                categories: ["android.intent.category.LAUNCHER"],
+                schemes: [],
+                authorities: [],
+                paths: [],
+                mimeTypes: [],
+              },
+            ],
+          },
+          {
+            kind: "provider",
+            name: "com.example.a/.NotesProvider",
+            className: "com.example.a.NotesProvider",
+            authorities: ["com.example.a.notes"],
+            filters: [],
+          },
+        ]),
+      };
+      const provider = new DevicesTreeProvider(adb as any);
+
+      const [device] = await provider.getChildren();
+      const apps = (await provider.getChildren(device)).at(-1);
+      expect(apps?.label).toBe("Apps");
+
+      const categories = await provider.getChildren(apps);
+      expect(categories.map((item) => [item.label, item.description])).toEqual([
+        ["User Apps", "2"],
+        ["System Apps", "1"],
+      ]);
+
+      const packages = await provider.getChildren(categories[0]);
+      expect(packages.map((item) => [item.label, item.contextValue])).toEqual([
+        ["com.example.a", "appPackage.user"],
+        ["com.example.b", "appPackage.user"],
+      ]);
+      const [system] = await provider.getChildren(categories[1]);
+      expect(system.contextValue).toBe("appPackage.system");
+
+      const rows = await provider.getChildren(packages[0]);
+      expect(adb.getPackageDetails).toHaveBeenCalledWith("emulator-5554", "com.example.a");
+      expect(rows.map((item) => [item.label, item.description])).toEqual([
+        ["Version", "1.2.0 (12)"],
+        ["Installed", "2024-05-01 10:00:00"],
+        ["Installer", "com.android.vending"],
+        ["base.apk", "2.0 KB"],
+        ["split_config.arm64_v8a.apk", "1.0 KB"],
+        ["Total size", "3.0 KB"],
+        ["Data dir", "/data/user/0/com.example.a"],
+        ["Activities", "1"],
+        ["Content Providers", "1"],
+      ]);
+      const groups = rows.slice(-2);
+
+      const [activity] = await provider.getChildren(groups[0]);
+      expect(activity.label).toBe(".MainActivity");
+      expect(activity.contextValue).toBe("appComponent.activity");
+
+      expect(activity.description).toBe("exported unknown");
+
+      const [exported, filter] = await provider.getChildren(activity);
+      expect([exported.label, exported.description]).toEqual(["Exported", "unknown"]);
+      expect(filter.label).toBe("MAIN");
+      const details = await provider.getChildren(filter);
+      expect(details.map((item) => [item.label, item.description])).toEqual([
+        ["Action", "android.intent.action.MAIN"],
+        ["Category", "android.intent.category.LAUNCHER"],
+      ]);
+    });
+
+    it("still lists components when package details fail", async () => {
+      const adb = {
+        ...createMockAdbService([deviceReady]),
+        listInstalledPackages: vi
+          .fn()
+          .mockResolvedValue([{ packageName: "com.example.a", apkPath: "/data/app/a/base.apk", system: false }]),
+        getPackageDetails: vi.fn().mockRejectedValue(new Error("Package com.example.a not found")),
+        getAppComponents: vi.fn().mockResolvedValue([
+          {
+            kind: "provider",
+            name: "com.example.a/.NotesProvider",
+            className: "com.example.a.NotesProvider",
+            authorities: ["com.example.a.notes"],
+            filters: [],
+          },
+        ]),
+      };
+      const provider = new DevicesTreeProvider(adb as any);
+
+      const [device] = await provider.getChildren();
+      const apps = (await provider.getChildren(device)).at(-1);
+      const [userApps] = await provider.getChildren(apps);
+      const [pkg] = await provider.getChildren(userApps);
+      const rows = await provider.getChildren(pkg);
+      expect(rows.map((item) => [item.label, item.description])).toEqual([
+        ["Details unavailable", "Package com.example.a not found"],
+        ["Content Providers", "1"],
+      ]);
+    });
+
+    it("is not shown for offline devices", async () => {
+      const adb = createMockAdbService([deviceOffline]);
+      const provider = new DevicesTreeProvider(adb as any);
+
+      const [device] = await provider.getChildren();
+      const children = await provider.getChildren(device);
+      expect(children.map((item) => item.label)).not.toContain("Apps");
+    });
+  });
+
+  describe("wireless discovery", () => {
+    const wirelessDevice = {
+      ...deviceUsb,
+      serial: "adb-R58M123-x1Yz2w._adb-tls-connect._tcp",
+      connectionType: "wireless" as const,
+    };
+
+    function createDiscovery(discovered: any[]) {
+      return { discovered, onDidChangeServices: vi.fn().mockReturnValue({ dispose: vi.fn() }) };
+    }
+
+    it("lists pairing services and connect services of devices not connected yet", async () => {
+      const adb = createMockAdbService([wirelessDevice]);
+      const discovery = createDiscovery([
+        {
+          name: "adb-R58M123-x1Yz2w",
+          type: "_adb-tls-connect._tcp",
+          address: "192.168.1.23:41235",
+          kind: "connect",
+          host: "192.168.1.23",
+          port: 41235,
+        },
+        {
+          name: "adb-P7A-q9",
+          type: "_adb-tls-connect._tcp",
+          address: "192.168.1.40:39001",
+          kind: "connect",
+          host: "192.168.1.40",
+          port: 39001,
+        },
+        {
+          name: "adb-P8B-k2",
+          type: "_adb-tls-pairing._tcp",
+          address: "192.168.1.41:37099",
+          kind: "pairing",
+          host: "192.168.1.41",
+          port: 37099,
+        },
+      ]);
+      const provider = new DevicesTreeProvider(adb as any, discovery as any);
+
+      const children = await provider.getChildren();
+      expect(children).toHaveLength(2);
+      const group = children[1];
+      expect(group.label).toBe("Wi-Fi Devices");
+
+      const services = await provider.getChildren(group);
+      expect(services.map((item) => [item.label, item.contextValue])).toEqual([
+        ["adb-P7A-q9", "mdnsService.connect"],
+        ["adb-P8B-k2", "mdnsService.pairing"],
+      ]);
+      expect(services[1].description).toBe("ready to pair · 192.168.1.41:37099");
+    });
+
+    it("adds no group when nothing is discovered", async () => {
+      const adb = createMockAdbService([]);
+      const provider = new DevicesTreeProvider(adb as any, createDiscovery([]) as any);
+
+      expect(await provider.getChildren()).toHaveLength(0);
+    });
+  });
+
   describe("getDevice", () => {
     it("finds device by serial", async () => {
       const adb = createMockAdbService([deviceReady, deviceUsb]);
@@ -158,4 +360,26 @@ describe("DevicesTreeProvider", () => {
       expect(provider.getDevice("nonexistent")).toBeUndefined();
     });
   });
+
+  describe("selection", () => {
+    it("tracks the selected device and keeps it while its children are selected", async () => {
+      const adb = createMockAdbService([deviceReady, deviceUsb]);
+      const provider = new DevicesTreeProvider(adb as any);
+      const selected = vi.fn();
+      provider.onDidChangeSelectedDevice(selected);
+
+      const [emulator, usb] = await provider.getChildren();
+      provider.setSelection([emulator]);
+      expect(provider.selectedDevice).toEqual(deviceReady);
+
+      const [androidVersion] = await provider.getChildren(emulator);
+      provider.setSelection([androidVersion]);
+      provider.setSelection([emulator]);
+      expect(selected).toHaveBeenCalledTimes(1);
+
+      provider.setSelection([usb]);
+      expect(selected).toHaveBeenLastCalledWith(deviceUsb);
+      expect(provider.selectedDevice?.serial).toBe("abc123");
+    });
+  });
 });
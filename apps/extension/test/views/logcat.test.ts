@@ -1,10 +1,14 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
 import { describe, expect, it, vi, beforeEach } from "vitest";
-import { commands } from "vscode";
+import { commands, window } from "vscode";
 import { __clearMockConfig, __setMockConfig } from "vscode";
-import type { LogcatEntry } from "@android-devkit/logcat";
+import { parseLogcatQuery, parseLogcatRecording, type LogcatEntry } from "@android-devkit/logcat";
 
 const { FakeStream } = vi.hoisted(() => {
   let currentStream: any;
+  const streams: any[] = [];
 
   class FakeStream {
     private listeners = new Map<string, Function[]>();
@@ -12,6 +16,7 @@ const { FakeStream } = vi.hoisted(() => {
 
     constructor(_opts?: any) {
       currentStream = this;
+      streams.push(this);
     }
 
     on(event: string, cb: Function) {
@@ -28,12 +33,14 @@ const { FakeStream } = vi.hoisted(() => {
     stop() { this.isRunning = false; }
 
     static getCurrent() { return currentStream; }
+    static getAll() { return streams; }
   }
 
   return { FakeStream };
 });
 
-vi.mock("@android-devkit/logcat", () => ({
+vi.mock("@android-devkit/logcat", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@android-devkit/logcat")>()),
   LogcatStream: FakeStream,
   clearLogcat: vi.fn(),
 }));
@@ -71,6 +78,7 @@ describe("LogcatTreeProvider", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     __clearMockConfig();
+    FakeStream.getAll().length = 0;
     logcatService = new LogcatService(createMockAdbService());
     provider = new LogcatTreeProvider(logcatService);
     provider.setHasAvailableDevices(true);
@@ -124,7 +132,7 @@ describe("LogcatTreeProvider", () => {
     it("filters by text filter", async () => {
       provider.start({ serial: "s1", minLevel: "V" });
       await flushPromises();
-      provider.setFilter("important");
+      provider.setFilter(parseLogcatQuery("important"));
 
       const stream = FakeStream.getCurrent();
       stream.emit("entry", makeEntry({ message: "not relevant" }));
@@ -134,6 +142,58 @@ describe("LogcatTreeProvider", () => {
       expect(provider.getEntries()).toHaveLength(2);
     });
 
+    it("filters by field-scoped query", async () => {
+      provider.start({ serial: "s1", minLevel: "V" });
+      await flushPromises();
+      provider.setFilter(parseLogcatQuery('tag:OkHttp -tag:Choreographer message~"timeout \\d+"'));
+
+      const stream = FakeStream.getCurrent();
+      stream.emit("entry", makeEntry({ tag: "OkHttp", message: "timeout 30" }));
+      stream.emit("entry", makeEntry({ tag: "OkHttp", message: "connected" }));
+      stream.emit("entry", makeEntry({ tag: "Choreographer", message: "timeout 5" }));
+
+      expect(provider.getEntries().map((e) => e.message)).toEqual(["timeout 30"]);
+    });
+
+    it("mutes a tag by extending the query", async () => {
+      provider.start({ serial: "s1", minLevel: "V" });
+      provider.setFilter(parseLogcatQuery("level>=D"));
+      provider.muteTag("Choreographer");
+      provider.muteTag("My Tag");
+      await flushPromises();
+
+      expect(provider.getFilter()?.source).toBe('level>=D -tag=Choreographer -tag="My Tag"');
+      const stream = FakeStream.getCurrent();
+      stream.emit("entry", makeEntry({ tag: "Choreographer" }));
+      stream.emit("entry", makeEntry({ tag: "My Tag" }));
+      stream.emit("entry", makeEntry({ tag: "OkHttp" }));
+      expect(provider.getEntries().map((e) => e.tag)).toEqual(["OkHttp"]);
+    });
+
+    it("mutes a tag when the current query source no longer parses", async () => {
+      provider.start({ serial: "s1", minLevel: "V" });
+      provider.setFilter({ source: 'tag:"OkHttp', terms: parseLogcatQuery("tag:OkHttp").terms });
+      provider.muteTag("OkHttp");
+      await flushPromises();
+
+      expect(provider.getFilter()?.source).toBe('tag:"OkHttp -tag=OkHttp');
+      FakeStream.getCurrent().emit("entry", makeEntry({ tag: "OkHttp" }));
+      expect(provider.getEntries()).toHaveLength(0);
+    });
+
+    it("re-applies the current query for matching entries", async () => {
+      provider.start({ serial: "s1", minLevel: "V" });
+      await flushPromises();
+
+      const stream = FakeStream.getCurrent();
+      stream.emit("entry", makeEntry({ tag: "OkHttp" }));
+      stream.emit("entry", makeEntry({ tag: "Retrofit" }));
+      provider.setFilter(parseLogcatQuery("tag:OkHttp"));
+
+      expect(provider.getEntries()).toHaveLength(2);
+      expect(provider.getMatchingEntries().map((e) => e.tag)).toEqual(["OkHttp"]);
+    });
+
     it("filters by PID", async () => {
       provider.start({ serial: "s1", minLevel: "V", pid: 1234 });
       await flushPromises();
@@ -147,6 +207,93 @@ describe("LogcatTreeProvider", () => {
     });
   });
 
+  describe("package process tracking", () => {
+    const startProc = (pid: number, processName: string) =>
+      makeEntry({
+        pid: 560,
+        tag: "ActivityManager",
+        message: `Start proc ${pid}:${processName}/u0a123 for activity {${processName}/.MainActivity}`,
+      });
+
+    it("follows the package across restarts and marks them in the stream", async () => {
+      provider.start({ serial: "s1", minLevel: "W", packageName: "com.test", pid: 100 });
+      await flushPromises();
+
+      const stream = FakeStream.getCurrent();
+      stream.emit("entry", makeEntry({ pid: 100, level: "E", message: "before" }));
+      stream.emit("entry", startProc(200, "com.test"));
+      stream.emit("entry", makeEntry({ pid: 200, level: "E", message: "after" }));
+      stream.emit("entry", makeEntry({ pid: 999, level: "E", message: "other app" }));
+
+      expect(provider.getEntries().map((e) => e.message)).toEqual([
+        "before",
+        "com.test process restarted (pid 100 → 200)",
+        "after",
+      ]);
+      expect(provider.getSession().pid).toBe(200);
+    });
+
+    it("includes secondary processes of the package", async () => {
+      provider.start({
+        serial: "s1",
+        minLevel: "V",
+        packageName: "com.test",
+        pid: 100,
+        processes: [{ pid: 101, processName: "com.test:remote" }],
+      });
+      await flushPromises();
+
+      const stream = FakeStream.getCurrent();
+      stream.emit("entry", makeEntry({ pid: 101, message: "remote" }));
+      stream.emit("entry", startProc(201, "com.test:remote"));
+      stream.emit("entry", makeEntry({ pid: 201, message: "remote again" }));
+
+      expect(provider.getEntries().map((e) => e.message)).toEqual([
+        "remote",
+        "com.test:remote process restarted (pid 101 → 201)",
+        "remote again",
+      ]);
+    });
+
+    it("streams without a device-side PID filter while tracking", async () => {
+      const startSpy = vi.spyOn(logcatService, "start");
+      provider.start({ serial: "s1", minLevel: "E", packageName: "com.test", pid: 100 });
+
+      expect(startSpy).toHaveBeenCalledWith({ minLevel: "I", serial: "s1" });
+    });
+  });
+
+  describe("buffers", () => {
+    it("restarts the stream with the chosen buffers", async () => {
+      const startSpy = vi.spyOn(logcatService, "start");
+      provider.start({ serial: "s1", minLevel: "I" });
+      provider.setBuffers(["main", "events"]);
+
+      expect(provider.getSession().buffers).toEqual(["main", "events"]);
+      expect(startSpy).toHaveBeenLastCalledWith({
+        minLevel: "I",
+        pid: undefined,
+        buffers: ["main", "events"],
+        serial: "s1",
+      });
+    });
+
+    it("shows buffered entries per buffer", async () => {
+      provider.start({ serial: "s1", minLevel: "V" });
+      provider.setBuffers(["main", "events"]);
+      await flushPromises();
+
+      const stream = FakeStream.getCurrent();
+      stream.emit("entry", makeEntry({ buffer: "main" }));
+      stream.emit("entry", makeEntry({ buffer: "events", tag: "am_proc_start" }));
+      stream.emit("entry", makeEntry({ buffer: "events", tag: "am_proc_died" }));
+
+      const children = await provider.getChildren();
+      const buffersItem = children.find((c) => c.label === "Buffers");
+      expect(buffersItem!.description).toBe("main 1 · events 2");
+    });
+  });
+
   describe("max entries rotation", () => {
     it("rotates entries when exceeding max", async () => {
       __setMockConfig("logcat.maxLines", 3);
@@ -184,7 +331,7 @@ describe("LogcatTreeProvider", () => {
 
     it("shows filter item when filter is set", async () => {
       provider.start({ serial: "s1", minLevel: "I" });
-      provider.setFilter("myfilter");
+      provider.setFilter(parseLogcatQuery("myfilter"));
       const children = await provider.getChildren();
 
       const filterItem = children.find((c) => c.label === "Filter");
@@ -203,6 +350,203 @@ describe("LogcatTreeProvider", () => {
     });
   });
 
+  describe("crashes", () => {
+    const trace = [
+      "FATAL EXCEPTION: main",
+      "Process: com.example.app, PID: 1234",
+      "java.lang.IllegalStateException: boom",
+      "\tat com.example.app.MainActivity.onCreate(MainActivity.kt:42)",
+      "\tat android.app.Activity.performCreate(Activity.java:8000)",
+    ].join("\n");
+
+    it("groups a fatal exception into a collapsible crash node", async () => {
+      provider.start({ serial: "s1", minLevel: "V" });
+      await flushPromises();
+      FakeStream.getCurrent().emit("entry", makeEntry({ tag: "AndroidRuntime", level: "E", message: trace }));
+
+      const children = await provider.getChildren();
+      const crashItem = children.find((c) => c.label === "IllegalStateException");
+      expect(crashItem).toBeDefined();
+      expect(crashItem!.description).toContain("com.example.app");
+
+      const lines = await provider.getChildren(crashItem);
+      expect(lines.map((line) => line.label)).toEqual([
+        "java.lang.IllegalStateException: boom",
+        "com.example.app.MainActivity.onCreate(MainActivity.kt:42)",
+        "android.app.Activity.performCreate(Activity.java:8000)",
+      ]);
+    });
+
+    it("clears crashes with the buffer", async () => {
+      provider.start({ serial: "s1", minLevel: "V" });
+      await flushPromises();
+      FakeStream.getCurrent().emit("entry", makeEntry({ tag: "AndroidRuntime", level: "E", message: trace }));
+      expect(provider.getCrashes()).toHaveLength(1);
+
+      await provider.clear();
+      expect(provider.getCrashes()).toHaveLength(0);
+    });
+  });
+
+  describe("recording and replay", () => {
+    it("records every streamed entry with a metadata header", async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "logcat-recording-"));
+      const filePath = path.join(dir, "session.jsonl");
+      provider.start({ serial: "s1", minLevel: "V" });
+      await flushPromises();
+      provider.setFilter(parseLogcatQuery("tag:Kept"));
+      provider.startRecording(filePath, { startedAt: new Date(), device: { serial: "s1" }, packageName: "com.test" });
+
+      const stream = FakeStream.getCurrent();
+      stream.emit("entry", makeEntry({ tag: "Kept" }));
+      stream.emit("entry", makeEntry({ tag: "Filtered" }));
+
+      await expect(provider.stopRecording()).resolves.toEqual({ filePath, entryCount: 2 });
+      const recording = parseLogcatRecording(fs.readFileSync(filePath, "utf8"));
+      expect(recording.header.packageName).toBe("com.test");
+      expect(recording.entries.map((e) => e.tag)).toEqual(["Kept", "Filtered"]);
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("stops recording and reports the error when the file cannot be written", async () => {
+      const filePath = path.join(os.tmpdir(), "missing-logcat-dir", "nested", "session.jsonl");
+      provider.start({ serial: "s1", minLevel: "V" });
+      await flushPromises();
+      provider.startRecording(filePath, { startedAt: new Date() });
+      FakeStream.getCurrent().emit("entry", makeEntry());
+
+      await vi.waitFor(() => expect(provider.isRecording()).toBe(false));
+      expect(window.showErrorMessage).toHaveBeenCalledWith(expect.stringContaining("Logcat recording to"));
+      await expect(provider.stopRecording()).resolves.toBeUndefined();
+    });
+
+    it("loads a recording as a read-only session that honours filters", async () => {
+      provider.setHasAvailableDevices(false);
+      provider.loadRecording("bug-123.jsonl", {
+        header: { startedAt: new Date() },
+        entries: [
+          makeEntry({ level: "D", tag: "OkHttp" }),
+          makeEntry({ level: "E", tag: "OkHttp" }),
+          makeEntry({ level: "E", tag: "Choreographer" }),
+        ],
+      });
+
+      expect(provider.getSessionState()).toBe("replay");
+      provider.setMinLevel("V");
+      expect(provider.getEntries()).toHaveLength(3);
+
+      provider.setMinLevel("W");
+      provider.setFilter(parseLogcatQuery("-tag:Choreographer"));
+      expect(provider.getEntries().map((e) => `${e.level}/${e.tag}`)).toEqual(["E/OkHttp"]);
+
+      const children = await provider.getChildren();
+      expect(children[0].label).toBe("Replay");
+      expect(children[0].description).toBe("bug-123.jsonl");
+    });
+
+    it("leaves replay when a live session starts", () => {
+      provider.loadRecording("bug-123.jsonl", { header: { startedAt: new Date() }, entries: [makeEntry()] });
+      provider.start({ serial: "s1", minLevel: "V" });
+
+      expect(provider.getSessionState()).toBe("running");
+      expect(provider.getEntries()).toHaveLength(0);
+    });
+  });
+
+  describe("multiple devices", () => {
+    async function startTwoDevices() {
+      provider.start({ serial: "emulator-5554", deviceLabel: "Pixel 8", minLevel: "V" });
+      await flushPromises();
+      provider.start({ serial: "R58M123", deviceLabel: "Galaxy S21", minLevel: "V" });
+      await flushPromises();
+      const [pixel, galaxy] = provider.getSessions();
+      const [pixelStream, galaxyStream] = FakeStream.getAll();
+      return { pixel, galaxy, pixelStream, galaxyStream };
+    }
+
+    it("leaves other devices streaming when a session without a device stops", async () => {
+      await logcatService.start({ serial: "R58M123" });
+      provider.start({ minLevel: "V" });
+      expect(provider.getSessionState()).toBe("running");
+
+      provider.stop();
+      await flushPromises();
+      expect(logcatService.isStreaming("R58M123")).toBe(true);
+    });
+
+    it("opens a session per device next to the running one", async () => {
+      const { pixel, galaxy, pixelStream, galaxyStream } = await startTwoDevices();
+
+      expect(provider.getSessions()).toHaveLength(2);
+      expect(pixel.state).toBe("running");
+      expect(galaxy.state).toBe("running");
+      expect(pixelStream.isRunning).toBe(true);
+      expect(galaxyStream.isRunning).toBe(true);
+    });
+
+    it("keeps buffers and filters per session", async () => {
+      const { pixel, galaxy, pixelStream, galaxyStream } = await startTwoDevices();
+      provider.setActiveSession(pixel);
+      provider.setFilter(parseLogcatQuery("tag:OkHttp"));
+
+      pixelStream.emit("entry", makeEntry({ tag: "OkHttp" }));
+      pixelStream.emit("entry", makeEntry({ tag: "Retrofit" }));
+      galaxyStream.emit("entry", makeEntry({ tag: "Retrofit" }));
+
+      expect(pixel.buffer.getEntries().map((e) => e.tag)).toEqual(["OkHttp"]);
+      expect(galaxy.buffer.getEntries().map((e) => e.tag)).toEqual(["Retrofit"]);
+      expect(galaxy.filter).toBeUndefined();
+    });
+
+    it("pauses one session while the other keeps streaming", async () => {
+      const { pixel, galaxy, galaxyStream } = await startTwoDevices();
+      provider.setActiveSession(pixel);
+      provider.pause();
+
+      expect(pixel.state).toBe("paused");
+      expect(galaxy.state).toBe("running");
+      expect(galaxyStream.isRunning).toBe(true);
+    });
+
+    it("interleaves sessions by timestamp and labels each entry with its device", async () => {
+      const { pixelStream, galaxyStream } = await startTwoDevices();
+      pixelStream.emit("entry", makeEntry({ timestamp: new Date("2024-01-15T12:00:01Z"), message: "p1" }));
+      pixelStream.emit("entry", makeEntry({ timestamp: new Date("2024-01-15T12:00:03Z"), message: "p2" }));
+      galaxyStream.emit("entry", makeEntry({ timestamp: new Date("2024-01-15T12:00:02Z"), message: "g1" }));
+
+      expect(provider.getMergedEntries().map(({ label, entry }) => `${label}:${entry.message}`)).toEqual([
+        "Pixel 8:p1",
+        "Galaxy S21:g1",
+        "Pixel 8:p2",
+      ]);
+    });
+
+    it("groups the tree by device with a merged node", async () => {
+      await startTwoDevices();
+      const children = await provider.getChildren();
+
+      expect(children.map((c) => c.label)).toEqual(["Merged", "Pixel 8", "Galaxy S21"]);
+      const sessionChildren = await provider.getChildren(children[1]);
+      expect(sessionChildren[0].label).toBe("Running");
+    });
+
+    it("stops only the session whose device disconnected", async () => {
+      const { pixel, galaxy } = await startTwoDevices();
+      provider.setHasAvailableDevices(true, ["R58M123"]);
+
+      expect(pixel.state).toBe("stopped");
+      expect(galaxy.state).toBe("running");
+    });
+
+    it("closing a session removes it from the view", async () => {
+      const { pixel, galaxy } = await startTwoDevices();
+      provider.closeSession(pixel);
+
+      expect(provider.getSessions()).toEqual([galaxy]);
+      expect(provider.getActiveSession()).toBe(galaxy);
+    });
+  });
+
   describe("getEntries", () => {
     it("returns readonly array of entries", async () => {
       provider.start({ serial: "s1", minLevel: "V" });
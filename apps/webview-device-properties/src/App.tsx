@@ -0,0 +1,104 @@
+import { useCallback, useMemo, useState } from "react";
+import { PropertiesTable } from "./components/PropertiesTable";
+import { PropertiesToolbar } from "./components/PropertiesToolbar";
+import { Spinner } from "./components/ui/Spinner";
+import { useDevicePropertiesMessages } from "./hooks/useDevicePropertiesMessages";
+import { buildPropertyGroups } from "./props/grouping";
+
+export function App() {
+  const { state, refresh, compareWith, copy } = useDevicePropertiesMessages();
+  const [query, setQuery] = useState("");
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const [toggled, setToggled] = useState<Set<string>>(new Set());
+
+  const { device, comparison } = state;
+  const diffOnly = onlyDifferences && comparison !== null;
+
+  const groups = useMemo(
+    () =>
+      device ? buildPropertyGroups(device.props, comparison?.props ?? null, { query, onlyDifferences: diffOnly }) : [],
+    [device, comparison, query, diffOnly],
+  );
+
+  // Groups start collapsed, but searching or diffing shows every match
+  const expandByDefault = query.trim() !== "" || diffOnly;
+  const isExpanded = useCallback(
+    (prefix: string) => (toggled.has(prefix) ? !expandByDefault : expandByDefault),
+    [toggled, expandByDefault],
+  );
+
+  const changeQuery = useCallback((value: string) => {
+    setQuery(value);
+    setToggled(new Set());
+  }, []);
+
+  const changeOnlyDifferences = useCallback((value: boolean) => {
+    setOnlyDifferences(value);
+    setToggled(new Set());
+  }, []);
+
+  const toggleGroup = useCallback((prefix: string) => {
+    setToggled((current) => {
+      const next = new Set(current);
+      if (next.has(prefix)) next.delete(prefix);
+      else next.add(prefix);
+      return next;
+    });
+  }, []);
+
+  if (!device) {
+    return (
+      <div
+        className="flex h-screen items-center justify-center gap-2 text-sm"
+        style={{ color: "var(--vscode-descriptionForeground)" }}
+      >
+        {state.error ? (
+          `Failed to read device properties: ${state.error}`
+        ) : (
+          <>
+            <Spinner />
+            Reading device properties...
+          </>
+        )}
+      </div>
+    );
+  }
+
+  const propertyCount = Object.keys(device.props).length;
+
+  return (
+    <div className="flex h-screen flex-col" style={{ color: "var(--vscode-foreground)" }}>
+      <PropertiesToolbar
+        deviceSerial={device.serial}
+        devices={state.devices}
+        comparisonSerial={comparison?.serial ?? null}
+        query={query}
+        onlyDifferences={onlyDifferences}
+        loading={state.loading}
+        onQueryChange={changeQuery}
+        onCompareWith={compareWith}
+        onOnlyDifferencesChange={changeOnlyDifferences}
+        onRefresh={refresh}
+      />
+      <div
+        className="flex items-center gap-2 px-3 py-1.5 text-xs"
+        style={{ color: "var(--vscode-descriptionForeground)" }}
+      >
+        {state.loading && <Spinner />}
+        <span>
+          {device.name} · {propertyCount} properties
+          {comparison && ` · compared with ${comparison.name} (${Object.keys(comparison.props).length})`}
+        </span>
+        {state.error && <span style={{ color: "var(--vscode-errorForeground)" }}>{state.error}</span>}
+      </div>
+      <PropertiesTable
+        groups={groups}
+        device={device}
+        comparison={comparison}
+        isExpanded={isExpanded}
+        onToggleGroup={toggleGroup}
+        onCopy={copy}
+      />
+    </div>
+  );
+}
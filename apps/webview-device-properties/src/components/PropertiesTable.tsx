@@ -0,0 +1,137 @@
+import type { DiffStatus, PropertyGroup, PropertyRow } from "../props/grouping";
+import type { DeviceProperties } from "../types";
+import { ChevronIcon } from "./ui/ChevronIcon";
+
+interface PropertiesTableProps {
+  groups: PropertyGroup[];
+  device: DeviceProperties;
+  comparison: DeviceProperties | null;
+  isExpanded: (prefix: string) => boolean;
+  onToggleGroup: (prefix: string) => void;
+  onCopy: (text: string) => void;
+}
+
+const STATUS_COLORS: Record<DiffStatus, string | undefined> = {
+  same: undefined,
+  changed: "var(--vscode-gitDecoration-modifiedResourceForeground)",
+  "only-device": "var(--vscode-gitDecoration-deletedResourceForeground)",
+  "only-comparison": "var(--vscode-gitDecoration-addedResourceForeground)",
+};
+
+const BORDER_STYLE = { borderColor: "var(--vscode-panel-border)" };
+
+function ValueCell({ value, status, onCopy }: { value?: string; status: DiffStatus; onCopy: (text: string) => void }) {
+  if (value === undefined) {
+    return (
+      <td className="px-3 py-1 italic" style={{ color: "var(--vscode-descriptionForeground)" }}>
+        not set
+      </td>
+    );
+  }
+  return (
+    <td
+      className="cursor-copy break-all px-3 py-1 font-mono text-xs"
+      style={{ color: STATUS_COLORS[status] }}
+      title="Click to copy"
+      onClick={() => onCopy(value)}
+    >
+      {value || <span style={{ color: "var(--vscode-descriptionForeground)" }}>(empty)</span>}
+    </td>
+  );
+}
+
+function PropertyRowView({
+  row,
+  comparing,
+  onCopy,
+}: {
+  row: PropertyRow;
+  comparing: boolean;
+  onCopy: (text: string) => void;
+}) {
+  return (
+    <tr className="border-b align-top" style={BORDER_STYLE}>
+      <td
+        className="cursor-copy break-all py-1 pl-9 pr-3 font-mono text-xs"
+        style={{ color: STATUS_COLORS[row.status] }}
+        title="Click to copy"
+        onClick={() => onCopy(row.key)}
+      >
+        {row.key}
+      </td>
+      <ValueCell value={row.value} status={row.status} onCopy={onCopy} />
+      {comparing && <ValueCell value={row.comparisonValue} status={row.status} onCopy={onCopy} />}
+    </tr>
+  );
+}
+
+export function PropertiesTable({
+  groups,
+  device,
+  comparison,
+  isExpanded,
+  onToggleGroup,
+  onCopy,
+}: PropertiesTableProps) {
+  const comparing = comparison !== null;
+
+  if (groups.length === 0) {
+    return (
+      <div className="p-4 text-sm" style={{ color: "var(--vscode-descriptionForeground)" }}>
+        No matching properties.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <table className="w-full table-fixed text-sm">
+        <thead>
+          <tr
+            className="sticky top-0 z-10 text-left text-xs"
+            style={{
+              backgroundColor: "var(--vscode-editor-background)",
+              color: "var(--vscode-descriptionForeground)",
+              borderBottom: "1px solid var(--vscode-panel-border)",
+            }}
+          >
+            <th className="w-2/5 px-3 py-2 font-medium">Property</th>
+            <th className="px-3 py-2 font-medium">{comparing ? device.name : "Value"}</th>
+            {comparing && <th className="px-3 py-2 font-medium">{comparison.name}</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map((group) => {
+            const expanded = isExpanded(group.prefix);
+            return [
+              <tr
+                key={group.prefix}
+                className="cursor-pointer border-b"
+                style={BORDER_STYLE}
+                onClick={() => onToggleGroup(group.prefix)}
+              >
+                <td colSpan={comparing ? 3 : 2} className="px-3 py-1.5">
+                  <span className="inline-flex items-center gap-1">
+                    <ChevronIcon expanded={expanded} />
+                    <span className="font-mono font-semibold">
+                      {group.prefix === "other" ? "other" : `${group.prefix}.*`}
+                    </span>
+                    <span className="ml-2 text-xs" style={{ color: "var(--vscode-descriptionForeground)" }}>
+                      {group.rows.length}
+                      {comparing && group.differenceCount > 0 && ` · ${group.differenceCount} different`}
+                    </span>
+                  </span>
+                </td>
+              </tr>,
+              ...(expanded
+                ? group.rows.map((row) => (
+                    <PropertyRowView key={row.key} row={row} comparing={comparing} onCopy={onCopy} />
+                  ))
+                : []),
+            ];
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
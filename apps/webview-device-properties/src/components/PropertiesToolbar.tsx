@@ -0,0 +1,89 @@
+import type { DeviceSummary } from "../types";
+
+interface PropertiesToolbarProps {
+  deviceSerial: string | null;
+  devices: DeviceSummary[];
+  comparisonSerial: string | null;
+  query: string;
+  onlyDifferences: boolean;
+  loading: boolean;
+  onQueryChange: (query: string) => void;
+  onCompareWith: (serial: string | null) => void;
+  onOnlyDifferencesChange: (value: boolean) => void;
+  onRefresh: () => void;
+}
+
+const INPUT_STYLE = {
+  backgroundColor: "var(--vscode-input-background)",
+  color: "var(--vscode-input-foreground)",
+  borderColor: "var(--vscode-input-border, transparent)",
+};
+
+export function PropertiesToolbar({
+  deviceSerial,
+  devices,
+  comparisonSerial,
+  query,
+  onlyDifferences,
+  loading,
+  onQueryChange,
+  onCompareWith,
+  onOnlyDifferencesChange,
+  onRefresh,
+}: PropertiesToolbarProps) {
+  const otherDevices = devices.filter((device) => device.serial !== deviceSerial);
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-3 border-b px-3 py-2 text-sm"
+      style={{ borderColor: "var(--vscode-panel-border)" }}
+    >
+      <input
+        type="search"
+        value={query}
+        onChange={(event) => onQueryChange(event.target.value)}
+        placeholder="Search properties and values"
+        aria-label="Search properties"
+        className="min-w-60 flex-1 rounded border px-2 py-1 outline-none focus:border-(--vscode-focusBorder)"
+        style={INPUT_STYLE}
+      />
+      <label className="flex items-center gap-2">
+        <span style={{ color: "var(--vscode-descriptionForeground)" }}>Compare with</span>
+        <select
+          value={comparisonSerial ?? ""}
+          onChange={(event) => onCompareWith(event.target.value || null)}
+          disabled={loading}
+          className="rounded border px-1 py-1"
+          style={INPUT_STYLE}
+        >
+          <option value="">None</option>
+          {otherDevices.map((device) => (
+            <option key={device.serial} value={device.serial}>
+              {device.name} ({device.serial})
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-1.5" style={{ opacity: comparisonSerial ? 1 : 0.4 }}>
+        <input
+          type="checkbox"
+          checked={onlyDifferences}
+          disabled={!comparisonSerial}
+          onChange={(event) => onOnlyDifferencesChange(event.target.checked)}
+        />
+        Only differences
+      </label>
+      <button
+        type="button"
+        onClick={onRefresh}
+        disabled={loading}
+        className="cursor-pointer rounded px-2 py-1 text-xs disabled:cursor-not-allowed disabled:opacity-40"
+        style={{ color: "var(--vscode-descriptionForeground)" }}
+        title="Refresh"
+        aria-label="Refresh properties"
+      >
+        ↻
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from "react";
+import { postMessage } from "../lib/vscode";
+import type { DeviceProperties, DeviceSummary, MessageToWebview } from "../types";
+
+export interface DevicePropertiesAppState {
+  devices: DeviceSummary[];
+  device: DeviceProperties | null;
+  comparison: DeviceProperties | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const initialState: DevicePropertiesAppState = {
+  devices: [],
+  device: null,
+  comparison: null,
+  loading: true,
+  error: null,
+};
+
+interface UseDevicePropertiesMessagesResult {
+  state: DevicePropertiesAppState;
+  refresh: () => void;
+  compareWith: (serial: string | null) => void;
+  copy: (text: string) => void;
+}
+
+export function useDevicePropertiesMessages(): UseDevicePropertiesMessagesResult {
+  const [state, setState] = useState<DevicePropertiesAppState>(initialState);
+
+  useEffect(() => {
+    const handler = (event: MessageEvent<MessageToWebview>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "loading":
+          setState((current) => ({ ...current, loading: true, error: null }));
+          break;
+        case "devices":
+          setState((current) => ({ ...current, devices: message.devices }));
+          break;
+        case "properties":
+          setState((current) => ({
+            ...current,
+            device: message.device,
+            comparison: message.comparison,
+            loading: false,
+            error: null,
+          }));
+          break;
+        case "error":
+          setState((current) => ({ ...current, loading: false, error: message.message }));
+          break;
+      }
+    };
+
+    window.addEventListener("message", handler);
+    postMessage({ type: "ready" });
+    return () => window.removeEventListener("message", handler);
+  }, []);
+
+  const refresh = useCallback(() => {
+    postMessage({ type: "refresh" });
+  }, []);
+
+  const compareWith = useCallback((serial: string | null) => {
+    postMessage({ type: "compare", serial });
+  }, []);
+
+  const copy = useCallback((text: string) => {
+    postMessage({ type: "copy", text });
+  }, []);
+
+  return { state, refresh, compareWith, copy };
+}
@@ -0,0 +1,86 @@
+/** How a property compares between the device and the comparison device */
+export type DiffStatus = "same" | "changed" | "only-device" | "only-comparison";
+
+export interface PropertyRow {
+  key: string;
+  value?: string;
+  comparisonValue?: string;
+  status: DiffStatus;
+}
+
+export interface PropertyGroup {
+  prefix: string;
+  rows: PropertyRow[];
+  differenceCount: number;
+}
+
+export interface PropertyFilter {
+  query: string;
+  onlyDifferences: boolean;
+}
+
+/** `ro.*` and `vendor.*` hold most properties, so they group one level deeper */
+const NESTED_NAMESPACES = new Set(["ro", "vendor"]);
+
+/**
+ * `ro.build.version.sdk` → `ro.build`, `persist.sys.locale` → `persist`,
+ * keys without a dot → `other`.
+ */
+export function getPropertyGroup(key: string): string {
+  const parts = key.split(".");
+  if (parts.length < 2) return "other";
+  if (NESTED_NAMESPACES.has(parts[0]) && parts.length > 2) return `${parts[0]}.${parts[1]}`;
+  return parts[0];
+}
+
+function compareRow(
+  key: string,
+  props: Record<string, string>,
+  comparison: Record<string, string> | null,
+): PropertyRow {
+  const value = props[key];
+  if (!comparison) return { key, value, status: "same" };
+
+  const comparisonValue = comparison[key];
+  if (value === undefined) return { key, comparisonValue, status: "only-comparison" };
+  if (comparisonValue === undefined) return { key, value, status: "only-device" };
+  return { key, value, comparisonValue, status: value === comparisonValue ? "same" : "changed" };
+}
+
+function matchesQuery(row: PropertyRow, query: string): boolean {
+  if (!query) return true;
+  return [row.key, row.value, row.comparisonValue].some((text) => text?.toLowerCase().includes(query));
+}
+
+/**
+ * Group properties by prefix, merging in the comparison device's keys when
+ * diffing, and drop rows that don't match the search or aren't different.
+ */
+export function buildPropertyGroups(
+  props: Record<string, string>,
+  comparison: Record<string, string> | null,
+  filter: PropertyFilter,
+): PropertyGroup[] {
+  const keys = new Set([...Object.keys(props), ...Object.keys(comparison ?? {})]);
+  const query = filter.query.trim().toLowerCase();
+  const groups = new Map<string, PropertyRow[]>();
+
+  for (const key of [...keys].sort()) {
+    const row = compareRow(key, props, comparison);
+    if (filter.onlyDifferences && row.status === "same") continue;
+    if (!matchesQuery(row, query)) continue;
+
+    const prefix = getPropertyGroup(key);
+    const rows = groups.get(prefix) ?? [];
+    rows.push(row);
+    groups.set(prefix, rows);
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a === "other" ? 1 : b === "other" ? -1 : a.localeCompare(b)))
+    .map(([prefix, rows]) => ({
+      prefix,
+      rows,
+      differenceCount: rows.filter((row) => row.status !== "same").length,
+    }));
+}
@@ -0,0 +1,20 @@
+export interface DeviceSummary {
+  serial: string;
+  name: string;
+}
+
+export interface DeviceProperties extends DeviceSummary {
+  props: Record<string, string>;
+}
+
+export type MessageToHost =
+  | { type: "ready" }
+  | { type: "refresh" }
+  | { type: "compare"; serial: string | null }
+  | { type: "copy"; text: string };
+
+export type MessageToWebview =
+  | { type: "loading" }
+  | { type: "devices"; devices: DeviceSummary[] }
+  | { type: "properties"; device: DeviceProperties; comparison: DeviceProperties | null }
+  | { type: "error"; message: string };
@@ -0,0 +1,19 @@
+import { defineConfig } from "vite";
+import react, { reactCompilerPreset } from "@vitejs/plugin-react";
+import tailwindcss from "@tailwindcss/vite";
+import babel from "@rolldown/plugin-babel";
+
+export default defineConfig({
+  plugins: [react(), babel({ presets: [reactCompilerPreset()] }), tailwindcss()],
+  build: {
+    outDir: "../extension/dist/webview-device-properties",
+    emptyOutDir: true,
+    rolldownOptions: {
+      output: {
+        entryFileNames: "index.js",
+        chunkFileNames: "index.js",
+        assetFileNames: "index.css",
+      },
+    },
+  },
+});
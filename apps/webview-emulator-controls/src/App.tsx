@@ -0,0 +1,69 @@
+import { BatteryControls } from "./components/BatteryControls";
+import { INPUT_STYLE } from "./components/ControlSection";
+import { NetworkControls } from "./components/NetworkControls";
+import { Spinner } from "./components/ui/Spinner";
+import { useEmulatorControlsMessages } from "./hooks/useEmulatorControlsMessages";
+
+export function App() {
+  const { state, send } = useEmulatorControlsMessages();
+  const { emulators, serial, controls, loading, error } = state;
+
+  return (
+    <div className="mx-auto flex max-w-xl flex-col gap-4 px-6 py-6 text-sm">
+      <div className="flex items-center gap-3">
+        <h1 className="flex-1 text-lg font-semibold">Emulator Controls</h1>
+        {loading && serial && <Spinner />}
+        <select
+          value={serial ?? ""}
+          onChange={(event) => send({ type: "attach", serial: event.target.value })}
+          disabled={emulators.length === 0}
+          aria-label="Emulator"
+          className="rounded border px-1 py-1"
+          style={INPUT_STYLE}
+        >
+          {emulators.length === 0 && <option value="">No running emulators</option>}
+          {emulators.map((emulator) => (
+            <option key={emulator.serial} value={emulator.serial}>
+              {emulator.name} ({emulator.serial})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div
+          className="flex items-center gap-3 rounded border px-3 py-2"
+          style={{ borderColor: "var(--vscode-inputValidation-errorBorder)" }}
+        >
+          <span className="flex-1" style={{ color: "var(--vscode-errorForeground)" }}>
+            {error}
+          </span>
+          <button
+            type="button"
+            onClick={() => send({ type: "refresh" })}
+            className="cursor-pointer rounded px-2 py-1 text-xs"
+            style={{
+              background: "var(--vscode-button-secondaryBackground)",
+              color: "var(--vscode-button-secondaryForeground)",
+            }}
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      {!serial && (
+        <p style={{ color: "var(--vscode-descriptionForeground)" }}>
+          Start an emulator or select one in the Devices view to control it.
+        </p>
+      )}
+
+      {controls && (
+        <>
+          <NetworkControls controls={controls} disabled={loading} send={send} />
+          <BatteryControls controls={controls} disabled={loading} send={send} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import type { BatteryHealth, BatteryStatus, EmulatorControlsState, MessageToHost } from "../types";
+import { ControlRow, ControlSection, INPUT_STYLE } from "./ControlSection";
+
+const STATUSES: { value: BatteryStatus; label: string }[] = [
+  { value: "unknown", label: "Unknown" },
+  { value: "charging", label: "Charging" },
+  { value: "discharging", label: "Discharging" },
+  { value: "not-charging", label: "Not charging" },
+  { value: "full", label: "Full" },
+];
+
+const HEALTHS: { value: BatteryHealth; label: string }[] = [
+  { value: "good", label: "Good" },
+  { value: "failure", label: "Failed" },
+  { value: "dead", label: "Dead" },
+  { value: "overvoltage", label: "Overvoltage" },
+  { value: "overheat", label: "Overheated" },
+  { value: "unknown", label: "Unknown" },
+];
+
+interface BatteryControlsProps {
+  controls: EmulatorControlsState;
+  disabled: boolean;
+  send: (message: MessageToHost) => void;
+}
+
+/** Keyed by the reported capacity, so a new report resets the slider */
+function BatteryLevel({
+  capacity,
+  disabled,
+  send,
+}: { capacity: number; disabled: boolean } & Pick<BatteryControlsProps, "send">) {
+  const [level, setLevel] = useState(capacity);
+  // Sent when the slider is released rather than on every step
+  const commit = () => {
+    if (level !== capacity) send({ type: "batteryLevel", percent: level });
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={level}
+        disabled={disabled}
+        onChange={(event) => setLevel(Number(event.target.value))}
+        onPointerUp={commit}
+        onKeyUp={commit}
+        className="flex-1"
+      />
+      <span className="w-10 text-right tabular-nums">{level}%</span>
+    </div>
+  );
+}
+
+export function BatteryControls({ controls, disabled, send }: BatteryControlsProps) {
+  const { battery } = controls;
+
+  return (
+    <ControlSection title="Battery">
+      <ControlRow label="Charge level">
+        <BatteryLevel key={battery.capacity} capacity={battery.capacity} disabled={disabled} send={send} />
+      </ControlRow>
+      <ControlRow label="Charger connection">
+        <select
+          value={battery.acOnline ? "ac" : "none"}
+          disabled={disabled}
+          onChange={(event) => send({ type: "charger", connected: event.target.value === "ac" })}
+          className="rounded border px-1 py-1"
+          style={INPUT_STYLE}
+        >
+          <option value="ac">AC charger</option>
+          <option value="none">None</option>
+        </select>
+      </ControlRow>
+      <ControlRow label="Battery status">
+        <select
+          value={battery.status}
+          disabled={disabled}
+          onChange={(event) => send({ type: "batteryStatus", status: event.target.value as BatteryStatus })}
+          className="rounded border px-1 py-1"
+          style={INPUT_STYLE}
+        >
+          {STATUSES.map((status) => (
+            <option key={status.value} value={status.value}>
+              {status.label}
+            </option>
+          ))}
+        </select>
+      </ControlRow>
+      <ControlRow label="Battery health">
+        <select
+          value={battery.health}
+          disabled={disabled}
+          onChange={(event) => send({ type: "batteryHealth", health: event.target.value as BatteryHealth })}
+          className="rounded border px-1 py-1"
+          style={INPUT_STYLE}
+        >
+          {HEALTHS.map((health) => (
+            <option key={health.value} value={health.value}>
+              {health.label}
+            </option>
+          ))}
+        </select>
+      </ControlRow>
+    </ControlSection>
+  );
+}
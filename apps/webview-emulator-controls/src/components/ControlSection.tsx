@@ -0,0 +1,43 @@
+import type { ReactNode } from "react";
+
+interface ControlSectionProps {
+  title: string;
+  children: ReactNode;
+}
+
+export function ControlSection({ title, children }: ControlSectionProps) {
+  return (
+    <section className="rounded border p-4" style={{ borderColor: "var(--vscode-panel-border)" }}>
+      <h2 className="mb-3 text-xs font-semibold tracking-wide uppercase">{title}</h2>
+      <div className="flex flex-col gap-3">{children}</div>
+    </section>
+  );
+}
+
+interface ControlRowProps {
+  label: string;
+  hint?: string;
+  children: ReactNode;
+}
+
+export function ControlRow({ label, hint, children }: ControlRowProps) {
+  return (
+    <label className="grid grid-cols-[10rem_1fr] items-center gap-3">
+      <span>
+        {label}
+        {hint && (
+          <span className="block text-xs" style={{ color: "var(--vscode-descriptionForeground)" }}>
+            {hint}
+          </span>
+        )}
+      </span>
+      {children}
+    </label>
+  );
+}
+
+export const INPUT_STYLE = {
+  backgroundColor: "var(--vscode-input-background)",
+  color: "var(--vscode-input-foreground)",
+  borderColor: "var(--vscode-input-border, transparent)",
+};
@@ -0,0 +1,82 @@
+import type { EmulatorControlsState, MessageToHost, NetworkDelay, NetworkSpeed } from "../types";
+import { ControlRow, ControlSection, INPUT_STYLE } from "./ControlSection";
+
+const SPEEDS: { value: NetworkSpeed; label: string }[] = [
+  { value: "full", label: "Full (no limit)" },
+  { value: "lte", label: "LTE (58 / 173 Mbps)" },
+  { value: "umts", label: "UMTS (384 kbps)" },
+  { value: "edge", label: "EDGE (473.6 kbps)" },
+  { value: "gsm", label: "GSM (14.4 kbps)" },
+];
+
+const DELAYS: { value: NetworkDelay; label: string }[] = [
+  { value: "none", label: "None" },
+  { value: "umts", label: "UMTS (35–200 ms)" },
+  { value: "edge", label: "EDGE (80–400 ms)" },
+  { value: "gprs", label: "GPRS (150–550 ms)" },
+];
+
+interface NetworkControlsProps {
+  controls: EmulatorControlsState;
+  disabled: boolean;
+  send: (message: MessageToHost) => void;
+}
+
+export function NetworkControls({ controls, disabled, send }: NetworkControlsProps) {
+  return (
+    <ControlSection title="Cellular">
+      <ControlRow label="Network speed" hint="Upload / download">
+        <select
+          value={controls.speed}
+          disabled={disabled}
+          onChange={(event) => send({ type: "networkSpeed", speed: event.target.value as NetworkSpeed })}
+          className="rounded border px-1 py-1"
+          style={INPUT_STYLE}
+        >
+          {SPEEDS.some((speed) => speed.value === controls.speed) || (
+            <option value={controls.speed}>{controls.speed}</option>
+          )}
+          {SPEEDS.map((speed) => (
+            <option key={speed.value} value={speed.value}>
+              {speed.label}
+            </option>
+          ))}
+        </select>
+      </ControlRow>
+      <ControlRow label="Latency">
+        <select
+          value={controls.delay}
+          disabled={disabled}
+          onChange={(event) => send({ type: "networkDelay", delay: event.target.value as NetworkDelay })}
+          className="rounded border px-1 py-1"
+          style={INPUT_STYLE}
+        >
+          {DELAYS.some((delay) => delay.value === controls.delay) || (
+            <option value={controls.delay}>{controls.delay}</option>
+          )}
+          {DELAYS.map((delay) => (
+            <option key={delay.value} value={delay.value}>
+              {delay.label}
+            </option>
+          ))}
+        </select>
+      </ControlRow>
+      <ControlRow
+        label="Airplane mode"
+        hint={
+          controls.airplaneMode === null
+            ? "Unavailable: needs Android 11+ and adb access"
+            : "All radios off, over adb rather than the console"
+        }
+      >
+        <input
+          type="checkbox"
+          checked={controls.airplaneMode === true}
+          disabled={disabled || controls.airplaneMode === null}
+          onChange={(event) => send({ type: "airplaneMode", enabled: event.target.checked })}
+          className="justify-self-start"
+        />
+      </ControlRow>
+    </ControlSection>
+  );
+}
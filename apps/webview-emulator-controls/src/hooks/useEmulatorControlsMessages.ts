@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from "react";
+import { postMessage } from "../lib/vscode";
+import type { EmulatorControlsState, EmulatorTarget, MessageToHost, MessageToWebview } from "../types";
+
+export interface EmulatorControlsAppState {
+  emulators: EmulatorTarget[];
+  serial: string | null;
+  controls: EmulatorControlsState | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const initialState: EmulatorControlsAppState = {
+  emulators: [],
+  serial: null,
+  controls: null,
+  loading: true,
+  error: null,
+};
+
+interface UseEmulatorControlsMessagesResult {
+  state: EmulatorControlsAppState;
+  send: (message: MessageToHost) => void;
+}
+
+export function useEmulatorControlsMessages(): UseEmulatorControlsMessagesResult {
+  const [state, setState] = useState<EmulatorControlsAppState>(initialState);
+
+  useEffect(() => {
+    const handler = (event: MessageEvent<MessageToWebview>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "emulators":
+          setState((current) => ({
+            ...current,
+            emulators: message.emulators,
+            serial: message.serial,
+            controls: message.serial === current.serial ? current.controls : null,
+            loading: message.serial !== null && message.serial !== current.serial ? true : current.loading,
+          }));
+          break;
+        case "loading":
+          setState((current) => ({ ...current, loading: true, error: null }));
+          break;
+        case "state":
+          setState((current) => ({ ...current, controls: message.state, loading: false, error: null }));
+          break;
+        case "error":
+          setState((current) => ({ ...current, loading: false, error: message.message }));
+          break;
+      }
+    };
+
+    window.addEventListener("message", handler);
+    postMessage({ type: "ready" });
+    return () => window.removeEventListener("message", handler);
+  }, []);
+
+  const send = useCallback((message: MessageToHost) => {
+    postMessage(message);
+  }, []);
+
+  return { state, send };
+}
@@ -0,0 +1,47 @@
+export type NetworkSpeed =
+  "gsm" | "hscsd" | "gprs" | "edge" | "umts" | "hsdpa" | "lte" | "evdo" | "full" | `${number}:${number}`;
+
+export type NetworkDelay = "gprs" | "edge" | "umts" | "none" | `${number}` | `${number}:${number}`;
+
+export type BatteryStatus = "unknown" | "charging" | "discharging" | "not-charging" | "full";
+
+export type BatteryHealth = "unknown" | "good" | "overheat" | "dead" | "overvoltage" | "failure";
+
+export interface BatteryState {
+  acOnline: boolean;
+  status: BatteryStatus;
+  health: BatteryHealth;
+  present: boolean;
+  capacity: number;
+}
+
+export interface EmulatorTarget {
+  serial: string;
+  name: string;
+}
+
+export interface EmulatorControlsState {
+  speed: NetworkSpeed;
+  delay: NetworkDelay;
+  /** null when the emulator's adb connection cannot report it, or before Android 11 */
+  airplaneMode: boolean | null;
+  battery: BatteryState;
+}
+
+export type MessageToHost =
+  | { type: "ready" }
+  | { type: "refresh" }
+  | { type: "attach"; serial: string }
+  | { type: "networkSpeed"; speed: NetworkSpeed }
+  | { type: "networkDelay"; delay: NetworkDelay }
+  | { type: "airplaneMode"; enabled: boolean }
+  | { type: "batteryLevel"; percent: number }
+  | { type: "charger"; connected: boolean }
+  | { type: "batteryStatus"; status: BatteryStatus }
+  | { type: "batteryHealth"; health: BatteryHealth };
+
+export type MessageToWebview =
+  | { type: "emulators"; emulators: EmulatorTarget[]; serial: string | null }
+  | { type: "loading" }
+  | { type: "state"; state: EmulatorControlsState }
+  | { type: "error"; message: string };
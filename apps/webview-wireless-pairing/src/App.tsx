@@ -0,0 +1,64 @@
+import { QrCode } from "./components/QrCode";
+import { Spinner } from "./components/ui/Spinner";
+import { useWirelessPairingMessages } from "./hooks/useWirelessPairingMessages";
+
+const STEPS = [
+  "Connect the device to the same Wi-Fi network as this computer.",
+  "Open Developer options › Wireless debugging on the device and turn it on.",
+  "Tap Pair device with QR code and scan the code below.",
+];
+
+export function App() {
+  const { state, regenerate } = useWirelessPairingMessages();
+  const busy = state.state === "waiting" || state.state === "pairing" || state.state === "connecting";
+  const statusColor =
+    state.state === "failed"
+      ? "var(--vscode-errorForeground)"
+      : state.state === "connected"
+        ? "var(--vscode-testing-iconPassed)"
+        : "var(--vscode-descriptionForeground)";
+
+  return (
+    <div className="mx-auto flex max-w-md flex-col items-center gap-5 px-6 py-8 text-sm">
+      <h1 className="text-lg font-semibold">Pair Device with QR Code</h1>
+      <ol className="list-decimal space-y-1 pl-5" style={{ color: "var(--vscode-descriptionForeground)" }}>
+        {STEPS.map((step) => (
+          <li key={step}>{step}</li>
+        ))}
+      </ol>
+
+      {state.payload ? (
+        <QrCode payload={state.payload} used={state.state !== "waiting"} />
+      ) : (
+        <div className="flex h-60 w-60 items-center justify-center">
+          <Spinner />
+        </div>
+      )}
+
+      <div className="flex items-center gap-2" style={{ color: statusColor }}>
+        {busy && <Spinner />}
+        <span>{state.message}</span>
+      </div>
+
+      {(state.state === "failed" || state.state === "connected") && (
+        <button
+          type="button"
+          onClick={regenerate}
+          className="cursor-pointer rounded px-3 py-1"
+          style={{
+            background: "var(--vscode-button-background)",
+            color: "var(--vscode-button-foreground)",
+          }}
+        >
+          {state.state === "connected" ? "Pair Another Device" : "Try Again"}
+        </button>
+      )}
+
+      {state.serviceName && (
+        <p className="text-xs" style={{ color: "var(--vscode-descriptionForeground)" }}>
+          Pairing service: {state.serviceName}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+
+interface QrCodeProps {
+  payload: string;
+  /** Dimmed once the device has scanned it */
+  used: boolean;
+}
+
+export function QrCode({ payload, used }: QrCodeProps) {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Dark modules on white, whatever the theme, so phone cameras can read it
+    void QRCode.toDataURL(payload, { margin: 2, width: 240, color: { dark: "#000000", light: "#ffffff" } }).then(
+      (url) => {
+        if (!cancelled) setDataUrl(url);
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [payload]);
+
+  if (!dataUrl) return <div className="h-60 w-60" />;
+
+  return (
+    <img
+      src={dataUrl}
+      alt="Wireless debugging pairing QR code"
+      className="h-60 w-60 rounded transition-opacity"
+      style={{ opacity: used ? 0.3 : 1 }}
+    />
+  );
+}
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from "react";
+import { postMessage } from "../lib/vscode";
+import type { MessageToWebview, PairingState } from "../types";
+
+export interface WirelessPairingAppState {
+  payload: string | null;
+  serviceName: string | null;
+  state: PairingState;
+  message: string;
+}
+
+const initialState: WirelessPairingAppState = {
+  payload: null,
+  serviceName: null,
+  state: "waiting",
+  message: "",
+};
+
+interface UseWirelessPairingMessagesResult {
+  state: WirelessPairingAppState;
+  regenerate: () => void;
+}
+
+export function useWirelessPairingMessages(): UseWirelessPairingMessagesResult {
+  const [state, setState] = useState<WirelessPairingAppState>(initialState);
+
+  useEffect(() => {
+    const handler = (event: MessageEvent<MessageToWebview>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "session":
+          setState({ ...initialState, payload: message.payload, serviceName: message.serviceName });
+          break;
+        case "status":
+          setState((current) => ({ ...current, state: message.state, message: message.message }));
+          break;
+      }
+    };
+
+    window.addEventListener("message", handler);
+    postMessage({ type: "ready" });
+    return () => window.removeEventListener("message", handler);
+  }, []);
+
+  const regenerate = useCallback(() => {
+    postMessage({ type: "regenerate" });
+  }, []);
+
+  return { state, regenerate };
+}
@@ -0,0 +1,6 @@
+export type PairingState = "waiting" | "pairing" | "connecting" | "connected" | "failed";
+
+export type MessageToHost = { type: "ready" } | { type: "regenerate" };
+
+export type MessageToWebview =
+  { type: "session"; payload: string; serviceName: string } | { type: "status"; state: PairingState; message: string };
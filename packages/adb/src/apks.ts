@@ -0,0 +1,409 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { unzipSync, zipSync, type Zippable } from "fflate";
+import type { DeviceSpec } from "./types.js";
+
+const ABIS = new Set(["armeabi", "armeabi_v7a", "arm64_v8a", "x86", "x86_64", "mips", "mips64", "riscv64"]);
+
+const DENSITIES: Record<string, number> = {
+  ldpi: 120,
+  mdpi: 160,
+  tvdpi: 213,
+  hdpi: 240,
+  xhdpi: 320,
+  xxhdpi: 480,
+  xxxhdpi: 640,
+};
+
+interface SplitEntry {
+  entry: string;
+  module: string;
+  /** Config suffix, e.g. `arm64_v8a`, `xxhdpi` or `en`; undefined for a module's master split */
+  config?: string;
+  /** bundletool numbers the splits of further variants `_2`, `_3`, ... */
+  variant: number;
+}
+
+/**
+ * Name a split of an APK set: bundletool's `splits/<module>-<config>.apk`
+ * or the flat `base.apk`, `split_config.<config>.apk` and
+ * `split_<module>.config.<config>.apk` of APKs pulled from a device.
+ */
+function parseSplitEntry(entry: string): SplitEntry {
+  const name = path.posix.basename(entry, ".apk");
+
+  if (entry.startsWith("splits/")) {
+    const dash = name.lastIndexOf("-");
+    if (dash === -1) return { entry, module: name, variant: 1 };
+    const module = name.slice(0, dash);
+    let config = name.slice(dash + 1);
+    let variant = 1;
+    const numbered = config.match(/^(.+)_(\d+)$/);
+    if (numbered && !ABIS.has(config)) {
+      config = numbered[1];
+      variant = Number(numbered[2]);
+    }
+    return { entry, module, config: config === "master" ? undefined : config, variant };
+  }
+
+  if (name === "base") return { entry, module: "base", variant: 1 };
+  const flat = name.match(/^split_(?:(.+?)\.)?config\.(.+)$/);
+  if (flat) return { entry, module: flat[1] ?? "base", config: flat[2], variant: 1 };
+  return { entry, module: name.replace(/^split_/, ""), variant: 1 };
+}
+
+/** bundletool's `AbiAlias` values, by enum number */
+const ABI_ALIASES = ["", "armeabi", "armeabi-v7a", "arm64-v8a", "x86", "x86_64", "mips", "mips64", "riscv64"];
+
+/** bundletool's `DensityAlias` values in dpi, by enum number; 0 for unspecified and `nodpi` */
+const DENSITY_ALIASES = [0, 0, 120, 160, 213, 240, 320, 480, 640];
+
+/** `DeliveryType`s that a plain install includes: unknown (older bundletool) and install-time */
+const INSTALL_TIME_DELIVERY = new Set([0, 1]);
+
+type ProtoFields = Map<number, (number | Uint8Array)[]>;
+
+/** A targeting dimension: what an APK or variant targets, and what its siblings target instead */
+interface TargetingDimension<T> {
+  values: T[];
+  alternatives: T[];
+}
+
+interface Targeting {
+  sdk?: TargetingDimension<number>;
+  abi?: TargetingDimension<string>;
+  multiAbi?: TargetingDimension<string[]>;
+  density?: TargetingDimension<number>;
+  language?: TargetingDimension<string>;
+}
+
+/**
+ * Decode one protobuf message into its fields: varints as numbers,
+ * length-delimited values as bytes. Fixed-width values are skipped.
+ */
+function decodeProto(data: Uint8Array): ProtoFields {
+  const fields: ProtoFields = new Map();
+  let offset = 0;
+  const readVarint = () => {
+    let value = 0;
+    for (let shift = 0; ; shift += 7) {
+      if (offset >= data.length) throw new Error("toc.pb is truncated");
+      const byte = data[offset++];
+      value += (byte & 0x7f) * 2 ** shift;
+      if ((byte & 0x80) === 0) return value;
+    }
+  };
+
+  while (offset < data.length) {
+    const key = readVarint();
+    const wireType = key % 8;
+    let value: number | Uint8Array;
+    if (wireType === 0) {
+      value = readVarint();
+    } else if (wireType === 2) {
+      const length = readVarint();
+      if (offset + length > data.length) throw new Error("toc.pb is truncated");
+      value = data.subarray(offset, offset + length);
+      offset += length;
+    } else if (wireType === 1 || wireType === 5) {
+      offset += wireType === 1 ? 8 : 4;
+      continue;
+    } else {
+      throw new Error(`toc.pb has an unsupported protobuf wire type ${wireType}`);
+    }
+    const field = Math.floor(key / 8);
+    fields.set(field, [...(fields.get(field) ?? []), value]);
+  }
+  return fields;
+}
+
+function protoMessages(fields: ProtoFields | undefined, field: number): ProtoFields[] {
+  return (fields?.get(field) ?? []).filter((value) => value instanceof Uint8Array).map(decodeProto);
+}
+
+function protoNumber(fields: ProtoFields | undefined, field: number): number | undefined {
+  const value = fields?.get(field)?.at(-1);
+  return typeof value === "number" ? value : undefined;
+}
+
+function protoStrings(fields: ProtoFields | undefined, field: number): string[] {
+  return (fields?.get(field) ?? [])
+    .filter((value) => value instanceof Uint8Array)
+    .map((value) => new TextDecoder().decode(value));
+}
+
+function readDimension<T>(
+  fields: ProtoFields,
+  field: number,
+  readValue: (value: ProtoFields) => T,
+): TargetingDimension<T> | undefined {
+  const [dimension] = protoMessages(fields, field);
+  if (!dimension) return undefined;
+  return {
+    values: protoMessages(dimension, 1).map(readValue),
+    alternatives: protoMessages(dimension, 2).map(readValue),
+  };
+}
+
+function readLanguages(fields: ProtoFields, field: number): TargetingDimension<string> | undefined {
+  const [dimension] = protoMessages(fields, field);
+  if (!dimension) return undefined;
+  return { values: protoStrings(dimension, 1), alternatives: protoStrings(dimension, 2) };
+}
+
+/** `SdkVersion { min { value } }` */
+const readSdk = (sdkVersion: ProtoFields) => protoNumber(protoMessages(sdkVersion, 1)[0], 1) ?? 0;
+/** `Abi { alias }` */
+const readAbi = (abi: ProtoFields) => ABI_ALIASES[protoNumber(abi, 1) ?? 0] ?? "";
+/** `MultiAbi { repeated Abi abi }` */
+const readMultiAbi = (multiAbi: ProtoFields) => protoMessages(multiAbi, 1).map(readAbi);
+/** `ScreenDensity { density_alias | density_dpi }` */
+const readDensity = (density: ProtoFields) =>
+  protoNumber(density, 2) ?? DENSITY_ALIASES[protoNumber(density, 1) ?? 0] ?? 0;
+
+/** `VariantTargeting`: sdk 1, abi 2, screen density 3, multi-ABI 4 */
+function readVariantTargeting(fields: ProtoFields | undefined): Targeting {
+  if (!fields) return {};
+  return {
+    sdk: readDimension(fields, 1, readSdk),
+    abi: readDimension(fields, 2, readAbi),
+    density: readDimension(fields, 3, readDensity),
+    multiAbi: readDimension(fields, 4, readMultiAbi),
+  };
+}
+
+/** `ApkTargeting`: abi 1, language 3, screen density 4, sdk 5, multi-ABI 7 */
+function readApkTargeting(fields: ProtoFields | undefined): Targeting {
+  if (!fields) return {};
+  return {
+    abi: readDimension(fields, 1, readAbi),
+    language: readLanguages(fields, 3),
+    density: readDimension(fields, 4, readDensity),
+    sdk: readDimension(fields, 5, readSdk),
+    multiAbi: readDimension(fields, 7, readMultiAbi),
+  };
+}
+
+/**
+ * Whether the best of all targeted values is one of this dimension's own:
+ * scores rank values for the device, lower is better, undefined when the
+ * device can't use the value at all.
+ */
+function isBestMatch<T>(
+  dimension: TargetingDimension<T> | undefined,
+  score: (value: T) => number | undefined,
+): boolean {
+  if (!dimension) return true;
+  const best = (values: T[]) =>
+    Math.min(...values.map((value) => score(value) ?? Number.POSITIVE_INFINITY), Number.POSITIVE_INFINITY);
+  const own = best(dimension.values);
+  return own !== Number.POSITIVE_INFINITY && own <= best(dimension.alternatives);
+}
+
+function matchesTargeting(targeting: Targeting, spec: DeviceSpec, languages: Set<string>): boolean {
+  const abiRank = (abi: string) => {
+    const rank = spec.supportedAbis.indexOf(abi);
+    return rank === -1 ? undefined : rank;
+  };
+  // The smallest density at or above the screen's wins, then the largest below it
+  const densityScore = (dpi: number) =>
+    dpi === 0
+      ? Number.MAX_SAFE_INTEGER
+      : dpi >= spec.screenDensity
+        ? dpi - spec.screenDensity
+        : 10000 + spec.screenDensity - dpi;
+
+  const language = targeting.language;
+  const languageMatches = !language
+    ? true
+    : language.values.length > 0
+      ? language.values.some((value) => languages.has(toLanguage(value)))
+      : !language.alternatives.some((value) => languages.has(toLanguage(value)));
+
+  return (
+    languageMatches &&
+    isBestMatch(targeting.sdk, (min) => (min <= spec.sdkVersion ? -min : undefined)) &&
+    isBestMatch(targeting.abi, abiRank) &&
+    isBestMatch(targeting.multiAbi, (abis) => {
+      const ranks = abis.map(abiRank);
+      return ranks.some((rank) => rank === undefined) ? undefined : Math.max(...(ranks as number[]));
+    }) &&
+    isBestMatch(targeting.density, densityScore)
+  );
+}
+
+function toLanguage(locale: string): string {
+  return locale.split(/[-_]/)[0].toLowerCase();
+}
+
+/**
+ * Choose APKs by the targeting bundletool records in `toc.pb`, the way
+ * `bundletool extract-apks` does: the variant that fits the device best,
+ * then every APK of its install-time modules whose ABI, screen density,
+ * language and SDK targeting fits. Asset packs and instant APKs are left out.
+ */
+function selectTocEntries(toc: Uint8Array, entryNames: readonly string[], spec: DeviceSpec): string[] {
+  const languages = new Set(spec.supportedLocales.map(toLanguage));
+  // BuildApksResult { repeated Variant variant = 1 }
+  const variants = protoMessages(decodeProto(toc), 1);
+  // Variant { VariantTargeting targeting = 1; repeated ApkSet apk_set = 2 }
+  const variant = variants.find((candidate) =>
+    matchesTargeting(readVariantTargeting(protoMessages(candidate, 1)[0]), spec, languages),
+  );
+  if (!variant) {
+    throw new Error("The APK set has no APKs for this device");
+  }
+
+  const selected: string[] = [];
+  for (const apkSet of protoMessages(variant, 2)) {
+    // ModuleMetadata { name = 1; on_demand_deprecated = 2; delivery_type = 6 }
+    const [metadata] = protoMessages(apkSet, 1);
+    const [module = "base"] = protoStrings(metadata, 1);
+    if (protoNumber(metadata, 2) || !INSTALL_TIME_DELIVERY.has(protoNumber(metadata, 6) ?? 0)) continue;
+
+    // ApkDescription { ApkTargeting targeting = 1; path = 2; instant_apk_metadata = 5 }
+    for (const apk of protoMessages(apkSet, 2)) {
+      const [apkPath] = protoStrings(apk, 2);
+      if (!apkPath || apk.has(5)) continue;
+
+      const targeting = readApkTargeting(protoMessages(apk, 1)[0]);
+      const abis = [...(targeting.abi?.values ?? []), ...(targeting.abi?.alternatives ?? [])];
+      if (abis.length > 0 && !abis.some((abi) => spec.supportedAbis.includes(abi))) {
+        throw new Error(`No ${module} split for ${spec.supportedAbis.join(", ")}`);
+      }
+      if (!matchesTargeting(targeting, spec, languages)) continue;
+
+      if (!entryNames.includes(apkPath)) {
+        throw new Error(`toc.pb lists ${apkPath}, which the APK set doesn't contain`);
+      }
+      selected.push(apkPath);
+    }
+  }
+
+  if (selected.length === 0) {
+    throw new Error("The APK set has no APKs for this device");
+  }
+  return selected;
+}
+
+/**
+ * Choose the APKs of an APK set (`.apks`) that a device installs. With the
+ * set's `toc.pb`, its variant and split targeting decide. Without one, as
+ * in the flat archives of APKs pulled from a device, file names do: the
+ * universal APK when that is all there is, a standalone APK below Android
+ * 5.0, otherwise each module's master split plus the config splits for the
+ * device's preferred ABI, nearest screen density and languages, from the
+ * first variant.
+ */
+export function selectApkSetEntries(entryNames: readonly string[], spec: DeviceSpec, toc?: Uint8Array): string[] {
+  if (toc) return selectTocEntries(toc, entryNames, spec);
+
+  const apks = entryNames.filter((name) => name.endsWith(".apk"));
+  const abis = spec.supportedAbis.map((abi) => abi.replace(/-/g, "_"));
+
+  const standalones = apks.filter((name) => name.startsWith("standalones/"));
+  const splitEntries = apks.filter((name) => !name.startsWith("standalones/") && name !== "universal.apk");
+  if (splitEntries.length === 0 && apks.includes("universal.apk")) return ["universal.apk"];
+  if (standalones.length > 0 && (spec.sdkVersion < 21 || splitEntries.length === 0)) {
+    return [selectStandalone(standalones, abis, spec.screenDensity)];
+  }
+
+  const splits = splitEntries.map(parseSplitEntry);
+  const variant = Math.min(...splits.map((split) => split.variant));
+  const modules = new Map<string, SplitEntry[]>();
+  for (const split of splits.filter((candidate) => candidate.variant === variant)) {
+    modules.set(split.module, [...(modules.get(split.module) ?? []), split]);
+  }
+
+  const languages = new Set(spec.supportedLocales.map(toLanguage));
+  const selected: string[] = [];
+  for (const [module, moduleSplits] of modules) {
+    const master = moduleSplits.find((split) => split.config === undefined);
+    if (master) selected.push(master.entry);
+
+    const configs = moduleSplits.filter((split) => split.config !== undefined);
+    const abiSplits = configs.filter((split) => ABIS.has(split.config!));
+    if (abiSplits.length > 0) {
+      const abi = abis.find((candidate) => abiSplits.some((split) => split.config === candidate));
+      if (!abi) {
+        throw new Error(`No ${module} split for ${spec.supportedAbis.join(", ")}`);
+      }
+      selected.push(abiSplits.find((split) => split.config === abi)!.entry);
+    }
+
+    const densitySplits = configs.filter((split) => split.config! in DENSITIES);
+    if (densitySplits.length > 0) {
+      selected.push(pickDensity(densitySplits, (split) => DENSITIES[split.config!], spec.screenDensity).entry);
+    }
+
+    for (const split of configs) {
+      const language = split.config!.split("_")[0].toLowerCase();
+      if (!ABIS.has(split.config!) && !(split.config! in DENSITIES) && languages.has(language)) {
+        selected.push(split.entry);
+      }
+    }
+  }
+
+  if (selected.length === 0) {
+    throw new Error("The APK set has no APKs for this device");
+  }
+  return selected;
+}
+
+/** The smallest density at or above the screen's, as resources scale down better than up */
+function pickDensity<T>(candidates: T[], densityOf: (candidate: T) => number, screenDensity: number): T {
+  const sorted = [...candidates].sort((a, b) => densityOf(a) - densityOf(b));
+  return sorted.find((candidate) => densityOf(candidate) >= screenDensity) ?? sorted[sorted.length - 1];
+}
+
+/** `standalones/standalone-arm64_v8a_xxhdpi.apk`: preferred ABI first, then density */
+function selectStandalone(standalones: string[], abis: string[], screenDensity: number): string {
+  const abiOf = (name: string) => [...ABIS].filter((abi) => name.includes(abi)).sort((a, b) => b.length - a.length)[0];
+  const abi = abis.find((candidate) => standalones.some((name) => abiOf(name) === candidate));
+  const matching = abi ? standalones.filter((name) => abiOf(name) === abi) : standalones;
+  const densityOf = (name: string) =>
+    Object.entries(DENSITIES).find(([key]) => new RegExp(`[-_]${key}(?:[_.]|$)`).test(name))?.[1] ?? screenDensity;
+  return pickDensity(matching, densityOf, screenDensity);
+}
+
+/**
+ * Extract the APKs a device needs from an APK set into a directory. Returns
+ * their local paths, in install order.
+ */
+export async function extractApkSet(archivePath: string, spec: DeviceSpec, outputDir: string): Promise<string[]> {
+  const data = new Uint8Array(await fs.readFile(archivePath));
+  const names: string[] = [];
+  const { "toc.pb": toc } = unzipSync(data, {
+    filter: (file) => {
+      names.push(file.name);
+      return file.name === "toc.pb";
+    },
+  });
+
+  const selected = new Set(selectApkSetEntries(names, spec, toc));
+  const files = unzipSync(data, { filter: (file) => selected.has(file.name) });
+  const localPaths: string[] = [];
+  for (const entry of selected) {
+    const localPath = path.join(outputDir, entry.replace(/\//g, "_"));
+    await fs.writeFile(localPath, files[entry]);
+    localPaths.push(localPath);
+  }
+  return localPaths;
+}
+
+/**
+ * Bundle APK files into an `.apks` archive with the APKs at its root under
+ * their own names, the layout split APK installers read. APKs are zips
+ * already, so they are stored rather than deflated again.
+ */
+export async function writeApksArchive(apkFiles: readonly string[], archivePath: string): Promise<void> {
+  const entries: Zippable = {};
+  for (const file of apkFiles) {
+    const name = path.basename(file);
+    if (name in entries) {
+      throw new Error(`Duplicate APK name in archive: ${name}`);
+    }
+    entries[name] = new Uint8Array(await fs.readFile(file));
+  }
+  await fs.writeFile(archivePath, zipSync(entries, { level: 0 }));
+}
@@ -0,0 +1,57 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { CommandExecutionError, runCommand } from "@android-devkit/tool-core";
+import type { DeviceSpec } from "./types.js";
+
+export interface BuildApkSetOptions {
+  /** Path to a bundletool `.jar` */
+  bundletoolPath: string;
+  bundlePath: string;
+  /** `.apks` file to write; replaced when it exists */
+  outputPath: string;
+  /** Only build the APKs this device needs */
+  deviceSpec?: DeviceSpec;
+  /** Defaults to `$JAVA_HOME/bin/java`, then `java` on PATH */
+  javaPath?: string;
+}
+
+function resolveJavaPath(): string {
+  const javaHome = process.env.JAVA_HOME;
+  return javaHome ? path.join(javaHome, "bin", process.platform === "win32" ? "java.exe" : "java") : "java";
+}
+
+/**
+ * Build an APK set from an Android App Bundle with `bundletool build-apks`.
+ * bundletool signs it with the debug keystore in `~/.android` when there is one.
+ */
+export async function buildApkSet(options: BuildApkSetOptions): Promise<void> {
+  const args = [
+    "-jar",
+    options.bundletoolPath,
+    "build-apks",
+    `--bundle=${options.bundlePath}`,
+    `--output=${options.outputPath}`,
+    "--overwrite",
+  ];
+
+  let specDir: string | undefined;
+  if (options.deviceSpec) {
+    specDir = await fs.mkdtemp(path.join(os.tmpdir(), "bundletool-spec-"));
+    const specPath = path.join(specDir, "device-spec.json");
+    await fs.writeFile(specPath, JSON.stringify(options.deviceSpec));
+    args.push(`--device-spec=${specPath}`);
+  }
+
+  try {
+    await runCommand({ command: options.javaPath ?? resolveJavaPath(), args, timeoutMs: 300000 });
+  } catch (error) {
+    // bundletool explains what went wrong on stderr, e.g. a missing keystore
+    if (error instanceof CommandExecutionError && error.stderr?.trim()) {
+      throw new Error(error.stderr.trim().split("\n").pop());
+    }
+    throw error;
+  } finally {
+    if (specDir) await fs.rm(specDir, { recursive: true, force: true });
+  }
+}
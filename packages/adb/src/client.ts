@@ -1,19 +1,41 @@
 import { spawn } from "node:child_process";
 import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
 import { Readable } from "node:stream";
 import { AdbServerClient, LinuxFileType, type Adb } from "@yume-chan/adb";
 import { AdbServerNodeTcpConnector } from "@yume-chan/adb-server-node-tcp";
 import { AdbScrcpyClient, AdbScrcpyOptions3_3_3 } from "@yume-chan/adb-scrcpy";
 import { DefaultServerPath } from "@yume-chan/scrcpy";
 import type { MaybeConsumable } from "@yume-chan/stream-extra";
-import { Logcat, PackageManager } from "@yume-chan/android-bin";
+import { Logcat, PackageManager, PackageManagerInstallSession } from "@yume-chan/android-bin";
 import type { ReadableStream } from "@yume-chan/stream-extra";
 import { resolvePlatformToolPath } from "@android-devkit/android-sdk";
+import { extractApkSet } from "./apks.js";
+import { parseContentQueryRows } from "./content.js";
+import { parseAppComponents, parsePackageDetails } from "./dumpsys.js";
+import { buildIntentArguments } from "./intent.js";
+import {
+  extractApkManifest,
+  mergeAppComponents,
+  parseManifestComponents,
+} from "./manifest.js";
+import { parseMdnsServices } from "./mdns.js";
+import { parseInstalledPackages, parsePackageLines } from "./packages.js";
 import type {
   AdbClientOptions,
+  AppComponent,
+  ApkFile,
   ConnectionType,
+  DebuggableProcess,
   Device,
+  DeviceSpec,
   DeviceState,
+  InstalledPackage,
+  IntentSpec,
+  MdnsService,
+  PackageDetails,
+  PortMapping,
   ResolveAdbPathOptions,
 } from "./types.js";
 
@@ -345,6 +367,35 @@ export class AdbClient {
     });
   }
 
+  /**
+   * Watch the server's device list. The listener gets the serials of ready
+   * devices now and whenever the list changes; cached transports of
+   * removed devices are dropped so a reconnected device gets a fresh one.
+   */
+  async trackDevices(
+    listener: (serials: string[]) => void,
+    onError?: (error: Error) => void,
+  ): Promise<{ stop(): Promise<void> }> {
+    const observer = await this.serverClient.trackDevices({
+      includeStates: ["device"],
+    });
+    const subscriptions = [
+      observer.onDeviceRemove((devices) => {
+        for (const device of devices) this.invalidateDevice(device.serial);
+      }),
+      observer.onListChange((devices) => listener(devices.map((d) => d.serial))),
+      observer.onError((error) => onError?.(error)),
+    ];
+    listener(observer.current.map((d) => d.serial));
+
+    return {
+      stop: async () => {
+        for (const subscription of subscriptions) subscription.dispose();
+        await observer.stop();
+      },
+    };
+  }
+
   /**
    * Get ADB server version.
    */
@@ -405,21 +456,9 @@ export class AdbClient {
   /**
    * Discover devices via mDNS (CLI fallback).
    */
-  async listMdnsServices(): Promise<
-    { name: string; type: string; address: string }[]
-  > {
+  async listMdnsServices(): Promise<MdnsService[]> {
     const result = await this.execCli(["mdns", "services"], { timeout: 5000 });
-    const lines = result.stdout.split("\n");
-    const services: { name: string; type: string; address: string }[] = [];
-
-    for (const line of lines) {
-      const parts = line.trim().split("\t");
-      if (parts.length >= 3) {
-        services.push({ name: parts[0], type: parts[1], address: parts[2] });
-      }
-    }
-
-    return services;
+    return parseMdnsServices(result.stdout);
   }
 
   /**
@@ -536,6 +575,90 @@ export class AdbClient {
     });
   }
 
+  /**
+   * Install a base APK and its splits as one package, streaming each into a
+   * `pm install-create` / `install-write` / `install-commit` session.
+   */
+  async installApks(
+    serial: string,
+    apkPaths: readonly string[],
+    options: { allowDowngrade?: boolean } = {},
+  ): Promise<void> {
+    const adb = await this.getAdb(serial);
+    const pm = new PackageManager(adb);
+    const session = await PackageManagerInstallSession.create(pm, {
+      requestDowngrade: options.allowDowngrade,
+    });
+    try {
+      for (const [index, apkPath] of apkPaths.entries()) {
+        const stat = fs.statSync(apkPath);
+        const nodeStream = fs.createReadStream(apkPath);
+        const webStream = Readable.toWeb(nodeStream) as ReadableStream<Uint8Array>;
+        await session.addSplitStream(`${index}_${path.basename(apkPath)}`, stat.size, webStream);
+      }
+      await session.commit();
+    } catch (error) {
+      await session.abandon().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Install an APK set (`.apks`) with the splits that match the device.
+   * Returns the archive entries that were installed.
+   */
+  async installApkSet(
+    serial: string,
+    archivePath: string,
+    options: { allowDowngrade?: boolean } = {},
+  ): Promise<string[]> {
+    const spec = await this.getDeviceSpec(serial);
+    const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "apk-set-"));
+    try {
+      const apkPaths = await extractApkSet(archivePath, spec, tempDir);
+      await this.installApks(serial, apkPaths, options);
+      return apkPaths.map((apkPath) => path.basename(apkPath));
+    } finally {
+      await fs.promises.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Read the ABIs, locales, screen density and API level that decide which
+   * split APKs the device needs. Locales come from the user's locale list
+   * (Android 7.0+), then the system locale properties, old and new.
+   */
+  async getDeviceSpec(serial: string): Promise<DeviceSpec> {
+    const [props, density, systemLocales] = await Promise.all([
+      this.getDeviceProps(serial),
+      this.shell(serial, "wm density"),
+      this.shell(serial, "settings get system system_locales").catch(() => ""),
+    ]);
+    const abis = props["ro.product.cpu.abilist"] || props["ro.product.cpu.abi"] || "";
+    const legacyLocale = (language?: string, country?: string) =>
+      language ? [language, country].filter(Boolean).join("-") : "";
+    const locales = [
+      // "en-US,fr-FR", or "null" when the user never changed it
+      ...systemLocales.trim().split(","),
+      props["persist.sys.locale"],
+      props["ro.product.locale"],
+      legacyLocale(props["persist.sys.language"], props["persist.sys.country"]),
+      legacyLocale(
+        props["ro.product.locale.language"],
+        props["ro.product.locale.region"],
+      ),
+    ].filter((locale): locale is string => !!locale && locale !== "null");
+    // "Physical density: 420", plus "Override density: 480" after `wm density 480`
+    const override = density.match(/Override density:\s*(\d+)/);
+    const physical = density.match(/Physical density:\s*(\d+)/);
+    return {
+      supportedAbis: abis.split(",").filter(Boolean),
+      supportedLocales: locales.length > 0 ? [...new Set(locales)] : ["en-US"],
+      screenDensity: Number(override?.[1] ?? physical?.[1] ?? props["ro.sf.lcd_density"] ?? 160),
+      sdkVersion: Number(props["ro.build.version.sdk"] ?? 0),
+    };
+  }
+
   /**
    * Uninstall a package from the device.
    */
@@ -563,6 +686,36 @@ export class AdbClient {
     return output.trim();
   }
 
+  /**
+   * Whether airplane mode is on, from the `airplane_mode_on` global setting.
+   */
+  async getAirplaneMode(serial: string): Promise<boolean> {
+    const output = await this.shell(serial, "settings get global airplane_mode_on");
+    return output.trim() === "1";
+  }
+
+  /**
+   * Turn airplane mode on or off through the connectivity service, which
+   * takes every radio (cellular, Wi-Fi, Bluetooth) down the way the Quick
+   * Settings tile does. Needs Android 11 or later (CLI fallback, for the
+   * shell's exit status).
+   */
+  async setAirplaneMode(serial: string, enabled: boolean): Promise<void> {
+    const result = await this.execCli([
+      "-s",
+      serial,
+      "shell",
+      "cmd",
+      "connectivity",
+      "airplane-mode",
+      enabled ? "enable" : "disable",
+    ]);
+    if (result.exitCode !== 0) {
+      const reason = result.stderr.trim() || result.stdout.trim();
+      throw new Error(reason || "Failed to set airplane mode");
+    }
+  }
+
   /**
    * Record the device screen and save to local file.
    */
@@ -642,15 +795,134 @@ export class AdbClient {
     );
   }
 
+  /**
+   * List the activities, services, receivers and providers of a package
+   * with their intent filters. Components come from the manifest of the
+   * base APK, plus whatever `dumpsys package` adds; when the APK can't be
+   * read, only the dump's components are listed, most without a known
+   * exported flag.
+   */
+  async getAppComponents(
+    serial: string,
+    packageName: string,
+  ): Promise<AppComponent[]> {
+    const [output, declared] = await Promise.all([
+      this.shell(serial, `dumpsys package -f ${shellQuote(packageName)}`),
+      this.getDeclaredComponents(serial, packageName).catch(() => undefined),
+    ]);
+    const dumped = parseAppComponents(packageName, output);
+    return declared ? mergeAppComponents(declared, dumped) : dumped;
+  }
+
+  /**
+   * Read the components declared in the manifest of a package's base APK.
+   */
+  private async getDeclaredComponents(
+    serial: string,
+    packageName: string,
+  ): Promise<AppComponent[]> {
+    const paths = await this.getApkPaths(serial, packageName);
+    const basePath =
+      paths.find((apkPath) => path.posix.basename(apkPath) === "base.apk") ??
+      paths[0];
+    const apk = await this.readFileContent(serial, basePath);
+    return parseManifestComponents(packageName, extractApkManifest(apk));
+  }
+
+  /**
+   * Run an `am` intent command and fail on the errors `am` prints to stdout.
+   */
+  private async runIntentCommand(
+    serial: string,
+    command: string,
+    intent: IntentSpec,
+  ): Promise<string> {
+    const args = buildIntentArguments(intent).map(shellQuote).join(" ");
+    const output = (await this.shell(serial, `am ${command} ${args}`)).trim();
+    if (/^(Error|Exception occurred|java\.\S+Exception)/m.test(output)) {
+      throw new Error(output);
+    }
+    return output;
+  }
+
+  /**
+   * Start an activity (`am start`).
+   */
+  async startActivity(serial: string, intent: IntentSpec): Promise<string> {
+    return this.runIntentCommand(serial, "start", intent);
+  }
+
+  /**
+   * Start a service (`am startservice`), or a foreground service
+   * (`am start-foreground-service`), which apps in the background need on
+   * Android 8.0+.
+   */
+  async startService(
+    serial: string,
+    intent: IntentSpec,
+    options: { foreground?: boolean } = {},
+  ): Promise<string> {
+    return this.runIntentCommand(
+      serial,
+      options.foreground ? "start-foreground-service" : "startservice",
+      intent,
+    );
+  }
+
+  /**
+   * Send a broadcast (`am broadcast`).
+   */
+  async sendBroadcast(serial: string, intent: IntentSpec): Promise<string> {
+    return this.runIntentCommand(serial, "broadcast", intent);
+  }
+
+  /**
+   * Query a content provider URI (`content query`), one record per row.
+   */
+  async queryContentProvider(
+    serial: string,
+    uri: string,
+    options: { projection?: string[]; where?: string; sort?: string } = {},
+  ): Promise<Record<string, string>[]> {
+    let command = `content query --uri ${shellQuote(uri)}`;
+    if (options.projection?.length) {
+      command += ` --projection ${shellQuote(options.projection.join(":"))}`;
+    }
+    if (options.where) command += ` --where ${shellQuote(options.where)}`;
+    if (options.sort) command += ` --sort ${shellQuote(options.sort)}`;
+
+    const output = await this.shell(serial, command);
+    // Rows follow on success; failures start with the error
+    if (/^(Error|java\.\S+Exception)/.test(output.trimStart())) {
+      throw new Error(output.trim());
+    }
+    return parseContentQueryRows(output);
+  }
+
   /**
    * Launch an app by package name.
+   * With `waitForDebugger`, the app is restarted and waits for a debugger to
+   * attach to its JDWP port before running (`am start -D -S`).
    */
   async launchApp(
     serial: string,
     packageName: string,
     activity?: string,
+    options: { waitForDebugger?: boolean } = {},
   ): Promise<void> {
-    if (activity) {
+    if (options.waitForDebugger) {
+      // monkey can't pass -D, so the launcher activity has to be resolved
+      const component = activity
+        ? `${packageName}/${activity}`
+        : await this.resolveLauncherActivity(serial, packageName);
+      const output = await this.shell(
+        serial,
+        `am start -D -S -n ${shellQuote(component)}`,
+      );
+      if (output.includes("Error")) {
+        throw new Error(output.trim());
+      }
+    } else if (activity) {
       await this.shell(
         serial,
         `am start -n ${shellQuote(`${packageName}/${activity}`)}`,
@@ -663,6 +935,25 @@ export class AdbClient {
     }
   }
 
+  /**
+   * Resolve the launcher activity of a package as `package/activity`.
+   */
+  async resolveLauncherActivity(
+    serial: string,
+    packageName: string,
+  ): Promise<string> {
+    const output = await this.shell(
+      serial,
+      `cmd package resolve-activity --brief -a android.intent.action.MAIN -c android.intent.category.LAUNCHER ${shellQuote(packageName)}`,
+    );
+    // The last line is the component; earlier lines are the priority header
+    const component = output.trim().split("\n").pop()?.trim();
+    if (!component || !component.includes("/")) {
+      throw new Error(`No launcher activity found for ${packageName}`);
+    }
+    return component;
+  }
+
   /**
    * Force stop an app.
    */
@@ -699,12 +990,77 @@ export class AdbClient {
   /**
    * List installed packages on a device.
    */
-  async listPackages(serial: string): Promise<string[]> {
-    const output = await this.shell(serial, "pm list packages");
-    return output
-      .split("\n")
-      .filter((l) => l.startsWith("package:"))
-      .map((l) => l.replace("package:", "").trim());
+  async listPackages(
+    serial: string,
+    options: { thirdParty?: boolean } = {},
+  ): Promise<string[]> {
+    const output = await this.shell(
+      serial,
+      options.thirdParty ? "pm list packages -3" : "pm list packages",
+    );
+    return parsePackageLines(output);
+  }
+
+  /**
+   * List installed packages with their base APK path and UID, split into
+   * user-installed and system packages.
+   */
+  async listInstalledPackages(serial: string): Promise<InstalledPackage[]> {
+    // `-U` needs Android 8+
+    const [output, userPackages] = await Promise.all([
+      this.shell(serial, "pm list packages -f -U 2>/dev/null || pm list packages -f"),
+      this.listPackages(serial, { thirdParty: true }),
+    ]);
+    return parseInstalledPackages(output, new Set(userPackages));
+  }
+
+  /**
+   * List the base and split APK paths of a package (`pm path`).
+   */
+  async getApkPaths(serial: string, packageName: string): Promise<string[]> {
+    const output = await this.shell(serial, `pm path ${shellQuote(packageName)}`);
+    const paths = parsePackageLines(output);
+    if (paths.length === 0) {
+      throw new Error(output.trim() || `${packageName} is not installed`);
+    }
+    return paths;
+  }
+
+  /**
+   * Pull the base and split APKs of a package into a local directory under
+   * their on-device names. Returns the local paths.
+   */
+  async pullApks(serial: string, packageName: string, localDir: string): Promise<string[]> {
+    const localPaths: string[] = [];
+    for (const remotePath of await this.getApkPaths(serial, packageName)) {
+      const localPath = path.join(localDir, path.posix.basename(remotePath));
+      await this.pullFile(serial, remotePath, localPath);
+      localPaths.push(localPath);
+    }
+    return localPaths;
+  }
+
+  /**
+   * Read version, install and storage details of a package from
+   * `dumpsys package`, with its APKs and their sizes.
+   */
+  async getPackageDetails(serial: string, packageName: string): Promise<PackageDetails> {
+    const [output, paths] = await Promise.all([
+      this.shell(serial, `dumpsys package ${shellQuote(packageName)}`),
+      this.getApkPaths(serial, packageName),
+    ]);
+    const details = parsePackageDetails(packageName, output);
+    if (!details) {
+      throw new Error(`${packageName} is not installed`);
+    }
+
+    const sizes = await this.shell(serial, `stat -c %s ${paths.map((apkPath) => shellQuote(apkPath)).join(" ")} 2>/dev/null`);
+    const sizeValues = sizes.trim() ? sizes.trim().split(/\s+/).map(Number) : [];
+    details.apks = paths.map((apkPath, index): ApkFile => {
+      const size = sizeValues.length === paths.length ? sizeValues[index] : NaN;
+      return Number.isFinite(size) ? { path: apkPath, size } : { path: apkPath };
+    });
+    return details;
   }
 
   /**
@@ -722,6 +1078,188 @@ export class AdbClient {
     return isNaN(pid) ? null : pid;
   }
 
+  /**
+   * List the running processes of a package: the main process and any
+   * `package:suffix` secondary processes.
+   */
+  async getPackageProcesses(
+    serial: string,
+    packageName: string,
+  ): Promise<{ pid: number; name: string }[]> {
+    const processes = await this.listProcesses(serial);
+    return processes.filter(
+      ({ name }) => name === packageName || name.startsWith(`${packageName}:`),
+    );
+  }
+
+  /**
+   * List every running process with its PID and name.
+   */
+  async listProcesses(
+    serial: string,
+  ): Promise<{ pid: number; name: string }[]> {
+    // `-A -o` needs Android 8+; older toybox/toolbox `ps` lists every process by default
+    const output = await this.shell(serial, "ps -A -o PID,NAME 2>/dev/null || ps");
+    const processes: { pid: number; name: string }[] = [];
+
+    for (const line of output.split("\n")) {
+      const columns = line.trim().split(/\s+/);
+      const name = columns[columns.length - 1];
+      const pid = columns.map((column) => Number(column)).find((value) => Number.isInteger(value) && value > 0);
+      if (!pid || !name) {
+        continue;
+      }
+      processes.push({ pid, name });
+    }
+
+    return processes;
+  }
+
+  /**
+   * List debuggable processes: the device's JDWP PIDs, named with `ps` and
+   * matched to their installed package. `package:suffix` processes map to
+   * their package; processes that aren't an app keep only their name.
+   */
+  async listDebuggableProcesses(serial: string): Promise<DebuggableProcess[]> {
+    const [pids, processes, packages] = await Promise.all([
+      this.listJdwpPids(serial),
+      this.listProcesses(serial),
+      this.listPackages(serial),
+    ]);
+    const names = new Map(processes.map(({ pid, name }) => [pid, name]));
+    const installed = new Set(packages);
+
+    return pids.map((pid) => {
+      const name = names.get(pid) ?? `pid ${pid}`;
+      const packageName = name.split(":")[0];
+      return installed.has(packageName)
+        ? { pid, name, packageName }
+        : { pid, name };
+    });
+  }
+
+  /**
+   * List the PIDs of processes that expose a JDWP port, i.e. debuggable apps.
+   */
+  async listJdwpPids(serial: string): Promise<number[]> {
+    const adb = await this.getAdb(serial);
+    // track-jdwp sends the current list as a hex-length-prefixed message,
+    // then an update whenever it changes
+    const socket = await adb.createSocket("track-jdwp");
+    const reader = socket.readable.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) return [];
+        buffer += decoder.decode(value, { stream: true });
+        if (buffer.length < 4) continue;
+
+        const length = parseInt(buffer.slice(0, 4), 16);
+        if (buffer.length < 4 + length) continue;
+        return buffer
+          .slice(4, 4 + length)
+          .split("\n")
+          .map((line) => parseInt(line, 10))
+          .filter((pid) => !isNaN(pid));
+      }
+    } finally {
+      reader.releaseLock();
+      await socket.close();
+    }
+  }
+
+  /**
+   * Forward a local TCP port to a device socket such as `jdwp:<pid>`
+   * (CLI fallback). With `localPort` 0, adb picks a free port.
+   * Returns the local port.
+   */
+  async forward(
+    serial: string,
+    remote: string,
+    localPort: number = 0,
+  ): Promise<number> {
+    const result = await this.execCli([
+      "-s",
+      serial,
+      "forward",
+      `tcp:${localPort}`,
+      remote,
+    ]);
+    if (result.exitCode !== 0) {
+      throw new Error(result.stderr.trim() || `Failed to forward ${remote}`);
+    }
+    // adb only prints the port when it allocated one
+    return localPort || parseInt(result.stdout.trim(), 10);
+  }
+
+  /**
+   * Remove a forward by its local port or host socket (CLI fallback).
+   */
+  async removeForward(serial: string, local: number | string): Promise<void> {
+    const host = typeof local === "number" ? `tcp:${local}` : local;
+    const result = await this.execCli(["-s", serial, "forward", "--remove", host]);
+    if (result.exitCode !== 0) {
+      throw new Error(result.stderr.trim() || `Failed to remove forward ${host}`);
+    }
+  }
+
+  /**
+   * Forward a host socket to a device socket, e.g. `tcp:9222` to
+   * `localabstract:chrome_devtools_remote` (CLI fallback).
+   */
+  async addForward(serial: string, host: string, device: string): Promise<void> {
+    const result = await this.execCli(["-s", serial, "forward", host, device]);
+    if (result.exitCode !== 0) {
+      throw new Error(result.stderr.trim() || `Failed to forward ${host}`);
+    }
+  }
+
+  /**
+   * List the forwards of a device (CLI fallback).
+   */
+  async listForwards(serial: string): Promise<PortMapping[]> {
+    const result = await this.execCli(["forward", "--list"]);
+    return result.stdout
+      .split("\n")
+      .map((line) => line.trim().split(/\s+/))
+      .filter(([forwardSerial, host, device]) => forwardSerial === serial && host && device)
+      .map(([, host, device]) => ({ direction: "forward", serial, host, device }));
+  }
+
+  /**
+   * Let the device reach a host socket: connections to `device` on the
+   * device are relayed to `host`, e.g. `tcp:8081` for a Metro bundler.
+   */
+  async addReverse(serial: string, device: string, host: string): Promise<void> {
+    const adb = await this.getAdb(serial);
+    await adb.reverse.addExternal(device, host);
+  }
+
+  /**
+   * Remove a reverse by its device socket.
+   */
+  async removeReverse(serial: string, device: string): Promise<void> {
+    const adb = await this.getAdb(serial);
+    await adb.reverse.remove(device);
+  }
+
+  /**
+   * List the reverses of a device.
+   */
+  async listReverses(serial: string): Promise<PortMapping[]> {
+    const adb = await this.getAdb(serial);
+    const listeners = await adb.reverse.list();
+    // adbd lists its own listener, the device socket, as the local name
+    return listeners.map((listener) => ({
+      direction: "reverse",
+      serial,
+      host: listener.remoteName,
+      device: listener.localName,
+    }));
+  }
+
   /**
    * List files on a device path.
    */
@@ -0,0 +1,33 @@
+/**
+ * Parse `content query` output into one record per row. Each row prints as
+ * `Row: 0 _id=1, name=Jane, note=a, b`; a column only starts after `, ` when
+ * a `name=` follows, so commas inside values survive. `NULL` stays a string
+ * because the output can't tell it apart from the text "NULL".
+ */
+export function parseContentQueryRows(output: string): Record<string, string>[] {
+  const rows: Record<string, string>[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    const match = line.match(/^Row: \d+ (.*)$/);
+    if (!match) {
+      // Values with newlines continue on the next line
+      const last = rows.at(-1);
+      const lastKey = last ? Object.keys(last).at(-1) : undefined;
+      if (last && lastKey && line !== "" && !line.startsWith("No result found.")) {
+        last[lastKey] += `\n${line}`;
+      }
+      continue;
+    }
+
+    const row: Record<string, string> = {};
+    for (const column of match[1].split(/, (?=[\w.]+=)/)) {
+      const separator = column.indexOf("=");
+      if (separator > 0) {
+        row[column.slice(0, separator)] = column.slice(separator + 1);
+      }
+    }
+    rows.push(row);
+  }
+
+  return rows;
+}
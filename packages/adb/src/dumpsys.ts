@@ -0,0 +1,268 @@
+import type { AppComponent, AppComponentKind, IntentFilterInfo, PackageDetails } from "./types.js";
+
+const RESOLVER_TABLES: Record<string, AppComponentKind> = {
+  "Activity Resolver Table:": "activity",
+  "Receiver Resolver Table:": "receiver",
+  "Service Resolver Table:": "service",
+  "Provider Resolver Table:": "provider",
+};
+
+/** `5c1a6d4 com.example/.MainActivity filter 8e3b5f2 permission android.permission.X` */
+const FILTER_OWNER_REGEX = /^\s*[0-9a-f]+ (\S+\/\S+)(?: filter ([0-9a-f]+))?(?: permission (\S+))?\s*$/;
+/** `Provider{6f3e2a1 com.example/androidx.startup.InitializationProvider}` */
+const PROVIDER_REGEX = /^\s*Provider\{[0-9a-f]+ (\S+\/\S+)\}/;
+/** `Action: "android.intent.action.MAIN"` and friends */
+const FILTER_DETAIL_REGEX =
+  /^\s*(Action|Category|Scheme|Authority|Path|Type|StaticType|DynamicType): "([^"]*)"(?:: (-?\d+))?/;
+/** `exported=true`, `permission=android.permission.X` where a platform prints them */
+const ATTRIBUTE_REGEX = /\b(exported|permission|readPermission|writePermission)=(\S+)/g;
+
+function emptyFilter(): IntentFilterInfo {
+  return { actions: [], categories: [], schemes: [], authorities: [], paths: [], mimeTypes: [] };
+}
+
+/** `PatternMatcher{PREFIX: /products}` → `/products*` */
+function formatPath(value: string): string {
+  const match = value.match(/^PatternMatcher\{(\w+): (.*)\}$/);
+  if (!match) return value;
+  const [, type, path] = match;
+  return type === "PREFIX" ? `${path}*` : path;
+}
+
+function addUnique(values: string[], value: string): void {
+  if (!values.includes(value)) values.push(value);
+}
+
+function addFilterDetail(filter: IntentFilterInfo, field: string, value: string, port?: string): void {
+  switch (field) {
+    case "Action":
+      addUnique(filter.actions, value);
+      break;
+    case "Category":
+      addUnique(filter.categories, value);
+      break;
+    case "Scheme":
+      addUnique(filter.schemes, value);
+      break;
+    case "Authority":
+      addUnique(filter.authorities, port && port !== "-1" ? `${value}:${port}` : value);
+      break;
+    case "Path":
+      addUnique(filter.paths, formatPath(value));
+      break;
+    default:
+      addUnique(filter.mimeTypes, value);
+  }
+}
+
+/**
+ * Resolver tables index filters by action, scheme or MIME type; the index
+ * key doubles as filter detail on platforms that don't print the filter.
+ */
+function addTableKey(filter: IntentFilterInfo, subsection: string | undefined, key: string | undefined): void {
+  if (!key) return;
+  if (subsection === "Non-Data Actions" || subsection === "MIME Typed Actions") addUnique(filter.actions, key);
+  else if (subsection === "Schemes") addUnique(filter.schemes, key);
+  else if (subsection === "Full MIME Types") addUnique(filter.mimeTypes, key);
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Parse the components of one package from `dumpsys package <pkg>`: intent
+ * filters from the activity, receiver, service and provider resolver tables,
+ * plus every registered content provider with its authorities.
+ *
+ * A component appears in a resolver table once per action or scheme it
+ * handles, so filters are de-duplicated by the hash the dump prints.
+ */
+export function parseAppComponents(packageName: string, output: string): AppComponent[] {
+  const components = new Map<string, AppComponent>();
+  const filters = new Map<string, IntentFilterInfo>();
+
+  const getComponent = (kind: AppComponentKind, name: string): AppComponent | undefined => {
+    const [owner, cls] = name.split("/");
+    if (owner !== packageName || !cls) return undefined;
+
+    const key = `${kind}:${name}`;
+    let component = components.get(key);
+    if (!component) {
+      component = {
+        kind,
+        name,
+        className: cls.startsWith(".") ? `${packageName}${cls}` : cls,
+        authorities: [],
+        filters: [],
+      };
+      components.set(key, component);
+    }
+    return component;
+  };
+
+  const applyAttributes = (component: AppComponent, line: string) => {
+    for (const [, key, value] of line.matchAll(ATTRIBUTE_REGEX)) {
+      if (key === "exported") component.exported = value === "true";
+      else if (key === "permission" || component.permission === undefined) component.permission = value;
+    }
+  };
+
+  let section: "resolver" | "providers" | "authorities" | undefined;
+  let kind: AppComponentKind | undefined;
+  let subsection: string | undefined;
+  let tableKey: string | undefined;
+  let current: { component: AppComponent; filter?: IntentFilterInfo; indent: number } | undefined;
+  let authority: string | undefined;
+
+  for (const line of output.split("\n")) {
+    if (line.trim() === "") continue;
+
+    // Unindented lines start a new top-level section
+    if (indentOf(line) === 0) {
+      const header = line.trim();
+      kind = RESOLVER_TABLES[header];
+      section = kind
+        ? "resolver"
+        : header === "Registered ContentProviders:"
+          ? "providers"
+          : header === "ContentProvider Authorities:"
+            ? "authorities"
+            : undefined;
+      current = undefined;
+      subsection = undefined;
+      tableKey = undefined;
+      continue;
+    }
+
+    if (section === "resolver" && kind) {
+      const heading = line.match(/^\s+(.+):$/);
+      if (heading) {
+        if (indentOf(line) <= 2) subsection = heading[1];
+        else tableKey = heading[1];
+        current = undefined;
+        continue;
+      }
+
+      const owner = line.match(FILTER_OWNER_REGEX);
+      if (owner) {
+        const component = getComponent(kind, owner[1]);
+        current = undefined;
+        if (!component) continue;
+
+        if (owner[3]) component.permission = owner[3];
+        // The same filter is listed again under each of its actions and schemes
+        const filterKey = owner[2] ? `${component.name}#${owner[2]}` : undefined;
+        let filter = filterKey ? filters.get(filterKey) : undefined;
+        if (!filter) {
+          filter = emptyFilter();
+          component.filters.push(filter);
+          if (filterKey) filters.set(filterKey, filter);
+        }
+        addTableKey(filter, subsection, tableKey);
+        current = { component, filter, indent: indentOf(line) };
+        continue;
+      }
+
+      if (current && indentOf(line) > current.indent) {
+        const detail = line.match(FILTER_DETAIL_REGEX);
+        if (detail) {
+          if (current.filter) addFilterDetail(current.filter, detail[1], detail[2], detail[3]);
+        } else {
+          applyAttributes(current.component, line);
+        }
+      } else {
+        current = undefined;
+      }
+      continue;
+    }
+
+    if (section === "providers") {
+      const provider = line.match(PROVIDER_REGEX);
+      if (provider) {
+        const component = getComponent("provider", provider[1]);
+        current = component ? { component, indent: indentOf(line) } : undefined;
+      } else if (current && indentOf(line) > current.indent) {
+        applyAttributes(current.component, line);
+      }
+      continue;
+    }
+
+    if (section === "authorities") {
+      const header = line.match(/^\s*\[([^\]]+)\]:$/);
+      if (header) {
+        authority = header[1];
+        continue;
+      }
+      const provider = line.match(PROVIDER_REGEX);
+      if (provider && authority) {
+        const component = getComponent("provider", provider[1]);
+        if (component) addUnique(component.authorities, authority);
+      }
+    }
+  }
+
+  const order: AppComponentKind[] = ["activity", "service", "receiver", "provider"];
+  return [...components.values()].sort(
+    (a, b) => order.indexOf(a.kind) - order.indexOf(b.kind) || a.className.localeCompare(b.className),
+  );
+}
+
+/**
+ * Parse the `Package [name]` block of `dumpsys package <name>` under
+ * `Packages:`. Updated system apps print a second block under
+ * `Hidden system packages:` for the factory version, which is skipped.
+ * Android 12+ moved `firstInstallTime` into the per-user lines, so it's
+ * read from wherever it first appears in the block.
+ */
+export function parsePackageDetails(packageName: string, output: string): PackageDetails | undefined {
+  const lines = output.split(/\r?\n/);
+  const header = `Package [${packageName}]`;
+  const packagesSection = lines.findIndex((line) => line.trim() === "Packages:");
+  const start = lines.findIndex((line, index) => index > packagesSection && line.trim().startsWith(header));
+  if (packagesSection < 0 || start < 0) return undefined;
+
+  const indent = lines[start].search(/\S/);
+  const block: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (line.trim() !== "" && line.search(/\S/) <= indent) break;
+    block.push(line.trim());
+  }
+
+  const fields = new Map<string, string>();
+  for (const line of block) {
+    // `versionCode=42 minSdk=24 targetSdk=34` holds several fields; values with spaces are timestamps
+    for (const match of line.matchAll(/(\w+)=(\d{4}-\d\d-\d\d \d\d:\d\d:\d\d|\[[^\]]*\]|\S+)/g)) {
+      if (!fields.has(match[1])) fields.set(match[1], match[2]);
+    }
+  }
+
+  const number = (key: string) => {
+    const value = Number(fields.get(key));
+    return Number.isFinite(value) && fields.has(key) ? value : undefined;
+  };
+  const list = (key: string) =>
+    fields
+      .get(key)
+      ?.replace(/^\[|\]$/g, "")
+      .split(/[\s,]+/)
+      .filter(Boolean) ?? [];
+  const installer = fields.get("installerPackageName");
+
+  return {
+    packageName,
+    versionName: fields.get("versionName"),
+    versionCode: number("versionCode"),
+    minSdk: number("minSdk"),
+    targetSdk: number("targetSdk"),
+    firstInstallTime: fields.get("firstInstallTime"),
+    lastUpdateTime: fields.get("lastUpdateTime"),
+    installer: installer && installer !== "null" ? installer : undefined,
+    uid: number("userId") ?? number("appId"),
+    dataDir: fields.get("dataDir"),
+    codePath: fields.get("codePath"),
+    system: list("flags").includes("SYSTEM"),
+    splits: list("splits"),
+    apks: [],
+  };
+}
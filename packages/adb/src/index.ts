@@ -1,4 +1,14 @@
 export { AdbClient, resolveAdbPath } from "./client.js";
+export { parseAppComponents, parsePackageDetails } from "./dumpsys.js";
+export { parseContentQueryRows } from "./content.js";
+export { mergeAppComponents, parseManifestComponents } from "./manifest.js";
+export { buildQrPairingPayload, parseMdnsServices } from "./mdns.js";
+export { parseInstalledPackages, parsePackageLines } from "./packages.js";
+export { extractApkSet, selectApkSetEntries, writeApksArchive } from "./apks.js";
+export { buildApkSet } from "./bundletool.js";
+export type { BuildApkSetOptions } from "./bundletool.js";
+export { INTENT_FLAGS, buildIntentArguments, formatIntentExtras, parseIntentExtras } from "./intent.js";
+export type { IntentFlag } from "./intent.js";
 export type { LocalAdbScrcpyClient, ScrcpyServerBinaryStream } from "./client.js";
 export { DefaultServerPath } from "@yume-chan/scrcpy";
 
@@ -11,8 +21,21 @@ export {
 
 export type {
   Device,
+  DeviceSpec,
   DeviceState,
   ConnectionType,
+  DebuggableProcess,
+  PortMapping,
+  MdnsService,
+  MdnsServiceKind,
+  InstalledPackage,
+  ApkFile,
+  PackageDetails,
+  AppComponent,
+  AppComponentKind,
+  IntentFilterInfo,
+  IntentExtra,
+  IntentSpec,
   AdbClientOptions,
   ResolveAdbPathOptions,
 } from "./types.js";
@@ -0,0 +1,139 @@
+import type { IntentExtra, IntentSpec } from "./types.js";
+
+const EXTRA_OPTIONS: Record<IntentExtra["type"], string> = {
+  string: "--es",
+  int: "--ei",
+  long: "--el",
+  bool: "--ez",
+  "int-array": "--eia",
+};
+
+const EXTRA_TYPES = new Map(
+  Object.entries(EXTRA_OPTIONS).map(([type, option]) => [option, type as IntentExtra["type"]]),
+);
+
+export interface IntentFlag {
+  name: string;
+  value: number;
+  /** Activity flags share bits with broadcast flags, so each applies to one */
+  target: "activity" | "broadcast" | "any";
+}
+
+/** The `Intent.FLAG_*` values worth setting from the command line */
+export const INTENT_FLAGS: IntentFlag[] = [
+  { name: "FLAG_GRANT_READ_URI_PERMISSION", value: 0x00000001, target: "any" },
+  { name: "FLAG_GRANT_WRITE_URI_PERMISSION", value: 0x00000002, target: "any" },
+  { name: "FLAG_DEBUG_LOG_RESOLUTION", value: 0x00000008, target: "any" },
+  { name: "FLAG_INCLUDE_STOPPED_PACKAGES", value: 0x00000020, target: "any" },
+  { name: "FLAG_ACTIVITY_NEW_TASK", value: 0x10000000, target: "activity" },
+  { name: "FLAG_ACTIVITY_CLEAR_TOP", value: 0x04000000, target: "activity" },
+  { name: "FLAG_ACTIVITY_SINGLE_TOP", value: 0x20000000, target: "activity" },
+  { name: "FLAG_ACTIVITY_CLEAR_TASK", value: 0x00008000, target: "activity" },
+  { name: "FLAG_ACTIVITY_NO_HISTORY", value: 0x40000000, target: "activity" },
+  { name: "FLAG_ACTIVITY_MULTIPLE_TASK", value: 0x08000000, target: "activity" },
+  { name: "FLAG_ACTIVITY_REORDER_TO_FRONT", value: 0x00020000, target: "activity" },
+  { name: "FLAG_ACTIVITY_NO_ANIMATION", value: 0x00010000, target: "activity" },
+  { name: "FLAG_ACTIVITY_EXCLUDE_FROM_RECENTS", value: 0x00800000, target: "activity" },
+  { name: "FLAG_RECEIVER_FOREGROUND", value: 0x10000000, target: "broadcast" },
+  { name: "FLAG_RECEIVER_REGISTERED_ONLY", value: 0x40000000, target: "broadcast" },
+];
+
+function formatExtraValue(extra: IntentExtra): string {
+  return Array.isArray(extra.value) ? extra.value.join(",") : String(extra.value);
+}
+
+/**
+ * Build the `am` arguments for an intent, unquoted and in the order `am`
+ * documents them: action, data, type, categories, component, flags, extras.
+ */
+export function buildIntentArguments(intent: IntentSpec): string[] {
+  const args: string[] = [];
+  if (intent.action) args.push("-a", intent.action);
+  if (intent.data) args.push("-d", intent.data);
+  if (intent.mimeType) args.push("-t", intent.mimeType);
+  for (const category of intent.categories ?? []) {
+    args.push("-c", category);
+  }
+  if (intent.component) args.push("-n", intent.component);
+  if (intent.flags) args.push("-f", `0x${intent.flags.toString(16)}`);
+  for (const extra of intent.extras ?? []) {
+    args.push(EXTRA_OPTIONS[extra.type], extra.key, formatExtraValue(extra));
+  }
+  return args;
+}
+
+/** Split on whitespace, keeping single- or double-quoted runs together */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const regex = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    tokens.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return tokens;
+}
+
+function parseInteger(value: string, key: string, type: string): number {
+  if (!/^-?\d+$/.test(value)) {
+    throw new Error(`Extra "${key}" needs an ${type} value, got "${value}"`);
+  }
+  return Number(value);
+}
+
+/**
+ * Parse extras written the way `am` takes them, e.g.
+ * `--es user "Jane Doe" --ei count 3 --ez debug true --eia ids 1,2,3`.
+ * Throws with a message suitable for an input box on malformed input.
+ */
+export function parseIntentExtras(text: string): IntentExtra[] {
+  const tokens = tokenize(text);
+  const extras: IntentExtra[] = [];
+
+  for (let i = 0; i < tokens.length; i += 3) {
+    const type = EXTRA_TYPES.get(tokens[i]);
+    if (!type) {
+      throw new Error(`Unknown extra option "${tokens[i]}"; use --es, --ei, --el, --ez or --eia`);
+    }
+    const key = tokens[i + 1];
+    const value = tokens[i + 2];
+    if (key === undefined || value === undefined) {
+      throw new Error(`${tokens[i]} needs a key and a value`);
+    }
+
+    switch (type) {
+      case "string":
+        extras.push({ type, key, value });
+        break;
+      case "int":
+      case "long":
+        extras.push({ type, key, value: parseInteger(value, key, type) });
+        break;
+      case "bool":
+        if (value !== "true" && value !== "false") {
+          throw new Error(`Extra "${key}" needs true or false, got "${value}"`);
+        }
+        extras.push({ type, key, value: value === "true" });
+        break;
+      case "int-array":
+        extras.push({
+          type,
+          key,
+          value: value.split(",").map((item) => parseInteger(item.trim(), key, "int")),
+        });
+        break;
+    }
+  }
+
+  return extras;
+}
+
+/** The inverse of {@link parseIntentExtras} */
+export function formatIntentExtras(extras: IntentExtra[]): string {
+  return extras
+    .map((extra) => {
+      const value = formatExtraValue(extra);
+      const quoted = /^[^\s"']+$/.test(value) ? value : value.includes('"') ? `'${value}'` : `"${value}"`;
+      return `${EXTRA_OPTIONS[extra.type]} ${extra.key} ${quoted}`;
+    })
+    .join(" ");
+}
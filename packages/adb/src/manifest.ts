@@ -0,0 +1,269 @@
+import { unzipSync } from "fflate";
+import type { AppComponent, AppComponentKind, IntentFilterInfo } from "./types.js";
+
+const RES_XML_TYPE = 0x0003;
+const RES_STRING_POOL_TYPE = 0x0001;
+const RES_XML_RESOURCE_MAP_TYPE = 0x0180;
+const RES_XML_START_ELEMENT_TYPE = 0x0102;
+const RES_XML_END_ELEMENT_TYPE = 0x0103;
+const UTF8_FLAG = 0x100;
+const NO_INDEX = 0xffffffff;
+
+const TYPE_STRING = 0x03;
+const TYPE_INT_DEC = 0x10;
+const TYPE_INT_HEX = 0x11;
+const TYPE_INT_BOOLEAN = 0x12;
+
+/**
+ * `android:` attributes by resource id, which the platform reads instead of
+ * the attribute name (and which obfuscated manifests keep)
+ */
+const ANDROID_ATTRIBUTES: Record<number, string> = {
+  0x01010003: "name",
+  0x01010006: "permission",
+  0x01010007: "readPermission",
+  0x01010010: "exported",
+  0x01010018: "authorities",
+  0x01010026: "mimeType",
+  0x01010027: "scheme",
+  0x01010028: "host",
+  0x01010029: "port",
+  0x0101002a: "path",
+  0x0101002b: "pathPrefix",
+  0x0101002c: "pathPattern",
+  0x01010270: "targetSdkVersion",
+};
+
+const COMPONENT_TAGS: Record<string, AppComponentKind> = {
+  activity: "activity",
+  "activity-alias": "activity",
+  service: "service",
+  receiver: "receiver",
+  provider: "provider",
+};
+
+/** Providers were exported by default before API 17 */
+const PROVIDER_EXPORTED_DEFAULT_MAX_SDK = 16;
+
+interface XmlElement {
+  tag: string;
+  attributes: Record<string, string | number | boolean | undefined>;
+  children: XmlElement[];
+}
+
+function readStringPool(view: DataView, offset: number): string[] {
+  const count = view.getUint32(offset + 8, true);
+  const flags = view.getUint32(offset + 16, true);
+  const stringsStart = offset + view.getUint32(offset + 20, true);
+  const utf8 = (flags & UTF8_FLAG) !== 0;
+  const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+
+  const strings: string[] = [];
+  for (let i = 0; i < count; i++) {
+    let position = stringsStart + view.getUint32(offset + 28 + i * 4, true);
+    if (utf8) {
+      // UTF-16 length, then UTF-8 length, each one or two bytes
+      position += view.getUint8(position) & 0x80 ? 2 : 1;
+      let length = view.getUint8(position);
+      if (length & 0x80) length = ((length & 0x7f) << 8) | view.getUint8(position + 1);
+      position += view.getUint8(position) & 0x80 ? 2 : 1;
+      strings.push(new TextDecoder().decode(bytes.subarray(position, position + length)));
+    } else {
+      let length = view.getUint16(position, true);
+      if (length & 0x8000) {
+        length = ((length & 0x7fff) << 16) | view.getUint16(position + 2, true);
+        position += 2;
+      }
+      position += 2;
+      strings.push(new TextDecoder("utf-16le").decode(bytes.subarray(position, position + length * 2)));
+    }
+  }
+  return strings;
+}
+
+/**
+ * Decode the compiled (binary) XML that aapt writes for AndroidManifest.xml
+ * into an element tree. Attribute values that reference resources are left
+ * undefined.
+ */
+function parseBinaryXml(data: Uint8Array): XmlElement {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (data.byteLength < 8 || view.getUint16(0, true) !== RES_XML_TYPE) {
+    throw new Error("Not a binary XML document");
+  }
+
+  let strings: string[] = [];
+  let resourceIds: number[] = [];
+  const root: XmlElement = { tag: "", attributes: {}, children: [] };
+  const stack = [root];
+
+  const string = (index: number) => (index === NO_INDEX ? undefined : strings[index]);
+
+  let offset = view.getUint16(2, true);
+  while (offset + 8 <= data.byteLength) {
+    const type = view.getUint16(offset, true);
+    const headerSize = view.getUint16(offset + 2, true);
+    const size = view.getUint32(offset + 4, true);
+    if (size < 8) break;
+
+    if (type === RES_STRING_POOL_TYPE) {
+      strings = readStringPool(view, offset);
+    } else if (type === RES_XML_RESOURCE_MAP_TYPE) {
+      resourceIds = [];
+      for (let position = offset + 8; position < offset + size; position += 4) {
+        resourceIds.push(view.getUint32(position, true));
+      }
+    } else if (type === RES_XML_START_ELEMENT_TYPE) {
+      const extension = offset + headerSize;
+      const attributeStart = view.getUint16(extension + 8, true);
+      const attributeSize = view.getUint16(extension + 10, true);
+      const attributeCount = view.getUint16(extension + 12, true);
+
+      const element: XmlElement = {
+        tag: string(view.getUint32(extension + 4, true)) ?? "",
+        attributes: {},
+        children: [],
+      };
+      for (let i = 0; i < attributeCount; i++) {
+        const attribute = extension + attributeStart + i * attributeSize;
+        const nameIndex = view.getUint32(attribute + 4, true);
+        const name = ANDROID_ATTRIBUTES[resourceIds[nameIndex]] ?? string(nameIndex);
+        if (!name) continue;
+
+        const rawValue = view.getUint32(attribute + 8, true);
+        const dataType = view.getUint8(attribute + 15);
+        const value = view.getUint32(attribute + 16, true);
+        element.attributes[name] =
+          dataType === TYPE_STRING
+            ? string(value)
+            : dataType === TYPE_INT_BOOLEAN
+              ? value !== 0
+              : dataType === TYPE_INT_DEC || dataType === TYPE_INT_HEX
+                ? value | 0
+                : string(rawValue);
+      }
+      stack[stack.length - 1].children.push(element);
+      stack.push(element);
+    } else if (type === RES_XML_END_ELEMENT_TYPE && stack.length > 1) {
+      stack.pop();
+    }
+
+    offset += size;
+  }
+
+  const [manifest] = root.children;
+  if (!manifest) throw new Error("Binary XML document has no root element");
+  return manifest;
+}
+
+function stringAttribute(element: XmlElement, name: string): string | undefined {
+  const value = element.attributes[name];
+  return value === undefined ? undefined : String(value);
+}
+
+/** `com.example/.MainActivity`, as `ComponentName.flattenToShortString()` prints it */
+function flattenComponentName(packageName: string, className: string): string {
+  return className.startsWith(`${packageName}.`)
+    ? `${packageName}/${className.slice(packageName.length)}`
+    : `${packageName}/${className}`;
+}
+
+function parseIntentFilter(element: XmlElement): IntentFilterInfo {
+  const filter: IntentFilterInfo = {
+    actions: [],
+    categories: [],
+    schemes: [],
+    authorities: [],
+    paths: [],
+    mimeTypes: [],
+  };
+  const add = (values: string[], value: string | undefined) => {
+    if (value !== undefined && !values.includes(value)) values.push(value);
+  };
+
+  for (const child of element.children) {
+    const name = stringAttribute(child, "name");
+    if (child.tag === "action") add(filter.actions, name);
+    else if (child.tag === "category") add(filter.categories, name);
+    else if (child.tag === "data") {
+      const host = stringAttribute(child, "host");
+      const port = stringAttribute(child, "port");
+      const pathPrefix = stringAttribute(child, "pathPrefix");
+      add(filter.schemes, stringAttribute(child, "scheme"));
+      add(filter.authorities, host && port ? `${host}:${port}` : host);
+      add(filter.paths, stringAttribute(child, "path"));
+      add(filter.paths, pathPrefix === undefined ? undefined : `${pathPrefix}*`);
+      add(filter.paths, stringAttribute(child, "pathPattern"));
+      add(filter.mimeTypes, stringAttribute(child, "mimeType"));
+    }
+  }
+  return filter;
+}
+
+/**
+ * Parse every activity, activity alias, service, receiver and provider that
+ * a package declares from its compiled AndroidManifest.xml, whether or not
+ * it has intent filters. `exported` falls back to the platform's default
+ * when the manifest leaves it out: exported with intent filters, and for
+ * providers, exported when targeting API 16 or lower.
+ */
+export function parseManifestComponents(packageName: string, data: Uint8Array): AppComponent[] {
+  const manifest = parseBinaryXml(data);
+  const application = manifest.children.find((child) => child.tag === "application");
+  if (!application) return [];
+
+  const usesSdk = manifest.children.find((child) => child.tag === "uses-sdk");
+  const targetSdk = Number(usesSdk?.attributes.targetSdkVersion ?? 1);
+  const applicationPermission = stringAttribute(application, "permission");
+
+  const components: AppComponent[] = [];
+  for (const element of application.children) {
+    const kind = COMPONENT_TAGS[element.tag];
+    const name = stringAttribute(element, "name");
+    if (!kind || !name) continue;
+
+    const className = name.startsWith(".")
+      ? `${packageName}${name}`
+      : name.includes(".")
+        ? name
+        : `${packageName}.${name}`;
+    const filters = element.children.filter((child) => child.tag === "intent-filter").map(parseIntentFilter);
+    const exported = element.attributes.exported;
+
+    components.push({
+      kind,
+      name: flattenComponentName(packageName, className),
+      className,
+      exported:
+        typeof exported === "boolean"
+          ? exported
+          : kind === "provider"
+            ? targetSdk <= PROVIDER_EXPORTED_DEFAULT_MAX_SDK
+            : filters.length > 0,
+      permission:
+        stringAttribute(element, "permission") ??
+        (kind === "provider" ? stringAttribute(element, "readPermission") : undefined) ??
+        applicationPermission,
+      authorities: stringAttribute(element, "authorities")?.split(";").filter(Boolean) ?? [],
+      filters,
+    });
+  }
+  return components;
+}
+
+/** Extract the compiled AndroidManifest.xml from an APK */
+export function extractApkManifest(apk: Uint8Array): Uint8Array {
+  const { "AndroidManifest.xml": manifest } = unzipSync(apk, { filter: (file) => file.name === "AndroidManifest.xml" });
+  if (!manifest) throw new Error("APK has no AndroidManifest.xml");
+  return manifest;
+}
+
+/**
+ * Combine the components declared in a package's manifest with those
+ * `dumpsys package` reports. The manifest lists every component with its
+ * exported flag; components only the dump knows are kept after them.
+ */
+export function mergeAppComponents(declared: AppComponent[], dumped: AppComponent[]): AppComponent[] {
+  const keys = new Set(declared.map((component) => `${component.kind}:${component.name}`));
+  return [...declared, ...dumped.filter((component) => !keys.has(`${component.kind}:${component.name}`))];
+}
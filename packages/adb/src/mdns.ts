@@ -0,0 +1,48 @@
+import type { MdnsService, MdnsServiceKind } from "./types.js";
+
+const SERVICE_KINDS: Record<string, MdnsServiceKind> = {
+  "_adb-tls-pairing._tcp": "pairing",
+  "_adb-tls-connect._tcp": "connect",
+  "_adb._tcp": "legacy",
+};
+
+/**
+ * Parse `adb mdns services`. Each service prints as
+ * `name<TAB>type<TAB>host:port` below a `List of discovered mdns services`
+ * header; IPv6 hosts keep their brackets.
+ */
+export function parseMdnsServices(output: string): MdnsService[] {
+  const services: MdnsService[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    const parts = line.trim().split("\t");
+    if (parts.length < 3) continue;
+
+    const [name, rawType, address] = parts.map((part) => part.trim());
+    const type = rawType.replace(/\.$/, "");
+    const separator = address.lastIndexOf(":");
+    const port = Number(address.slice(separator + 1));
+    if (separator <= 0 || !Number.isInteger(port)) continue;
+
+    services.push({
+      name,
+      type,
+      address,
+      kind: SERVICE_KINDS[type],
+      host: address.slice(0, separator),
+      port,
+    });
+  }
+
+  return services;
+}
+
+/**
+ * The text of a "Pair device with QR code" QR code. The device scans it,
+ * then advertises a pairing service named `serviceName` that accepts
+ * `password` as its pairing code.
+ */
+export function buildQrPairingPayload(serviceName: string, password: string): string {
+  const escape = (value: string) => value.replace(/([\\;,:"])/g, "\\$1");
+  return `WIFI:T:ADB;S:${escape(serviceName)};P:${escape(password)};;`;
+}
@@ -0,0 +1,36 @@
+import type { InstalledPackage } from "./types.js";
+
+/** `package:/data/app/~~Xy==/com.example-Ab==/base.apk=com.example uid:10123` */
+const PACKAGE_LINE_REGEX = /^package:(.+)=([\w.]+)(?:\s+uid:(\d+))?\s*$/;
+
+/**
+ * Parse `pm list packages -f [-U]`. The path ends at the last `=` since APK
+ * directories carry base64 suffixes ending in `==`. `userPackages` holds the
+ * output of `pm list packages -3`; everything else is a system package.
+ */
+export function parseInstalledPackages(output: string, userPackages: ReadonlySet<string>): InstalledPackage[] {
+  const packages: InstalledPackage[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    const match = line.trim().match(PACKAGE_LINE_REGEX);
+    if (!match) continue;
+
+    const [, apkPath, packageName, uid] = match;
+    packages.push({
+      packageName,
+      apkPath,
+      uid: uid ? Number(uid) : undefined,
+      system: !userPackages.has(packageName),
+    });
+  }
+
+  return packages;
+}
+
+/** Parse `pm list packages` or `pm path` output: the value after each `package:` */
+export function parsePackageLines(output: string): string[] {
+  return output
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith("package:"))
+    .map((line) => line.slice("package:".length).trim());
+}
@@ -39,6 +39,168 @@ export interface Device {
   connectionType: ConnectionType;
 }
 
+/**
+ * A process on the device that accepts a debugger over JDWP
+ */
+export interface DebuggableProcess {
+  pid: number;
+  /** Process name from `ps`, e.g. "com.example.app:remote" */
+  name: string;
+  /** Installed package the process belongs to, if any */
+  packageName?: string;
+}
+
+/**
+ * A socket relayed between host and device: `adb forward` listens on the
+ * host and connects to the device, `adb reverse` the other way round.
+ * Sockets use adb's syntax, e.g. `tcp:8081` or `localabstract:name`.
+ */
+export interface PortMapping {
+  direction: "forward" | "reverse";
+  serial: string;
+  /** Host socket: listening side of a forward, target of a reverse */
+  host: string;
+  /** Device socket: target of a forward, listening side of a reverse */
+  device: string;
+}
+
+/**
+ * What an mDNS service found by `adb mdns services` offers: a wireless
+ * debugging pairing port, a connect port of a paired device, or a legacy
+ * `adb tcpip` port.
+ */
+export type MdnsServiceKind = "pairing" | "connect" | "legacy";
+
+export interface MdnsService {
+  /** Instance name, e.g. `adb-R58M123ABC-x1Yz2w` */
+  name: string;
+  /** Service type, e.g. `_adb-tls-connect._tcp` */
+  type: string;
+  /** `host:port` as printed by adb */
+  address: string;
+  kind?: MdnsServiceKind;
+  host: string;
+  port: number;
+}
+
+/**
+ * An installed package from `pm list packages -f -U`
+ */
+export interface InstalledPackage {
+  packageName: string;
+  /** Base APK path */
+  apkPath: string;
+  uid?: number;
+  /** Preinstalled with the system image, including updated system apps */
+  system: boolean;
+}
+
+/** An APK file of an installed package, from `pm path` */
+export interface ApkFile {
+  path: string;
+  /** Size in bytes, when `stat` could read it */
+  size?: number;
+}
+
+/**
+ * Metadata of an installed package from `dumpsys package`. Timestamps are
+ * kept as the device prints them, in its local time.
+ */
+export interface PackageDetails {
+  packageName: string;
+  versionName?: string;
+  versionCode?: number;
+  minSdk?: number;
+  targetSdk?: number;
+  firstInstallTime?: string;
+  lastUpdateTime?: string;
+  /** Package that installed it, e.g. `com.android.vending` */
+  installer?: string;
+  uid?: number;
+  dataDir?: string;
+  codePath?: string;
+  system: boolean;
+  /** Split names, e.g. `base`, `config.arm64_v8a` */
+  splits: string[];
+  /** Base and split APKs; empty until read with `pm path` */
+  apks: ApkFile[];
+}
+
+/**
+ * What split APKs a device needs, in the shape of a bundletool device spec
+ * (`--device-spec`). ABIs and locales are in order of preference.
+ */
+export interface DeviceSpec {
+  /** e.g. `arm64-v8a` */
+  supportedAbis: string[];
+  /** BCP 47 tags, e.g. `en-US` */
+  supportedLocales: string[];
+  /** dpi, e.g. 420 */
+  screenDensity: number;
+  sdkVersion: number;
+}
+
+export type AppComponentKind = "activity" | "service" | "receiver" | "provider";
+
+/**
+ * An intent filter as printed in the resolver tables of `dumpsys package`.
+ * Authorities keep their port when one is set, e.g. `example.com:8080`.
+ */
+export interface IntentFilterInfo {
+  actions: string[];
+  categories: string[];
+  schemes: string[];
+  authorities: string[];
+  paths: string[];
+  mimeTypes: string[];
+}
+
+/**
+ * An activity, service, broadcast receiver or content provider of an
+ * installed package, as declared in its manifest or, failing that, as far
+ * as `dumpsys package` reveals it: there, components without intent
+ * filters only show up when they are providers.
+ */
+export interface AppComponent {
+  kind: AppComponentKind;
+  /** Flattened component name, e.g. `com.example/.MainActivity` */
+  name: string;
+  /** Fully qualified class name */
+  className: string;
+  /** Undefined when unknown: the manifest wasn't read and the dump doesn't print it */
+  exported?: boolean;
+  /** Permission a caller needs to reach the component */
+  permission?: string;
+  /** Content provider authorities */
+  authorities: string[];
+  filters: IntentFilterInfo[];
+}
+
+/** A typed `am` intent extra: `--es`, `--ei`, `--el`, `--ez` or `--eia` */
+export type IntentExtra =
+  | { type: "string"; key: string; value: string }
+  | { type: "int"; key: string; value: number }
+  | { type: "long"; key: string; value: number }
+  | { type: "bool"; key: string; value: boolean }
+  | { type: "int-array"; key: string; value: number[] };
+
+/**
+ * An intent for `am start`, `am startservice` or `am broadcast`.
+ */
+export interface IntentSpec {
+  action?: string;
+  categories?: string[];
+  /** Data URI (`-d`) */
+  data?: string;
+  /** MIME type (`-t`) */
+  mimeType?: string;
+  /** Explicit component as `package/class` (`-n`) */
+  component?: string;
+  /** Intent flags (`-f`) */
+  flags?: number;
+  extras?: IntentExtra[];
+}
+
 /**
  * Options for creating an AdbClient
  */
@@ -0,0 +1,307 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { unzipSync, zipSync } from "fflate";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { extractApkSet, selectApkSetEntries, writeApksArchive, type DeviceSpec } from "../src/index.js";
+
+const pixel: DeviceSpec = {
+  supportedAbis: ["arm64-v8a", "armeabi-v7a", "armeabi"],
+  supportedLocales: ["fr-FR"],
+  screenDensity: 420,
+  sdkVersion: 34,
+};
+
+const varint = (value: number): number[] => {
+  const bytes: number[] = [];
+  for (; value > 0x7f; value = Math.floor(value / 128)) bytes.push((value & 0x7f) | 0x80);
+  return [...bytes, value];
+};
+
+/** One protobuf field: a varint, or a string or nested message */
+const field = (number: number, value: number | string | number[]): number[] => {
+  if (typeof value === "number") return [...varint(number * 8), ...varint(value)];
+  const bytes = typeof value === "string" ? [...new TextEncoder().encode(value)] : value;
+  return [...varint(number * 8 + 2), ...varint(bytes.length), ...bytes];
+};
+
+const dimension = (values: number[][], alternatives: number[][] = []) => [
+  ...values.flatMap((value) => field(1, value)),
+  ...alternatives.flatMap((value) => field(2, value)),
+];
+const sdk = (min: number) => field(1, field(1, min));
+const abi = (alias: number) => field(1, alias);
+const density = (alias: number) => field(1, alias);
+const [ARMEABI_V7A, ARM64_V8A, X86, X86_64] = [2, 3, 4, 5];
+const [XHDPI, XXHDPI, XXXHDPI] = [6, 7, 8];
+
+/** `ApkDescription`, with `ApkTargeting` fields by number */
+const apk = (path: string, targeting: Record<number, number[]> = {}) => [
+  ...field(
+    1,
+    Object.entries(targeting).flatMap(([number, value]) => field(Number(number), value)),
+  ),
+  ...field(2, path),
+];
+const apkSet = (module: string, apks: number[][], deliveryType?: number) => [
+  ...field(1, [...field(1, module), ...(deliveryType === undefined ? [] : field(6, deliveryType))]),
+  ...apks.flatMap((description) => field(2, description)),
+];
+/** `Variant`, with `VariantTargeting` fields by number */
+const variant = (targeting: Record<number, number[]>, apkSets: number[][]) => [
+  ...field(
+    1,
+    Object.entries(targeting).flatMap(([number, value]) => field(Number(number), value)),
+  ),
+  ...apkSets.flatMap((set) => field(2, set)),
+];
+const buildToc = (variants: number[][]) => new Uint8Array(variants.flatMap((entry) => field(1, entry)));
+
+const abiSplit = (path: string, own: number, others: number[]) =>
+  apk(path, { 1: dimension([abi(own)], others.map(abi)) });
+const densitySplit = (path: string, own: number, others: number[]) =>
+  apk(path, { 4: dimension([density(own)], others.map(density)) });
+
+const TOC = buildToc([
+  variant({ 1: dimension([sdk(1)], [sdk(21), sdk(33)]), 2: dimension([abi(ARMEABI_V7A)], [abi(X86)]) }, [
+    apkSet("base", [apk("standalones/standalone-armeabi_v7a.apk")]),
+  ]),
+  variant({ 1: dimension([sdk(1)], [sdk(21), sdk(33)]), 2: dimension([abi(X86)], [abi(ARMEABI_V7A)]) }, [
+    apkSet("base", [apk("standalones/standalone-x86.apk")]),
+  ]),
+  variant({ 1: dimension([sdk(21)], [sdk(1), sdk(33)]) }, [
+    apkSet("base", [
+      apk("splits/base-master.apk"),
+      abiSplit("splits/base-arm64_v8a.apk", ARM64_V8A, [ARMEABI_V7A, X86_64]),
+      abiSplit("splits/base-armeabi_v7a.apk", ARMEABI_V7A, [ARM64_V8A, X86_64]),
+      abiSplit("splits/base-x86_64.apk", X86_64, [ARM64_V8A, ARMEABI_V7A]),
+      densitySplit("splits/base-xhdpi.apk", XHDPI, [XXHDPI, XXXHDPI]),
+      densitySplit("splits/base-xxhdpi.apk", XXHDPI, [XHDPI, XXXHDPI]),
+      densitySplit("splits/base-xxxhdpi.apk", XXXHDPI, [XHDPI, XXHDPI]),
+      apk("splits/base-en.apk", { 3: field(1, "en") }),
+      apk("splits/base-fr.apk", { 3: field(1, "fr") }),
+    ]),
+    apkSet("camera", [apk("splits/camera-master.apk")], 2),
+    apkSet("feature", [apk("splits/feature-master.apk")], 1),
+  ]),
+  variant({ 1: dimension([sdk(33)], [sdk(1), sdk(21)]) }, [
+    apkSet("base", [
+      apk("splits/base-master_2.apk"),
+      abiSplit("splits/base-arm64_v8a_2.apk", ARM64_V8A, [X86_64]),
+      abiSplit("splits/base-x86_64_2.apk", X86_64, [ARM64_V8A]),
+      densitySplit("splits/base-xxhdpi_2.apk", XXHDPI, [XXXHDPI]),
+      densitySplit("splits/base-xxxhdpi_2.apk", XXXHDPI, [XXHDPI]),
+    ]),
+  ]),
+]);
+
+const TOC_ENTRIES = [
+  "toc.pb",
+  "standalones/standalone-armeabi_v7a.apk",
+  "standalones/standalone-x86.apk",
+  "splits/base-master.apk",
+  "splits/base-arm64_v8a.apk",
+  "splits/base-armeabi_v7a.apk",
+  "splits/base-x86_64.apk",
+  "splits/base-xhdpi.apk",
+  "splits/base-xxhdpi.apk",
+  "splits/base-xxxhdpi.apk",
+  "splits/base-en.apk",
+  "splits/base-fr.apk",
+  "splits/camera-master.apk",
+  "splits/feature-master.apk",
+  "splits/base-master_2.apk",
+  "splits/base-arm64_v8a_2.apk",
+  "splits/base-x86_64_2.apk",
+  "splits/base-xxhdpi_2.apk",
+  "splits/base-xxxhdpi_2.apk",
+];
+
+describe("selectApkSetEntries with toc.pb", () => {
+  it("picks the variant for the device's API level and the splits its targeting selects", () => {
+    expect(selectApkSetEntries(TOC_ENTRIES, pixel, TOC)).toEqual([
+      "splits/base-master_2.apk",
+      "splits/base-arm64_v8a_2.apk",
+      "splits/base-xxhdpi_2.apk",
+    ]);
+  });
+
+  it("includes install-time modules and every device language, not on-demand modules", () => {
+    const tablet = {
+      supportedAbis: ["x86_64", "x86"],
+      supportedLocales: ["de-DE", "en-GB"],
+      screenDensity: 640,
+      sdkVersion: 30,
+    };
+
+    expect(selectApkSetEntries(TOC_ENTRIES, tablet, TOC)).toEqual([
+      "splits/base-master.apk",
+      "splits/base-x86_64.apk",
+      "splits/base-xxxhdpi.apk",
+      "splits/base-en.apk",
+      "splits/feature-master.apk",
+    ]);
+  });
+
+  it("picks the standalone variant for the device's ABI below Android 5.0", () => {
+    const kitkat = { ...pixel, supportedAbis: ["x86"], screenDensity: 240, sdkVersion: 19 };
+    expect(selectApkSetEntries(TOC_ENTRIES, kitkat, TOC)).toEqual(["standalones/standalone-x86.apk"]);
+  });
+
+  it("fails when no ABI split fits the device or an APK is missing", () => {
+    expect(() => selectApkSetEntries(TOC_ENTRIES, { ...pixel, supportedAbis: ["riscv64"] }, TOC)).toThrow(
+      "No base split for riscv64",
+    );
+    expect(() => selectApkSetEntries(["toc.pb", "splits/base-master_2.apk"], pixel, TOC)).toThrow(
+      "toc.pb lists splits/base-arm64_v8a_2.apk, which the APK set doesn't contain",
+    );
+  });
+});
+
+describe("selectApkSetEntries without toc.pb", () => {
+  it("picks master splits plus the preferred ABI, nearest higher density and device language", () => {
+    const entries = [
+      "toc.pb",
+      "splits/base-master.apk",
+      "splits/base-armeabi_v7a.apk",
+      "splits/base-arm64_v8a.apk",
+      "splits/base-x86_64.apk",
+      "splits/base-xhdpi.apk",
+      "splits/base-xxhdpi.apk",
+      "splits/base-xxxhdpi.apk",
+      "splits/base-en.apk",
+      "splits/base-fr.apk",
+      "splits/camera-master.apk",
+      "splits/camera-xxhdpi.apk",
+    ];
+
+    expect(selectApkSetEntries(entries, pixel)).toEqual([
+      "splits/base-master.apk",
+      "splits/base-arm64_v8a.apk",
+      "splits/base-xxhdpi.apk",
+      "splits/base-fr.apk",
+      "splits/camera-master.apk",
+      "splits/camera-xxhdpi.apk",
+    ]);
+  });
+
+  it("reads the flat layout of APKs pulled from a device", () => {
+    const entries = [
+      "base.apk",
+      "split_config.arm64_v8a.apk",
+      "split_config.x86_64.apk",
+      "split_config.xxhdpi.apk",
+      "split_config.en.apk",
+      "split_feature.apk",
+      "split_feature.config.xxhdpi.apk",
+    ];
+
+    expect(selectApkSetEntries(entries, { ...pixel, supportedAbis: ["x86_64"], supportedLocales: ["en-US"] })).toEqual([
+      "base.apk",
+      "split_config.x86_64.apk",
+      "split_config.xxhdpi.apk",
+      "split_config.en.apk",
+      "split_feature.apk",
+      "split_feature.config.xxhdpi.apk",
+    ]);
+  });
+
+  it("uses the first variant and falls back to the highest density", () => {
+    const entries = [
+      "splits/base-master.apk",
+      "splits/base-hdpi.apk",
+      "splits/base-master_2.apk",
+      "splits/base-hdpi_2.apk",
+    ];
+
+    expect(selectApkSetEntries(entries, { ...pixel, screenDensity: 640 })).toEqual([
+      "splits/base-master.apk",
+      "splits/base-hdpi.apk",
+    ]);
+  });
+
+  it("picks a standalone APK below Android 5.0 and the universal APK of a universal set", () => {
+    const standalones = [
+      "standalones/standalone-armeabi_v7a_hdpi.apk",
+      "standalones/standalone-armeabi_v7a_xhdpi.apk",
+      "standalones/standalone-x86_hdpi.apk",
+      "splits/base-master.apk",
+    ];
+    const kitkat = { ...pixel, supportedAbis: ["armeabi-v7a"], screenDensity: 320, sdkVersion: 19 };
+
+    expect(selectApkSetEntries(standalones, kitkat)).toEqual(["standalones/standalone-armeabi_v7a_xhdpi.apk"]);
+    expect(selectApkSetEntries(["toc.pb", "universal.apk"], pixel)).toEqual(["universal.apk"]);
+  });
+
+  it("fails when no ABI split fits the device", () => {
+    expect(() => selectApkSetEntries(["splits/base-master.apk", "splits/base-x86.apk"], pixel)).toThrow(
+      "No base split for arm64-v8a, armeabi-v7a, armeabi",
+    );
+  });
+});
+
+describe("apk set files", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "apks-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("stores each APK at the archive root under its file name", async () => {
+    const base = path.join(dir, "base.apk");
+    const split = path.join(dir, "split_config.arm64_v8a.apk");
+    await fs.writeFile(base, "base contents");
+    await fs.writeFile(split, "split contents");
+
+    const archive = path.join(dir, "com.example.apks");
+    await writeApksArchive([base, split], archive);
+
+    const entries = unzipSync(new Uint8Array(await fs.readFile(archive)));
+    expect(Object.keys(entries)).toEqual(["base.apk", "split_config.arm64_v8a.apk"]);
+    expect(new TextDecoder().decode(entries["split_config.arm64_v8a.apk"])).toBe("split contents");
+  });
+
+  it("extracts the selected splits of an APK set", async () => {
+    const archive = path.join(dir, "app.apks");
+    const encode = (text: string) => new TextEncoder().encode(text);
+    await fs.writeFile(
+      archive,
+      zipSync({
+        "toc.pb": buildToc([
+          variant({ 1: dimension([sdk(21)]) }, [
+            apkSet("base", [
+              apk("splits/base-master.apk"),
+              abiSplit("splits/base-arm64_v8a.apk", ARM64_V8A, [X86]),
+              abiSplit("splits/base-x86.apk", X86, [ARM64_V8A]),
+            ]),
+          ]),
+        ]),
+        splits: {
+          "base-master.apk": encode("master"),
+          "base-arm64_v8a.apk": encode("arm64"),
+          "base-x86.apk": encode("x86"),
+        },
+      }),
+    );
+
+    const extracted = await extractApkSet(archive, pixel, dir);
+    expect(extracted).toEqual([path.join(dir, "splits_base-master.apk"), path.join(dir, "splits_base-arm64_v8a.apk")]);
+    expect(await fs.readFile(extracted[1], "utf8")).toBe("arm64");
+  });
+
+  it("rejects APKs with the same file name", async () => {
+    await fs.mkdir(path.join(dir, "a"));
+    await fs.mkdir(path.join(dir, "b"));
+    await fs.writeFile(path.join(dir, "a", "base.apk"), "a");
+    await fs.writeFile(path.join(dir, "b", "base.apk"), "b");
+
+    await expect(
+      writeApksArchive([path.join(dir, "a", "base.apk"), path.join(dir, "b", "base.apk")], path.join(dir, "out.apks")),
+    ).rejects.toThrow("Duplicate APK name in archive: base.apk");
+  });
+});
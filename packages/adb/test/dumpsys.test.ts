@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+
+import { parseAppComponents } from "../src/index.js";
+
+const DUMP = [
+  "Activity Resolver Table:",
+  "  Non-Data Actions:",
+  "      android.intent.action.MAIN:",
+  "        5c1a6d4 com.example.app/.MainActivity filter 8e3b5f2",
+  '          Action: "android.intent.action.MAIN"',
+  '          Category: "android.intent.category.LAUNCHER"',
+  "          mPriority=0, mOrder=0, mHasStaticPartialTypes=false, mHasDynamicPartialTypes=false",
+  "",
+  "  Schemes:",
+  "      https:",
+  "        77a0b1c com.example.app/.DeepLinkActivity filter 2d4e6f8",
+  '          Action: "android.intent.action.VIEW"',
+  '          Category: "android.intent.category.DEFAULT"',
+  '          Category: "android.intent.category.BROWSABLE"',
+  '          Scheme: "https"',
+  '          Scheme: "http"',
+  '          Authority: "example.com": -1',
+  '          Authority: "dev.example.com": 8080',
+  '          Path: "PatternMatcher{PREFIX: /products}"',
+  "          AutoVerify=true",
+  "      http:",
+  "        77a0b1c com.example.app/.DeepLinkActivity filter 2d4e6f8",
+  '          Action: "android.intent.action.VIEW"',
+  '          Scheme: "http"',
+  "",
+  "  Full MIME Types:",
+  "      text/plain:",
+  "        9f8e7d6 com.example.app/com.example.share.ShareActivity filter 1a2b3c4",
+  '          Action: "android.intent.action.SEND"',
+  '          Type: "text/plain"',
+  "",
+  "Receiver Resolver Table:",
+  "  Non-Data Actions:",
+  "      com.example.app.ACTION_SYNC:",
+  "        3c3c3c3 com.example.app/.SyncReceiver filter 4d4d4d4",
+  "      android.intent.action.BOOT_COMPLETED:",
+  "        3c3c3c3 com.example.app/.SyncReceiver filter 5e5e5e5",
+  "        6f6f6f6 com.other/.Receiver filter 7a7a7a7",
+  "",
+  "Service Resolver Table:",
+  "  Non-Data Actions:",
+  "      com.google.firebase.MESSAGING_EVENT:",
+  "        1b1b1b1 com.example.app/com.google.firebase.messaging.FirebaseMessagingService filter 2c2c2c2 permission com.google.android.c2dm.permission.SEND",
+  '          Action: "com.google.firebase.MESSAGING_EVENT"',
+  "          mPriority=-500, mOrder=0, mHasStaticPartialTypes=false, mHasDynamicPartialTypes=false",
+  "",
+  "Registered ContentProviders:",
+  "  com.example.app/androidx.startup.InitializationProvider:",
+  "    Provider{6f3e2a1 com.example.app/androidx.startup.InitializationProvider}",
+  "  com.example.app/.data.NotesProvider:",
+  "    Provider{8a8a8a8 com.example.app/.data.NotesProvider}",
+  "      exported=true readPermission=com.example.app.READ_NOTES",
+  "",
+  "ContentProvider Authorities:",
+  "  [com.example.app.androidx-startup]:",
+  "    Provider{6f3e2a1 com.example.app/androidx.startup.InitializationProvider}",
+  "      applicationInfo=ApplicationInfo{a8d2f1 com.example.app}",
+  "  [com.example.app.notes]:",
+  "    Provider{8a8a8a8 com.example.app/.data.NotesProvider}",
+  "",
+  "Packages:",
+  "  Package [com.example.app] (c0ffee):",
+  "    versionName=1.0",
+].join("\n");
+
+describe("parseAppComponents", () => {
+  const components = parseAppComponents("com.example.app", DUMP);
+  const byName = (name: string) => components.find((component) => component.name === name);
+
+  it("lists components of the package only, grouped by kind", () => {
+    expect(components.map((component) => [component.kind, component.className])).toEqual([
+      ["activity", "com.example.app.DeepLinkActivity"],
+      ["activity", "com.example.app.MainActivity"],
+      ["activity", "com.example.share.ShareActivity"],
+      ["service", "com.google.firebase.messaging.FirebaseMessagingService"],
+      ["receiver", "com.example.app.SyncReceiver"],
+      ["provider", "androidx.startup.InitializationProvider"],
+      ["provider", "com.example.app.data.NotesProvider"],
+    ]);
+  });
+
+  it("merges the entries of one filter listed under several keys", () => {
+    expect(byName("com.example.app/.DeepLinkActivity")?.filters).toEqual([
+      {
+        actions: ["android.intent.action.VIEW"],
+        categories: ["android.intent.category.DEFAULT", "android.intent.category.BROWSABLE"],
+        schemes: ["https", "http"],
+        authorities: ["example.com", "dev.example.com:8080"],
+        paths: ["/products*"],
+        mimeTypes: [],
+      },
+    ]);
+    expect(byName("com.example.app/com.example.share.ShareActivity")?.filters[0].mimeTypes).toEqual(["text/plain"]);
+  });
+
+  it("falls back to the table keys when filter details are missing", () => {
+    expect(byName("com.example.app/.SyncReceiver")?.filters.map((filter) => filter.actions)).toEqual([
+      ["com.example.app.ACTION_SYNC"],
+      ["android.intent.action.BOOT_COMPLETED"],
+    ]);
+  });
+
+  it("reads permissions, exported flags and provider authorities", () => {
+    const service = byName("com.example.app/com.google.firebase.messaging.FirebaseMessagingService");
+    expect(service?.permission).toBe("com.google.android.c2dm.permission.SEND");
+    expect(service?.exported).toBeUndefined();
+
+    const notes = byName("com.example.app/.data.NotesProvider");
+    expect(notes).toMatchObject({
+      exported: true,
+      permission: "com.example.app.READ_NOTES",
+      authorities: ["com.example.app.notes"],
+    });
+    expect(byName("com.example.app/androidx.startup.InitializationProvider")?.authorities).toEqual([
+      "com.example.app.androidx-startup",
+    ]);
+  });
+});
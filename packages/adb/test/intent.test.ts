@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+
+import { buildIntentArguments, formatIntentExtras, parseContentQueryRows, parseIntentExtras } from "../src/index.js";
+
+describe("buildIntentArguments", () => {
+  it("orders options the way am documents them", () => {
+    expect(
+      buildIntentArguments({
+        component: "com.example/.SyncReceiver",
+        action: "com.example.SYNC",
+        categories: ["android.intent.category.DEFAULT"],
+        data: "content://com.example/notes/1",
+        mimeType: "text/plain",
+        flags: 0x10000000,
+        extras: [
+          { type: "string", key: "user", value: "Jane Doe" },
+          { type: "int-array", key: "ids", value: [1, 2] },
+        ],
+      }),
+    ).toEqual([
+      "-a",
+      "com.example.SYNC",
+      "-d",
+      "content://com.example/notes/1",
+      "-t",
+      "text/plain",
+      "-c",
+      "android.intent.category.DEFAULT",
+      "-n",
+      "com.example/.SyncReceiver",
+      "-f",
+      "0x10000000",
+      "--es",
+      "user",
+      "Jane Doe",
+      "--eia",
+      "ids",
+      "1,2",
+    ]);
+  });
+});
+
+describe("parseIntentExtras", () => {
+  it("parses typed extras with quoted values", () => {
+    expect(
+      parseIntentExtras(`--es user "Jane Doe" --ei count 3 --el since -5 --ez debug true --eia ids 1,2,3`),
+    ).toEqual([
+      { type: "string", key: "user", value: "Jane Doe" },
+      { type: "int", key: "count", value: 3 },
+      { type: "long", key: "since", value: -5 },
+      { type: "bool", key: "debug", value: true },
+      { type: "int-array", key: "ids", value: [1, 2, 3] },
+    ]);
+    expect(parseIntentExtras("  ")).toEqual([]);
+  });
+
+  it("rejects unknown options and mistyped values", () => {
+    expect(() => parseIntentExtras("--ef ratio 0.5")).toThrow(/Unknown extra option/);
+    expect(() => parseIntentExtras("--ei count three")).toThrow(/int value/);
+    expect(() => parseIntentExtras("--ez debug yes")).toThrow(/true or false/);
+    expect(() => parseIntentExtras("--es user")).toThrow(/key and a value/);
+  });
+
+  it("round-trips through formatIntentExtras", () => {
+    const text = `--es user "Jane Doe" --es quote 'say "hi"' --es empty "" --ez debug false`;
+    expect(parseIntentExtras(formatIntentExtras(parseIntentExtras(text)))).toEqual(parseIntentExtras(text));
+  });
+});
+
+describe("parseContentQueryRows", () => {
+  it("splits columns without breaking commas inside values", () => {
+    const output = [
+      "Row: 0 _id=1, title=Groceries, body=milk, eggs, bread, deleted=NULL",
+      "Row: 1 _id=2, title=Multi, body=first line",
+      "second line",
+    ].join("\n");
+
+    expect(parseContentQueryRows(output)).toEqual([
+      { _id: "1", title: "Groceries", body: "milk, eggs, bread", deleted: "NULL" },
+      { _id: "2", title: "Multi", body: "first line\nsecond line" },
+    ]);
+    expect(parseContentQueryRows("No result found.\n")).toEqual([]);
+  });
+});
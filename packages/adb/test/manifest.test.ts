@@ -0,0 +1,250 @@
+import { describe, expect, it } from "vitest";
+
+import { mergeAppComponents, parseAppComponents, parseManifestComponents } from "../src/index.js";
+
+interface Element {
+  tag: string;
+  attributes?: Record<string, string | boolean | number>;
+  children?: Element[];
+}
+
+const ATTRIBUTE_IDS: Record<string, number> = {
+  name: 0x01010003,
+  permission: 0x01010006,
+  exported: 0x01010010,
+  authorities: 0x01010018,
+  scheme: 0x01010027,
+  host: 0x01010028,
+  port: 0x01010029,
+  pathPrefix: 0x0101002b,
+  targetSdkVersion: 0x01010270,
+};
+
+/**
+ * Compile an element tree the way aapt does: a string pool that starts with
+ * the `android:` attribute names, a resource map for those, then one chunk
+ * per start and end tag.
+ */
+function compileXml(root: Element, { utf8 = false, stripNames = false } = {}): Uint8Array {
+  const attributeNames = Object.keys(ATTRIBUTE_IDS);
+  const strings = attributeNames.map((name) => (stripNames ? "" : name));
+  const index = (value: string) => {
+    const found = strings.indexOf(value, attributeNames.length);
+    return found === -1 ? strings.push(value) - 1 : found;
+  };
+
+  const chunks: number[][] = [];
+  const u16 = (value: number) => [value & 0xff, value >>> 8];
+  const u32 = (value: number) => [value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, value >>> 24];
+
+  const visit = (element: Element) => {
+    const attributes = Object.entries(element.attributes ?? {}).flatMap(([name, value]) => {
+      const nameIndex = attributeNames.indexOf(name);
+      if (typeof value === "string") {
+        const valueIndex = index(value);
+        return [...u32(0), ...u32(nameIndex), ...u32(valueIndex), ...u16(8), 0, 0x03, ...u32(valueIndex)];
+      }
+      const [type, data] = typeof value === "boolean" ? [0x12, value ? 0xffffffff : 0] : [0x10, value];
+      return [...u32(0), ...u32(nameIndex), ...u32(0xffffffff), ...u16(8), 0, type, ...u32(data)];
+    });
+    const count = attributes.length / 20;
+    const tag = index(element.tag);
+    chunks.push([
+      ...u16(0x0102),
+      ...u16(16),
+      ...u32(36 + attributes.length),
+      ...u32(1),
+      ...u32(0xffffffff),
+      ...u32(0xffffffff),
+      ...u32(tag),
+      ...u16(20),
+      ...u16(20),
+      ...u16(count),
+      ...u16(0),
+      ...u16(0),
+      ...u16(0),
+      ...attributes,
+    ]);
+    for (const child of element.children ?? []) visit(child);
+    chunks.push([
+      ...u16(0x0103),
+      ...u16(16),
+      ...u32(24),
+      ...u32(1),
+      ...u32(0xffffffff),
+      ...u32(0xffffffff),
+      ...u32(tag),
+    ]);
+  };
+  visit(root);
+
+  const encoded = strings.map((value) => {
+    if (!utf8) {
+      const chars = [...value].flatMap((char) => u16(char.charCodeAt(0)));
+      return [...u16(value.length), ...chars, 0, 0];
+    }
+    const bytes = [...new TextEncoder().encode(value)];
+    return [value.length, bytes.length, ...bytes, 0];
+  });
+  const offsets: number[] = [];
+  let stringData: number[] = [];
+  for (const bytes of encoded) {
+    offsets.push(stringData.length);
+    stringData = [...stringData, ...bytes];
+  }
+  while (stringData.length % 4) stringData.push(0);
+  const stringsStart = 28 + offsets.length * 4;
+  const pool = [
+    ...u16(0x0001),
+    ...u16(28),
+    ...u32(stringsStart + stringData.length),
+    ...u32(strings.length),
+    ...u32(0),
+    ...u32(utf8 ? 0x100 : 0),
+    ...u32(stringsStart),
+    ...u32(0),
+    ...offsets.flatMap(u32),
+    ...stringData,
+  ];
+  const resourceMap = [
+    ...u16(0x0180),
+    ...u16(8),
+    ...u32(8 + attributeNames.length * 4),
+    ...attributeNames.flatMap((name) => u32(ATTRIBUTE_IDS[name])),
+  ];
+
+  const body = [...pool, ...resourceMap, ...chunks.flat()];
+  return new Uint8Array([...u16(0x0003), ...u16(8), ...u32(8 + body.length), ...body]);
+}
+
+const MANIFEST: Element = {
+  tag: "manifest",
+  children: [
+    { tag: "uses-sdk", attributes: { targetSdkVersion: 34 } },
+    {
+      tag: "application",
+      children: [
+        {
+          tag: "activity",
+          attributes: { name: ".MainActivity" },
+          children: [
+            {
+              tag: "intent-filter",
+              children: [
+                { tag: "action", attributes: { name: "android.intent.action.MAIN" } },
+                { tag: "category", attributes: { name: "android.intent.category.LAUNCHER" } },
+              ],
+            },
+          ],
+        },
+        { tag: "activity", attributes: { name: "com.example.app.settings.SettingsActivity", exported: false } },
+        {
+          tag: "activity",
+          attributes: { name: "DeepLinkActivity", exported: true },
+          children: [
+            {
+              tag: "intent-filter",
+              children: [
+                { tag: "action", attributes: { name: "android.intent.action.VIEW" } },
+                { tag: "data", attributes: { scheme: "https", host: "example.com", pathPrefix: "/products" } },
+                { tag: "data", attributes: { host: "dev.example.com", port: "8080" } },
+              ],
+            },
+          ],
+        },
+        { tag: "service", attributes: { name: "androidx.work.impl.background.systemjob.SystemJobService" } },
+        {
+          tag: "receiver",
+          attributes: { name: ".SyncReceiver", exported: true, permission: "com.example.app.SYNC" },
+        },
+        {
+          tag: "provider",
+          attributes: { name: ".data.NotesProvider", authorities: "com.example.app.notes;com.example.app.legacy" },
+        },
+      ],
+    },
+  ],
+};
+
+describe("parseManifestComponents", () => {
+  const components = parseManifestComponents("com.example.app", compileXml(MANIFEST));
+  const byName = (name: string) => components.find((component) => component.name === name);
+
+  it("lists every declared component, with or without intent filters", () => {
+    expect(components.map((component) => [component.kind, component.name, component.exported])).toEqual([
+      ["activity", "com.example.app/.MainActivity", true],
+      ["activity", "com.example.app/.settings.SettingsActivity", false],
+      ["activity", "com.example.app/.DeepLinkActivity", true],
+      ["service", "com.example.app/androidx.work.impl.background.systemjob.SystemJobService", false],
+      ["receiver", "com.example.app/.SyncReceiver", true],
+      ["provider", "com.example.app/.data.NotesProvider", false],
+    ]);
+    expect(byName("com.example.app/androidx.work.impl.background.systemjob.SystemJobService")).toMatchObject({
+      className: "androidx.work.impl.background.systemjob.SystemJobService",
+      filters: [],
+    });
+  });
+
+  it("reads intent filters, permissions and provider authorities", () => {
+    expect(byName("com.example.app/.DeepLinkActivity")?.filters).toEqual([
+      {
+        actions: ["android.intent.action.VIEW"],
+        categories: [],
+        schemes: ["https"],
+        authorities: ["example.com", "dev.example.com:8080"],
+        paths: ["/products*"],
+        mimeTypes: [],
+      },
+    ]);
+    expect(byName("com.example.app/.SyncReceiver")?.permission).toBe("com.example.app.SYNC");
+    expect(byName("com.example.app/.data.NotesProvider")?.authorities).toEqual([
+      "com.example.app.notes",
+      "com.example.app.legacy",
+    ]);
+  });
+
+  it("exports providers by default when targeting API 16 or lower", () => {
+    const legacy = {
+      ...MANIFEST,
+      children: [{ tag: "uses-sdk", attributes: { targetSdkVersion: 16 } }, MANIFEST.children![1]],
+    };
+    const provider = parseManifestComponents("com.example.app", compileXml(legacy)).find(
+      (component) => component.kind === "provider",
+    );
+    expect(provider?.exported).toBe(true);
+  });
+
+  it("reads UTF-8 string pools and attributes known only by resource id", () => {
+    expect(parseManifestComponents("com.example.app", compileXml(MANIFEST, { utf8: true }))).toEqual(components);
+    expect(parseManifestComponents("com.example.app", compileXml(MANIFEST, { stripNames: true }))).toEqual(components);
+  });
+
+  it("rejects data that isn't binary XML", () => {
+    expect(() => parseManifestComponents("com.example.app", new TextEncoder().encode("<manifest/>"))).toThrow(
+      "Not a binary XML document",
+    );
+  });
+});
+
+describe("mergeAppComponents", () => {
+  it("keeps the manifest's components and adds those only the dump lists", () => {
+    const declared = parseManifestComponents("com.example.app", compileXml(MANIFEST));
+    const dumped = parseAppComponents(
+      "com.example.app",
+      [
+        "Activity Resolver Table:",
+        "  Non-Data Actions:",
+        "      android.intent.action.MAIN:",
+        "        5c1a6d4 com.example.app/.MainActivity filter 8e3b5f2",
+        "      com.example.app.ACTION_ALIAS:",
+        "        9f8e7d6 com.example.app/.LauncherAlias filter 1a2b3c4",
+      ].join("\n"),
+    );
+
+    const merged = mergeAppComponents(declared, dumped);
+    expect(merged.slice(0, declared.length)).toEqual(declared);
+    expect(merged.slice(declared.length).map((component) => component.name)).toEqual([
+      "com.example.app/.LauncherAlias",
+    ]);
+  });
+});
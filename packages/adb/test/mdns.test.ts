@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+
+import { buildQrPairingPayload, parseMdnsServices } from "../src/index.js";
+
+describe("parseMdnsServices", () => {
+  it("parses pairing, connect and legacy services below the header", () => {
+    const output = [
+      "List of discovered mdns services",
+      "adb-R58M123ABC-x1Yz2w\t_adb-tls-connect._tcp\t192.168.1.23:41235",
+      "studio-Jq3k0\t_adb-tls-pairing._tcp.\t192.168.1.23:37099",
+      "adb-emulator\t_adb._tcp\t[fe80::1]:5555",
+      "",
+    ].join("\n");
+
+    expect(parseMdnsServices(output)).toEqual([
+      {
+        name: "adb-R58M123ABC-x1Yz2w",
+        type: "_adb-tls-connect._tcp",
+        address: "192.168.1.23:41235",
+        kind: "connect",
+        host: "192.168.1.23",
+        port: 41235,
+      },
+      {
+        name: "studio-Jq3k0",
+        type: "_adb-tls-pairing._tcp",
+        address: "192.168.1.23:37099",
+        kind: "pairing",
+        host: "192.168.1.23",
+        port: 37099,
+      },
+      {
+        name: "adb-emulator",
+        type: "_adb._tcp",
+        address: "[fe80::1]:5555",
+        kind: "legacy",
+        host: "[fe80::1]",
+        port: 5555,
+      },
+    ]);
+  });
+
+  it("skips lines without an address", () => {
+    expect(parseMdnsServices("List of discovered mdns services\nbroken\t_adb._tcp\tnowhere\n")).toEqual([]);
+  });
+});
+
+describe("buildQrPairingPayload", () => {
+  it("builds the Wi-Fi style payload the device scans, escaping separators", () => {
+    expect(buildQrPairingPayload("devkit-a1b2c3", "x9y8z7")).toBe("WIFI:T:ADB;S:devkit-a1b2c3;P:x9y8z7;;");
+    expect(buildQrPairingPayload("a;b", 'p:"q"')).toBe('WIFI:T:ADB;S:a\\;b;P:p\\:\\"q\\";;');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+
+import { parseInstalledPackages, parsePackageDetails, parsePackageLines } from "../src/index.js";
+
+describe("parseInstalledPackages", () => {
+  it("splits the APK path at the last = and marks packages outside pm list -3 as system", () => {
+    const output = [
+      "package:/data/app/~~Xy1A==/com.example.app-Ab2C==/base.apk=com.example.app uid:10123",
+      "package:/system/priv-app/Settings/Settings.apk=com.android.settings uid:1000",
+      "package:/product/app/Chrome/Chrome.apk=com.android.chrome",
+      "",
+    ].join("\n");
+
+    expect(parseInstalledPackages(output, new Set(["com.example.app"]))).toEqual([
+      {
+        packageName: "com.example.app",
+        apkPath: "/data/app/~~Xy1A==/com.example.app-Ab2C==/base.apk",
+        uid: 10123,
+        system: false,
+      },
+      {
+        packageName: "com.android.settings",
+        apkPath: "/system/priv-app/Settings/Settings.apk",
+        uid: 1000,
+        system: true,
+      },
+      { packageName: "com.android.chrome", apkPath: "/product/app/Chrome/Chrome.apk", uid: undefined, system: true },
+    ]);
+  });
+});
+
+describe("parsePackageLines", () => {
+  it("reads pm path output, base APK first", () => {
+    expect(
+      parsePackageLines(
+        "package:/data/app/com.example-1/base.apk\npackage:/data/app/com.example-1/split_config.arm64_v8a.apk\n",
+      ),
+    ).toEqual(["/data/app/com.example-1/base.apk", "/data/app/com.example-1/split_config.arm64_v8a.apk"]);
+  });
+});
+
+describe("parsePackageDetails", () => {
+  const DUMP = [
+    "Activity Resolver Table:",
+    "  Non-Data Actions:",
+    "",
+    "Packages:",
+    "  Package [com.example.app] (a1b2c3):",
+    "    userId=10123",
+    "    pkg=Package{d4e5f6 com.example.app}",
+    "    codePath=/data/app/~~Xy1A==/com.example.app-Ab2C==",
+    "    versionCode=42 minSdk=24 targetSdk=34",
+    "    versionName=1.4.2",
+    "    splits=[base, config.arm64_v8a, config.xxhdpi]",
+    "    flags=[ HAS_CODE ALLOW_CLEAR_USER_DATA ALLOW_BACKUP ]",
+    "    dataDir=/data/user/0/com.example.app",
+    "    timeStamp=2026-03-01 10:11:12",
+    "    lastUpdateTime=2026-03-05 09:00:00",
+    "    installerPackageName=com.android.vending",
+    "    User 0: ceDataInode=4242 installed=true hidden=false suspended=false",
+    "      firstInstallTime=2026-03-01 10:11:13",
+    "",
+    "Hidden system packages:",
+    "  Package [com.example.app] (f00f00):",
+    "    versionName=0.1",
+  ].join("\n");
+
+  it("reads the installed package's block", () => {
+    expect(parsePackageDetails("com.example.app", DUMP)).toEqual({
+      packageName: "com.example.app",
+      versionName: "1.4.2",
+      versionCode: 42,
+      minSdk: 24,
+      targetSdk: 34,
+      firstInstallTime: "2026-03-01 10:11:13",
+      lastUpdateTime: "2026-03-05 09:00:00",
+      installer: "com.android.vending",
+      uid: 10123,
+      dataDir: "/data/user/0/com.example.app",
+      codePath: "/data/app/~~Xy1A==/com.example.app-Ab2C==",
+      system: false,
+      splits: ["base", "config.arm64_v8a", "config.xxhdpi"],
+      apks: [],
+    });
+  });
+
+  it("flags system packages and drops a null installer", () => {
+    const dump = [
+      "Packages:",
+      "  Package [com.android.settings] (1a2b):",
+      "    userId=1000",
+      "    flags=[ SYSTEM HAS_CODE PERSISTENT ]",
+      "    installerPackageName=null",
+    ].join("\n");
+
+    const details = parsePackageDetails("com.android.settings", dump);
+    expect(details?.system).toBe(true);
+    expect(details?.installer).toBeUndefined();
+    expect(parsePackageDetails("com.missing", dump)).toBeUndefined();
+  });
+});
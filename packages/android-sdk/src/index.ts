@@ -16,6 +16,16 @@ function getToolExtension(kind: "binary" | "script"): string {
   return kind === "script" ? ".bat" : ".exe";
 }
 
+function compareVersions(a: string, b: string): number {
+  const left = a.split(".").map(Number);
+  const right = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
 export function resolveAndroidSdkPath(options: ResolveAndroidSdkPathOptions = {}): string | undefined {
   const env = options.env ?? process.env;
   const configuredPath = options.configuredPath?.trim();
@@ -55,6 +65,52 @@ export function getEmulatorDir(sdkPath: string): string | undefined {
   return resolveExistingPath(path.join(sdkPath, "emulator"));
 }
 
+/**
+ * The newest side-by-side NDK under `<sdk>/ndk`, falling back to the legacy
+ * `ndk-bundle` and then to ANDROID_NDK_HOME / ANDROID_NDK_ROOT.
+ */
+export function getNdkDir(sdkPath: string | undefined, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  if (sdkPath) {
+    const sideBySideDir = path.join(sdkPath, "ndk");
+    if (fs.existsSync(sideBySideDir)) {
+      const versions = fs
+        .readdirSync(sideBySideDir)
+        .filter((entry) => /^\d+(\.\d+)*$/.test(entry))
+        .sort(compareVersions)
+        .reverse();
+      if (versions.length > 0) return path.join(sideBySideDir, versions[0]);
+    }
+
+    const bundleDir = resolveExistingPath(path.join(sdkPath, "ndk-bundle"));
+    if (bundleDir) return bundleDir;
+  }
+
+  for (const envPath of [env.ANDROID_NDK_HOME, env.ANDROID_NDK_ROOT]) {
+    const existingEnvPath = resolveExistingPath(envPath);
+    if (existingEnvPath) return existingEnvPath;
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve a tool from the NDK's LLVM toolchain, e.g. `llvm-symbolizer`.
+ */
+export function resolveNdkToolPath(ndkPath: string, toolName: string): string | undefined {
+  const prebuiltDir = path.join(ndkPath, "toolchains", "llvm", "prebuilt");
+  if (!fs.existsSync(prebuiltDir)) return undefined;
+
+  const hostPrefix = process.platform === "win32" ? "windows" : process.platform === "darwin" ? "darwin" : "linux";
+  for (const host of fs.readdirSync(prebuiltDir).filter((entry) => entry.startsWith(hostPrefix))) {
+    const candidate = resolveExistingPath(
+      path.join(prebuiltDir, host, "bin", `${toolName}${getToolExtension("binary")}`),
+    );
+    if (candidate) return candidate;
+  }
+
+  return undefined;
+}
+
 export function getCommandLineToolsBinPath(sdkPath: string): string | undefined {
   const latestBin = path.join(sdkPath, "cmdline-tools", "latest", "bin");
   const existingLatestBin = resolveExistingPath(latestBin);
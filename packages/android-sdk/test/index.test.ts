@@ -4,10 +4,12 @@ import { join } from "node:path";
 import { afterEach, describe, expect, it } from "vitest";
 import {
   getCommandLineToolsBinPath,
+  getNdkDir,
   getSdkToolDirectories,
   resolveAndroidSdkPath,
   resolveCommandLineToolPath,
   resolveEmulatorToolPath,
+  resolveNdkToolPath,
   resolvePlatformToolPath,
 } from "../src/index.js";
 
@@ -67,4 +69,33 @@ describe("@android-devkit/android-sdk", () => {
     expect(resolveEmulatorToolPath(dir, "emulator")).toBe(join(emulatorDir, `emulator${binaryExt}`));
     expect(getSdkToolDirectories(dir)).toEqual([platformToolsDir, emulatorDir, latestBin]);
   });
+
+  it("picks the newest side-by-side NDK and resolves its LLVM tools", () => {
+    const dir = mkdtempSync(join(tmpdir(), "android-sdk-"));
+    tempDirs.push(dir);
+
+    const binaryExt = process.platform === "win32" ? ".exe" : "";
+    const host =
+      process.platform === "win32"
+        ? "windows-x86_64"
+        : process.platform === "darwin"
+          ? "darwin-x86_64"
+          : "linux-x86_64";
+    const ndkDir = join(dir, "ndk", "27.0.12077973");
+    const binDir = join(ndkDir, "toolchains", "llvm", "prebuilt", host, "bin");
+    mkdirSync(join(dir, "ndk", "9.2.1"), { recursive: true });
+    mkdirSync(binDir, { recursive: true });
+    writeFileSync(join(binDir, `llvm-symbolizer${binaryExt}`), "");
+
+    expect(getNdkDir(dir, {})).toBe(ndkDir);
+    expect(resolveNdkToolPath(ndkDir, "llvm-symbolizer")).toBe(join(binDir, `llvm-symbolizer${binaryExt}`));
+    expect(resolveNdkToolPath(ndkDir, "llvm-addr2line")).toBeUndefined();
+  });
+
+  it("falls back to ANDROID_NDK_HOME when the SDK has no NDK", () => {
+    const dir = mkdtempSync(join(tmpdir(), "android-ndk-"));
+    tempDirs.push(dir);
+
+    expect(getNdkDir(undefined, { ANDROID_NDK_HOME: dir })).toBe(dir);
+  });
 });
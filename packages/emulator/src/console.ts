@@ -0,0 +1,318 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { type Socket, connect } from "node:net";
+import type {
+  BatteryHealth,
+  BatteryState,
+  BatteryStatus,
+  ConsoleSnapshot,
+  EmulatorConsoleOptions,
+  GeoLocation,
+  GsmState,
+  GsmStatus,
+  NetworkDelay,
+  NetworkSpeed,
+} from "./types.js";
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+const BATTERY_STATUSES = new Set<string>(["charging", "discharging", "not-charging", "full"]);
+const BATTERY_HEALTHS = new Set<string>(["good", "overheat", "dead", "overvoltage", "failure"]);
+
+/** A `KO: <reason>` reply from the emulator console */
+export class EmulatorConsoleError extends Error {
+  constructor(
+    readonly command: string,
+    readonly reason: string,
+  ) {
+    super(`${command} failed: ${reason}`);
+    this.name = "EmulatorConsoleError";
+  }
+}
+
+interface PendingCommand {
+  command: string;
+  lines: string[];
+  timer: ReturnType<typeof setTimeout>;
+  resolve: (output: string) => void;
+  reject: (error: Error) => void;
+}
+
+/** The console port of an emulator serial, e.g. 5554 for `emulator-5554` */
+export function getConsolePort(serial: string): number | undefined {
+  const match = serial.match(/^emulator-(\d+)$/);
+  return match ? Number(match[1]) : undefined;
+}
+
+export function getDefaultAuthTokenPath(): string {
+  return path.join(os.homedir(), ".emulator_console_auth_token");
+}
+
+/** The console auth token the emulator writes on first start, if there is one */
+export async function readConsoleAuthToken(tokenPath = getDefaultAuthTokenPath()): Promise<string | undefined> {
+  try {
+    return (await fs.readFile(tokenPath, "utf8")).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Parse `avd snapshot list`: an `ID TAG VM SIZE DATE VM CLOCK` table */
+export function parseSnapshotList(output: string): ConsoleSnapshot[] {
+  const snapshots: ConsoleSnapshot[] = [];
+  for (const line of output.split(/\r?\n/)) {
+    const match = line.trim().match(/^\S+\s+(\S+)\s+(.+?)\s+(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2})\s+(\S+)/);
+    if (match) {
+      const [, name, size, date, vmClock] = match;
+      snapshots.push({ name, size, date, vmClock });
+    }
+  }
+  return snapshots;
+}
+
+/** `key: value` lines of console output, keys lowercased */
+function parseKeyValues(output: string): Map<string, string> {
+  const values = new Map<string, string>();
+  for (const line of output.split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon > 0) values.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+  }
+  return values;
+}
+
+/** Parse `power display`, e.g. `AC: online`, `status: Charging`, `capacity: 50` */
+export function parsePowerDisplay(output: string): BatteryState {
+  const values = parseKeyValues(output);
+  // Printed capitalized: `Not charging`, `Unspecified failure`
+  const status = (values.get("status") ?? "").toLowerCase().replace(/\s+/g, "-");
+  const health = (values.get("health") ?? "").toLowerCase().replace(/^.*\bfailure$/, "failure");
+  return {
+    acOnline: values.get("ac") === "online",
+    status: BATTERY_STATUSES.has(status) ? (status as BatteryStatus) : "unknown",
+    health: BATTERY_HEALTHS.has(health) ? (health as BatteryHealth) : "unknown",
+    present: values.get("present") !== "false",
+    capacity: Number(values.get("capacity") ?? 0) || 0,
+  };
+}
+
+/** Parse `gsm status`: `gsm voice state: home` and `gsm data state: home` */
+export function parseGsmStatus(output: string): GsmStatus {
+  const values = parseKeyValues(output);
+  return {
+    voice: (values.get("gsm voice state") ?? "unregistered") as GsmState,
+    data: (values.get("gsm data state") ?? "unregistered") as GsmState,
+  };
+}
+
+/**
+ * A connection to the console of a running emulator (`telnet localhost
+ * 5554`). Commands are answered in order with output lines followed by `OK`
+ * or `KO: <reason>`.
+ */
+export class EmulatorConsole {
+  private readonly pending: PendingCommand[] = [];
+  private buffer = "";
+  private closed = false;
+
+  private constructor(
+    private readonly socket: Socket,
+    private readonly timeoutMs: number,
+  ) {
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => this.receive(chunk));
+    socket.on("error", (err) => this.shutdown(err));
+    socket.on("close", () => this.shutdown());
+  }
+
+  /**
+   * Connect to an emulator console and authenticate with the token from
+   * `~/.emulator_console_auth_token` when the console asks for one.
+   */
+  static async connect(options: EmulatorConsoleOptions): Promise<EmulatorConsole> {
+    const socket = connect({ port: options.port, host: options.host ?? "127.0.0.1" });
+    const client = new EmulatorConsole(socket, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    try {
+      const banner = await client.expectReply("connect");
+      if (banner.includes("Authentication required")) {
+        const token = options.authToken ?? (await readConsoleAuthToken(options.authTokenPath));
+        if (!token) {
+          throw new Error(
+            `The emulator console needs the auth token from ${options.authTokenPath ?? getDefaultAuthTokenPath()}`,
+          );
+        }
+        await client.command(`auth ${token}`);
+      }
+      return client;
+    } catch (err) {
+      client.close();
+      throw err;
+    }
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /** Send a raw console command and resolve with its output lines */
+  command(command: string): Promise<string> {
+    if (/[\r\n]/.test(command)) {
+      return Promise.reject(new Error("Console commands must be a single line"));
+    }
+    if (this.closed) {
+      return Promise.reject(new Error("Emulator console is closed"));
+    }
+    const reply = this.expectReply(command);
+    this.socket.write(`${command}\n`);
+    return reply;
+  }
+
+  close(): void {
+    this.socket.destroy();
+    this.shutdown();
+  }
+
+  async getAvdName(): Promise<string> {
+    return (await this.command("avd name")).trim();
+  }
+
+  /** `geo fix` takes the longitude first */
+  async geoFix(location: GeoLocation): Promise<void> {
+    const args = [location.longitude, location.latitude];
+    if (location.altitude !== undefined || location.satellites !== undefined) {
+      args.push(location.altitude ?? 0);
+    }
+    if (location.satellites !== undefined) args.push(location.satellites);
+    await this.command(`geo fix ${args.join(" ")}`);
+  }
+
+  async setNetworkSpeed(speed: NetworkSpeed): Promise<void> {
+    await this.command(`network speed ${speed}`);
+  }
+
+  async setNetworkDelay(delay: NetworkDelay): Promise<void> {
+    await this.command(`network delay ${delay}`);
+  }
+
+  async setBatteryCapacity(percent: number): Promise<void> {
+    await this.command(`power capacity ${Math.round(Math.min(100, Math.max(0, percent)))}`);
+  }
+
+  async setBatteryStatus(status: BatteryStatus): Promise<void> {
+    await this.command(`power status ${status}`);
+  }
+
+  async setBatteryHealth(health: BatteryHealth): Promise<void> {
+    await this.command(`power health ${health}`);
+  }
+
+  async getBatteryState(): Promise<BatteryState> {
+    return parsePowerDisplay(await this.command("power display"));
+  }
+
+  /** Plug or unplug the charger */
+  async setAcCharging(connected: boolean): Promise<void> {
+    await this.command(`power ac ${connected ? "on" : "off"}`);
+  }
+
+  async sendSms(from: string, text: string): Promise<void> {
+    await this.command(`sms send ${from} ${text.replace(/\s*[\r\n]+\s*/g, " ")}`);
+  }
+
+  async getGsmStatus(): Promise<GsmStatus> {
+    return parseGsmStatus(await this.command("gsm status"));
+  }
+
+  async setGsmVoiceState(state: GsmState): Promise<void> {
+    await this.command(`gsm voice ${state}`);
+  }
+
+  async setGsmDataState(state: GsmState): Promise<void> {
+    await this.command(`gsm data ${state}`);
+  }
+
+  async gsmCall(phoneNumber: string): Promise<void> {
+    await this.command(`gsm call ${phoneNumber}`);
+  }
+
+  async gsmCancel(phoneNumber: string): Promise<void> {
+    await this.command(`gsm cancel ${phoneNumber}`);
+  }
+
+  /** e.g. `setSensor("acceleration", [0, 9.8, 0])` */
+  async setSensor(name: string, values: readonly number[]): Promise<void> {
+    await this.command(`sensor set ${name} ${values.join(":")}`);
+  }
+
+  /** Rotate the screen 90 degrees */
+  async rotate(): Promise<void> {
+    await this.command("rotate");
+  }
+
+  /** Touch the fingerprint sensor with an enrolled finger */
+  async fingerTouch(fingerId: number): Promise<void> {
+    await this.command(`finger touch ${fingerId}`);
+  }
+
+  async fingerRemove(): Promise<void> {
+    await this.command("finger remove");
+  }
+
+  async listSnapshots(): Promise<ConsoleSnapshot[]> {
+    return parseSnapshotList(await this.command("avd snapshot list"));
+  }
+
+  async saveSnapshot(name: string): Promise<void> {
+    await this.command(`avd snapshot save ${name}`);
+  }
+
+  async loadSnapshot(name: string): Promise<void> {
+    await this.command(`avd snapshot load ${name}`);
+  }
+
+  async deleteSnapshot(name: string): Promise<void> {
+    await this.command(`avd snapshot delete ${name}`);
+  }
+
+  private expectReply(command: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // Later replies would be matched to the wrong commands
+        this.shutdown(new Error(`Timed out waiting for the emulator console to answer "${command}"`));
+        this.socket.destroy();
+      }, this.timeoutMs);
+      this.pending.push({ command, lines: [], timer, resolve, reject });
+    });
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf("\n")) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(newline + 1);
+
+      const request = this.pending[0];
+      if (!request) continue;
+      if (line === "OK") {
+        this.pending.shift();
+        clearTimeout(request.timer);
+        request.resolve(request.lines.join("\n"));
+      } else if (line.startsWith("KO")) {
+        this.pending.shift();
+        clearTimeout(request.timer);
+        request.reject(new EmulatorConsoleError(request.command, line.replace(/^KO:?\s*/, "")));
+      } else {
+        request.lines.push(line);
+      }
+    }
+  }
+
+  private shutdown(error?: Error): void {
+    this.closed = true;
+    for (const request of this.pending.splice(0)) {
+      clearTimeout(request.timer);
+      request.reject(error ?? new Error("Emulator console closed"));
+    }
+  }
+}
@@ -1,20 +1,19 @@
 import { resolveEmulatorToolPath } from "@android-devkit/android-sdk";
 import { spawnCommand } from "@android-devkit/tool-core";
+import { buildEmulatorLaunchArgs } from "./launch-options.js";
+import type { EmulatorLaunchOptions } from "./types.js";
 
 export function getEmulatorPath(sdkPath: string): string | undefined {
   return resolveEmulatorToolPath(sdkPath, "emulator");
 }
 
-export function launchAvd(sdkPath: string, name: string, options?: { noWindow?: boolean }): void {
+export function launchAvd(sdkPath: string, name: string, options?: EmulatorLaunchOptions): void {
   const emulatorPath = getEmulatorPath(sdkPath);
   if (!emulatorPath) {
     throw new Error(`emulator not found in SDK at: ${sdkPath}`);
   }
 
-  const args = ["-avd", name];
-  if (options?.noWindow) {
-    args.push("-no-window");
-  }
+  const args = ["-avd", name, ...buildEmulatorLaunchArgs(options)];
 
   const proc = spawnCommand({
     command: emulatorPath,
@@ -43,3 +42,44 @@ export function wipeAvdData(sdkPath: string, name: string): void {
 
   proc.unref();
 }
+
+export {
+  EmulatorConsole,
+  EmulatorConsoleError,
+  getConsolePort,
+  getDefaultAuthTokenPath,
+  parseGsmStatus,
+  parsePowerDisplay,
+  parseSnapshotList,
+  readConsoleAuthToken,
+} from "./console.js";
+export { buildEmulatorLaunchArgs, isValidConsolePort, MAX_CONSOLE_PORT, MIN_CONSOLE_PORT } from "./launch-options.js";
+export { deleteAvdSnapshot, isValidSnapshotName, listAvdSnapshots, QUICK_BOOT_SNAPSHOT } from "./snapshots.js";
+export {
+  distanceMeters,
+  hasRecordedTimes,
+  parseGpx,
+  parseKml,
+  parseRoute,
+  routePositionAt,
+  timeRoute,
+} from "./route.js";
+export type {
+  AvdSnapshot,
+  BatteryHealth,
+  BatteryState,
+  BatteryStatus,
+  ConsoleSnapshot,
+  EmulatorCameraSource,
+  EmulatorConsoleOptions,
+  EmulatorGpuMode,
+  EmulatorLaunchOptions,
+  GeoLocation,
+  GsmState,
+  GsmStatus,
+  NetworkDelay,
+  NetworkSpeed,
+  RoutePace,
+  RoutePoint,
+  TimedRoute,
+} from "./types.js";
@@ -0,0 +1,38 @@
+import type { EmulatorLaunchOptions } from "./types.js";
+
+/** Console ports the emulator accepts for `-port` */
+export const MIN_CONSOLE_PORT = 5554;
+export const MAX_CONSOLE_PORT = 5682;
+
+export function isValidConsolePort(port: number): boolean {
+  return Number.isInteger(port) && port % 2 === 0 && port >= MIN_CONSOLE_PORT && port <= MAX_CONSOLE_PORT;
+}
+
+/** The emulator arguments for launch options, without `-avd <name>` */
+export function buildEmulatorLaunchArgs(options: EmulatorLaunchOptions = {}): string[] {
+  const args: string[] = [];
+  if (options.noWindow) args.push("-no-window");
+  if (options.snapshot) args.push("-snapshot", options.snapshot);
+  if (options.noSnapshotLoad) args.push("-no-snapshot-load");
+  if (options.noSnapshotSave) args.push("-no-snapshot-save");
+  if (options.readOnly) args.push("-read-only");
+  if (options.gpu) args.push("-gpu", options.gpu);
+  if (options.memoryMb) args.push("-memory", String(options.memoryMb));
+  if (options.cores) args.push("-cores", String(options.cores));
+  if (options.netSpeed) args.push("-netspeed", options.netSpeed);
+  if (options.netDelay) args.push("-netdelay", options.netDelay);
+  if (options.dnsServers && options.dnsServers.length > 0) args.push("-dns-server", options.dnsServers.join(","));
+  if (options.httpProxy) args.push("-http-proxy", options.httpProxy);
+  if (options.cameraBack) args.push("-camera-back", options.cameraBack);
+  if (options.cameraFront) args.push("-camera-front", options.cameraFront);
+  if (options.port !== undefined) {
+    if (!isValidConsolePort(options.port)) {
+      throw new Error(
+        `Emulator port must be an even number from ${MIN_CONSOLE_PORT} to ${MAX_CONSOLE_PORT}, got ${options.port}`,
+      );
+    }
+    args.push("-port", String(options.port));
+  }
+  args.push(...(options.extraArgs ?? []));
+  return args;
+}
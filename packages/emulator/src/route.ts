@@ -0,0 +1,167 @@
+import type { GeoLocation, RoutePace, RoutePoint, TimedRoute } from "./types.js";
+
+const EARTH_RADIUS_M = 6_371_000;
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  return tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`))?.[1];
+}
+
+function childText(body: string, name: string): string | undefined {
+  const text = body.match(new RegExp(`<(?:\\w+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${name}>`))?.[1];
+  return text === undefined ? undefined : decodeXmlEntities(text).trim();
+}
+
+function parseTime(text: string | undefined): number | undefined {
+  if (!text) return undefined;
+  const time = Date.parse(text);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function isValidPoint(point: RoutePoint): boolean {
+  return (
+    Number.isFinite(point.latitude) &&
+    Number.isFinite(point.longitude) &&
+    Math.abs(point.latitude) <= 90 &&
+    Math.abs(point.longitude) <= 180
+  );
+}
+
+/**
+ * Read the points of a GPX file: its track points, or its route points, or
+ * its waypoints, whichever it has first, with elevation and time when given.
+ */
+export function parseGpx(xml: string): RoutePoint[] {
+  for (const element of ["trkpt", "rtept", "wpt"]) {
+    const points: RoutePoint[] = [];
+    const pattern = new RegExp(`<${element}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${element}>)`, "g");
+    for (const [, attributes, body = ""] of xml.matchAll(pattern)) {
+      const elevation = childText(body, "ele");
+      const point: RoutePoint = {
+        latitude: Number(attribute(attributes, "lat")),
+        longitude: Number(attribute(attributes, "lon")),
+        altitude: elevation ? Number(elevation) : undefined,
+        time: parseTime(childText(body, "time")),
+      };
+      if (isValidPoint(point)) points.push(point);
+    }
+    if (points.length > 0) return points;
+  }
+  return [];
+}
+
+/**
+ * Read the points of a KML file: `gx:Track` coordinates with their `when`
+ * times when the file has a track, otherwise every `<coordinates>` tuple of
+ * its lines and placemarks in document order.
+ */
+export function parseKml(xml: string): RoutePoint[] {
+  const times = [...xml.matchAll(/<when>([\s\S]*?)<\/when>/g)].map((match) => parseTime(match[1].trim()));
+  const trackCoords = [...xml.matchAll(/<gx:coord>([\s\S]*?)<\/gx:coord>/g)];
+  if (trackCoords.length > 0) {
+    return trackCoords
+      .map(([, coord], index): RoutePoint => {
+        const [longitude, latitude, altitude] = coord.trim().split(/\s+/).map(Number);
+        return { latitude, longitude, altitude, time: times[index] };
+      })
+      .filter(isValidPoint);
+  }
+
+  const points: RoutePoint[] = [];
+  for (const [, coordinates] of xml.matchAll(/<coordinates>([\s\S]*?)<\/coordinates>/g)) {
+    for (const tuple of coordinates.trim().split(/\s+/)) {
+      const [longitude, latitude, altitude] = tuple.split(",").map(Number);
+      const point: RoutePoint = { latitude, longitude, altitude: Number.isFinite(altitude) ? altitude : undefined };
+      if (isValidPoint(point)) points.push(point);
+    }
+  }
+  return points;
+}
+
+/** Parse a `.gpx` or `.kml` route by its file name */
+export function parseRoute(fileName: string, content: string): RoutePoint[] {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "gpx") return parseGpx(content);
+  if (extension === "kml") return parseKml(content);
+  throw new Error(`Unsupported route file: ${fileName} (expected .gpx or .kml)`);
+}
+
+/** Great-circle distance in meters */
+export function distanceMeters(from: GeoLocation, to: GeoLocation): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/** Whether every point has a time, so the route can replay as recorded */
+export function hasRecordedTimes(points: readonly RoutePoint[]): boolean {
+  return points.length > 0 && points.every((point) => point.time !== undefined);
+}
+
+/**
+ * Schedule a route: when each point is reached, in ms from the start. A
+ * `timeScale` pace replays the recorded times faster or slower; a `speedKmh`
+ * pace moves at a constant speed along the points.
+ */
+export function timeRoute(points: readonly RoutePoint[], pace: RoutePace): TimedRoute {
+  if (points.length === 0) {
+    throw new Error("The route has no points");
+  }
+
+  let offsets: number[];
+  if ("timeScale" in pace) {
+    if (!hasRecordedTimes(points)) {
+      throw new Error("The route has no recorded times; choose a speed instead");
+    }
+    if (!(pace.timeScale > 0)) throw new Error("The time scale must be positive");
+    const start = points[0].time!;
+    let previous = 0;
+    // Out-of-order timestamps would move backwards in time, so hold them at the previous point
+    offsets = points.map((point) => (previous = Math.max(previous, (point.time! - start) / pace.timeScale)));
+  } else {
+    if (!(pace.speedKmh > 0)) throw new Error("The speed must be positive");
+    const metersPerMs = pace.speedKmh / 3_600;
+    let elapsed = 0;
+    offsets = points.map((point, index) => {
+      if (index > 0) elapsed += distanceMeters(points[index - 1], point) / metersPerMs;
+      return elapsed;
+    });
+  }
+
+  return { points: [...points], offsets, durationMs: offsets[offsets.length - 1] };
+}
+
+/** Where a timed route is `elapsedMs` after its start, between its points */
+export function routePositionAt(route: TimedRoute, elapsedMs: number): GeoLocation {
+  const { points, offsets } = route;
+  const next = offsets.findIndex((offset) => offset > elapsedMs);
+  if (next === -1) return toLocation(points[points.length - 1]);
+  if (next === 0) return toLocation(points[0]);
+
+  const from = points[next - 1];
+  const to = points[next];
+  const fraction = (elapsedMs - offsets[next - 1]) / (offsets[next] - offsets[next - 1]);
+  const between = (a: number, b: number) => a + (b - a) * fraction;
+  return {
+    latitude: between(from.latitude, to.latitude),
+    longitude: between(from.longitude, to.longitude),
+    altitude:
+      from.altitude !== undefined && to.altitude !== undefined ? between(from.altitude, to.altitude) : from.altitude,
+  };
+}
+
+function toLocation(point: RoutePoint): GeoLocation {
+  return { latitude: point.latitude, longitude: point.longitude, altitude: point.altitude };
+}
@@ -0,0 +1,70 @@
+import type { Dirent } from "node:fs";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { AvdSnapshot } from "./types.js";
+
+/** The snapshot Quick Boot saves on exit and resumes from */
+export const QUICK_BOOT_SNAPSHOT = "default_boot";
+
+/** Snapshot names the console accepts: no spaces or path separators */
+export function isValidSnapshotName(name: string): boolean {
+  return /^[\w.-]+$/.test(name) && name !== "." && name !== "..";
+}
+
+function getSnapshotsDir(avdPath: string): string {
+  return path.join(avdPath, "snapshots");
+}
+
+async function directorySize(dir: string): Promise<number> {
+  let total = 0;
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    total += entry.isDirectory() ? await directorySize(entryPath) : (await fs.stat(entryPath)).size;
+  }
+  return total;
+}
+
+/**
+ * List the snapshots saved in an AVD's `snapshots/` directory, newest first.
+ * Reading them from disk is only reliable while the emulator is stopped; a
+ * running emulator may be writing one.
+ */
+export async function listAvdSnapshots(avdPath: string): Promise<AvdSnapshot[]> {
+  const snapshotsDir = getSnapshotsDir(avdPath);
+  let entries: Dirent[];
+  try {
+    entries = await fs.readdir(snapshotsDir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const snapshots: AvdSnapshot[] = [];
+  for (const entry of entries.filter((candidate) => candidate.isDirectory())) {
+    const snapshotPath = path.join(snapshotsDir, entry.name);
+    // Every complete snapshot has its protobuf description; partial saves do not
+    const stat = await fs.stat(path.join(snapshotPath, "snapshot.pb")).catch(() => undefined);
+    if (!stat) continue;
+
+    const screenshotPath = path.join(snapshotPath, "screenshot.png");
+    const hasScreenshot = await fs.access(screenshotPath).then(
+      () => true,
+      () => false,
+    );
+    snapshots.push({
+      name: entry.name,
+      path: snapshotPath,
+      sizeBytes: await directorySize(snapshotPath),
+      modified: stat.mtime,
+      screenshotPath: hasScreenshot ? screenshotPath : undefined,
+    });
+  }
+  return snapshots.sort((a, b) => b.modified.getTime() - a.modified.getTime());
+}
+
+/** Delete a snapshot of a stopped AVD from disk */
+export async function deleteAvdSnapshot(avdPath: string, name: string): Promise<void> {
+  if (!isValidSnapshotName(name)) {
+    throw new Error(`Invalid snapshot name: ${name}`);
+  }
+  await fs.rm(path.join(getSnapshotsDir(avdPath), name), { recursive: true, force: true });
+}
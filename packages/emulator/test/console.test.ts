@@ -0,0 +1,211 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { type AddressInfo, type Server, type Socket, createServer } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+
+import {
+  EmulatorConsole,
+  EmulatorConsoleError,
+  getConsolePort,
+  parseGsmStatus,
+  parsePowerDisplay,
+  parseSnapshotList,
+} from "../src/index.js";
+
+const SNAPSHOT_LIST = [
+  "List of snapshots present on all disks:",
+  "ID        TAG                 VM SIZE                DATE       VM CLOCK",
+  "--        default_boot           130M 2024-01-10 09:12:44   00:05:02.123",
+  "--        logged_in          129 MiB 2024-01-11 18:00:02   00:01:10.000",
+].join("\r\n");
+
+/**
+ * A fake emulator console: greets with the auth banner, accepts `auth
+ * secret-token` and answers other commands from `replies` (a reply or an
+ * action on the socket), recording every command it receives.
+ */
+async function startFakeConsole(
+  replies: Record<string, string | ((socket: Socket) => void)> = {},
+): Promise<{ server: Server; port: number; received: string[] }> {
+  const received: string[] = [];
+  const server = createServer((socket) => {
+    socket.write(
+      [
+        "Android Console: Authentication required",
+        "Android Console: type 'auth <auth_token>' to authenticate",
+        "Android Console: you can find your <auth_token> in",
+        "'/home/user/.emulator_console_auth_token'",
+        "OK",
+        "",
+      ].join("\r\n"),
+    );
+    let buffer = "";
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString();
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) !== -1) {
+        const command = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        received.push(command);
+        if (command.startsWith("auth ")) {
+          socket.write(
+            command === "auth secret-token" ? "Android Console: type 'help'\r\nOK\r\n" : "KO: bad auth token\r\n",
+          );
+        } else if (command in replies) {
+          const reply = replies[command];
+          if (typeof reply === "string") socket.write(reply);
+          else reply(socket);
+        } else {
+          socket.write("OK\r\n");
+        }
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return { server, port: (server.address() as AddressInfo).port, received };
+}
+
+let server: Server | undefined;
+let client: EmulatorConsole | undefined;
+let tempDir: string | undefined;
+
+afterEach(async () => {
+  client?.close();
+  client = undefined;
+  await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+  server = undefined;
+  if (tempDir) await fs.rm(tempDir, { recursive: true, force: true });
+  tempDir = undefined;
+});
+
+describe("EmulatorConsole", () => {
+  it("authenticates with the token file and sends typed commands", async () => {
+    const fake = await startFakeConsole({ "avd name": "Pixel_7_API_34\r\nOK\r\n" });
+    server = fake.server;
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "emulator-console-"));
+    const authTokenPath = path.join(tempDir, ".emulator_console_auth_token");
+    await fs.writeFile(authTokenPath, "secret-token\n");
+
+    client = await EmulatorConsole.connect({ port: fake.port, authTokenPath });
+    expect(await client.getAvdName()).toBe("Pixel_7_API_34");
+    await client.geoFix({ latitude: 52.52, longitude: 13.405 });
+    await client.geoFix({ latitude: 52.52, longitude: 13.405, altitude: 34 });
+    await client.setNetworkSpeed("edge");
+    await client.setNetworkDelay("100:300");
+    await client.setBatteryCapacity(105);
+    await client.setBatteryStatus("not-charging");
+    await client.setAcCharging(false);
+    await client.sendSms("5551234", "Your code\nis 1234");
+    await client.gsmCall("5551234");
+    await client.setSensor("acceleration", [0, 9.8, 0]);
+    await client.rotate();
+    await client.fingerTouch(1);
+    await client.setGsmVoiceState("off");
+    await client.setGsmDataState("roaming");
+    await client.saveSnapshot("logged_in");
+
+    expect(fake.received).toEqual([
+      "auth secret-token",
+      "avd name",
+      "geo fix 13.405 52.52",
+      "geo fix 13.405 52.52 34",
+      "network speed edge",
+      "network delay 100:300",
+      "power capacity 100",
+      "power status not-charging",
+      "power ac off",
+      "sms send 5551234 Your code is 1234",
+      "gsm call 5551234",
+      "sensor set acceleration 0:9.8:0",
+      "rotate",
+      "finger touch 1",
+      "gsm voice off",
+      "gsm data roaming",
+      "avd snapshot save logged_in",
+    ]);
+  });
+
+  it("rejects KO replies with the console's reason", async () => {
+    const fake = await startFakeConsole({ "avd snapshot load missing": "KO: snapshot 'missing' not found\r\n" });
+    server = fake.server;
+    client = await EmulatorConsole.connect({ port: fake.port, authToken: "secret-token" });
+
+    const error = await client.loadSnapshot("missing").catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(EmulatorConsoleError);
+    expect((error as EmulatorConsoleError).message).toBe(
+      "avd snapshot load missing failed: snapshot 'missing' not found",
+    );
+    // The connection stays usable
+    expect(await client.listSnapshots()).toEqual([]);
+  });
+
+  it("fails to connect with a wrong or missing token", async () => {
+    const fake = await startFakeConsole();
+    server = fake.server;
+
+    await expect(EmulatorConsole.connect({ port: fake.port, authToken: "wrong" })).rejects.toThrow(
+      "auth wrong failed: bad auth token",
+    );
+    await expect(
+      EmulatorConsole.connect({ port: fake.port, authTokenPath: path.join(os.tmpdir(), "no-such-token-file") }),
+    ).rejects.toThrow("The emulator console needs the auth token");
+  });
+
+  it("lists snapshots", async () => {
+    const fake = await startFakeConsole({ "avd snapshot list": `${SNAPSHOT_LIST}\r\nOK\r\n` });
+    server = fake.server;
+    client = await EmulatorConsole.connect({ port: fake.port, authToken: "secret-token" });
+
+    expect(await client.listSnapshots()).toEqual([
+      { name: "default_boot", size: "130M", date: "2024-01-10 09:12:44", vmClock: "00:05:02.123" },
+      { name: "logged_in", size: "129 MiB", date: "2024-01-11 18:00:02", vmClock: "00:01:10.000" },
+    ]);
+  });
+
+  it("rejects pending commands when the console goes away", async () => {
+    const fake = await startFakeConsole({ kill: (socket) => socket.destroy() });
+    server = fake.server;
+    client = await EmulatorConsole.connect({ port: fake.port, authToken: "secret-token" });
+
+    await expect(client.command("kill")).rejects.toThrow("Emulator console closed");
+    expect(client.isClosed).toBe(true);
+    await expect(client.rotate()).rejects.toThrow("Emulator console is closed");
+  });
+});
+
+describe("parseSnapshotList", () => {
+  it("skips the header lines", () => {
+    expect(parseSnapshotList("List of snapshots present on all disks:\nID TAG VM SIZE DATE VM CLOCK")).toEqual([]);
+  });
+});
+
+describe("parsePowerDisplay", () => {
+  it("reads the charger, status, health and capacity", () => {
+    expect(
+      parsePowerDisplay(
+        "AC: online\r\nstatus: Not charging\r\nhealth: Unspecified failure\r\npresent: true\r\ncapacity: 42",
+      ),
+    ).toEqual({ acOnline: true, status: "not-charging", health: "failure", present: true, capacity: 42 });
+    expect(parsePowerDisplay("AC: offline\nstatus: Discharging\nhealth: Good\npresent: false\ncapacity: 100")).toEqual({
+      acOnline: false,
+      status: "discharging",
+      health: "good",
+      present: false,
+      capacity: 100,
+    });
+  });
+});
+
+describe("parseGsmStatus", () => {
+  it("reads the voice and data states", () => {
+    expect(parseGsmStatus("gsm voice state: home\r\ngsm data state: off")).toEqual({ voice: "home", data: "off" });
+  });
+});
+
+describe("getConsolePort", () => {
+  it("reads the port of emulator serials only", () => {
+    expect(getConsolePort("emulator-5556")).toBe(5556);
+    expect(getConsolePort("R58M123ABC")).toBeUndefined();
+  });
+});
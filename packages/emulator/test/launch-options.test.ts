@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+
+import { buildEmulatorLaunchArgs, isValidConsolePort } from "../src/index.js";
+
+describe("buildEmulatorLaunchArgs", () => {
+  it("passes nothing for default options", () => {
+    expect(buildEmulatorLaunchArgs()).toEqual([]);
+    expect(buildEmulatorLaunchArgs({ noWindow: false, dnsServers: [] })).toEqual([]);
+  });
+
+  it("maps every option to its flag, extra args last", () => {
+    expect(
+      buildEmulatorLaunchArgs({
+        noWindow: true,
+        snapshot: "logged_in",
+        noSnapshotLoad: true,
+        noSnapshotSave: true,
+        readOnly: true,
+        gpu: "swiftshader_indirect",
+        memoryMb: 4096,
+        cores: 4,
+        netSpeed: "lte",
+        netDelay: "umts",
+        dnsServers: ["8.8.8.8", "1.1.1.1"],
+        httpProxy: "http://proxy:8080",
+        cameraBack: "virtualscene",
+        cameraFront: "webcam0",
+        port: 5560,
+        extraArgs: ["-no-audio", "-feature", "-Vulkan"],
+      }),
+    ).toEqual([
+      "-no-window",
+      "-snapshot",
+      "logged_in",
+      "-no-snapshot-load",
+      "-no-snapshot-save",
+      "-read-only",
+      "-gpu",
+      "swiftshader_indirect",
+      "-memory",
+      "4096",
+      "-cores",
+      "4",
+      "-netspeed",
+      "lte",
+      "-netdelay",
+      "umts",
+      "-dns-server",
+      "8.8.8.8,1.1.1.1",
+      "-http-proxy",
+      "http://proxy:8080",
+      "-camera-back",
+      "virtualscene",
+      "-camera-front",
+      "webcam0",
+      "-port",
+      "5560",
+      "-no-audio",
+      "-feature",
+      "-Vulkan",
+    ]);
+  });
+
+  it("rejects console ports the emulator would refuse", () => {
+    expect(isValidConsolePort(5554)).toBe(true);
+    expect(isValidConsolePort(5555)).toBe(false);
+    expect(isValidConsolePort(5684)).toBe(false);
+    expect(() => buildEmulatorLaunchArgs({ port: 5555 })).toThrow("even number from 5554 to 5682");
+  });
+});
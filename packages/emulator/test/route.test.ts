@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+
+import { distanceMeters, parseGpx, parseKml, parseRoute, routePositionAt, timeRoute } from "../src/index.js";
+
+const GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+  <wpt lat="10" lon="10"><name>Ignored waypoint</name></wpt>
+  <trk><name>Morning run</name><trkseg>
+    <trkpt lat="52.5200" lon="13.4050"><ele>34.5</ele><time>2024-05-01T08:00:00Z</time></trkpt>
+    <trkpt lon="13.4060" lat="52.5210"><ele>36</ele><time>2024-05-01T08:00:10Z</time></trkpt>
+    <trkpt lat="52.5220" lon="13.4070"><time>2024-05-01T08:00:30Z</time></trkpt>
+    <trkpt lat="200" lon="13.4080"/>
+  </trkseg></trk>
+</gpx>`;
+
+const KML_LINE = `<kml xmlns="http://www.opengis.net/kml/2.2"><Document><Placemark>
+  <LineString><coordinates>
+    -122.0840,37.4220,10 -122.0850,37.4230,12
+    -122.0860,37.4240
+  </coordinates></LineString>
+</Placemark></Document></kml>`;
+
+const KML_TRACK = `<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+<Placemark><gx:Track>
+  <when>2024-05-01T08:00:00Z</when><when>2024-05-01T08:01:00Z</when>
+  <gx:coord>-122.0840 37.4220 10</gx:coord><gx:coord>-122.0850 37.4230 12</gx:coord>
+</gx:Track></Placemark></kml>`;
+
+describe("parseGpx", () => {
+  it("reads track points with elevation and time, skipping invalid ones", () => {
+    expect(parseGpx(GPX)).toEqual([
+      { latitude: 52.52, longitude: 13.405, altitude: 34.5, time: Date.parse("2024-05-01T08:00:00Z") },
+      { latitude: 52.521, longitude: 13.406, altitude: 36, time: Date.parse("2024-05-01T08:00:10Z") },
+      { latitude: 52.522, longitude: 13.407, altitude: undefined, time: Date.parse("2024-05-01T08:00:30Z") },
+    ]);
+  });
+
+  it("falls back to route points and waypoints", () => {
+    expect(parseGpx('<gpx><rte><rtept lat="1" lon="2"/><rtept lat="3" lon="4"></rtept></rte></gpx>')).toEqual([
+      { latitude: 1, longitude: 2, altitude: undefined, time: undefined },
+      { latitude: 3, longitude: 4, altitude: undefined, time: undefined },
+    ]);
+    expect(parseGpx('<gpx><wpt lat="1" lon="2"/></gpx>')).toHaveLength(1);
+  });
+});
+
+describe("parseKml", () => {
+  it("reads longitude-first coordinate tuples", () => {
+    expect(parseKml(KML_LINE)).toEqual([
+      { latitude: 37.422, longitude: -122.084, altitude: 10 },
+      { latitude: 37.423, longitude: -122.085, altitude: 12 },
+      { latitude: 37.424, longitude: -122.086, altitude: undefined },
+    ]);
+  });
+
+  it("pairs gx:Track coordinates with their times", () => {
+    const points = parseKml(KML_TRACK);
+    expect(points).toHaveLength(2);
+    expect(points[1]).toEqual({
+      latitude: 37.423,
+      longitude: -122.085,
+      altitude: 12,
+      time: Date.parse("2024-05-01T08:01:00Z"),
+    });
+  });
+});
+
+describe("parseRoute", () => {
+  it("picks the parser by extension", () => {
+    expect(parseRoute("walk.KML", KML_LINE)).toHaveLength(3);
+    expect(() => parseRoute("walk.csv", "")).toThrow("Unsupported route file");
+  });
+});
+
+describe("timeRoute", () => {
+  const points = parseGpx(GPX);
+
+  it("replays recorded times scaled", () => {
+    expect(timeRoute(points, { timeScale: 1 }).offsets).toEqual([0, 10_000, 30_000]);
+    expect(timeRoute(points, { timeScale: 2 }).durationMs).toBe(15_000);
+  });
+
+  it("moves at a constant speed along the points", () => {
+    const route = timeRoute(
+      [
+        { latitude: 0, longitude: 0 },
+        { latitude: 0, longitude: 1 },
+      ],
+      { speedKmh: 100 },
+    );
+    const meters = distanceMeters({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 1 });
+    expect(meters).toBeCloseTo(111_195, -1);
+    expect(route.durationMs).toBeCloseTo((meters / 100_000) * 3_600_000);
+  });
+
+  it("needs recorded times to replay them", () => {
+    expect(() => timeRoute(parseKml(KML_LINE), { timeScale: 1 })).toThrow("no recorded times");
+    expect(() => timeRoute([], { speedKmh: 5 })).toThrow("no points");
+  });
+});
+
+describe("routePositionAt", () => {
+  const route = timeRoute(parseGpx(GPX), { timeScale: 1 });
+
+  it("interpolates between points and holds the ends", () => {
+    expect(routePositionAt(route, -1)).toMatchObject({ latitude: 52.52, longitude: 13.405 });
+    const halfway = routePositionAt(route, 5_000);
+    expect(halfway.latitude).toBeCloseTo(52.5205);
+    expect(halfway.longitude).toBeCloseTo(13.4055);
+    expect(halfway.altitude).toBeCloseTo(35.25);
+    expect(routePositionAt(route, 60_000)).toMatchObject({ latitude: 52.522, longitude: 13.407 });
+  });
+});
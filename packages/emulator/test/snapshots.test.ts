@@ -0,0 +1,67 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { deleteAvdSnapshot, isValidSnapshotName, listAvdSnapshots } from "../src/index.js";
+
+let avdPath: string;
+
+async function writeSnapshot(name: string, files: Record<string, string>, modified?: Date): Promise<void> {
+  const dir = path.join(avdPath, "snapshots", name);
+  await fs.mkdir(dir, { recursive: true });
+  for (const [file, content] of Object.entries(files)) {
+    await fs.writeFile(path.join(dir, file), content);
+  }
+  if (modified && "snapshot.pb" in files) {
+    await fs.utimes(path.join(dir, "snapshot.pb"), modified, modified);
+  }
+}
+
+beforeEach(async () => {
+  avdPath = await fs.mkdtemp(path.join(os.tmpdir(), "avd-snapshots-"));
+});
+
+afterEach(async () => {
+  await fs.rm(avdPath, { recursive: true, force: true });
+});
+
+describe("listAvdSnapshots", () => {
+  it("lists complete snapshots newest first with their size", async () => {
+    await writeSnapshot(
+      "default_boot",
+      { "snapshot.pb": "pb", "ram.bin": "0123456789" },
+      new Date("2024-01-10T09:00:00Z"),
+    );
+    await writeSnapshot(
+      "logged_in",
+      { "snapshot.pb": "pb", "ram.bin": "01234", "screenshot.png": "png" },
+      new Date("2024-01-11T18:00:00Z"),
+    );
+    await writeSnapshot("partial", { "ram.bin": "0" });
+
+    const snapshots = await listAvdSnapshots(avdPath);
+    expect(snapshots.map(({ name, sizeBytes }) => ({ name, sizeBytes }))).toEqual([
+      { name: "logged_in", sizeBytes: 10 },
+      { name: "default_boot", sizeBytes: 12 },
+    ]);
+    expect(snapshots[0].screenshotPath).toBe(path.join(avdPath, "snapshots", "logged_in", "screenshot.png"));
+    expect(snapshots[1].screenshotPath).toBeUndefined();
+  });
+
+  it("returns nothing for an AVD without snapshots", async () => {
+    expect(await listAvdSnapshots(avdPath)).toEqual([]);
+  });
+});
+
+describe("deleteAvdSnapshot", () => {
+  it("removes the snapshot directory and refuses path-like names", async () => {
+    await writeSnapshot("logged_in", { "snapshot.pb": "pb" });
+
+    await deleteAvdSnapshot(avdPath, "logged_in");
+    expect(await listAvdSnapshots(avdPath)).toEqual([]);
+    await expect(deleteAvdSnapshot(avdPath, "../config.ini")).rejects.toThrow("Invalid snapshot name");
+    expect(isValidSnapshotName("fixture-1.2_b")).toBe(true);
+    expect(isValidSnapshotName("with space")).toBe(false);
+  });
+});
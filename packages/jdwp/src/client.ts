@@ -0,0 +1,605 @@
+import { EventEmitter } from "node:events";
+import { Socket, connect } from "node:net";
+
+import {
+  CommandSet,
+  DEFAULT_ID_SIZES,
+  EventKind,
+  JDWP_HANDSHAKE,
+  JdwpError,
+  JdwpPacketParser,
+  ModKind,
+  PacketReader,
+  PacketWriter,
+  SuspendPolicy,
+  Tag,
+  encodeCommand,
+  isReply,
+} from "./protocol.js";
+import type { JdwpIdSizes, JdwpLocation, JdwpPacket, JdwpValue, StepDepth } from "./protocol.js";
+import type {
+  JdwpClassInfo,
+  JdwpEvent,
+  JdwpField,
+  JdwpFrame,
+  JdwpLineTable,
+  JdwpMethod,
+  JdwpVariable,
+  JdwpVersion,
+} from "./types.js";
+
+const DEFAULT_CONNECT_TIMEOUT_MS = 10_000;
+
+interface PendingRequest {
+  label: string;
+  resolve: (reader: PacketReader) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * A JDWP debugger connection to one VM, typically through an `adb forward`
+ * of the app's `jdwp:<pid>` socket.
+ *
+ * Emits `event` (JdwpEvent, suspendPolicy) for every event in a composite
+ * event packet and `close` when the connection ends.
+ */
+export class JdwpClient extends EventEmitter {
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+  private readonly parser = new JdwpPacketParser();
+  private sizes: JdwpIdSizes = DEFAULT_ID_SIZES;
+  private closed = false;
+
+  private constructor(private readonly socket: Socket) {
+    super();
+  }
+
+  /**
+   * Connect to a JDWP endpoint, perform the handshake and read the VM's ID
+   * sizes.
+   */
+  static async connect(port: number, host = "127.0.0.1", timeout = DEFAULT_CONNECT_TIMEOUT_MS): Promise<JdwpClient> {
+    const socket = connect({ port, host });
+    try {
+      const rest = await handshake(socket, timeout);
+      const client = new JdwpClient(socket);
+      client.attach(rest);
+      client.sizes = await client.readIdSizes();
+      return client;
+    } catch (err) {
+      socket.destroy();
+      throw err;
+    }
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /** Send a command and resolve with a reader over the reply body */
+  request(
+    commandSet: number,
+    command: number,
+    build?: (writer: PacketWriter) => void,
+    label = `Command ${commandSet}.${command}`,
+  ): Promise<PacketReader> {
+    if (this.closed) {
+      return Promise.reject(new Error("JDWP connection is closed"));
+    }
+
+    const writer = new PacketWriter(this.sizes);
+    build?.(writer);
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { label, resolve, reject });
+      this.socket.write(encodeCommand(id, commandSet, command, writer.toBytes()));
+    });
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  // VirtualMachine
+
+  async version(): Promise<JdwpVersion> {
+    const reader = await this.request(CommandSet.VirtualMachine, 1, undefined, "Version");
+    return {
+      description: reader.string(),
+      jdwpMajor: reader.int(),
+      jdwpMinor: reader.int(),
+      vmVersion: reader.string(),
+      vmName: reader.string(),
+    };
+  }
+
+  async classesBySignature(signature: string): Promise<JdwpClassInfo[]> {
+    const reader = await this.request(
+      CommandSet.VirtualMachine,
+      2,
+      (writer) => writer.string(signature),
+      "ClassesBySignature",
+    );
+    return readList(reader, () => ({
+      typeTag: reader.byte(),
+      typeId: reader.referenceTypeId(),
+      signature,
+      status: reader.int(),
+    }));
+  }
+
+  async allClasses(): Promise<JdwpClassInfo[]> {
+    const reader = await this.request(CommandSet.VirtualMachine, 3, undefined, "AllClasses");
+    return readList(reader, () => ({
+      typeTag: reader.byte(),
+      typeId: reader.referenceTypeId(),
+      signature: reader.string(),
+      status: reader.int(),
+    }));
+  }
+
+  async allThreads(): Promise<bigint[]> {
+    const reader = await this.request(CommandSet.VirtualMachine, 4, undefined, "AllThreads");
+    return readList(reader, () => reader.objectId());
+  }
+
+  async dispose(): Promise<void> {
+    await this.request(CommandSet.VirtualMachine, 6, undefined, "Dispose");
+  }
+
+  async suspend(): Promise<void> {
+    await this.request(CommandSet.VirtualMachine, 8, undefined, "Suspend");
+  }
+
+  async resume(): Promise<void> {
+    await this.request(CommandSet.VirtualMachine, 9, undefined, "Resume");
+  }
+
+  // ReferenceType / ClassType
+
+  async signature(typeId: bigint): Promise<string> {
+    const reader = await this.request(
+      CommandSet.ReferenceType,
+      1,
+      (writer) => writer.referenceTypeId(typeId),
+      "Signature",
+    );
+    return reader.string();
+  }
+
+  async fields(typeId: bigint): Promise<JdwpField[]> {
+    const reader = await this.request(
+      CommandSet.ReferenceType,
+      4,
+      (writer) => writer.referenceTypeId(typeId),
+      "Fields",
+    );
+    return readList(reader, () => ({
+      fieldId: reader.fieldId(),
+      name: reader.string(),
+      signature: reader.string(),
+      modifiers: reader.int(),
+    }));
+  }
+
+  async methods(typeId: bigint): Promise<JdwpMethod[]> {
+    const reader = await this.request(
+      CommandSet.ReferenceType,
+      5,
+      (writer) => writer.referenceTypeId(typeId),
+      "Methods",
+    );
+    return readList(reader, () => ({
+      methodId: reader.methodId(),
+      name: reader.string(),
+      signature: reader.string(),
+      modifiers: reader.int(),
+    }));
+  }
+
+  /** Values of static fields */
+  async staticValues(typeId: bigint, fieldIds: readonly bigint[]): Promise<JdwpValue[]> {
+    const reader = await this.request(
+      CommandSet.ReferenceType,
+      6,
+      (writer) => {
+        writer.referenceTypeId(typeId).int(fieldIds.length);
+        for (const fieldId of fieldIds) writer.fieldId(fieldId);
+      },
+      "ReferenceType.GetValues",
+    );
+    return readList(reader, () => reader.taggedValue());
+  }
+
+  async sourceFile(typeId: bigint): Promise<string> {
+    const reader = await this.request(
+      CommandSet.ReferenceType,
+      7,
+      (writer) => writer.referenceTypeId(typeId),
+      "SourceFile",
+    );
+    return reader.string();
+  }
+
+  /** The superclass of a class, or 0n for java.lang.Object */
+  async superclass(classId: bigint): Promise<bigint> {
+    const reader = await this.request(
+      CommandSet.ClassType,
+      1,
+      (writer) => writer.referenceTypeId(classId),
+      "Superclass",
+    );
+    return reader.referenceTypeId();
+  }
+
+  // Method
+
+  async lineTable(typeId: bigint, methodId: bigint): Promise<JdwpLineTable> {
+    const reader = await this.request(
+      CommandSet.Method,
+      1,
+      (writer) => writer.referenceTypeId(typeId).methodId(methodId),
+      "LineTable",
+    );
+    const start = reader.long();
+    const end = reader.long();
+    const lines = readList(reader, () => ({ codeIndex: reader.long(), line: reader.int() }));
+    return { start, end, lines };
+  }
+
+  async variableTable(typeId: bigint, methodId: bigint): Promise<JdwpVariable[]> {
+    const reader = await this.request(
+      CommandSet.Method,
+      2,
+      (writer) => writer.referenceTypeId(typeId).methodId(methodId),
+      "VariableTable",
+    );
+    reader.int(); // argument slot count
+    return readList(reader, () => ({
+      codeIndex: reader.long(),
+      name: reader.string(),
+      signature: reader.string(),
+      length: reader.int(),
+      slot: reader.int(),
+    }));
+  }
+
+  // ObjectReference / StringReference / ArrayReference
+
+  async referenceType(objectId: bigint): Promise<{ typeTag: number; typeId: bigint }> {
+    const reader = await this.request(
+      CommandSet.ObjectReference,
+      1,
+      (writer) => writer.objectId(objectId),
+      "ReferenceType",
+    );
+    return { typeTag: reader.byte(), typeId: reader.referenceTypeId() };
+  }
+
+  async objectValues(objectId: bigint, fieldIds: readonly bigint[]): Promise<JdwpValue[]> {
+    const reader = await this.request(
+      CommandSet.ObjectReference,
+      2,
+      (writer) => {
+        writer.objectId(objectId).int(fieldIds.length);
+        for (const fieldId of fieldIds) writer.fieldId(fieldId);
+      },
+      "ObjectReference.GetValues",
+    );
+    return readList(reader, () => reader.taggedValue());
+  }
+
+  async stringValue(stringId: bigint): Promise<string> {
+    const reader = await this.request(CommandSet.StringReference, 1, (writer) => writer.objectId(stringId), "Value");
+    return reader.string();
+  }
+
+  async arrayLength(arrayId: bigint): Promise<number> {
+    const reader = await this.request(CommandSet.ArrayReference, 1, (writer) => writer.objectId(arrayId), "Length");
+    return reader.int();
+  }
+
+  async arrayValues(arrayId: bigint, firstIndex: number, length: number): Promise<JdwpValue[]> {
+    const reader = await this.request(
+      CommandSet.ArrayReference,
+      2,
+      (writer) => writer.objectId(arrayId).int(firstIndex).int(length),
+      "ArrayReference.GetValues",
+    );
+    // Primitive regions are untagged; object regions tag every element
+    const tag = reader.byte();
+    const primitive = PRIMITIVE_TAGS.has(tag);
+    return readList(reader, () => (primitive ? reader.value(tag) : reader.taggedValue()));
+  }
+
+  // ThreadReference / StackFrame
+
+  async threadName(threadId: bigint): Promise<string> {
+    const reader = await this.request(CommandSet.ThreadReference, 1, (writer) => writer.objectId(threadId), "Name");
+    return reader.string();
+  }
+
+  async suspendThread(threadId: bigint): Promise<void> {
+    await this.request(CommandSet.ThreadReference, 2, (writer) => writer.objectId(threadId), "Thread.Suspend");
+  }
+
+  async resumeThread(threadId: bigint): Promise<void> {
+    await this.request(CommandSet.ThreadReference, 3, (writer) => writer.objectId(threadId), "Thread.Resume");
+  }
+
+  /** Frames of a suspended thread, innermost first; `length` -1 for all */
+  async frames(threadId: bigint, start = 0, length = -1): Promise<JdwpFrame[]> {
+    const reader = await this.request(
+      CommandSet.ThreadReference,
+      6,
+      (writer) => writer.objectId(threadId).int(start).int(length),
+      "Frames",
+    );
+    return readList(reader, () => ({ frameId: reader.frameId(), location: reader.location() }));
+  }
+
+  async frameValues(
+    threadId: bigint,
+    frameId: bigint,
+    slots: ReadonlyArray<{ slot: number; tag: number }>,
+  ): Promise<JdwpValue[]> {
+    const reader = await this.request(
+      CommandSet.StackFrame,
+      1,
+      (writer) => {
+        writer.objectId(threadId).frameId(frameId).int(slots.length);
+        for (const { slot, tag } of slots) writer.int(slot).byte(tag);
+      },
+      "StackFrame.GetValues",
+    );
+    return readList(reader, () => reader.taggedValue());
+  }
+
+  /** `this` of a frame, or 0n in static and native methods */
+  async thisObject(threadId: bigint, frameId: bigint): Promise<bigint> {
+    const reader = await this.request(
+      CommandSet.StackFrame,
+      3,
+      (writer) => writer.objectId(threadId).frameId(frameId),
+      "ThisObject",
+    );
+    return BigInt(reader.taggedValue().value);
+  }
+
+  // EventRequest
+
+  /** Suspends the VM when the location is hit; resolves with the request ID */
+  setBreakpoint(location: JdwpLocation, suspendPolicy: SuspendPolicy = SuspendPolicy.All): Promise<number> {
+    return this.setEventRequest(EventKind.Breakpoint, suspendPolicy, (writer) =>
+      writer.int(1).byte(ModKind.LocationOnly).location(location),
+    );
+  }
+
+  /** Reports classes matching a pattern such as `com.example.*` as they load */
+  setClassPrepare(classPattern: string, suspendPolicy: SuspendPolicy = SuspendPolicy.All): Promise<number> {
+    return this.setEventRequest(EventKind.ClassPrepare, suspendPolicy, (writer) =>
+      writer.int(1).byte(ModKind.ClassMatch).string(classPattern),
+    );
+  }
+
+  /** A one-shot line step of a suspended thread */
+  setStep(threadId: bigint, depth: StepDepth, suspendPolicy: SuspendPolicy = SuspendPolicy.All): Promise<number> {
+    return this.setEventRequest(EventKind.SingleStep, suspendPolicy, (writer) =>
+      writer.int(2).byte(ModKind.Step).objectId(threadId).int(1).int(depth).byte(ModKind.Count).int(1),
+    );
+  }
+
+  /** Uncaught exceptions, or all with `caught` */
+  setExceptionBreak(caught: boolean, suspendPolicy: SuspendPolicy = SuspendPolicy.All): Promise<number> {
+    return this.setEventRequest(EventKind.Exception, suspendPolicy, (writer) =>
+      writer.int(1).byte(ModKind.ExceptionOnly).referenceTypeId(0n).boolean(caught).boolean(true),
+    );
+  }
+
+  async clearEventRequest(eventKind: EventKind, requestId: number): Promise<void> {
+    await this.request(
+      CommandSet.EventRequest,
+      2,
+      (writer) => writer.byte(eventKind).int(requestId),
+      "EventRequest.Clear",
+    );
+  }
+
+  private async setEventRequest(
+    eventKind: EventKind,
+    suspendPolicy: SuspendPolicy,
+    modifiers: (writer: PacketWriter) => void,
+  ): Promise<number> {
+    const reader = await this.request(
+      CommandSet.EventRequest,
+      1,
+      (writer) => modifiers(writer.byte(eventKind).byte(suspendPolicy)),
+      "EventRequest.Set",
+    );
+    return reader.int();
+  }
+
+  // Connection
+
+  private async readIdSizes(): Promise<JdwpIdSizes> {
+    const reader = await this.request(CommandSet.VirtualMachine, 7, undefined, "IDSizes");
+    return {
+      fieldId: reader.int(),
+      methodId: reader.int(),
+      objectId: reader.int(),
+      referenceTypeId: reader.int(),
+      frameId: reader.int(),
+    };
+  }
+
+  private attach(initial: Uint8Array): void {
+    this.socket.on("data", (chunk: Buffer) => this.receive(chunk));
+    this.socket.on("error", (err) => this.shutdown(err));
+    this.socket.on("close", () => this.shutdown());
+    if (initial.length) this.receive(initial);
+  }
+
+  private receive(chunk: Uint8Array): void {
+    let packets: JdwpPacket[];
+    try {
+      packets = this.parser.push(chunk);
+    } catch (err) {
+      this.shutdown(err instanceof Error ? err : new Error(String(err)));
+      this.socket.destroy();
+      return;
+    }
+
+    for (const packet of packets) {
+      if (isReply(packet)) {
+        const request = this.pending.get(packet.id);
+        if (!request) continue;
+        this.pending.delete(packet.id);
+        if (packet.errorCode) {
+          request.reject(new JdwpError(packet.errorCode, request.label));
+        } else {
+          request.resolve(new PacketReader(packet.data, this.sizes));
+        }
+      } else if (packet.commandSet === CommandSet.Event && packet.command === 100) {
+        const { suspendPolicy, events } = parseCompositeEvent(new PacketReader(packet.data, this.sizes));
+        for (const event of events) {
+          this.emit("event", event, suspendPolicy);
+        }
+      }
+    }
+  }
+
+  private shutdown(error?: Error): void {
+    if (this.closed) return;
+    this.closed = true;
+    const reason = error ?? new Error("JDWP connection closed");
+    for (const request of this.pending.values()) {
+      request.reject(reason);
+    }
+    this.pending.clear();
+    this.emit("close", error);
+  }
+}
+
+const PRIMITIVE_TAGS: ReadonlySet<number> = new Set([
+  Tag.Byte,
+  Tag.Char,
+  Tag.Double,
+  Tag.Float,
+  Tag.Int,
+  Tag.Long,
+  Tag.Short,
+  Tag.Boolean,
+]);
+
+function readList<T>(reader: PacketReader, read: () => T): T[] {
+  const count = reader.int();
+  const items: T[] = [];
+  for (let index = 0; index < count; index++) {
+    items.push(read());
+  }
+  return items;
+}
+
+/**
+ * Parse an Event.Composite body. Unknown event kinds end parsing, since
+ * their length can't be known.
+ */
+export function parseCompositeEvent(reader: PacketReader): { suspendPolicy: SuspendPolicy; events: JdwpEvent[] } {
+  const suspendPolicy = reader.byte() as SuspendPolicy;
+  const count = reader.int();
+  const events: JdwpEvent[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const kind = reader.byte();
+    const requestId = reader.int();
+    switch (kind) {
+      case EventKind.VmStart:
+      case EventKind.ThreadStart:
+      case EventKind.ThreadDeath:
+        events.push({ kind, requestId, thread: reader.objectId() });
+        break;
+      case EventKind.SingleStep:
+      case EventKind.Breakpoint:
+        events.push({ kind, requestId, thread: reader.objectId(), location: reader.location() });
+        break;
+      case EventKind.Exception: {
+        const thread = reader.objectId();
+        const location = reader.location();
+        const exception = reader.taggedValue().value as bigint;
+        const catchLocation = reader.location();
+        events.push({
+          kind,
+          requestId,
+          thread,
+          location,
+          exception,
+          catchLocation: catchLocation.classId === 0n ? undefined : catchLocation,
+        });
+        break;
+      }
+      case EventKind.ClassPrepare:
+        events.push({
+          kind,
+          requestId,
+          thread: reader.objectId(),
+          typeTag: reader.byte(),
+          typeId: reader.referenceTypeId(),
+          signature: reader.string(),
+          status: reader.int(),
+        });
+        break;
+      case EventKind.ClassUnload:
+        events.push({ kind, requestId, signature: reader.string() });
+        break;
+      case EventKind.VmDeath:
+        events.push({ kind, requestId });
+        break;
+      default:
+        return { suspendPolicy, events };
+    }
+  }
+
+  return { suspendPolicy, events };
+}
+
+/**
+ * Send the handshake and wait for the VM to echo it. Resolves with any bytes
+ * received past the handshake.
+ */
+function handshake(socket: Socket, timeout: number): Promise<Uint8Array> {
+  const expected = Buffer.from(JDWP_HANDSHAKE, "ascii");
+
+  return new Promise((resolve, reject) => {
+    let received = Buffer.alloc(0);
+    const timer = setTimeout(() => finish(new Error("Timed out waiting for the JDWP handshake")), timeout);
+
+    const onData = (chunk: Buffer) => {
+      received = Buffer.concat([received, chunk]);
+      if (received.length < expected.length) return;
+      if (!received.subarray(0, expected.length).equals(expected)) {
+        finish(new Error("Unexpected JDWP handshake reply"));
+        return;
+      }
+      finish(undefined, received.subarray(expected.length));
+    };
+    const onError = (err: Error) => finish(err);
+    const onClose = () =>
+      // adbd accepts the forward even when the process is gone or another
+      // debugger is attached, then hangs up
+      finish(new Error("Connection closed during the JDWP handshake (is another debugger attached?)"));
+
+    function finish(error: Error | undefined, rest?: Uint8Array) {
+      clearTimeout(timer);
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+      if (error) reject(error);
+      else resolve(rest ?? new Uint8Array(0));
+    }
+
+    socket.on("data", onData);
+    socket.on("error", onError);
+    socket.on("close", onClose);
+    socket.once("connect", () => socket.write(expected));
+  });
+}
@@ -0,0 +1,37 @@
+export { JdwpClient, parseCompositeEvent } from "./client.js";
+export {
+  CommandSet,
+  EventKind,
+  JDWP_HANDSHAKE,
+  JdwpError,
+  JdwpPacketParser,
+  ModKind,
+  PacketReader,
+  PacketWriter,
+  StepDepth,
+  StepSize,
+  SuspendPolicy,
+  Tag,
+  TypeTag,
+  encodeCommand,
+  encodeReply,
+  isReply,
+} from "./protocol.js";
+export type {
+  JdwpCommandPacket,
+  JdwpIdSizes,
+  JdwpLocation,
+  JdwpPacket,
+  JdwpReplyPacket,
+  JdwpValue,
+} from "./protocol.js";
+export type {
+  JdwpClassInfo,
+  JdwpEvent,
+  JdwpField,
+  JdwpFrame,
+  JdwpLineTable,
+  JdwpMethod,
+  JdwpVariable,
+  JdwpVersion,
+} from "./types.js";
@@ -0,0 +1,439 @@
+export const JDWP_HANDSHAKE = "JDWP-Handshake";
+
+/** Header: length u32, id u32, flags u8, then command set/command or error code */
+export const HEADER_LENGTH = 11;
+export const REPLY_FLAG = 0x80;
+
+export const CommandSet = {
+  VirtualMachine: 1,
+  ReferenceType: 2,
+  ClassType: 3,
+  Method: 6,
+  ObjectReference: 9,
+  StringReference: 10,
+  ThreadReference: 11,
+  ArrayReference: 13,
+  EventRequest: 15,
+  StackFrame: 16,
+  Event: 64,
+} as const;
+
+export const EventKind = {
+  SingleStep: 1,
+  Breakpoint: 2,
+  Exception: 4,
+  ThreadStart: 6,
+  ThreadDeath: 7,
+  ClassPrepare: 8,
+  ClassUnload: 9,
+  VmStart: 90,
+  VmDeath: 99,
+} as const;
+export type EventKind = (typeof EventKind)[keyof typeof EventKind];
+
+export const SuspendPolicy = {
+  None: 0,
+  EventThread: 1,
+  All: 2,
+} as const;
+export type SuspendPolicy = (typeof SuspendPolicy)[keyof typeof SuspendPolicy];
+
+export const StepDepth = {
+  Into: 0,
+  Over: 1,
+  Out: 2,
+} as const;
+export type StepDepth = (typeof StepDepth)[keyof typeof StepDepth];
+
+export const StepSize = {
+  Min: 0,
+  Line: 1,
+} as const;
+
+export const TypeTag = {
+  Class: 1,
+  Interface: 2,
+  Array: 3,
+} as const;
+
+/** Value tags, the first character of the JNI signature of the value's type */
+export const Tag = {
+  Array: 91, // '['
+  Byte: 66, // 'B'
+  Char: 67, // 'C'
+  Object: 76, // 'L'
+  Float: 70, // 'F'
+  Double: 68, // 'D'
+  Int: 73, // 'I'
+  Long: 74, // 'J'
+  Short: 83, // 'S'
+  Void: 86, // 'V'
+  Boolean: 90, // 'Z'
+  String: 115, // 's'
+  Thread: 116, // 't'
+  ThreadGroup: 103, // 'g'
+  ClassLoader: 108, // 'l'
+  ClassObject: 99, // 'c'
+} as const;
+
+/** Event request modifier kinds */
+export const ModKind = {
+  Count: 1,
+  ClassMatch: 5,
+  LocationOnly: 7,
+  ExceptionOnly: 8,
+  Step: 10,
+} as const;
+
+const ERROR_NAMES: Record<number, string> = {
+  10: "INVALID_THREAD",
+  13: "THREAD_NOT_SUSPENDED",
+  20: "INVALID_OBJECT",
+  21: "INVALID_CLASS",
+  22: "CLASS_NOT_PREPARED",
+  23: "INVALID_METHODID",
+  24: "INVALID_LOCATION",
+  30: "INVALID_FRAMEID",
+  35: "INVALID_SLOT",
+  41: "NOT_FOUND",
+  99: "NOT_IMPLEMENTED",
+  100: "NULL_POINTER",
+  101: "ABSENT_INFORMATION",
+  102: "INVALID_EVENT_TYPE",
+  103: "ILLEGAL_ARGUMENT",
+  112: "VM_DEAD",
+};
+
+export class JdwpError extends Error {
+  constructor(
+    readonly errorCode: number,
+    readonly command: string,
+  ) {
+    super(`${command} failed: ${ERROR_NAMES[errorCode] ?? `error ${errorCode}`}`);
+    this.name = "JdwpError";
+  }
+}
+
+/** Sizes of the variably sized IDs, from VirtualMachine.IDSizes */
+export interface JdwpIdSizes {
+  fieldId: number;
+  methodId: number;
+  objectId: number;
+  referenceTypeId: number;
+  frameId: number;
+}
+
+/** ART uses 8-byte IDs; used until IDSizes has been answered */
+export const DEFAULT_ID_SIZES: JdwpIdSizes = { fieldId: 8, methodId: 8, objectId: 8, referenceTypeId: 8, frameId: 8 };
+
+export interface JdwpLocation {
+  typeTag: number;
+  classId: bigint;
+  methodId: bigint;
+  index: bigint;
+}
+
+export interface JdwpValue {
+  tag: number;
+  /** Numbers for primitives, `bigint` for longs and object IDs (0n is null) */
+  value: number | bigint | boolean;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Builds a big-endian command body.
+ */
+export class PacketWriter {
+  private chunks: number[] = [];
+
+  constructor(private readonly sizes: JdwpIdSizes = DEFAULT_ID_SIZES) {}
+
+  byte(value: number): this {
+    this.chunks.push(value & 0xff);
+    return this;
+  }
+
+  boolean(value: boolean): this {
+    return this.byte(value ? 1 : 0);
+  }
+
+  int(value: number): this {
+    const view = new DataView(new ArrayBuffer(4));
+    view.setInt32(0, value);
+    return this.bytes(new Uint8Array(view.buffer));
+  }
+
+  long(value: bigint): this {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setBigInt64(0, value);
+    return this.bytes(new Uint8Array(view.buffer));
+  }
+
+  string(value: string): this {
+    const encoded = textEncoder.encode(value);
+    this.int(encoded.length);
+    return this.bytes(encoded);
+  }
+
+  id(value: bigint, size: number): this {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setBigUint64(0, BigInt.asUintN(64, value));
+    return this.bytes(new Uint8Array(view.buffer, 8 - size, size));
+  }
+
+  objectId(value: bigint): this {
+    return this.id(value, this.sizes.objectId);
+  }
+
+  referenceTypeId(value: bigint): this {
+    return this.id(value, this.sizes.referenceTypeId);
+  }
+
+  methodId(value: bigint): this {
+    return this.id(value, this.sizes.methodId);
+  }
+
+  fieldId(value: bigint): this {
+    return this.id(value, this.sizes.fieldId);
+  }
+
+  frameId(value: bigint): this {
+    return this.id(value, this.sizes.frameId);
+  }
+
+  location(location: JdwpLocation): this {
+    return this.byte(location.typeTag)
+      .referenceTypeId(location.classId)
+      .methodId(location.methodId)
+      .long(location.index);
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.chunks);
+  }
+
+  private bytes(bytes: Uint8Array): this {
+    for (const byte of bytes) this.chunks.push(byte);
+    return this;
+  }
+}
+
+/**
+ * Reads a big-endian reply or event body.
+ */
+export class PacketReader {
+  private offset = 0;
+  private readonly view: DataView;
+
+  constructor(
+    private readonly data: Uint8Array,
+    private readonly sizes: JdwpIdSizes = DEFAULT_ID_SIZES,
+  ) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  get remaining(): number {
+    return this.data.byteLength - this.offset;
+  }
+
+  byte(): number {
+    return this.view.getUint8(this.advance(1));
+  }
+
+  boolean(): boolean {
+    return this.byte() !== 0;
+  }
+
+  short(): number {
+    return this.view.getInt16(this.advance(2));
+  }
+
+  int(): number {
+    return this.view.getInt32(this.advance(4));
+  }
+
+  long(): bigint {
+    return this.view.getBigInt64(this.advance(8));
+  }
+
+  float(): number {
+    return this.view.getFloat32(this.advance(4));
+  }
+
+  double(): number {
+    return this.view.getFloat64(this.advance(8));
+  }
+
+  string(): string {
+    const length = this.int();
+    const start = this.advance(length);
+    return textDecoder.decode(this.data.subarray(start, start + length));
+  }
+
+  id(size: number): bigint {
+    const start = this.advance(size);
+    let value = 0n;
+    for (let index = 0; index < size; index++) {
+      value = (value << 8n) | BigInt(this.data[start + index]);
+    }
+    return value;
+  }
+
+  objectId(): bigint {
+    return this.id(this.sizes.objectId);
+  }
+
+  referenceTypeId(): bigint {
+    return this.id(this.sizes.referenceTypeId);
+  }
+
+  methodId(): bigint {
+    return this.id(this.sizes.methodId);
+  }
+
+  fieldId(): bigint {
+    return this.id(this.sizes.fieldId);
+  }
+
+  frameId(): bigint {
+    return this.id(this.sizes.frameId);
+  }
+
+  location(): JdwpLocation {
+    return {
+      typeTag: this.byte(),
+      classId: this.referenceTypeId(),
+      methodId: this.methodId(),
+      index: this.long(),
+    };
+  }
+
+  /** A value preceded by its tag */
+  taggedValue(): JdwpValue {
+    return this.value(this.byte());
+  }
+
+  /** A value whose tag is known from context */
+  value(tag: number): JdwpValue {
+    switch (tag) {
+      case Tag.Byte:
+        return { tag, value: this.view.getInt8(this.advance(1)) };
+      case Tag.Boolean:
+        return { tag, value: this.boolean() };
+      case Tag.Char:
+        return { tag, value: this.view.getUint16(this.advance(2)) };
+      case Tag.Short:
+        return { tag, value: this.short() };
+      case Tag.Int:
+        return { tag, value: this.int() };
+      case Tag.Float:
+        return { tag, value: this.float() };
+      case Tag.Long:
+        return { tag, value: this.long() };
+      case Tag.Double:
+        return { tag, value: this.double() };
+      case Tag.Void:
+        return { tag, value: 0 };
+      default:
+        return { tag, value: this.objectId() };
+    }
+  }
+
+  private advance(length: number): number {
+    if (length < 0 || this.offset + length > this.data.byteLength) {
+      throw new RangeError("JDWP packet ended unexpectedly");
+    }
+    const start = this.offset;
+    this.offset += length;
+    return start;
+  }
+}
+
+export interface JdwpCommandPacket {
+  id: number;
+  flags: number;
+  commandSet: number;
+  command: number;
+  data: Uint8Array;
+}
+
+export interface JdwpReplyPacket {
+  id: number;
+  flags: number;
+  errorCode: number;
+  data: Uint8Array;
+}
+
+export type JdwpPacket = JdwpCommandPacket | JdwpReplyPacket;
+
+export function isReply(packet: JdwpPacket): packet is JdwpReplyPacket {
+  return (packet.flags & REPLY_FLAG) !== 0;
+}
+
+export function encodeCommand(id: number, commandSet: number, command: number, data: Uint8Array): Uint8Array {
+  const packet = new Uint8Array(HEADER_LENGTH + data.length);
+  const view = new DataView(packet.buffer);
+  view.setUint32(0, packet.length);
+  view.setUint32(4, id);
+  view.setUint8(8, 0);
+  view.setUint8(9, commandSet);
+  view.setUint8(10, command);
+  packet.set(data, HEADER_LENGTH);
+  return packet;
+}
+
+export function encodeReply(id: number, errorCode: number, data: Uint8Array = new Uint8Array(0)): Uint8Array {
+  const packet = new Uint8Array(HEADER_LENGTH + data.length);
+  const view = new DataView(packet.buffer);
+  view.setUint32(0, packet.length);
+  view.setUint32(4, id);
+  view.setUint8(8, REPLY_FLAG);
+  view.setUint16(9, errorCode);
+  packet.set(data, HEADER_LENGTH);
+  return packet;
+}
+
+/**
+ * Splits a byte stream into packets. Chunks may end mid-packet; the
+ * remainder is kept until the next push().
+ */
+export class JdwpPacketParser {
+  private pending: Uint8Array = new Uint8Array(0);
+
+  push(chunk: Uint8Array): JdwpPacket[] {
+    const bytes = this.pending.length === 0 ? chunk : concat(this.pending, chunk);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const packets: JdwpPacket[] = [];
+    let offset = 0;
+
+    while (bytes.length - offset >= HEADER_LENGTH) {
+      const length = view.getUint32(offset);
+      if (length < HEADER_LENGTH) {
+        throw new RangeError(`Invalid JDWP packet length ${length}`);
+      }
+      if (bytes.length - offset < length) break;
+
+      const id = view.getUint32(offset + 4);
+      const flags = view.getUint8(offset + 8);
+      const data = bytes.slice(offset + HEADER_LENGTH, offset + length);
+      packets.push(
+        flags & REPLY_FLAG
+          ? { id, flags, errorCode: view.getUint16(offset + 9), data }
+          : { id, flags, commandSet: view.getUint8(offset + 9), command: view.getUint8(offset + 10), data },
+      );
+      offset += length;
+    }
+
+    this.pending = bytes.slice(offset);
+    return packets;
+  }
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
@@ -0,0 +1,87 @@
+import type { EventKind, JdwpLocation } from "./protocol.js";
+
+export interface JdwpVersion {
+  description: string;
+  jdwpMajor: number;
+  jdwpMinor: number;
+  vmVersion: string;
+  vmName: string;
+}
+
+export interface JdwpClassInfo {
+  typeTag: number;
+  typeId: bigint;
+  /** JNI signature, e.g. `Lcom/example/MainActivity;` */
+  signature: string;
+  status: number;
+}
+
+export interface JdwpField {
+  fieldId: bigint;
+  name: string;
+  signature: string;
+  modifiers: number;
+}
+
+export interface JdwpMethod {
+  methodId: bigint;
+  name: string;
+  signature: string;
+  modifiers: number;
+}
+
+export interface JdwpLineTable {
+  start: bigint;
+  end: bigint;
+  /** Code index → source line, in code index order */
+  lines: Array<{ codeIndex: bigint; line: number }>;
+}
+
+export interface JdwpVariable {
+  /** First code index where the variable is live */
+  codeIndex: bigint;
+  name: string;
+  signature: string;
+  /** Number of code indices the variable is live for */
+  length: number;
+  slot: number;
+}
+
+export interface JdwpFrame {
+  frameId: bigint;
+  location: JdwpLocation;
+}
+
+interface JdwpEventBase {
+  /** The event request that produced this event; 0 for automatic events */
+  requestId: number;
+}
+
+export type JdwpEvent =
+  | (JdwpEventBase & {
+      kind: typeof EventKind.VmStart | typeof EventKind.ThreadStart | typeof EventKind.ThreadDeath;
+      thread: bigint;
+    })
+  | (JdwpEventBase & {
+      kind: typeof EventKind.SingleStep | typeof EventKind.Breakpoint;
+      thread: bigint;
+      location: JdwpLocation;
+    })
+  | (JdwpEventBase & {
+      kind: typeof EventKind.Exception;
+      thread: bigint;
+      location: JdwpLocation;
+      exception: bigint;
+      /** Where the exception will be caught; unset when uncaught */
+      catchLocation?: JdwpLocation;
+    })
+  | (JdwpEventBase & {
+      kind: typeof EventKind.ClassPrepare;
+      thread: bigint;
+      typeTag: number;
+      typeId: bigint;
+      signature: string;
+      status: number;
+    })
+  | (JdwpEventBase & { kind: typeof EventKind.ClassUnload; signature: string })
+  | (JdwpEventBase & { kind: typeof EventKind.VmDeath });
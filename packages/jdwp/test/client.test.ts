@@ -0,0 +1,186 @@
+import { type AddressInfo, type Server, type Socket, createServer } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+
+import {
+  EventKind,
+  JDWP_HANDSHAKE,
+  JdwpClient,
+  JdwpError,
+  JdwpPacketParser,
+  PacketWriter,
+  SuspendPolicy,
+  encodeCommand,
+  encodeReply,
+  isReply,
+} from "../src/index.js";
+import type { JdwpCommandPacket, JdwpEvent } from "../src/index.js";
+
+type Handler = (packet: JdwpCommandPacket, socket: Socket) => Uint8Array | number | void;
+
+/**
+ * A fake VM: echoes the handshake, answers IDSizes with 8-byte IDs and
+ * passes other commands to `handler`, which returns a reply body or an
+ * error code.
+ */
+async function startFakeVm(handler: Handler = () => undefined): Promise<{ server: Server; port: number }> {
+  const server = createServer((socket) => {
+    let handshaken = false;
+    const parser = new JdwpPacketParser();
+    socket.on("data", (chunk) => {
+      let data: Uint8Array = chunk;
+      if (!handshaken) {
+        expect(chunk.subarray(0, JDWP_HANDSHAKE.length).toString("ascii")).toBe(JDWP_HANDSHAKE);
+        handshaken = true;
+        socket.write(JDWP_HANDSHAKE);
+        data = chunk.subarray(JDWP_HANDSHAKE.length);
+      }
+      for (const packet of parser.push(data)) {
+        if (isReply(packet)) continue;
+        if (packet.commandSet === 1 && packet.command === 7) {
+          socket.write(encodeReply(packet.id, 0, new PacketWriter().int(8).int(8).int(8).int(8).int(8).toBytes()));
+          continue;
+        }
+        const result = handler(packet, socket);
+        if (typeof result === "number") socket.write(encodeReply(packet.id, result));
+        else if (result) socket.write(encodeReply(packet.id, 0, result));
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return { server, port: (server.address() as AddressInfo).port };
+}
+
+let server: Server | undefined;
+let client: JdwpClient | undefined;
+
+afterEach(async () => {
+  client?.close();
+  client = undefined;
+  await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+  server = undefined;
+});
+
+describe("JdwpClient", () => {
+  it("handshakes and decodes replies", async () => {
+    const vm = await startFakeVm((packet) => {
+      if (packet.commandSet === 1 && packet.command === 1) {
+        return new PacketWriter().string("Android Runtime").int(1).int(6).string("2.1.0").string("Dalvik").toBytes();
+      }
+      if (packet.commandSet === 11 && packet.command === 6) {
+        return new PacketWriter()
+          .int(1)
+          .frameId(5n)
+          .location({ typeTag: 1, classId: 10n, methodId: 20n, index: 3n })
+          .toBytes();
+      }
+    });
+    server = vm.server;
+    client = await JdwpClient.connect(vm.port);
+
+    expect(await client.version()).toEqual({
+      description: "Android Runtime",
+      jdwpMajor: 1,
+      jdwpMinor: 6,
+      vmVersion: "2.1.0",
+      vmName: "Dalvik",
+    });
+    expect(await client.frames(99n)).toEqual([
+      { frameId: 5n, location: { typeTag: 1, classId: 10n, methodId: 20n, index: 3n } },
+    ]);
+  });
+
+  it("rejects with the JDWP error name", async () => {
+    const vm = await startFakeVm(() => 101);
+    server = vm.server;
+    client = await JdwpClient.connect(vm.port);
+
+    const error = await client.variableTable(1n, 2n).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(JdwpError);
+    expect((error as JdwpError).message).toBe("VariableTable failed: ABSENT_INFORMATION");
+  });
+
+  it("emits composite events", async () => {
+    const vm = await startFakeVm((packet, socket) => {
+      if (packet.commandSet === 15 && packet.command === 1) {
+        const body = new PacketWriter()
+          .byte(SuspendPolicy.All)
+          .int(2)
+          .byte(EventKind.Breakpoint)
+          .int(3)
+          .objectId(77n)
+          .location({ typeTag: 1, classId: 10n, methodId: 20n, index: 4n })
+          .byte(EventKind.ClassPrepare)
+          .int(4)
+          .objectId(77n)
+          .byte(1)
+          .referenceTypeId(11n)
+          .string("Lcom/example/Main;")
+          .int(7)
+          .toBytes();
+        setTimeout(() => socket.write(encodeCommand(1, 64, 100, body)), 5);
+        return new PacketWriter().int(3).toBytes();
+      }
+    });
+    server = vm.server;
+    client = await JdwpClient.connect(vm.port);
+
+    const events: Array<[JdwpEvent, number]> = [];
+    const received = new Promise<void>((resolve) =>
+      client!.on("event", (event: JdwpEvent, policy: number) => {
+        events.push([event, policy]);
+        if (events.length === 2) resolve();
+      }),
+    );
+
+    const requestId = await client.setBreakpoint({ typeTag: 1, classId: 10n, methodId: 20n, index: 4n });
+    expect(requestId).toBe(3);
+    await received;
+
+    expect(events).toEqual([
+      [
+        {
+          kind: EventKind.Breakpoint,
+          requestId: 3,
+          thread: 77n,
+          location: { typeTag: 1, classId: 10n, methodId: 20n, index: 4n },
+        },
+        SuspendPolicy.All,
+      ],
+      [
+        {
+          kind: EventKind.ClassPrepare,
+          requestId: 4,
+          thread: 77n,
+          typeTag: 1,
+          typeId: 11n,
+          signature: "Lcom/example/Main;",
+          status: 7,
+        },
+        SuspendPolicy.All,
+      ],
+    ]);
+  });
+
+  it("rejects pending requests when the VM goes away", async () => {
+    const vm = await startFakeVm((_packet, socket) => {
+      socket.destroy();
+    });
+    server = vm.server;
+    client = await JdwpClient.connect(vm.port);
+
+    const closed = new Promise((resolve) => client!.once("close", resolve));
+    await expect(client.allThreads()).rejects.toThrow("JDWP connection closed");
+    await closed;
+    expect(client.isClosed).toBe(true);
+    await expect(client.resume()).rejects.toThrow("JDWP connection is closed");
+  });
+
+  it("fails when the endpoint hangs up during the handshake", async () => {
+    server = createServer((socket) => socket.destroy());
+    await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+
+    await expect(JdwpClient.connect((server.address() as AddressInfo).port)).rejects.toThrow(
+      /closed during the JDWP handshake/,
+    );
+  });
+});
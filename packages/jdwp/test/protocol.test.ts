@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  JdwpPacketParser,
+  PacketReader,
+  PacketWriter,
+  Tag,
+  encodeCommand,
+  encodeReply,
+  isReply,
+} from "../src/index.js";
+
+describe("PacketWriter / PacketReader", () => {
+  it("round-trips big-endian values and sized IDs", () => {
+    const sizes = { fieldId: 4, methodId: 8, objectId: 8, referenceTypeId: 8, frameId: 4 };
+    const bytes = new PacketWriter(sizes)
+      .byte(0xab)
+      .boolean(true)
+      .int(-2)
+      .long(-9007199254740993n)
+      .string("héllo")
+      .objectId(0x0102030405060708n)
+      .fieldId(0xdeadbeefn)
+      .location({ typeTag: 1, classId: 42n, methodId: 7n, index: 12n })
+      .toBytes();
+
+    expect(Array.from(bytes.subarray(0, 6))).toEqual([0xab, 1, 0xff, 0xff, 0xff, 0xfe]);
+
+    const reader = new PacketReader(bytes, sizes);
+    expect(reader.byte()).toBe(0xab);
+    expect(reader.boolean()).toBe(true);
+    expect(reader.int()).toBe(-2);
+    expect(reader.long()).toBe(-9007199254740993n);
+    expect(reader.string()).toBe("héllo");
+    expect(reader.objectId()).toBe(0x0102030405060708n);
+    expect(reader.fieldId()).toBe(0xdeadbeefn);
+    expect(reader.location()).toEqual({ typeTag: 1, classId: 42n, methodId: 7n, index: 12n });
+    expect(reader.remaining).toBe(0);
+  });
+
+  it("reads values by tag", () => {
+    const bytes = new PacketWriter()
+      .byte(Tag.Int)
+      .int(42)
+      .byte(Tag.Boolean)
+      .boolean(false)
+      .byte(Tag.String)
+      .objectId(9n)
+      .toBytes();
+    const reader = new PacketReader(bytes);
+    expect(reader.taggedValue()).toEqual({ tag: Tag.Int, value: 42 });
+    expect(reader.taggedValue()).toEqual({ tag: Tag.Boolean, value: false });
+    expect(reader.taggedValue()).toEqual({ tag: Tag.String, value: 9n });
+  });
+
+  it("throws on truncated bodies", () => {
+    expect(() => new PacketReader(new Uint8Array([0, 0, 0, 9, 65])).string()).toThrow(RangeError);
+  });
+});
+
+describe("JdwpPacketParser", () => {
+  it("splits commands and replies across chunk boundaries", () => {
+    const command = encodeCommand(1, 64, 100, new Uint8Array([1, 2, 3]));
+    const reply = encodeReply(7, 0, new Uint8Array([4, 5]));
+    const error = encodeReply(8, 41);
+    const stream = new Uint8Array([...command, ...reply, ...error]);
+
+    const parser = new JdwpPacketParser();
+    const packets = [
+      ...parser.push(stream.subarray(0, 5)),
+      ...parser.push(stream.subarray(5, 20)),
+      ...parser.push(stream.subarray(20)),
+    ];
+
+    expect(packets).toHaveLength(3);
+    expect(isReply(packets[0])).toBe(false);
+    expect(packets[0]).toMatchObject({ id: 1, commandSet: 64, command: 100, data: new Uint8Array([1, 2, 3]) });
+    expect(isReply(packets[1])).toBe(true);
+    expect(packets[1]).toMatchObject({ id: 7, errorCode: 0, data: new Uint8Array([4, 5]) });
+    expect(packets[2]).toMatchObject({ id: 8, errorCode: 41 });
+  });
+
+  it("rejects impossible packet lengths", () => {
+    expect(() => new JdwpPacketParser().push(new Uint8Array(11))).toThrow(RangeError);
+  });
+});
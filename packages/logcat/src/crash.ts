@@ -0,0 +1,177 @@
+import type { LogcatEntry } from "./types.js";
+
+export interface StackFrame {
+  /** Fully qualified class name, e.g. `com.example.Foo$Inner` */
+  className: string;
+  methodName: string;
+  /** Source file recorded in the class file, e.g. `Foo.kt` */
+  fileName?: string;
+  lineNumber?: number;
+}
+
+export interface LogcatCrash {
+  pid: number;
+  timestamp: Date;
+  /** Thread name from the `FATAL EXCEPTION: <thread>` header */
+  thread?: string;
+  /** Process name from the `Process: <name>, PID: <pid>` header */
+  processName?: string;
+  /** First exception line, e.g. `java.lang.IllegalStateException: boom` */
+  exception: string;
+  /** Trace lines after the headers: exceptions, frames, `Caused by:` and `... N more` */
+  lines: string[];
+  /**
+   * Native crash dumped by `crash_dump` under the `DEBUG` tag. `exception`
+   * is the signal line and `lines` hold the abort message, cause and
+   * `#00 pc …` backtrace frames.
+   */
+  native?: boolean;
+}
+
+const CRASH_TAG = "AndroidRuntime";
+const FATAL_EXCEPTION_PREFIX = "FATAL EXCEPTION:";
+const STACK_FRAME_REGEX = /^\s*at\s+(\S+)\.([^.\s(]+)\(([^)]*)\)\s*$/;
+const FRAME_LOCATION_REGEX = /^(.+):(\d+)$/;
+const PROCESS_HEADER_REGEX = /^Process:\s*([^,]+),\s*PID:\s*\d+/;
+const NATIVE_CRASH_TAG = "DEBUG";
+const TOMBSTONE_HEADER = "*** *** ***";
+const NATIVE_PROCESS_REGEX = /^pid:\s*(\d+),.*>>>\s*(.+?)\s*<<</;
+const NATIVE_DETAIL_REGEX = /^(signal \d+|Abort message:|Cause:|\s*#\d+\s+pc\s)/;
+
+/**
+ * Parse a single `at com.example.Foo.bar(Foo.kt:42)` stack trace line.
+ */
+export function parseStackFrame(line: string): StackFrame | undefined {
+  const match = line.match(STACK_FRAME_REGEX);
+  if (!match) return undefined;
+
+  const [, className, methodName, location] = match;
+  const locationMatch = location.match(FRAME_LOCATION_REGEX);
+  if (locationMatch) {
+    return { className, methodName, fileName: locationMatch[1], lineNumber: Number(locationMatch[2]) };
+  }
+
+  // "Native Method" and "Unknown Source" carry no usable file name
+  return {
+    className,
+    methodName,
+    fileName: /\.\w+$/.test(location) ? location : undefined,
+  };
+}
+
+/**
+ * Groups `AndroidRuntime` entries that make up a fatal exception into crashes.
+ *
+ * A crash starts at a `FATAL EXCEPTION` entry and collects every following
+ * `AndroidRuntime` entry from the same PID, whether the trace arrives as one
+ * multi-line message or as one entry per line. It ends as soon as that PID
+ * logs under any other tag.
+ */
+export class CrashCollector {
+  private readonly pending = new Map<number, LogcatCrash>();
+
+  /**
+   * Feed an entry. Returns the crash the entry was grouped into, or
+   * undefined when the entry is not part of a crash.
+   */
+  add(entry: LogcatEntry): LogcatCrash | undefined {
+    if (entry.tag === NATIVE_CRASH_TAG) {
+      return this.addNative(entry);
+    }
+    if (entry.tag !== CRASH_TAG || this.pending.get(entry.pid)?.native) {
+      this.pending.delete(entry.pid);
+      return undefined;
+    }
+
+    const lines = entry.message.split(/\r?\n/);
+    if (lines[0].startsWith(FATAL_EXCEPTION_PREFIX)) {
+      const crash: LogcatCrash = {
+        pid: entry.pid,
+        timestamp: entry.timestamp,
+        thread: lines[0].slice(FATAL_EXCEPTION_PREFIX.length).trim() || undefined,
+        exception: "",
+        lines: [],
+      };
+      this.pending.set(entry.pid, crash);
+      appendLines(crash, lines.slice(1));
+      return crash;
+    }
+
+    const crash = this.pending.get(entry.pid);
+    if (!crash) return undefined;
+
+    appendLines(crash, lines);
+    return crash;
+  }
+
+  /**
+   * Native crashes start at the tombstone's `*** *** ***` banner, logged by
+   * the `crash_dump` process rather than the one that crashed.
+   */
+  private addNative(entry: LogcatEntry): LogcatCrash | undefined {
+    const lines = entry.message.split(/\r?\n/);
+    if (lines[0].startsWith(TOMBSTONE_HEADER)) {
+      const crash: LogcatCrash = {
+        pid: entry.pid,
+        timestamp: entry.timestamp,
+        exception: "",
+        lines: [],
+        native: true,
+      };
+      this.pending.set(entry.pid, crash);
+      appendNativeLines(crash, lines.slice(1));
+      return crash;
+    }
+
+    const crash = this.pending.get(entry.pid);
+    if (!crash?.native) {
+      this.pending.delete(entry.pid);
+      return undefined;
+    }
+
+    appendNativeLines(crash, lines);
+    return crash;
+  }
+
+  clear(): void {
+    this.pending.clear();
+  }
+}
+
+function appendNativeLines(crash: LogcatCrash, lines: string[]): void {
+  for (const line of lines) {
+    const processMatch = line.match(NATIVE_PROCESS_REGEX);
+    if (processMatch) {
+      crash.pid = Number(processMatch[1]);
+      crash.processName = processMatch[2];
+      continue;
+    }
+
+    // Registers, memory maps and build info are left out
+    if (!NATIVE_DETAIL_REGEX.test(line)) continue;
+    if (!crash.exception && line.startsWith("signal ")) {
+      crash.exception = line.trim();
+      continue;
+    }
+    crash.lines.push(line);
+  }
+}
+
+function appendLines(crash: LogcatCrash, lines: string[]): void {
+  for (const line of lines) {
+    if (!line.trim()) continue;
+
+    if (!crash.processName && crash.lines.length === 0) {
+      const processMatch = line.match(PROCESS_HEADER_REGEX);
+      if (processMatch) {
+        crash.processName = processMatch[1].trim();
+        continue;
+      }
+    }
+
+    if (!crash.exception && !parseStackFrame(line)) {
+      crash.exception = line.trim();
+    }
+    crash.lines.push(line);
+  }
+}
@@ -0,0 +1,192 @@
+import type { LogcatEntry } from "./types.js";
+
+export interface EventLogField {
+  name: string;
+  /** Value type from the tags file: 1 int, 2 long, 3 string, 4 list, 5 float */
+  type?: number;
+  /** Unit code from the tags file, e.g. 3 for milliseconds */
+  unit?: number;
+}
+
+export interface EventLogTag {
+  tag: number;
+  name: string;
+  fields: EventLogField[];
+}
+
+/** Where devices keep the tag number → name mapping for the events buffer */
+export const EVENT_LOG_TAGS_PATH = "/system/etc/event-log-tags";
+
+/** Payload value types, from liblog's `AndroidEventLogType` */
+const EVENT_TYPE_INT = 0;
+const EVENT_TYPE_LONG = 1;
+const EVENT_TYPE_STRING = 2;
+const EVENT_TYPE_LIST = 3;
+const EVENT_TYPE_FLOAT = 4;
+
+/** `logger_entry` v1 has no `hdr_size` field and a 20-byte header */
+const LEGACY_HEADER_SIZE = 20;
+/** `payload_len` and `hdr_size` */
+const SIZE_FIELDS_LENGTH = 4;
+
+/** `30014 am_proc_start (User|1|5),(PID|1|5),(Process Name|3)` */
+const TAG_LINE_REGEX = /^(\d+)\s+(\S+)\s*(.*)$/;
+const FIELD_REGEX = /\(([^|()]*)\|(\d+)(?:\|(\d+))?\)/g;
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Parse an `event-log-tags` file into tag descriptions keyed by tag number.
+ * Comments and malformed lines are skipped.
+ */
+export function parseEventLogTags(text: string): Map<number, EventLogTag> {
+  const tags = new Map<number, EventLogTag>();
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const match = line.match(TAG_LINE_REGEX);
+    if (!match) continue;
+
+    const fields: EventLogField[] = [];
+    for (const field of match[3].matchAll(FIELD_REGEX)) {
+      fields.push({
+        name: field[1].trim(),
+        type: Number(field[2]),
+        unit: field[3] === undefined ? undefined : Number(field[3]),
+      });
+    }
+
+    const tag = Number(match[1]);
+    tags.set(tag, { tag, name: match[2], fields });
+  }
+
+  return tags;
+}
+
+/**
+ * Decode an events buffer payload: a tag number followed by one typed value.
+ * Lists print like `logcat -b events`, with field names from the tags file
+ * where known, e.g. `[PID=1234,Process Name=com.example.app]`.
+ */
+export function decodeEventLogPayload(
+  payload: Uint8Array,
+  tags: ReadonlyMap<number, EventLogTag> = new Map()
+): { tag: string; message: string } {
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  if (payload.byteLength < 4) {
+    return { tag: "events", message: "" };
+  }
+
+  const tagNumber = view.getUint32(0, true);
+  const info = tags.get(tagNumber);
+  const tag = info?.name ?? String(tagNumber);
+  if (payload.byteLength === 4) {
+    return { tag, message: "" };
+  }
+
+  const cursor = { offset: 4 };
+  try {
+    return { tag, message: readValue(view, cursor, info?.fields) };
+  } catch {
+    return { tag, message: "<malformed event payload>" };
+  }
+}
+
+function readValue(view: DataView, cursor: { offset: number }, fields?: readonly EventLogField[]): string {
+  const type = view.getUint8(cursor.offset);
+  cursor.offset += 1;
+
+  switch (type) {
+    case EVENT_TYPE_INT: {
+      const value = view.getInt32(cursor.offset, true);
+      cursor.offset += 4;
+      return String(value);
+    }
+    case EVENT_TYPE_LONG: {
+      const value = view.getBigInt64(cursor.offset, true);
+      cursor.offset += 8;
+      return value.toString();
+    }
+    case EVENT_TYPE_FLOAT: {
+      const value = view.getFloat32(cursor.offset, true);
+      cursor.offset += 4;
+      // Trim the noise of widening a float32 to a double
+      return String(Number(value.toPrecision(7)));
+    }
+    case EVENT_TYPE_STRING: {
+      const length = view.getInt32(cursor.offset, true);
+      cursor.offset += 4;
+      if (length < 0 || cursor.offset + length > view.byteLength) {
+        throw new RangeError("String runs past the payload");
+      }
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + cursor.offset, length);
+      cursor.offset += length;
+      return textDecoder.decode(bytes);
+    }
+    case EVENT_TYPE_LIST: {
+      const count = view.getUint8(cursor.offset);
+      cursor.offset += 1;
+      const items: string[] = [];
+      for (let index = 0; index < count; index++) {
+        const value = readValue(view, cursor);
+        const name = fields?.[index]?.name;
+        items.push(name ? `${name}=${value}` : value);
+      }
+      return `[${items.join(",")}]`;
+    }
+    default:
+      throw new RangeError(`Unknown event value type ${type}`);
+  }
+}
+
+/**
+ * Splits the raw output of `logcat -B -b events` into entries. Chunks may
+ * end mid-record; the remainder is kept until the next push().
+ */
+export class EventLogDecoder {
+  private pending: Uint8Array = new Uint8Array(0);
+
+  constructor(private readonly tags: ReadonlyMap<number, EventLogTag> = new Map()) {}
+
+  push(chunk: Uint8Array): LogcatEntry[] {
+    const bytes = this.pending.length === 0 ? chunk : concat(this.pending, chunk);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const entries: LogcatEntry[] = [];
+    let offset = 0;
+
+    while (bytes.length - offset >= SIZE_FIELDS_LENGTH) {
+      const payloadSize = view.getUint16(offset, true);
+      const headerSize = view.getUint16(offset + 2, true) || LEGACY_HEADER_SIZE;
+      if (bytes.length - offset < headerSize + payloadSize) break;
+
+      const payload = bytes.subarray(offset + headerSize, offset + headerSize + payloadSize);
+      const { tag, message } = decodeEventLogPayload(payload, this.tags);
+      const seconds = view.getUint32(offset + 12, true);
+      const nanoseconds = view.getUint32(offset + 16, true);
+      entries.push({
+        timestamp: new Date(seconds * 1000 + Math.floor(nanoseconds / 1e6)),
+        pid: view.getInt32(offset + 4, true),
+        tid: view.getUint32(offset + 8, true),
+        // The events buffer has no priority; logcat shows it as info
+        level: "I",
+        tag,
+        message,
+        buffer: "events",
+      });
+
+      offset += headerSize + payloadSize;
+    }
+
+    this.pending = bytes.slice(offset);
+    return entries;
+  }
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
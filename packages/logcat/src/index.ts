@@ -1,9 +1,36 @@
 import { EventEmitter } from "node:events";
-import { Logcat, AndroidLogPriority, type AndroidLogEntry } from "@yume-chan/android-bin";
+import { Logcat, AndroidLogPriority, LogId, type AndroidLogEntry } from "@yume-chan/android-bin";
 import type { ReadableStream } from "@yume-chan/stream-extra";
-import type { LogcatEntry, LogLevel, LogcatOptions } from "./types.js";
+import { EVENT_LOG_TAGS_PATH, EventLogDecoder, parseEventLogTags, type EventLogTag } from "./events.js";
+import type { LogcatBufferId, LogcatEntry, LogLevel, LogcatOptions } from "./types.js";
 
-export type { LogcatEntry, LogLevel, LogcatOptions } from "./types.js";
+export type { LogcatBufferId, LogcatEntry, LogLevel, LogcatOptions } from "./types.js";
+export { EVENT_LOG_TAGS_PATH, EventLogDecoder, decodeEventLogPayload, parseEventLogTags } from "./events.js";
+export type { EventLogField, EventLogTag } from "./events.js";
+export { CrashCollector, parseStackFrame } from "./crash.js";
+export type { LogcatCrash, StackFrame } from "./crash.js";
+export { LogcatQueryError, matchesLogcatQuery, parseLogcatQuery } from "./query.js";
+export type { LogcatQuery, LogcatQueryField, LogcatQueryOperator, LogcatQueryTerm } from "./query.js";
+export {
+  LOGCAT_RECORDING_FORMAT,
+  LOGCAT_RECORDING_VERSION,
+  LogcatRecordingError,
+  formatRecordingEntry,
+  formatRecordingHeader,
+  parseLogcatRecording,
+} from "./recording.js";
+export type { LogcatRecording, LogcatRecordingDevice, LogcatRecordingHeader } from "./recording.js";
+export {
+  PROCESS_MARKER_TAG,
+  PackageProcessTracker,
+  createProcessMarker,
+  isPackageProcess,
+  isProcessMarker,
+  parseProcessEvent,
+} from "./process.js";
+export type { LogcatProcessEvent, PackageProcess, PackageProcessStart } from "./process.js";
+export { parseLogcatText } from "./text-parser.js";
+export type { ParseLogcatTextOptions } from "./text-parser.js";
 
 const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
   V: 0,
@@ -25,6 +52,22 @@ const PRIORITY_TO_LEVEL: Record<number, LogLevel> = {
   [AndroidLogPriority.Silent]: "S",
 };
 
+export const LOGCAT_BUFFER_IDS: readonly LogcatBufferId[] = ["main", "system", "crash", "events", "radio"];
+/** What `logcat` reads when no `-b` is given */
+export const DEFAULT_LOGCAT_BUFFERS: readonly LogcatBufferId[] = ["main", "system", "crash"];
+
+const BUFFER_LOG_IDS: Record<LogcatBufferId, LogId> = {
+  main: LogId.Main,
+  system: LogId.System,
+  crash: LogId.Crash,
+  events: LogId.Events,
+  radio: LogId.Radio,
+};
+
+const LOG_ID_BUFFERS: Partial<Record<number, LogcatBufferId>> = Object.fromEntries(
+  Object.entries(BUFFER_LOG_IDS).map(([buffer, id]) => [id, buffer as LogcatBufferId])
+);
+
 const NANOSECONDS_PER_MILLISECOND = BigInt(1e6);
 
 function stripNul(s: string): string {
@@ -40,81 +83,157 @@ function toLogcatEntry(entry: AndroidLogEntry): LogcatEntry {
     level: PRIORITY_TO_LEVEL[entry.priority] ?? "V",
     tag: stripNul(entry.tag),
     message: stripNul(entry.message),
+    buffer: LOG_ID_BUFFERS[entry.logId],
   };
 }
 
+/**
+ * Streams a device's log. Text buffers come through Tango's binary reader;
+ * the events buffer is read by a separate `logcat -B -b events` process
+ * because its payloads are binary and need the device's tags file.
+ */
 export class LogcatStream extends EventEmitter {
-  private stream: ReadableStream<AndroidLogEntry> | null = null;
-  // Store the active reader so stop() can cancel it — cancelling a locked
+  // Store the active readers so stop() can cancel them — cancelling a locked
   // ReadableStream directly throws, but reader.cancel() works correctly.
-  private activeReader: ReturnType<ReadableStream<AndroidLogEntry>["getReader"]> | null = null;
+  private readonly activeReaders = new Set<{ cancel(): Promise<void> }>();
+  private eventsProcess: { kill(): unknown } | null = null;
+  private openLoops = 0;
   private running = false;
   private readonly logcat: Logcat;
   private readonly minLevel: LogLevel;
   private readonly pid?: number;
+  private readonly buffers?: readonly LogcatBufferId[];
 
   constructor(logcat: Logcat, options: LogcatOptions = {}) {
     super();
     this.logcat = logcat;
     this.minLevel = options.minLevel ?? "V";
     this.pid = options.pid;
+    this.buffers = options.buffers?.length ? options.buffers : undefined;
   }
 
   start(): void {
     if (this.running) throw new Error("Logcat stream already running");
     this.running = true;
 
-    this.stream = this.logcat.binary({
-      pid: this.pid,
-    });
+    const textIds = this.buffers?.filter((buffer) => buffer !== "events").map((buffer) => BUFFER_LOG_IDS[buffer]);
+    const readsText = !textIds || textIds.length > 0;
+    const readsEvents = this.buffers?.includes("events") ?? false;
+    this.openLoops = Number(readsText) + Number(readsEvents);
+
+    const stream = readsText
+      ? this.logcat.binary(textIds ? { pid: this.pid, ids: textIds } : { pid: this.pid })
+      : undefined;
 
     this.emit("start");
-    this.readLoop();
+    if (stream) this.readLoop(stream);
+    if (readsEvents) this.readEvents();
   }
 
-  private async readLoop(): Promise<void> {
-    const stream = this.stream;
-    if (!stream) return;
-
-    // getReader() is synchronous — activeReader is set before the first await,
-    // so stop() can safely cancel it as soon as start() returns.
+  private async readLoop(stream: ReadableStream<AndroidLogEntry>): Promise<void> {
+    // getReader() is synchronous — the reader is registered before the first
+    // await, so stop() can safely cancel it as soon as start() returns.
     const reader = stream.getReader();
-    this.activeReader = reader;
+    this.activeReaders.add(reader);
     try {
       while (this.running) {
         const { value, done } = await reader.read();
         if (done) break;
         if (value) {
-          const entry = toLogcatEntry(value);
-          if (this.shouldEmit(entry)) {
-            this.emit("entry", entry);
-          }
+          this.emitEntry(toLogcatEntry(value));
         }
       }
     } catch (err) {
-      if (this.running) {
-        this.emit("error", err instanceof Error ? err : new Error(String(err)));
-      }
+      this.emitError(err);
     } finally {
-      this.activeReader = null;
+      this.activeReaders.delete(reader);
       reader.releaseLock();
-      this.running = false;
-      this.stream = null;
-      this.emit("close", 0);
+      this.closeLoop();
     }
   }
 
+  private async readEvents(): Promise<void> {
+    const subprocess = this.logcat.adb.subprocess.noneProtocol;
+    try {
+      const tags = await this.loadEventLogTags();
+      if (!this.running) return;
+
+      const args = ["logcat", "-B", "-b", "events"];
+      if (this.pid) args.push("--pid", this.pid.toString());
+      const process = await subprocess.spawn(args);
+      this.eventsProcess = process;
+      if (!this.running) return;
+
+      const reader = process.output.getReader();
+      this.activeReaders.add(reader);
+      const decoder = new EventLogDecoder(tags);
+      try {
+        while (this.running) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          for (const entry of decoder.push(value)) {
+            this.emitEntry(entry);
+          }
+        }
+      } finally {
+        this.activeReaders.delete(reader);
+        reader.releaseLock();
+      }
+    } catch (err) {
+      this.emitError(err);
+    } finally {
+      this.killEventsProcess();
+      this.closeLoop();
+    }
+  }
+
+  private async loadEventLogTags(): Promise<Map<number, EventLogTag>> {
+    try {
+      const text = await this.logcat.adb.subprocess.noneProtocol.spawnWaitText(["cat", EVENT_LOG_TAGS_PATH]);
+      return parseEventLogTags(text);
+    } catch {
+      // Without names, tags print as numbers
+      return new Map();
+    }
+  }
+
+  private killEventsProcess(): void {
+    const process = this.eventsProcess;
+    this.eventsProcess = null;
+    if (process) {
+      Promise.resolve(process.kill()).catch(() => {});
+    }
+  }
+
+  private emitEntry(entry: LogcatEntry): void {
+    if (this.shouldEmit(entry)) {
+      this.emit("entry", entry);
+    }
+  }
+
+  private emitError(err: unknown): void {
+    if (this.running) {
+      this.emit("error", err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  /** Emits "close" once every reader has finished */
+  private closeLoop(): void {
+    this.openLoops -= 1;
+    if (this.openLoops > 0) return;
+    this.running = false;
+    this.emit("close", 0);
+  }
+
   stop(): void {
     if (!this.running) return;
     this.running = false;
-    // Cancel via the active reader (the stream is locked to it, so calling
-    // stream.cancel() directly would throw and be silently swallowed).
-    if (this.activeReader) {
-      this.activeReader.cancel().catch(() => {});
-    } else {
-      this.stream?.cancel().catch(() => {});
+    // Cancel via the active readers (each stream is locked to its reader, so
+    // calling stream.cancel() directly would throw and be silently swallowed).
+    for (const reader of this.activeReaders) {
+      reader.cancel().catch(() => {});
     }
-    this.stream = null;
+    this.killEventsProcess();
   }
 
   get isRunning(): boolean {
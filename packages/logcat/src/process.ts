@@ -0,0 +1,150 @@
+import type { LogcatEntry } from "./types.js";
+
+export interface PackageProcess {
+  pid: number;
+  /** `com.example.app`, or `com.example.app:remote` for secondary processes */
+  processName: string;
+}
+
+export interface LogcatProcessEvent extends PackageProcess {
+  type: "start" | "death";
+}
+
+export interface PackageProcessStart extends PackageProcess {
+  /** PID the same process name had before this start, if it was known */
+  previousPid?: number;
+}
+
+const ACTIVITY_MANAGER_TAG = "ActivityManager";
+/** `Start proc 12345:com.example.app/u0a123 for activity {...}` */
+const START_PROC_REGEX = /^Start proc (\d+):([^\s/]+)\/\S+/;
+/** Pre-Nougat: `Start proc com.example.app for activity ...: pid=12345 uid=10061 ...` */
+const LEGACY_START_PROC_REGEX = /^Start proc (\S+) for .*?: pid=(\d+)/;
+/** `Process com.example.app (pid 12345) has died` */
+const PROCESS_DIED_REGEX = /^Process (\S+) \(pid (\d+)\) has died/;
+/** `Killing 12345:com.example.app/u0a123 (adj 900): ...` */
+const KILLING_REGEX = /^Killing (\d+):([^\s/]+)\/\S+/;
+
+export const PROCESS_MARKER_TAG = "android-devkit";
+
+const markers = new WeakSet<LogcatEntry>();
+
+/**
+ * Recognise the `ActivityManager` lines that announce a process start or
+ * death.
+ */
+export function parseProcessEvent(entry: LogcatEntry): LogcatProcessEvent | undefined {
+  if (entry.tag !== ACTIVITY_MANAGER_TAG) return undefined;
+
+  const start = entry.message.match(START_PROC_REGEX);
+  if (start) {
+    return { type: "start", pid: Number(start[1]), processName: start[2] };
+  }
+
+  const legacyStart = entry.message.match(LEGACY_START_PROC_REGEX);
+  if (legacyStart) {
+    return { type: "start", pid: Number(legacyStart[2]), processName: legacyStart[1] };
+  }
+
+  const died = entry.message.match(PROCESS_DIED_REGEX);
+  if (died) {
+    return { type: "death", pid: Number(died[2]), processName: died[1] };
+  }
+
+  const killing = entry.message.match(KILLING_REGEX);
+  if (killing) {
+    return { type: "death", pid: Number(killing[1]), processName: killing[2] };
+  }
+
+  return undefined;
+}
+
+/**
+ * True for the package's main process and its `package:suffix` processes.
+ */
+export function isPackageProcess(processName: string, packageName: string): boolean {
+  return processName === packageName || processName.startsWith(`${packageName}:`);
+}
+
+/**
+ * Follows every process of a package across restarts by watching
+ * `ActivityManager` start lines, so a PID filter survives crashes and
+ * relaunches.
+ *
+ * PIDs stay in the set after their process dies: late entries from a dying
+ * process are still shown, and the set only grows for the lifetime of the
+ * filter.
+ */
+export class PackageProcessTracker {
+  private readonly known = new Set<number>();
+  private readonly current = new Map<string, number>();
+
+  constructor(
+    readonly packageName: string,
+    processes: Iterable<PackageProcess> = []
+  ) {
+    for (const process of processes) {
+      if (isPackageProcess(process.processName, packageName)) {
+        this.known.add(process.pid);
+        this.current.set(process.processName, process.pid);
+      }
+    }
+  }
+
+  /** Every PID the package has used since tracking started */
+  get pids(): ReadonlySet<number> {
+    return this.known;
+  }
+
+  /** Latest PID of each package process, keyed by process name */
+  get processes(): ReadonlyMap<string, number> {
+    return this.current;
+  }
+
+  /**
+   * Feed an entry from the stream. Returns the start details when it
+   * announces a new process for the package.
+   */
+  update(entry: LogcatEntry): PackageProcessStart | undefined {
+    const event = parseProcessEvent(entry);
+    if (!event || event.type !== "start" || !isPackageProcess(event.processName, this.packageName)) {
+      return undefined;
+    }
+
+    const previousPid = this.current.get(event.processName);
+    if (previousPid === event.pid) return undefined;
+
+    this.known.add(event.pid);
+    this.current.set(event.processName, event.pid);
+    return { pid: event.pid, processName: event.processName, previousPid };
+  }
+}
+
+/**
+ * Build the synthetic entry shown in the stream when a tracked process
+ * starts or restarts.
+ */
+export function createProcessMarker(start: PackageProcessStart, timestamp: Date): LogcatEntry {
+  const message =
+    start.previousPid === undefined
+      ? `${start.processName} process started (pid ${start.pid})`
+      : `${start.processName} process restarted (pid ${start.previousPid} → ${start.pid})`;
+  const marker: LogcatEntry = {
+    timestamp,
+    pid: start.pid,
+    tid: start.pid,
+    level: "I",
+    tag: PROCESS_MARKER_TAG,
+    message,
+  };
+  markers.add(marker);
+  return marker;
+}
+
+/**
+ * True for entries created by createProcessMarker(). Markers are not part of
+ * the device log and should bypass filters and recordings.
+ */
+export function isProcessMarker(entry: LogcatEntry): boolean {
+  return markers.has(entry);
+}
@@ -0,0 +1,283 @@
+import type { LogcatEntry, LogLevel } from "./types.js";
+
+export type LogcatQueryField = "text" | "tag" | "message" | "pid" | "tid" | "level" | "age";
+
+/**
+ * `:` contains (case-insensitive), `=` equals, `~` regular expression.
+ * Comparison operators only apply to `level`.
+ */
+export type LogcatQueryOperator = ":" | "=" | "~" | ">=" | ">" | "<=" | "<";
+
+export interface LogcatQueryTerm {
+  field: LogcatQueryField;
+  operator: LogcatQueryOperator;
+  value: string;
+  negated: boolean;
+}
+
+export interface LogcatQuery {
+  /** Query text as typed by the user */
+  source: string;
+  terms: LogcatQueryTerm[];
+}
+
+export class LogcatQueryError extends Error {
+  constructor(
+    message: string,
+    /** Offset of the offending token in the query source */
+    readonly offset: number
+  ) {
+    super(message);
+    this.name = "LogcatQueryError";
+  }
+}
+
+const LOG_LEVELS: LogLevel[] = ["V", "D", "I", "W", "E", "F", "S"];
+const FIELD_ALIASES: Record<string, LogcatQueryField> = {
+  tag: "tag",
+  message: "message",
+  msg: "message",
+  pid: "pid",
+  tid: "tid",
+  level: "level",
+  age: "age",
+};
+const AGE_UNITS: Record<string, number> = { s: 1_000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+const TERM_REGEX = /^([A-Za-z]+)(>=|<=|:|=|~|>|<)([\s\S]*)$/;
+
+interface Token {
+  text: string;
+  offset: number;
+  negated: boolean;
+  /** Index in `text` where the first quoted section starts */
+  quoteIndex?: number;
+}
+
+interface CompiledTerm extends LogcatQueryTerm {
+  test(entry: LogcatEntry, now: number): boolean;
+}
+
+const compiledTerms = new WeakMap<LogcatQuery, CompiledTerm[]>();
+
+/**
+ * Parse a logcat filter query such as
+ * `tag:OkHttp -tag:Choreographer message~"timeout \d+" level>=W pid:1234 age:5m`.
+ *
+ * Bare words match the tag or message. Values may be double-quoted to
+ * include spaces; `\"` inside quotes is a literal quote and every other
+ * backslash is kept so regular expressions survive unchanged.
+ *
+ * @throws LogcatQueryError when the query is malformed.
+ */
+export function parseLogcatQuery(source: string): LogcatQuery {
+  const compiled = tokenize(source).map((token) => buildTerm(toTerm(token), token.offset));
+  const query: LogcatQuery = {
+    source: source.trim(),
+    terms: compiled.map(({ field, operator, value, negated }) => ({ field, operator, value, negated })),
+  };
+  compiledTerms.set(query, compiled);
+  return query;
+}
+
+/**
+ * Check an entry against a parsed query.
+ *
+ * Positive terms on the same field (`tag:A tag:B`, `pid:1 pid:2`) match if
+ * any of them matches; negated, `level` and `age` terms must all match.
+ * `age` is measured against `now`.
+ */
+export function matchesLogcatQuery(query: LogcatQuery, entry: LogcatEntry, now: Date = new Date()): boolean {
+  let compiled = compiledTerms.get(query);
+  if (!compiled) {
+    compiled = query.terms.map((term) => buildTerm(term, 0));
+    compiledTerms.set(query, compiled);
+  }
+
+  const nowMs = now.getTime();
+  const alternatives = new Map<LogcatQueryField, boolean>();
+
+  for (const term of compiled) {
+    const matched = term.test(entry, nowMs);
+    if (term.negated) {
+      if (matched) return false;
+      continue;
+    }
+
+    if (term.field === "level" || term.field === "age") {
+      if (!matched) return false;
+      continue;
+    }
+
+    alternatives.set(term.field, (alternatives.get(term.field) ?? false) || matched);
+  }
+
+  for (const matched of alternatives.values()) {
+    if (!matched) return false;
+  }
+  return true;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    if (/\s/.test(source[index])) {
+      index++;
+      continue;
+    }
+
+    const token: Token = { text: "", offset: index, negated: false };
+    if (source[index] === "-") {
+      token.negated = true;
+      index++;
+    }
+
+    while (index < source.length && !/\s/.test(source[index])) {
+      if (source[index] !== '"') {
+        token.text += source[index++];
+        continue;
+      }
+
+      const quoteStart = index++;
+      token.quoteIndex ??= token.text.length;
+      let closed = false;
+      while (index < source.length) {
+        if (source[index] === "\\" && source[index + 1] === '"') {
+          token.text += '"';
+          index += 2;
+          continue;
+        }
+        if (source[index] === '"') {
+          closed = true;
+          index++;
+          break;
+        }
+        token.text += source[index++];
+      }
+      if (!closed) {
+        throw new LogcatQueryError("Unterminated quote", quoteStart);
+      }
+    }
+
+    if (!token.text && token.quoteIndex === undefined) {
+      throw new LogcatQueryError("Expected a term after '-'", token.offset);
+    }
+    tokens.push(token);
+  }
+
+  return tokens;
+}
+
+function toTerm(token: Token): LogcatQueryTerm {
+  const match = token.text.match(TERM_REGEX);
+  const prefixLength = match ? match[1].length + match[2].length : 0;
+  if (!match || (token.quoteIndex !== undefined && token.quoteIndex < prefixLength)) {
+    // Bare or fully quoted text: `"tag:foo"` searches for the literal text
+    return { field: "text", operator: ":", value: token.text, negated: token.negated };
+  }
+
+  const [, rawField, operator, value] = match;
+  const field = FIELD_ALIASES[rawField.toLowerCase()];
+  if (!field) {
+    throw new LogcatQueryError(
+      `Unknown field '${rawField}'. Use tag, message, pid, tid, level or age, or quote the text to search for it`,
+      token.offset
+    );
+  }
+
+  return { field, operator: operator as LogcatQueryOperator, value, negated: token.negated };
+}
+
+function buildTerm(term: LogcatQueryTerm, offset: number): CompiledTerm {
+  const { field, operator, value } = term;
+  if (!value) {
+    throw new LogcatQueryError(`Missing value for '${field}'`, offset);
+  }
+
+  const isComparison = operator === ">=" || operator === ">" || operator === "<=" || operator === "<";
+  if (isComparison && field !== "level") {
+    throw new LogcatQueryError(`Operator '${operator}' is only supported for level`, offset);
+  }
+
+  switch (field) {
+    case "text":
+    case "tag":
+    case "message": {
+      const read = (entry: LogcatEntry) =>
+        field === "tag" ? [entry.tag] : field === "message" ? [entry.message] : [entry.tag, entry.message];
+      return { ...term, test: compileTextMatcher(operator, value, offset, read) };
+    }
+    case "pid":
+    case "tid": {
+      if (operator === "~") {
+        throw new LogcatQueryError(`Operator '~' is not supported for ${field}`, offset);
+      }
+      const id = Number(value);
+      if (!Number.isInteger(id) || id < 0) {
+        throw new LogcatQueryError(`Invalid ${field} '${value}'`, offset);
+      }
+      return { ...term, test: (entry) => entry[field] === id };
+    }
+    case "level": {
+      const level = value.toUpperCase() as LogLevel;
+      const index = LOG_LEVELS.indexOf(level);
+      if (index < 0 || value.length !== 1) {
+        throw new LogcatQueryError(`Invalid level '${value}'. Use one of ${LOG_LEVELS.join(", ")}`, offset);
+      }
+      if (operator === "~") {
+        throw new LogcatQueryError("Operator '~' is not supported for level", offset);
+      }
+      return { ...term, test: (entry) => compareLevel(LOG_LEVELS.indexOf(entry.level), index, operator) };
+    }
+    case "age": {
+      const ageMatch = value.match(/^(\d+)([smhd])$/);
+      if (!ageMatch || (operator !== ":" && operator !== "=")) {
+        throw new LogcatQueryError(`Invalid age '${value}'. Use a duration such as 30s, 5m, 2h or 1d`, offset);
+      }
+      const maxAgeMs = Number(ageMatch[1]) * AGE_UNITS[ageMatch[2]];
+      return { ...term, test: (entry, now) => now - entry.timestamp.getTime() <= maxAgeMs };
+    }
+  }
+}
+
+function compileTextMatcher(
+  operator: LogcatQueryOperator,
+  value: string,
+  offset: number,
+  read: (entry: LogcatEntry) => string[]
+): (entry: LogcatEntry) => boolean {
+  if (operator === "~") {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(value);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new LogcatQueryError(`Invalid regular expression: ${reason}`, offset);
+    }
+    return (entry) => read(entry).some((text) => regex.test(text));
+  }
+
+  if (operator === "=") {
+    return (entry) => read(entry).some((text) => text === value);
+  }
+
+  const needle = value.toLowerCase();
+  return (entry) => read(entry).some((text) => text.toLowerCase().includes(needle));
+}
+
+function compareLevel(actual: number, expected: number, operator: LogcatQueryOperator): boolean {
+  switch (operator) {
+    case "=":
+      return actual === expected;
+    case ">":
+      return actual > expected;
+    case "<=":
+      return actual <= expected;
+    case "<":
+      return actual < expected;
+    default:
+      // `level:W` follows Android Studio and means "W and above"
+      return actual >= expected;
+  }
+}
@@ -0,0 +1,150 @@
+import type { LogcatBufferId, LogcatEntry, LogLevel } from "./types.js";
+
+export const LOGCAT_RECORDING_FORMAT = "android-devkit-logcat";
+export const LOGCAT_RECORDING_VERSION = 1;
+
+export interface LogcatRecordingDevice {
+  serial: string;
+  name?: string;
+  androidVersion?: string;
+  apiLevel?: number;
+}
+
+export interface LogcatRecordingHeader {
+  startedAt: Date;
+  device?: LogcatRecordingDevice;
+  packageName?: string;
+  pid?: number;
+}
+
+export interface LogcatRecording {
+  header: LogcatRecordingHeader;
+  entries: LogcatEntry[];
+}
+
+export class LogcatRecordingError extends Error {
+  constructor(
+    message: string,
+    /** 1-based line number of the offending line */
+    readonly line: number
+  ) {
+    super(`Line ${line}: ${message}`);
+    this.name = "LogcatRecordingError";
+  }
+}
+
+const LOG_LEVELS = new Set<LogLevel>(["V", "D", "I", "W", "E", "F", "S"]);
+const LOGCAT_BUFFERS = new Set<LogcatBufferId>(["main", "system", "crash", "events", "radio"]);
+
+/**
+ * Serialize the header line of a JSON-lines recording.
+ */
+export function formatRecordingHeader(header: LogcatRecordingHeader): string {
+  return JSON.stringify({
+    format: LOGCAT_RECORDING_FORMAT,
+    version: LOGCAT_RECORDING_VERSION,
+    startedAt: header.startedAt.toISOString(),
+    device: header.device,
+    packageName: header.packageName,
+    pid: header.pid,
+  });
+}
+
+/**
+ * Serialize one entry line of a JSON-lines recording.
+ */
+export function formatRecordingEntry(entry: LogcatEntry): string {
+  return JSON.stringify({
+    timestamp: entry.timestamp.toISOString(),
+    pid: entry.pid,
+    tid: entry.tid,
+    level: entry.level,
+    tag: entry.tag,
+    message: entry.message,
+    buffer: entry.buffer,
+  });
+}
+
+/**
+ * Parse a JSON-lines recording: a header line followed by one entry per line.
+ *
+ * @throws LogcatRecordingError when the header is missing or a line is malformed.
+ */
+export function parseLogcatRecording(text: string): LogcatRecording {
+  const lines = text.split(/\r?\n/);
+  let header: LogcatRecordingHeader | undefined;
+  const entries: LogcatEntry[] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (!line) continue;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      throw new LogcatRecordingError("Invalid JSON", index + 1);
+    }
+    if (!isRecord(value)) {
+      throw new LogcatRecordingError("Expected a JSON object", index + 1);
+    }
+
+    if (!header) {
+      header = parseHeader(value, index + 1);
+      continue;
+    }
+
+    entries.push(parseEntry(value, index + 1));
+  }
+
+  if (!header) {
+    throw new LogcatRecordingError("Missing recording header", 1);
+  }
+
+  return { header, entries };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseHeader(value: Record<string, unknown>, line: number): LogcatRecordingHeader {
+  if (value.format !== LOGCAT_RECORDING_FORMAT) {
+    throw new LogcatRecordingError("Not a logcat recording", line);
+  }
+  if (typeof value.version !== "number" || value.version > LOGCAT_RECORDING_VERSION) {
+    throw new LogcatRecordingError(`Unsupported recording version ${String(value.version)}`, line);
+  }
+
+  const device = value.device as LogcatRecordingDevice | undefined;
+  return {
+    startedAt: parseDate(value.startedAt, line),
+    device: typeof device?.serial === "string" ? device : undefined,
+    packageName: typeof value.packageName === "string" ? value.packageName : undefined,
+    pid: typeof value.pid === "number" ? value.pid : undefined,
+  };
+}
+
+function parseEntry(value: Record<string, unknown>, line: number): LogcatEntry {
+  const { pid, tid, level, tag, message } = value;
+  if (
+    typeof pid !== "number" ||
+    typeof tid !== "number" ||
+    !LOG_LEVELS.has(level as LogLevel) ||
+    typeof tag !== "string" ||
+    typeof message !== "string"
+  ) {
+    throw new LogcatRecordingError("Invalid logcat entry", line);
+  }
+
+  const buffer = LOGCAT_BUFFERS.has(value.buffer as LogcatBufferId) ? (value.buffer as LogcatBufferId) : undefined;
+  return { timestamp: parseDate(value.timestamp, line), pid, tid, level: level as LogLevel, tag, message, buffer };
+}
+
+function parseDate(value: unknown, line: number): Date {
+  const date = typeof value === "string" ? new Date(value) : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new LogcatRecordingError("Invalid timestamp", line);
+  }
+  return date;
+}
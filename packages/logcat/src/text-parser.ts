@@ -0,0 +1,167 @@
+import type { LogcatEntry, LogLevel } from "./types.js";
+
+export interface ParseLogcatTextOptions {
+  /**
+   * Supplies the parts of the timestamp a format leaves out: the year for
+   * `threadtime`/`time`/`long`, the date for time-only lines and the whole
+   * timestamp for `brief`. Defaults to now.
+   */
+  referenceDate?: Date;
+}
+
+const DATE = String.raw`(?:(\d{4})-)?(\d{2})-(\d{2})\s+`;
+const TIME = String.raw`(\d{2}):(\d{2}):(\d{2})\.(\d{3,9})`;
+const LEVEL = "([VDIWEFSA])";
+// `-v uid` adds a numeric or named uid column before the pid
+const UID = String.raw`(?:[\w.-]+\s+)?`;
+
+/** `01-15 12:00:00.123  1234  5678 I Tag     : message`, optionally without the date */
+const THREADTIME_REGEX = new RegExp(
+  String.raw`^(?:${DATE})?${TIME}\s+${UID}(\d+)\s+(\d+)\s+${LEVEL}\s(.*?)\s*:(?: (.*))?$`
+);
+/** `01-15 12:00:00.123 I/Tag     ( 1234): message` */
+const TIME_REGEX = new RegExp(String.raw`^${DATE}${TIME}\s+${LEVEL}\/(.*?)\s*\(\s*(\d+)\):(?: (.*))?$`);
+/** `I/Tag     ( 1234): message` */
+const BRIEF_REGEX = new RegExp(String.raw`^${LEVEL}\/(.*?)\s*\(\s*(\d+)\):(?: (.*))?$`);
+/** `[ 01-15 12:00:00.123  1234: 5678 I/Tag ]`, message on the following lines */
+const LONG_REGEX = new RegExp(String.raw`^\[\s+${DATE}${TIME}\s+(?:[\w.-]+:\s+)?(\d+):\s*(\d+)\s+${LEVEL}\/(.*?)\s+\]$`);
+
+const BUGREPORT_SYSTEM_LOG_START = /^------ SYSTEM LOG \(/;
+const BUGREPORT_SECTION_BOUNDARY = /^------ /;
+const BUFFER_BANNER = /^--------- (?:beginning of|switch to) /;
+
+interface TimestampParts {
+  year?: string;
+  month?: string;
+  day?: string;
+  hours: string;
+  minutes: string;
+  seconds: string;
+  fraction: string;
+}
+
+/**
+ * Parse text produced by `adb logcat -v threadtime|time|brief|long`, or a
+ * bugreport. For bugreports only the `SYSTEM LOG` sections are read.
+ *
+ * Lines that don't start a new entry are appended to the previous message,
+ * so wrapped or pasted multi-line messages stay intact. Lines before the
+ * first entry are ignored. Timestamps are interpreted in local time.
+ */
+export function parseLogcatText(text: string, options: ParseLogcatTextOptions = {}): LogcatEntry[] {
+  const referenceDate = options.referenceDate ?? new Date();
+  const entries: LogcatEntry[] = [];
+  let current: LogcatEntry | undefined;
+  let awaitingLongMessage = false;
+
+  for (const line of selectLogLines(text.split(/\r?\n/))) {
+    if (!line.trim() || BUFFER_BANNER.test(line)) {
+      continue;
+    }
+
+    const long = line.match(LONG_REGEX);
+    if (long) {
+      const [, year, month, day, hours, minutes, seconds, fraction, pid, tid, level, tag] = long;
+      current = makeEntry(
+        toDate({ year, month, day, hours, minutes, seconds, fraction }, referenceDate),
+        pid,
+        tid,
+        level,
+        tag,
+        ""
+      );
+      entries.push(current);
+      awaitingLongMessage = true;
+      continue;
+    }
+
+    const parsed = parseLine(line, referenceDate);
+    if (parsed) {
+      current = parsed;
+      entries.push(current);
+      awaitingLongMessage = false;
+      continue;
+    }
+
+    if (!current) continue;
+
+    current.message = awaitingLongMessage ? line : `${current.message}\n${line}`;
+    awaitingLongMessage = false;
+  }
+
+  return entries;
+}
+
+function parseLine(line: string, referenceDate: Date): LogcatEntry | undefined {
+  const threadtime = line.match(THREADTIME_REGEX);
+  if (threadtime) {
+    const [, year, month, day, hours, minutes, seconds, fraction, pid, tid, level, tag, message] = threadtime;
+    const timestamp = toDate({ year, month, day, hours, minutes, seconds, fraction }, referenceDate);
+    return makeEntry(timestamp, pid, tid, level, tag, message);
+  }
+
+  const time = line.match(TIME_REGEX);
+  if (time) {
+    const [, year, month, day, hours, minutes, seconds, fraction, level, tag, pid, message] = time;
+    const timestamp = toDate({ year, month, day, hours, minutes, seconds, fraction }, referenceDate);
+    return makeEntry(timestamp, pid, "0", level, tag, message);
+  }
+
+  const brief = line.match(BRIEF_REGEX);
+  if (brief) {
+    const [, level, tag, pid, message] = brief;
+    return makeEntry(new Date(referenceDate), pid, "0", level, tag, message);
+  }
+
+  return undefined;
+}
+
+/**
+ * Narrow a bugreport down to its SYSTEM LOG sections; other text is
+ * returned unchanged.
+ */
+function selectLogLines(lines: string[]): string[] {
+  if (!lines.some((line) => BUGREPORT_SYSTEM_LOG_START.test(line))) {
+    return lines;
+  }
+
+  const selected: string[] = [];
+  let inSystemLog = false;
+  for (const line of lines) {
+    if (BUGREPORT_SECTION_BOUNDARY.test(line)) {
+      inSystemLog = BUGREPORT_SYSTEM_LOG_START.test(line);
+      continue;
+    }
+    if (inSystemLog) {
+      selected.push(line);
+    }
+  }
+  return selected;
+}
+
+function makeEntry(
+  timestamp: Date,
+  pid: string,
+  tid: string,
+  level: string,
+  tag: string,
+  message: string | undefined
+): LogcatEntry {
+  return {
+    timestamp,
+    pid: Number(pid),
+    tid: Number(tid),
+    // "A" (assert) is how some logcat versions print fatal entries
+    level: (level === "A" ? "F" : level) as LogLevel,
+    tag: tag.trim(),
+    message: message ?? "",
+  };
+}
+
+function toDate(parts: TimestampParts, referenceDate: Date): Date {
+  const year = parts.year ? Number(parts.year) : referenceDate.getFullYear();
+  const month = parts.month ? Number(parts.month) - 1 : referenceDate.getMonth();
+  const day = parts.day ? Number(parts.day) : referenceDate.getDate();
+  const milliseconds = Number(parts.fraction.slice(0, 3).padEnd(3, "0"));
+  return new Date(year, month, day, Number(parts.hours), Number(parts.minutes), Number(parts.seconds), milliseconds);
+}
@@ -1,5 +1,8 @@
 export type LogLevel = "V" | "D" | "I" | "W" | "E" | "F" | "S";
 
+/** Device log buffers that can be read with `logcat -b` */
+export type LogcatBufferId = "main" | "system" | "crash" | "events" | "radio";
+
 export interface LogcatEntry {
   timestamp: Date;
   pid: number;
@@ -7,6 +10,8 @@ export interface LogcatEntry {
   level: LogLevel;
   tag: string;
   message: string;
+  /** Buffer the entry was read from, when known */
+  buffer?: LogcatBufferId;
 }
 
 export interface LogcatOptions {
@@ -14,4 +19,6 @@ export interface LogcatOptions {
   minLevel?: LogLevel;
   /** Filter by PID */
   pid?: number;
+  /** Buffers to read; the device default (main, system, crash) when unset */
+  buffers?: LogcatBufferId[];
 }
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+
+import { CrashCollector, parseStackFrame } from "../src/index.js";
+import type { LogcatEntry } from "../src/index.js";
+
+function makeEntry(overrides: Partial<LogcatEntry> = {}): LogcatEntry {
+  return {
+    timestamp: new Date("2024-01-15T12:00:00Z"),
+    pid: 1234,
+    tid: 1234,
+    level: "E",
+    tag: "AndroidRuntime",
+    message: "",
+    ...overrides,
+  };
+}
+
+const TRACE = [
+  "FATAL EXCEPTION: main",
+  "Process: com.example.app, PID: 1234",
+  "java.lang.RuntimeException: Unable to start activity",
+  "\tat android.app.ActivityThread.performLaunchActivity(ActivityThread.java:3449)",
+  "Caused by: java.lang.IllegalStateException: boom",
+  "\tat com.example.app.MainActivity.onCreate(MainActivity.kt:42)",
+  "\t... 12 more",
+];
+
+describe("parseStackFrame", () => {
+  it("parses class, method, file and line", () => {
+    expect(parseStackFrame("\tat com.example.app.MainActivity$onCreate$1.invoke(MainActivity.kt:42)")).toEqual({
+      className: "com.example.app.MainActivity$onCreate$1",
+      methodName: "invoke",
+      fileName: "MainActivity.kt",
+      lineNumber: 42,
+    });
+  });
+
+  it("keeps frames without line information", () => {
+    expect(parseStackFrame("at java.lang.Thread.sleep(Native Method)")).toEqual({
+      className: "java.lang.Thread",
+      methodName: "sleep",
+      fileName: undefined,
+    });
+  });
+
+  it("ignores lines that are not frames", () => {
+    expect(parseStackFrame("Caused by: java.lang.IllegalStateException: boom")).toBeUndefined();
+    expect(parseStackFrame("\t... 12 more")).toBeUndefined();
+  });
+});
+
+describe("CrashCollector", () => {
+  it("groups a multi-line fatal exception message into one crash", () => {
+    const collector = new CrashCollector();
+    const crash = collector.add(makeEntry({ message: TRACE.join("\n") }));
+
+    expect(crash).toMatchObject({
+      pid: 1234,
+      thread: "main",
+      processName: "com.example.app",
+      exception: "java.lang.RuntimeException: Unable to start activity",
+    });
+    expect(crash?.lines).toHaveLength(5);
+  });
+
+  it("groups one-line-per-entry traces from the same pid", () => {
+    const collector = new CrashCollector();
+    const crashes = TRACE.map((message) => collector.add(makeEntry({ message })));
+
+    expect(new Set(crashes).size).toBe(1);
+    expect(crashes[0]?.lines).toHaveLength(5);
+  });
+
+  it("ignores interleaved entries from other processes", () => {
+    const collector = new CrashCollector();
+    const crash = collector.add(makeEntry({ message: TRACE[0] }));
+
+    expect(collector.add(makeEntry({ pid: 999, tag: "Choreographer", message: "Skipped frames" }))).toBeUndefined();
+    expect(collector.add(makeEntry({ message: TRACE[2] }))).toBe(crash);
+  });
+
+  it("ends a crash when the pid logs under another tag", () => {
+    const collector = new CrashCollector();
+    collector.add(makeEntry({ message: TRACE[0] }));
+    collector.add(makeEntry({ tag: "Process", level: "I", message: "Sending signal. PID: 1234 SIG: 9" }));
+
+    expect(collector.add(makeEntry({ message: TRACE[3] }))).toBeUndefined();
+  });
+
+  it("ignores AndroidRuntime entries outside a crash", () => {
+    const collector = new CrashCollector();
+    expect(collector.add(makeEntry({ level: "D", message: "Shutting down VM" }))).toBeUndefined();
+  });
+
+  it("groups a native crash dump logged under DEBUG", () => {
+    const collector = new CrashCollector();
+    const dump = [
+      "*** *** *** *** *** *** *** *** *** *** *** *** *** *** *** ***",
+      "Build fingerprint: 'google/panther/panther:14/UQ1A/1:user/release-keys'",
+      "ABI: 'arm64'",
+      "pid: 4321, tid: 4321, name: example.app  >>> com.example.app <<<",
+      "signal 6 (SIGABRT), code -1 (SI_QUEUE), fault addr --------",
+      "Abort message: 'boom'",
+      "    x0  0000000000000000  x1  00000000000010e1",
+      "backtrace:",
+      "      #00 pc 000000000005b9a4  /apex/com.android.runtime/lib64/bionic/libc.so (abort+164) (BuildId: aa)",
+      "      #01 pc 000000000000f7a0  /data/app/~~x==/com.example.app-y==/lib/arm64/libnative.so (crash()+32) (BuildId: bb)",
+    ];
+    const crashes = dump.map((message) => collector.add(makeEntry({ pid: 4400, tag: "DEBUG", level: "F", message })));
+
+    expect(new Set(crashes).size).toBe(1);
+    expect(crashes[0]).toMatchObject({
+      pid: 4321,
+      processName: "com.example.app",
+      exception: "signal 6 (SIGABRT), code -1 (SI_QUEUE), fault addr --------",
+      native: true,
+      lines: ["Abort message: 'boom'", dump[8], dump[9]],
+    });
+  });
+
+  it("ignores DEBUG entries outside a tombstone", () => {
+    const collector = new CrashCollector();
+    expect(collector.add(makeEntry({ tag: "DEBUG", level: "D", message: "#00 pc 0000 /x/libfoo.so" }))).toBeUndefined();
+  });
+});
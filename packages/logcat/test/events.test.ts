@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+
+import { EventLogDecoder, decodeEventLogPayload, parseEventLogTags } from "../src/index.js";
+
+const TAGS = parseEventLogTags(
+  [
+    "# The entries in this file map a sparse set of log tag numbers to tag names.",
+    "42 answer (to life the universe etc|3)",
+    "2722 battery_level (level|1|6),(voltage|1|1),(temperature|1|1)",
+    "30014 am_proc_start (User|1|5),(PID|1|5),(UID|1|5),(Process Name|3),(Type|3),(Component|3)",
+    "",
+  ].join("\n")
+);
+
+/** Little-endian payload builder for the events buffer encoding */
+class Payload {
+  private bytes: number[] = [];
+
+  tag(tag: number): this {
+    return this.u32(tag);
+  }
+
+  int(value: number): this {
+    this.bytes.push(0);
+    return this.u32(value);
+  }
+
+  long(value: bigint): this {
+    this.bytes.push(1);
+    const view = new DataView(new ArrayBuffer(8));
+    view.setBigInt64(0, value, true);
+    this.bytes.push(...new Uint8Array(view.buffer));
+    return this;
+  }
+
+  string(value: string): this {
+    const encoded = new TextEncoder().encode(value);
+    this.bytes.push(2);
+    this.u32(encoded.length);
+    this.bytes.push(...encoded);
+    return this;
+  }
+
+  list(count: number): this {
+    this.bytes.push(3, count);
+    return this;
+  }
+
+  float(value: number): this {
+    this.bytes.push(4);
+    const view = new DataView(new ArrayBuffer(4));
+    view.setFloat32(0, value, true);
+    this.bytes.push(...new Uint8Array(view.buffer));
+    return this;
+  }
+
+  build(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+
+  private u32(value: number): this {
+    const view = new DataView(new ArrayBuffer(4));
+    view.setUint32(0, value >>> 0, true);
+    this.bytes.push(...new Uint8Array(view.buffer));
+    return this;
+  }
+}
+
+/** A `logger_entry` v4 record: 28-byte header followed by the payload */
+function record(payload: Uint8Array, pid = 1234, seconds = 1704877200, nanoseconds = 500_000_000): Uint8Array {
+  const bytes = new Uint8Array(28 + payload.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, payload.length, true);
+  view.setUint16(2, 28, true);
+  view.setInt32(4, pid, true);
+  view.setUint32(8, pid + 1, true);
+  view.setUint32(12, seconds, true);
+  view.setUint32(16, nanoseconds, true);
+  view.setUint32(20, 2, true);
+  view.setUint32(24, 1000, true);
+  bytes.set(payload, 28);
+  return bytes;
+}
+
+describe("parseEventLogTags", () => {
+  it("reads tag names and field descriptions", () => {
+    expect(TAGS.get(42)).toEqual({
+      tag: 42,
+      name: "answer",
+      fields: [{ name: "to life the universe etc", type: 3, unit: undefined }],
+    });
+    expect(TAGS.get(30014)?.fields.map((field) => field.name)).toEqual([
+      "User",
+      "PID",
+      "UID",
+      "Process Name",
+      "Type",
+      "Component",
+    ]);
+    expect(TAGS.size).toBe(3);
+  });
+});
+
+describe("decodeEventLogPayload", () => {
+  it("names list values after the tag's fields", () => {
+    const payload = new Payload()
+      .tag(30014)
+      .list(6)
+      .int(0)
+      .int(4321)
+      .int(10123)
+      .string("com.example.app")
+      .string("activity")
+      .string("{com.example.app/.MainActivity}")
+      .build();
+
+    expect(decodeEventLogPayload(payload, TAGS)).toEqual({
+      tag: "am_proc_start",
+      message:
+        "[User=0,PID=4321,UID=10123,Process Name=com.example.app,Type=activity,Component={com.example.app/.MainActivity}]",
+    });
+  });
+
+  it("decodes single values of every type", () => {
+    expect(decodeEventLogPayload(new Payload().tag(42).string("forty-two").build(), TAGS)).toEqual({
+      tag: "answer",
+      message: "forty-two",
+    });
+    expect(decodeEventLogPayload(new Payload().tag(7).int(-5).build()).message).toBe("-5");
+    expect(decodeEventLogPayload(new Payload().tag(7).long(9007199254740993n).build()).message).toBe(
+      "9007199254740993"
+    );
+    expect(decodeEventLogPayload(new Payload().tag(7).float(0.1).build()).message).toBe("0.1");
+  });
+
+  it("falls back to the tag number and positional values without a tags file", () => {
+    const payload = new Payload().tag(2722).list(3).int(87).int(4100).int(310).build();
+    expect(decodeEventLogPayload(payload)).toEqual({ tag: "2722", message: "[87,4100,310]" });
+  });
+
+  it("flags truncated payloads instead of throwing", () => {
+    const payload = new Payload().tag(42).string("forty-two").build().subarray(0, 12);
+    expect(decodeEventLogPayload(payload, TAGS)).toEqual({ tag: "answer", message: "<malformed event payload>" });
+  });
+});
+
+describe("EventLogDecoder", () => {
+  it("reassembles records split across chunks", () => {
+    const first = record(new Payload().tag(42).string("one").build(), 100);
+    const second = record(new Payload().tag(2722).list(3).int(87).int(4100).int(310).build(), 200);
+    const bytes = new Uint8Array(first.length + second.length);
+    bytes.set(first);
+    bytes.set(second, first.length);
+
+    const decoder = new EventLogDecoder(TAGS);
+    const entries = [
+      ...decoder.push(bytes.subarray(0, 10)),
+      ...decoder.push(bytes.subarray(10, first.length + 5)),
+      ...decoder.push(bytes.subarray(first.length + 5)),
+    ];
+
+    expect(entries).toEqual([
+      {
+        timestamp: new Date(1704877200_500),
+        pid: 100,
+        tid: 101,
+        level: "I",
+        tag: "answer",
+        message: "one",
+        buffer: "events",
+      },
+      {
+        timestamp: new Date(1704877200_500),
+        pid: 200,
+        tid: 201,
+        level: "I",
+        tag: "battery_level",
+        message: "[level=87,voltage=4100,temperature=310]",
+        buffer: "events",
+      },
+    ]);
+  });
+});
@@ -1,5 +1,5 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
-import { AndroidLogPriority } from "@yume-chan/android-bin";
+import { AndroidLogPriority, LogId } from "@yume-chan/android-bin";
 
 import { LogcatStream, clearLogcat, getLogcat } from "../src/index.js";
 
@@ -181,4 +181,56 @@ describe("logcat package", () => {
 
     expect(logcat.binary).toHaveBeenCalledWith({ pid: 42 });
   });
+
+  it("passes selected text buffers to binary() and tags entries with their buffer", async () => {
+    const logcat = createFakeLogcat({
+      entries: [{ priority: AndroidLogPriority.Info, tag: "T", message: "hello" }],
+    });
+    const stream = new LogcatStream(logcat as any, { pid: 42, buffers: ["main", "radio"] });
+    const buffers: Array<string | undefined> = [];
+    stream.on("entry", (entry) => buffers.push(entry.buffer));
+
+    const closePromise = new Promise<void>((resolve) => stream.on("close", resolve));
+    stream.start();
+    await closePromise;
+
+    expect(logcat.binary).toHaveBeenCalledWith({ pid: 42, ids: [LogId.Main, LogId.Radio] });
+    expect(buffers).toEqual(["main"]);
+  });
+
+  it("reads the events buffer from its own process and decodes it with the device tags", async () => {
+    const payload = Uint8Array.from([42, 0, 0, 0, 2, 3, 0, 0, 0, ...new TextEncoder().encode("yes")]);
+    const record = new Uint8Array(28 + payload.length);
+    const view = new DataView(record.buffer);
+    view.setUint16(0, payload.length, true);
+    view.setUint16(2, 28, true);
+    view.setInt32(4, 7, true);
+    record.set(payload, 28);
+
+    const logcat = createFakeLogcat();
+    const spawn = vi.fn(async (_args: string[]) => ({
+      output: new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(record);
+          controller.close();
+        },
+      }),
+      kill: vi.fn(),
+    }));
+    const spawnWaitText = vi.fn(async () => "42 answer (value|3)\n");
+    Object.assign(logcat, { adb: { subprocess: { noneProtocol: { spawn, spawnWaitText } } } });
+
+    const stream = new LogcatStream(logcat as any, { buffers: ["events"] });
+    const entries: Array<{ tag: string; message: string; buffer?: string }> = [];
+    stream.on("entry", (entry) => entries.push({ tag: entry.tag, message: entry.message, buffer: entry.buffer }));
+
+    const closePromise = new Promise<void>((resolve) => stream.on("close", resolve));
+    stream.start();
+    await closePromise;
+
+    expect(logcat.binary).not.toHaveBeenCalled();
+    expect(spawnWaitText).toHaveBeenCalledWith(["cat", "/system/etc/event-log-tags"]);
+    expect(spawn).toHaveBeenCalledWith(["logcat", "-B", "-b", "events"]);
+    expect(entries).toEqual([{ tag: "answer", message: "yes", buffer: "events" }]);
+  });
 });
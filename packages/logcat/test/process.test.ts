@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+
+import { PackageProcessTracker, createProcessMarker, isProcessMarker, parseProcessEvent } from "../src/index.js";
+import type { LogcatEntry } from "../src/index.js";
+
+function amEntry(message: string): LogcatEntry {
+  return {
+    timestamp: new Date("2024-01-15T12:00:00Z"),
+    pid: 560,
+    tid: 590,
+    level: "I",
+    tag: "ActivityManager",
+    message,
+  };
+}
+
+describe("parseProcessEvent", () => {
+  it("parses start lines", () => {
+    expect(
+      parseProcessEvent(amEntry("Start proc 4321:com.example.app/u0a123 for activity {com.example.app/.MainActivity}"))
+    ).toEqual({ type: "start", pid: 4321, processName: "com.example.app" });
+  });
+
+  it("parses pre-Nougat start lines", () => {
+    expect(
+      parseProcessEvent(
+        amEntry("Start proc com.example.app:remote for service com.example.app/.SyncService: pid=4400 uid=10061 gids={50061}")
+      )
+    ).toEqual({ type: "start", pid: 4400, processName: "com.example.app:remote" });
+  });
+
+  it("parses process deaths", () => {
+    expect(parseProcessEvent(amEntry("Process com.example.app (pid 4321) has died: fore TOP"))).toEqual({
+      type: "death",
+      pid: 4321,
+      processName: "com.example.app",
+    });
+    expect(parseProcessEvent(amEntry("Killing 4321:com.example.app/u0a123 (adj 0): stop com.example.app"))).toEqual({
+      type: "death",
+      pid: 4321,
+      processName: "com.example.app",
+    });
+  });
+
+  it("ignores other tags", () => {
+    expect(parseProcessEvent({ ...amEntry("Start proc 1:a/u0a1 for x"), tag: "MyApp" })).toBeUndefined();
+  });
+});
+
+describe("PackageProcessTracker", () => {
+  it("follows the main and secondary processes across restarts", () => {
+    const tracker = new PackageProcessTracker("com.example.app", [
+      { pid: 1000, processName: "com.example.app" },
+      { pid: 1001, processName: "com.example.app:remote" },
+      { pid: 2000, processName: "com.example.app.other" },
+    ]);
+    expect([...tracker.pids]).toEqual([1000, 1001]);
+
+    expect(tracker.update(amEntry("Start proc 1100:com.example.app/u0a123 for activity {x}"))).toEqual({
+      pid: 1100,
+      processName: "com.example.app",
+      previousPid: 1000,
+    });
+    expect(tracker.update(amEntry("Start proc 1101:com.example.app:remote/u0a123 for service {x}"))).toEqual({
+      pid: 1101,
+      processName: "com.example.app:remote",
+      previousPid: 1001,
+    });
+    expect(tracker.update(amEntry("Start proc 2100:com.example.app.other/u0a124 for service {x}"))).toBeUndefined();
+    expect(tracker.pids.has(1100)).toBe(true);
+    expect(tracker.pids.has(1000)).toBe(true);
+    expect(tracker.processes.get("com.example.app")).toBe(1100);
+  });
+
+  it("reports a first start when the package was not running", () => {
+    const tracker = new PackageProcessTracker("com.example.app");
+
+    expect(tracker.update(amEntry("Start proc 1100:com.example.app/u0a123 for activity {x}"))).toEqual({
+      pid: 1100,
+      processName: "com.example.app",
+      previousPid: undefined,
+    });
+  });
+});
+
+describe("createProcessMarker", () => {
+  it("describes restarts and is recognisable as a marker", () => {
+    const marker = createProcessMarker(
+      { pid: 1100, processName: "com.example.app", previousPid: 1000 },
+      new Date("2024-01-15T12:00:00Z")
+    );
+
+    expect(marker.message).toBe("com.example.app process restarted (pid 1000 → 1100)");
+    expect(isProcessMarker(marker)).toBe(true);
+    expect(isProcessMarker({ ...marker })).toBe(false);
+  });
+});
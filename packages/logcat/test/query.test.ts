@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+
+import { LogcatQueryError, matchesLogcatQuery, parseLogcatQuery } from "../src/index.js";
+import type { LogcatEntry } from "../src/index.js";
+
+const NOW = new Date("2024-01-15T12:10:00Z");
+
+function makeEntry(overrides: Partial<LogcatEntry> = {}): LogcatEntry {
+  return {
+    timestamp: new Date("2024-01-15T12:09:00Z"),
+    pid: 1234,
+    tid: 1240,
+    level: "W",
+    tag: "OkHttp",
+    message: "timeout 30 while reading",
+    ...overrides,
+  };
+}
+
+function matches(query: string, overrides: Partial<LogcatEntry> = {}): boolean {
+  return matchesLogcatQuery(parseLogcatQuery(query), makeEntry(overrides), NOW);
+}
+
+describe("parseLogcatQuery", () => {
+  it("parses field-scoped, negated and quoted terms", () => {
+    const query = parseLogcatQuery('tag:OkHttp -tag:Choreographer message~"timeout \\d+" level>=W pid:1234 age:5m');
+
+    expect(query.terms).toEqual([
+      { field: "tag", operator: ":", value: "OkHttp", negated: false },
+      { field: "tag", operator: ":", value: "Choreographer", negated: true },
+      { field: "message", operator: "~", value: "timeout \\d+", negated: false },
+      { field: "level", operator: ">=", value: "W", negated: false },
+      { field: "pid", operator: ":", value: "1234", negated: false },
+      { field: "age", operator: ":", value: "5m", negated: false },
+    ]);
+  });
+
+  it("treats bare and fully quoted words as free text", () => {
+    expect(parseLogcatQuery('crash "tag:literal"').terms).toEqual([
+      { field: "text", operator: ":", value: "crash", negated: false },
+      { field: "text", operator: ":", value: "tag:literal", negated: false },
+    ]);
+  });
+
+  it.each([
+    ["tga:OkHttp", /Unknown field 'tga'/],
+    ['message~"unterminated', /Unterminated quote/],
+    ["message~(", /Invalid regular expression/],
+    ["level>=X", /Invalid level 'X'/],
+    ["pid:abc", /Invalid pid 'abc'/],
+    ["age:5y", /Invalid age '5y'/],
+    ["tag>=A", /only supported for level/],
+    ["tag:", /Missing value for 'tag'/],
+  ])("rejects %s", (source, message) => {
+    expect(() => parseLogcatQuery(source)).toThrow(message);
+  });
+
+  it("reports the offset of the offending term", () => {
+    try {
+      parseLogcatQuery("tag:OkHttp pid:x");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(LogcatQueryError);
+      expect((error as LogcatQueryError).offset).toBe(11);
+    }
+  });
+});
+
+describe("matchesLogcatQuery", () => {
+  it("matches the full example query", () => {
+    expect(matches('tag:OkHttp -tag:Choreographer message~"timeout \\d+" level>=W pid:1234 age:5m')).toBe(true);
+  });
+
+  it("matches free text against tag or message case-insensitively", () => {
+    expect(matches("okhttp")).toBe(true);
+    expect(matches("READING")).toBe(true);
+    expect(matches("missing")).toBe(false);
+  });
+
+  it("excludes negated terms", () => {
+    expect(matches("-tag:OkHttp")).toBe(false);
+    expect(matches("-timeout")).toBe(false);
+  });
+
+  it("ORs positive terms on the same field", () => {
+    expect(matches("tag:Retrofit tag:OkHttp")).toBe(true);
+    expect(matches("tag:OkHttp pid:1")).toBe(false);
+  });
+
+  it("supports exact and regex operators", () => {
+    expect(matches("tag=OkHttp")).toBe(true);
+    expect(matches("tag=okhttp")).toBe(false);
+    expect(matches("message~^timeout")).toBe(true);
+  });
+
+  it("compares levels", () => {
+    expect(matches("level:W")).toBe(true);
+    expect(matches("level>W")).toBe(false);
+    expect(matches("level<=E")).toBe(true);
+    expect(matches("level=E")).toBe(false);
+  });
+
+  it("filters by age relative to now", () => {
+    expect(matches("age:30s")).toBe(false);
+    expect(matches("age:2m")).toBe(true);
+  });
+
+  it("matches everything for an empty query", () => {
+    expect(matches("")).toBe(true);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  LogcatRecordingError,
+  formatRecordingEntry,
+  formatRecordingHeader,
+  parseLogcatRecording,
+} from "../src/index.js";
+import type { LogcatEntry } from "../src/index.js";
+
+const ENTRY: LogcatEntry = {
+  timestamp: new Date("2024-01-15T12:00:00.123Z"),
+  pid: 1234,
+  tid: 1240,
+  level: "W",
+  tag: "OkHttp",
+  message: "first line\nsecond line",
+};
+
+describe("logcat recordings", () => {
+  it("round-trips header and entries", () => {
+    const header = {
+      startedAt: new Date("2024-01-15T11:59:00Z"),
+      device: { serial: "emulator-5554", name: "Pixel 8", androidVersion: "14", apiLevel: 34 },
+      packageName: "com.example.app",
+      pid: 1234,
+    };
+    const text = [formatRecordingHeader(header), formatRecordingEntry(ENTRY), ""].join("\n");
+
+    expect(parseLogcatRecording(text)).toEqual({ header, entries: [ENTRY] });
+  });
+
+  it("keeps the buffer an entry was read from", () => {
+    const entry = formatRecordingEntry({ ...ENTRY, buffer: "events" });
+    const text = [formatRecordingHeader({ startedAt: new Date() }), entry].join("\n");
+    expect(parseLogcatRecording(text).entries[0].buffer).toBe("events");
+  });
+
+  it("rejects files without a recording header", () => {
+    expect(() => parseLogcatRecording(formatRecordingEntry(ENTRY))).toThrow(LogcatRecordingError);
+    expect(() => parseLogcatRecording("")).toThrow(/Missing recording header/);
+  });
+
+  it("reports the line of a malformed entry", () => {
+    const text = [formatRecordingHeader({ startedAt: new Date() }), '{"pid":"x"}'].join("\n");
+    expect(() => parseLogcatRecording(text)).toThrow("Line 2: Invalid logcat entry");
+  });
+
+  it("rejects lines that are not JSON objects", () => {
+    const header = formatRecordingHeader({ startedAt: new Date() });
+    expect(() => parseLogcatRecording("null")).toThrow("Line 1: Expected a JSON object");
+    expect(() => parseLogcatRecording([header, "42"].join("\n"))).toThrow("Line 2: Expected a JSON object");
+    expect(() => parseLogcatRecording([header, "[]"].join("\n"))).toThrow(LogcatRecordingError);
+  });
+
+  it("rejects recordings from a newer format version", () => {
+    const text = JSON.stringify({ format: "android-devkit-logcat", version: 99, startedAt: new Date().toISOString() });
+    expect(() => parseLogcatRecording(text)).toThrow(/Unsupported recording version 99/);
+  });
+});
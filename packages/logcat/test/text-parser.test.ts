@@ -0,0 +1,95 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+
+import { parseLogcatText } from "../src/index.js";
+
+const REFERENCE_DATE = new Date(2024, 5, 1, 9, 30, 0);
+
+function readFixture(name: string): string {
+  return readFileSync(join(import.meta.dirname, "fixtures", name), "utf8");
+}
+
+describe("parseLogcatText", () => {
+  it("parses threadtime output and skips buffer banners", () => {
+    const entries = parseLogcatText(readFixture("logcat__threadtime.txt"), { referenceDate: REFERENCE_DATE });
+
+    expect(entries).toHaveLength(5);
+    expect(entries[0]).toEqual({
+      timestamp: new Date(2024, 0, 15, 12, 0, 0, 123),
+      pid: 1234,
+      tid: 5678,
+      level: "I",
+      tag: "ActivityManager",
+      message: "Start proc 4321:com.example.app/u0a123 for activity",
+    });
+    expect(entries[1]).toMatchObject({ tag: "OkHttp", message: "--> GET https://example.com" });
+    expect(entries[4]).toMatchObject({ pid: 1000, level: "W", tag: "Choreographer" });
+  });
+
+  it("parses time output", () => {
+    const [entry] = parseLogcatText("2023-12-31 23:59:59.999 W/OkHttp  ( 4321): timeout 30");
+
+    expect(entry).toEqual({
+      timestamp: new Date(2023, 11, 31, 23, 59, 59, 999),
+      pid: 4321,
+      tid: 0,
+      level: "W",
+      tag: "OkHttp",
+      message: "timeout 30",
+    });
+  });
+
+  it("parses brief output using the reference date", () => {
+    const [entry] = parseLogcatText("E/AndroidRuntime( 4321): FATAL EXCEPTION: main", { referenceDate: REFERENCE_DATE });
+
+    expect(entry).toEqual({
+      timestamp: REFERENCE_DATE,
+      pid: 4321,
+      tid: 0,
+      level: "E",
+      tag: "AndroidRuntime",
+      message: "FATAL EXCEPTION: main",
+    });
+  });
+
+  it("parses long output with multi-line messages", () => {
+    const entries = parseLogcatText(readFixture("logcat__long.txt"), { referenceDate: REFERENCE_DATE });
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ pid: 1234, tid: 5678, tag: "ActivityManager" });
+    expect(entries[1].message).toBe("FATAL EXCEPTION: main\nProcess: com.example.app, PID: 4321");
+  });
+
+  it("reads only SYSTEM LOG sections of a bugreport", () => {
+    const entries = parseLogcatText(readFixture("bugreport__system_log.txt"), { referenceDate: REFERENCE_DATE });
+
+    expect(entries.map((entry) => entry.tag)).toEqual(["ActivityManager", "OkHttp"]);
+    expect(entries[0]).toMatchObject({ pid: 1234, tid: 5678 });
+    expect(entries[1]).toMatchObject({ pid: 4321, tid: 4321 });
+  });
+
+  it("appends continuation lines to the previous message", () => {
+    const entries = parseLogcatText(
+      [
+        "12:00:01.000  4321  4321 E AndroidRuntime: java.lang.IllegalStateException: boom",
+        "\tat com.example.app.MainActivity.onCreate(MainActivity.kt:42)",
+        "01-15 12:00:02.000  4321  4321 I Process: Sending signal. PID: 4321 SIG: 9",
+      ].join("\n"),
+      { referenceDate: REFERENCE_DATE }
+    );
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0].timestamp).toEqual(new Date(2024, 5, 1, 12, 0, 1, 0));
+    expect(entries[0].message).toBe(
+      "java.lang.IllegalStateException: boom\n\tat com.example.app.MainActivity.onCreate(MainActivity.kt:42)"
+    );
+  });
+
+  it("ignores text before the first entry and maps assert to fatal", () => {
+    const entries = parseLogcatText("some preamble\n01-15 12:00:00.000  1  2 A libc: abort\n");
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].level).toBe("F");
+  });
+});
@@ -0,0 +1,77 @@
+import * as fs from "node:fs/promises";
+
+const ELF_MAGIC = 0x464c457f;
+const ELFCLASS64 = 2;
+const ELFDATA2LSB = 1;
+const PT_NOTE = 4;
+const NT_GNU_BUILD_ID = 3;
+
+/**
+ * Read the GNU build ID of an ELF shared library as lowercase hex, the form
+ * tombstones print after `BuildId:`. Returns undefined for files that are not
+ * little-endian ELF (every Android ABI is) or carry no build ID note.
+ */
+export async function readElfBuildId(filePath: string): Promise<string | undefined> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const read = async (position: number, length: number): Promise<Buffer> => {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, position);
+      return buffer.subarray(0, bytesRead);
+    };
+
+    const header = await read(0, 64);
+    if (header.length < 52 || header.readUInt32LE(0) !== ELF_MAGIC || header[5] !== ELFDATA2LSB) {
+      return undefined;
+    }
+
+    const is64 = header[4] === ELFCLASS64;
+    const phoff = is64 ? Number(header.readBigUInt64LE(0x20)) : header.readUInt32LE(0x1c);
+    const phentsize = header.readUInt16LE(is64 ? 0x36 : 0x2a);
+    const phnum = header.readUInt16LE(is64 ? 0x38 : 0x2c);
+    const programHeaders = await read(phoff, phentsize * phnum);
+
+    for (let i = 0; i < phnum; i++) {
+      const entry = i * phentsize;
+      if (entry + phentsize > programHeaders.length) break;
+      if (programHeaders.readUInt32LE(entry) !== PT_NOTE) continue;
+
+      const offset = is64
+        ? Number(programHeaders.readBigUInt64LE(entry + 0x08))
+        : programHeaders.readUInt32LE(entry + 0x04);
+      const size = is64
+        ? Number(programHeaders.readBigUInt64LE(entry + 0x20))
+        : programHeaders.readUInt32LE(entry + 0x10);
+      const buildId = findBuildIdNote(await read(offset, size));
+      if (buildId) return buildId;
+    }
+
+    return undefined;
+  } finally {
+    await handle.close();
+  }
+}
+
+function findBuildIdNote(notes: Buffer): string | undefined {
+  let offset = 0;
+  while (offset + 12 <= notes.length) {
+    const nameSize = notes.readUInt32LE(offset);
+    const descSize = notes.readUInt32LE(offset + 4);
+    const type = notes.readUInt32LE(offset + 8);
+    const nameStart = offset + 12;
+    const descStart = nameStart + align4(nameSize);
+    if (descStart + descSize > notes.length) break;
+
+    // The owner name is NUL-terminated: "GNU\0"
+    const owner = notes.toString("latin1", nameStart, nameStart + Math.max(nameSize - 1, 0));
+    if (type === NT_GNU_BUILD_ID && owner === "GNU") {
+      return notes.toString("hex", descStart, descStart + descSize);
+    }
+    offset = descStart + align4(descSize);
+  }
+  return undefined;
+}
+
+function align4(value: number): number {
+  return (value + 3) & ~3;
+}
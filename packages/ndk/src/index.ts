@@ -0,0 +1,13 @@
+export { readElfBuildId } from "./elf.js";
+export { findUnstrippedLibraries, matchLibrary } from "./libraries.js";
+export type { UnstrippedLibrary } from "./libraries.js";
+export {
+  formatSourceLocation,
+  getLlvmSymbolizerPath,
+  parseSymbolizerOutput,
+  symbolicateTombstone,
+  symbolizeAddresses,
+} from "./symbolizer.js";
+export type { SourceLocation, SymbolicateOptions, SymbolicationResult } from "./symbolizer.js";
+export { isNativeFrame, parseNativeFrame } from "./tombstone.js";
+export type { NativeFrame } from "./tombstone.js";
@@ -0,0 +1,80 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { readElfBuildId } from "./elf.js";
+import type { NativeFrame } from "./tombstone.js";
+
+export interface UnstrippedLibrary {
+  path: string;
+  /** File name, e.g. `libfoo.so` */
+  name: string;
+  buildId?: string;
+}
+
+/** Gradle outputs that keep debug info: merged libraries per variant and CMake/ndk-build objects */
+const NATIVE_OUTPUT_DIRS = [path.join("intermediates", "merged_native_libs"), path.join("intermediates", "cxx")];
+const SKIPPED_DIRS = new Set(["node_modules", ".git", ".gradle", ".idea", ".cxx"]);
+const MAX_PROJECT_DEPTH = 6;
+
+/**
+ * Find the unstripped `.so` files the Gradle build left under each module's
+ * `build/intermediates/merged_native_libs` and `build/intermediates/cxx`,
+ * with their build IDs.
+ */
+export async function findUnstrippedLibraries(projectRoots: readonly string[]): Promise<UnstrippedLibrary[]> {
+  const files: string[] = [];
+  for (const root of projectRoots) {
+    await collectBuildDirs(root, 0, files);
+  }
+
+  return Promise.all(
+    [...new Set(files)].map(async (file) => ({
+      path: file,
+      name: path.basename(file),
+      buildId: await readElfBuildId(file).catch(() => undefined),
+    })),
+  );
+}
+
+/**
+ * The library a frame ran in: the one with the frame's build ID, or for
+ * tombstones from before Android 9, the only library with its file name.
+ */
+export function matchLibrary(
+  frame: NativeFrame,
+  libraries: readonly UnstrippedLibrary[],
+): UnstrippedLibrary | undefined {
+  if (frame.buildId) {
+    return libraries.find((library) => library.buildId === frame.buildId);
+  }
+
+  const candidates = libraries.filter((library) => library.name === frame.libraryName);
+  return new Set(candidates.map((library) => library.buildId ?? library.path)).size === 1 ? candidates[0] : undefined;
+}
+
+async function collectBuildDirs(dir: string, depth: number, files: string[]): Promise<void> {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  for (const entry of entries) {
+    if (!entry.isDirectory() || SKIPPED_DIRS.has(entry.name)) continue;
+
+    const child = path.join(dir, entry.name);
+    if (entry.name === "build") {
+      for (const outputDir of NATIVE_OUTPUT_DIRS) {
+        await collectSharedObjects(path.join(child, outputDir), files);
+      }
+    } else if (depth < MAX_PROJECT_DEPTH) {
+      await collectBuildDirs(child, depth + 1, files);
+    }
+  }
+}
+
+async function collectSharedObjects(dir: string, files: string[]): Promise<void> {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  for (const entry of entries) {
+    const child = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      await collectSharedObjects(child, files);
+    } else if (entry.isFile() && entry.name.endsWith(".so")) {
+      files.push(child);
+    }
+  }
+}
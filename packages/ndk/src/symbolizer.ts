@@ -0,0 +1,146 @@
+import { getNdkDir, resolveNdkToolPath } from "@android-devkit/android-sdk";
+import { runCommand } from "@android-devkit/tool-core";
+import { matchLibrary, type UnstrippedLibrary } from "./libraries.js";
+import { parseNativeFrame, type NativeFrame } from "./tombstone.js";
+
+export interface SourceLocation {
+  function: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+export interface SymbolicateOptions {
+  /** Path to `llvm-symbolizer` */
+  symbolizerPath: string;
+  libraries: readonly UnstrippedLibrary[];
+}
+
+export interface SymbolicationResult {
+  /** The input with each resolved frame followed by its functions and source lines */
+  text: string;
+  /** Native frames found in the input */
+  frameCount: number;
+  /** Frames resolved to at least a function name */
+  resolvedCount: number;
+  /** App libraries with frames but no matching unstripped library */
+  unmatchedLibraries: string[];
+}
+
+const SYMBOLIZER_TIMEOUT_MS = 30000;
+const LOCATION_REGEX = /^(.*?):(\d+)(?::(\d+))?$/;
+
+export function getLlvmSymbolizerPath(sdkPath: string | undefined): string | undefined {
+  const ndkPath = getNdkDir(sdkPath);
+  return ndkPath ? resolveNdkToolPath(ndkPath, "llvm-symbolizer") : undefined;
+}
+
+/**
+ * Parse `llvm-symbolizer` output for a list of addresses: one block per
+ * address separated by blank lines, each a function/location line pair per
+ * inlined frame, innermost first.
+ */
+export function parseSymbolizerOutput(output: string): SourceLocation[][] {
+  const blocks = output
+    .replace(/\r\n/g, "\n")
+    .trim()
+    .split(/\n\s*\n/);
+  return blocks.map((block) => {
+    const lines = block.split("\n");
+    const locations: SourceLocation[] = [];
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+      const name = lines[i].trim();
+      const match = lines[i + 1].trim().match(LOCATION_REGEX);
+      const file = match && match[1] !== "??" ? match[1] : undefined;
+      const line = match && Number(match[2]) > 0 ? Number(match[2]) : undefined;
+      if (name === "??" && !file) continue;
+      locations.push({
+        function: name,
+        file,
+        line,
+        column: match?.[3] && Number(match[3]) > 0 ? Number(match[3]) : undefined,
+      });
+    }
+    return locations;
+  });
+}
+
+/**
+ * Resolve addresses in one library to functions and source lines.
+ */
+export async function symbolizeAddresses(
+  symbolizerPath: string,
+  libraryPath: string,
+  addresses: readonly string[],
+): Promise<SourceLocation[][]> {
+  const { stdout } = await runCommand({
+    command: symbolizerPath,
+    args: [
+      `--obj=${libraryPath}`,
+      "--inlining",
+      "--demangle",
+      "--functions=linkage",
+      ...addresses.map((address) => `0x${address}`),
+    ],
+    timeoutMs: SYMBOLIZER_TIMEOUT_MS,
+  });
+  return parseSymbolizerOutput(stdout);
+}
+
+/**
+ * Symbolicate every native backtrace frame of a tombstone, a `DEBUG` logcat
+ * dump or any text containing `#00 pc …` lines. The text is kept as is, with
+ * the resolved functions and source lines inserted under each frame.
+ */
+export async function symbolicateTombstone(text: string, options: SymbolicateOptions): Promise<SymbolicationResult> {
+  const lines = text.split(/\r?\n/);
+  const byLibrary = new Map<UnstrippedLibrary, { lineIndex: number; frame: NativeFrame }[]>();
+  const unmatchedLibraries = new Set<string>();
+  let frameCount = 0;
+
+  lines.forEach((line, lineIndex) => {
+    const frame = parseNativeFrame(line);
+    if (!frame) return;
+    frameCount++;
+
+    const library = matchLibrary(frame, options.libraries);
+    if (library) {
+      byLibrary.set(library, [...(byLibrary.get(library) ?? []), { lineIndex, frame }]);
+    } else if (frame.library.startsWith("/data/")) {
+      // App libraries; system ones under /system, /apex or /vendor are never built locally
+      unmatchedLibraries.add(frame.libraryName);
+    }
+  });
+
+  const resolved = new Map<number, SourceLocation[]>();
+  for (const [library, libraryFrames] of byLibrary) {
+    const addresses = libraryFrames.map(({ frame }) => frame.pc);
+    const results = await symbolizeAddresses(options.symbolizerPath, library.path, addresses);
+    libraryFrames.forEach(({ lineIndex }, i) => {
+      if (results[i]?.length) resolved.set(lineIndex, results[i]);
+    });
+  }
+
+  const output: string[] = [];
+  lines.forEach((line, lineIndex) => {
+    output.push(line);
+    const indent = `${line.match(/^\s*/)?.[0] ?? ""}    `;
+    for (const location of resolved.get(lineIndex) ?? []) {
+      output.push(`${indent}${formatSourceLocation(location)}`);
+    }
+  });
+
+  return {
+    text: output.join("\n"),
+    frameCount,
+    resolvedCount: resolved.size,
+    unmatchedLibraries: [...unmatchedLibraries],
+  };
+}
+
+/** `crash(int) at /src/native-lib.cpp:12:3` */
+export function formatSourceLocation(location: SourceLocation): string {
+  if (!location.file) return location.function;
+  const position = [location.line, location.column].filter((value) => value !== undefined).join(":");
+  return `${location.function} at ${location.file}${position ? `:${position}` : ""}`;
+}
@@ -0,0 +1,65 @@
+export interface NativeFrame {
+  /** Frame number from `#00` */
+  index: number;
+  /** Program counter relative to the library's load bias, as printed (hex, no `0x`) */
+  pc: string;
+  /** Mapped file, e.g. `/data/app/~~x==/com.example-y==/lib/arm64/libfoo.so` */
+  library: string;
+  /** File name of the library, including libraries loaded straight from an APK (`base.apk!libfoo.so`) */
+  libraryName: string;
+  /** Symbol the unwinder found, e.g. `Java_com_example_Native_crash+20` */
+  symbol?: string;
+  /** GNU build ID printed by Android 9+, lowercase hex */
+  buildId?: string;
+}
+
+const NATIVE_FRAME_REGEX = /(?:^|\s)#(\d+)\s+pc\s+([0-9a-fA-F]+)\s+(\S+)(.*)$/;
+
+/**
+ * Parse a backtrace line of a tombstone or of its `DEBUG` logcat dump:
+ * `#00 pc 000000000004e4c4  /data/app/.../libfoo.so (crash()+20) (BuildId: 1b2c...)`
+ */
+export function parseNativeFrame(line: string): NativeFrame | undefined {
+  const match = line.match(NATIVE_FRAME_REGEX);
+  if (!match) return undefined;
+
+  const [, index, pc, library, rest] = match;
+  const frame: NativeFrame = {
+    index: Number(index),
+    pc,
+    library,
+    libraryName: library.slice(Math.max(library.lastIndexOf("/"), library.lastIndexOf("!")) + 1),
+  };
+
+  // The rest is a list of parenthesized annotations: `(offset 0x1000)`, the symbol and `(BuildId: …)`
+  for (const annotation of splitAnnotations(rest)) {
+    if (annotation.startsWith("BuildId:")) {
+      frame.buildId = annotation.slice("BuildId:".length).trim().toLowerCase();
+    } else if (!annotation.startsWith("offset ") && !frame.symbol) {
+      frame.symbol = annotation;
+    }
+  }
+  return frame;
+}
+
+/** Whether a line is a native backtrace frame */
+export function isNativeFrame(line: string): boolean {
+  return NATIVE_FRAME_REGEX.test(line);
+}
+
+/** Top-level `(…)` groups of a string; symbols may nest parentheses, e.g. `foo(int)+8` */
+function splitAnnotations(text: string): string[] {
+  const annotations: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "(") {
+      if (depth === 0) start = i + 1;
+      depth++;
+    } else if (text[i] === ")" && depth > 0) {
+      depth--;
+      if (depth === 0) annotations.push(text.slice(start, i).trim());
+    }
+  }
+  return annotations;
+}
@@ -0,0 +1,156 @@
+import { chmodSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+
+import {
+  findUnstrippedLibraries,
+  formatSourceLocation,
+  matchLibrary,
+  parseNativeFrame,
+  parseSymbolizerOutput,
+  readElfBuildId,
+  symbolicateTombstone,
+} from "../src/index.js";
+
+/** A minimal little-endian ELF64 file with a single PT_NOTE segment holding a GNU build ID */
+function elfWithBuildId(buildId: string): Buffer {
+  const desc = Buffer.from(buildId, "hex");
+  const note = Buffer.alloc(12 + 4 + desc.length);
+  note.writeUInt32LE(4, 0);
+  note.writeUInt32LE(desc.length, 4);
+  note.writeUInt32LE(3, 8);
+  note.write("GNU\0", 12, "latin1");
+  desc.copy(note, 16);
+
+  const header = Buffer.alloc(64);
+  header.writeUInt32LE(0x464c457f, 0);
+  header[4] = 2;
+  header[5] = 1;
+  header.writeBigUInt64LE(64n, 0x20);
+  header.writeUInt16LE(56, 0x36);
+  header.writeUInt16LE(1, 0x38);
+
+  const programHeader = Buffer.alloc(56);
+  programHeader.writeUInt32LE(4, 0);
+  programHeader.writeBigUInt64LE(120n, 0x08);
+  programHeader.writeBigUInt64LE(BigInt(note.length), 0x20);
+
+  return Buffer.concat([header, programHeader, note]);
+}
+
+describe("@android-devkit/ndk", () => {
+  const tempDirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of tempDirs.splice(0)) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  function createProject(): string {
+    const dir = mkdtempSync(join(tmpdir(), "ndk-"));
+    tempDirs.push(dir);
+    return dir;
+  }
+
+  it("reads the GNU build ID note of an ELF file", async () => {
+    const dir = createProject();
+    writeFileSync(join(dir, "libfoo.so"), elfWithBuildId("1b2c3d4e5f"));
+    writeFileSync(join(dir, "not-elf.so"), "hello");
+
+    await expect(readElfBuildId(join(dir, "libfoo.so"))).resolves.toBe("1b2c3d4e5f");
+    await expect(readElfBuildId(join(dir, "not-elf.so"))).resolves.toBeUndefined();
+  });
+
+  it("finds unstripped libraries under merged_native_libs and cxx outputs only", async () => {
+    const dir = createProject();
+    const merged = join(dir, "app", "build", "intermediates", "merged_native_libs", "debug", "out", "lib", "arm64-v8a");
+    const cxx = join(dir, "core", "build", "intermediates", "cxx", "Debug", "a1b2", "obj", "x86_64");
+    const stripped = join(dir, "app", "build", "intermediates", "stripped_native_libs", "debug", "out", "lib");
+    for (const libDir of [merged, cxx, stripped]) mkdirSync(libDir, { recursive: true });
+    writeFileSync(join(merged, "libfoo.so"), elfWithBuildId("aaaa"));
+    writeFileSync(join(cxx, "libbar.so"), elfWithBuildId("bbbb"));
+    writeFileSync(join(stripped, "libfoo.so"), elfWithBuildId("aaaa"));
+
+    const libraries = await findUnstrippedLibraries([dir]);
+
+    expect(
+      libraries.map(({ name, buildId }) => ({ name, buildId })).sort((a, b) => a.name.localeCompare(b.name)),
+    ).toEqual([
+      { name: "libbar.so", buildId: "bbbb" },
+      { name: "libfoo.so", buildId: "aaaa" },
+    ]);
+  });
+
+  it("matches frames by build ID, and by unique name when the frame has none", () => {
+    const libraries = [
+      { path: "/debug/libfoo.so", name: "libfoo.so", buildId: "aaaa" },
+      { path: "/release/libfoo.so", name: "libfoo.so", buildId: "cccc" },
+      { path: "/debug/libbar.so", name: "libbar.so", buildId: "bbbb" },
+    ];
+    const frame = (line: string) => parseNativeFrame(line)!;
+
+    expect(matchLibrary(frame("#00 pc 10 /x/libfoo.so (BuildId: cccc)"), libraries)?.path).toBe("/release/libfoo.so");
+    expect(matchLibrary(frame("#00 pc 10 /x/libfoo.so (BuildId: dddd)"), libraries)).toBeUndefined();
+    expect(matchLibrary(frame("#00 pc 10 /x/libbar.so"), libraries)?.path).toBe("/debug/libbar.so");
+    expect(matchLibrary(frame("#00 pc 10 /x/libfoo.so"), libraries)).toBeUndefined();
+  });
+
+  it("parses llvm-symbolizer output with inlined frames and unknown addresses", () => {
+    const output = [
+      "inlined_helper()",
+      "/src/native-lib.cpp:12:3",
+      "Java_com_example_MainActivity_crash",
+      "/src/native-lib.cpp:20:5",
+      "",
+      "??",
+      "??:0:0",
+      "",
+    ].join("\n");
+
+    const [first, second] = parseSymbolizerOutput(output);
+    expect(first).toEqual([
+      { function: "inlined_helper()", file: "/src/native-lib.cpp", line: 12, column: 3 },
+      { function: "Java_com_example_MainActivity_crash", file: "/src/native-lib.cpp", line: 20, column: 5 },
+    ]);
+    expect(second).toEqual([]);
+    expect(formatSourceLocation(first[0])).toBe("inlined_helper() at /src/native-lib.cpp:12:3");
+  });
+
+  it.skipIf(process.platform === "win32")("symbolicates tombstone frames with llvm-symbolizer", async () => {
+    const dir = createProject();
+    const symbolizerPath = join(dir, "llvm-symbolizer");
+    // Echo the library and address back so the test can see how it was called
+    writeFileSync(
+      symbolizerPath,
+      `#!/bin/sh\nobj=""\nfor arg in "$@"; do\n  case "$arg" in\n    --obj=*) obj="\${arg#--obj=}" ;;\n    0x*) printf '%s\\n%s:7:1\\n\\n' "crash_at_$arg" "$obj" ;;\n  esac\ndone\n`,
+    );
+    chmodSync(symbolizerPath, 0o755);
+
+    const tombstone = [
+      "signal 11 (SIGSEGV), code 1 (SEGV_MAPERR), fault addr 0x0",
+      "backtrace:",
+      "      #00 pc 000000000004e4c4  /data/app/lib/arm64/libfoo.so (BuildId: aaaa)",
+      "      #01 pc 0000000000001000  /data/app/lib/arm64/libother.so (BuildId: ffff)",
+      "      #02 pc 00000000000a1b2c  /apex/com.android.art/lib64/libart.so (art_quick_generic_jni_trampoline+140)",
+    ].join("\n");
+
+    const result = await symbolicateTombstone(tombstone, {
+      symbolizerPath,
+      libraries: [{ path: "/out/libfoo.so", name: "libfoo.so", buildId: "aaaa" }],
+    });
+
+    expect(result.text.split("\n")).toEqual([
+      "signal 11 (SIGSEGV), code 1 (SEGV_MAPERR), fault addr 0x0",
+      "backtrace:",
+      "      #00 pc 000000000004e4c4  /data/app/lib/arm64/libfoo.so (BuildId: aaaa)",
+      "          crash_at_0x000000000004e4c4 at /out/libfoo.so:7:1",
+      "      #01 pc 0000000000001000  /data/app/lib/arm64/libother.so (BuildId: ffff)",
+      "      #02 pc 00000000000a1b2c  /apex/com.android.art/lib64/libart.so (art_quick_generic_jni_trampoline+140)",
+    ]);
+    expect(result.frameCount).toBe(3);
+    expect(result.resolvedCount).toBe(1);
+    expect(result.unmatchedLibraries).toEqual(["libother.so"]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+
+import { isNativeFrame, parseNativeFrame } from "../src/index.js";
+
+describe("parseNativeFrame", () => {
+  it("parses a tombstone frame with symbol and build ID", () => {
+    const line =
+      "      #00 pc 000000000004e4c4  /data/app/~~Xy==/com.example-Ab==/lib/arm64/libnative-lib.so (Java_com_example_MainActivity_crash+20) (BuildId: 1B2C3D4E)";
+
+    expect(parseNativeFrame(line)).toEqual({
+      index: 0,
+      pc: "000000000004e4c4",
+      library: "/data/app/~~Xy==/com.example-Ab==/lib/arm64/libnative-lib.so",
+      libraryName: "libnative-lib.so",
+      symbol: "Java_com_example_MainActivity_crash+20",
+      buildId: "1b2c3d4e",
+    });
+  });
+
+  it("parses frames from a logcat dump, with nested parentheses and APK-embedded libraries", () => {
+    const line =
+      "DEBUG   : #03 pc 00012a40  /data/app/base.apk!libfoo.so (offset 0x1000) (foo::bar(int)+8) (BuildId: abcd)";
+
+    expect(parseNativeFrame(line)).toMatchObject({
+      index: 3,
+      pc: "00012a40",
+      library: "/data/app/base.apk!libfoo.so",
+      libraryName: "libfoo.so",
+      symbol: "foo::bar(int)+8",
+      buildId: "abcd",
+    });
+  });
+
+  it("parses frames without symbols or build IDs", () => {
+    expect(parseNativeFrame("    #01 pc 0000000000001234  /system/lib64/libc.so")).toEqual({
+      index: 1,
+      pc: "0000000000001234",
+      library: "/system/lib64/libc.so",
+      libraryName: "libc.so",
+    });
+  });
+
+  it("ignores other tombstone lines", () => {
+    expect(isNativeFrame("signal 11 (SIGSEGV), code 1 (SEGV_MAPERR), fault addr 0x0")).toBe(false);
+    expect(isNativeFrame("    x0  0000000000000000  x1  0000007fc8e3f2a0")).toBe(false);
+    expect(parseNativeFrame("backtrace:")).toBeUndefined();
+  });
+});